@@ -0,0 +1,446 @@
+/**
+ * Agent REST API - 用量、会话与工具确认端点
+ *
+ * 由 Web 模式的 HTTP 服务器挂载 (node:http)，未匹配的请求交还给调用方。
+ * 调用者身份只来自 authenticate 选项 (未配置时均为匿名)，请求体中的 userId 不被信任；
+ * 会话端点只能访问调用者自己的会话 (匿名调用者只能访问无用户的会话)，
+ * 工具确认只能由发起请求的已认证用户查看与决定：
+ * - GET    /api/v1/usage?sessionId=&since=
+ * - GET    /api/v1/sessions?status=active|archived|all&limit=&offset=
+ * - POST   /api/v1/sessions
+ * - GET    /api/v1/sessions/:id
+ * - PATCH  /api/v1/sessions/:id                 (标题、上下文、归档)
+ * - DELETE /api/v1/sessions/:id
+ * - GET    /api/v1/sessions/:id/messages?limit=&before=
+ * - POST   /api/v1/sessions/:id/messages
+ * - GET    /api/v1/confirmations?sessionId=
+ * - POST   /api/v1/confirmations/:id/approve|deny
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { UsageLedger } from '../execution/usage-ledger.js';
+import { SessionStoreError } from '../execution/session-store.js';
+import type { SessionStore, SessionRecord, ListSessionsOptions } from '../execution/session-store.js';
+import type { ConfirmationBroker } from '../execution/confirmation-broker.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** API 依赖的运行时服务 (未配置的服务对应端点返回 503) */
+export interface AgentApiDependencies {
+  usageLedger?: UsageLedger | null;
+  sessionStore?: SessionStore | null;
+  confirmationBroker?: ConfirmationBroker | null;
+}
+
+/**
+ * 认证函数 - 返回已认证的用户 ID，匿名请求返回 null
+ */
+export type Authenticator = (req: IncomingMessage) => string | null | Promise<string | null>;
+
+export interface AgentApiOptions {
+  /** 路径前缀，默认 /api/v1 */
+  prefix?: string;
+  /** 调用者认证；未配置时所有请求视为匿名 */
+  authenticate?: Authenticator;
+  /** 请求体上限 (字节)，超出时返回 413，默认 1 MiB */
+  maxBodyBytes?: number;
+}
+
+const DEFAULT_PREFIX = '/api/v1';
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const SESSION_STATUSES = ['active', 'archived', 'all'];
+/** 客户端只能追加用户消息，system 与 assistant 消息只由 Agent 产生 */
+const MESSAGE_ROLES = ['user'];
+
+/** 以 HTTP 状态码返回给客户端的错误 */
+export class AgentApiError extends Error {
+  public readonly status: number;
+  public readonly code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = 'AgentApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// Agent API
+// ============================================================================
+
+export class AgentApi {
+  private deps: AgentApiDependencies;
+  private prefix: string;
+  private authenticate: Authenticator;
+  private maxBodyBytes: number;
+
+  constructor(deps: AgentApiDependencies, options: AgentApiOptions = {}) {
+    this.deps = deps;
+    this.prefix = options.prefix ?? DEFAULT_PREFIX;
+    this.authenticate = options.authenticate ?? (() => null);
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  }
+
+  /**
+   * 处理请求；路径不属于本 API 时返回 false
+   */
+  async handle(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    if (!url.pathname.startsWith(`${this.prefix}/`)) {
+      return false;
+    }
+
+    const method = req.method ?? 'GET';
+
+    try {
+      const segments = url.pathname
+        .slice(this.prefix.length + 1)
+        .split('/')
+        .map(decodeSegment);
+      const caller = await this.authenticate(req);
+      let body: unknown;
+      switch (segments[0]) {
+        case 'usage':
+          body = segments.length === 1 && method === 'GET' ? await this.getUsage(url) : undefined;
+          break;
+        case 'sessions':
+          body = await this.handleSessions(req, res, url, segments.slice(1), method, caller);
+          break;
+        case 'confirmations':
+          body = await this.handleConfirmations(req, url, segments.slice(1), method, caller);
+          break;
+        default:
+          return false;
+      }
+
+      if (body === undefined) {
+        return false;
+      }
+      if (!res.headersSent) {
+        sendJson(res, 200, body);
+      }
+    } catch (error) {
+      if (error instanceof AgentApiError) {
+        sendJson(res, error.status, { error: error.message, code: error.code });
+      } else if (error instanceof SessionStoreError) {
+        sendJson(res, error.code === 'SESSION_NOT_FOUND' ? 404 : 409, { error: error.message, code: error.code });
+      } else {
+        throw error;
+      }
+    }
+    return true;
+  }
+
+  // ============================================================================
+  // 用量
+  // ============================================================================
+
+  private async getUsage(url: URL): Promise<unknown> {
+    const ledger = this.require(this.deps.usageLedger, 'Usage ledger', 'USAGE_UNAVAILABLE');
+    const since = url.searchParams.get('since') ?? undefined;
+    if (since && Number.isNaN(Date.parse(since))) {
+      throw new AgentApiError('Invalid query parameter: since', 400, 'VALIDATION_ERROR');
+    }
+
+    const summary = await ledger.getSummary({
+      sessionId: url.searchParams.get('sessionId') ?? undefined,
+      since: since ? new Date(since).toISOString() : undefined,
+    });
+    return { ...summary, budget: ledger.getBudget() };
+  }
+
+  // ============================================================================
+  // 会话
+  // ============================================================================
+
+  private async handleSessions(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    segments: string[],
+    method: string,
+    caller: string | null
+  ): Promise<unknown> {
+    const store = this.require(this.deps.sessionStore, 'Session store', 'SESSIONS_UNAVAILABLE');
+    const [id, sub] = segments;
+
+    if (id === undefined) {
+      if (method === 'GET') {
+        const status = url.searchParams.get('status') ?? 'active';
+        if (!SESSION_STATUSES.includes(status)) {
+          throw new AgentApiError('Invalid query parameter: status', 400, 'VALIDATION_ERROR');
+        }
+        return store.listSessions({
+          userId: caller,
+          status: status as ListSessionsOptions['status'],
+          limit: intParam(url, 'limit'),
+          offset: intParam(url, 'offset'),
+        });
+      }
+      if (method === 'POST') {
+        const body = await readJson(req, this.maxBodyBytes);
+        const session = await store.createSession({
+          id: stringField(body, 'id'),
+          userId: caller ?? undefined,
+          agentId: stringField(body, 'agentId'),
+          title: stringField(body, 'title'),
+          context: objectField(body, 'context'),
+        });
+        sendJson(res, 201, session);
+        return session;
+      }
+      return undefined;
+    }
+
+    const session = await store.getSession(id);
+    if (session && (session.userId ?? null) !== caller) {
+      // 不区分“不存在”与“属于他人”，避免泄露会话 ID
+      throw new AgentApiError(`Session not found: ${id}`, 404, 'SESSION_NOT_FOUND');
+    }
+
+    if (sub === undefined && segments.length === 1) {
+      switch (method) {
+        case 'GET':
+          return requireSession(session, id);
+        case 'PATCH': {
+          requireSession(session, id);
+          const body = await readJson(req, this.maxBodyBytes);
+          const archived = booleanField(body, 'archived');
+          let updated = await store.updateSession(id, {
+            title: stringField(body, 'title'),
+            context: objectField(body, 'context'),
+          });
+          if (archived === true && updated.status !== 'archived') {
+            updated = await store.archiveSession(id);
+          } else if (archived === false && updated.status === 'archived') {
+            updated = await store.restoreSession(id);
+          }
+          return updated;
+        }
+        case 'DELETE':
+          requireSession(session, id);
+          if (!await store.deleteSession(id)) {
+            throw new AgentApiError(`Session not found: ${id}`, 404, 'SESSION_NOT_FOUND');
+          }
+          return { id, status: 'deleted', deletedAt: new Date().toISOString() };
+        default:
+          return undefined;
+      }
+    }
+
+    if (sub === 'messages' && segments.length === 2) {
+      if (method === 'GET') {
+        const before = intParam(url, 'before');
+        if (before !== undefined && Number.isNaN(before)) {
+          throw new AgentApiError('Invalid query parameter: before', 400, 'VALIDATION_ERROR');
+        }
+        requireSession(session, id);
+        return store.getMessages(id, { limit: intParam(url, 'limit'), before });
+      }
+      if (method === 'POST') {
+        const body = await readJson(req, this.maxBodyBytes);
+        const content = stringField(body, 'content');
+        const role = stringField(body, 'role') ?? 'user';
+        if (!content) {
+          throw new AgentApiError('Missing required field: content', 400, 'VALIDATION_ERROR');
+        }
+        if (!MESSAGE_ROLES.includes(role)) {
+          throw new AgentApiError('Invalid field: role', 400, 'VALIDATION_ERROR');
+        }
+        if (!session) {
+          // 追加消息时隐式创建的会话同样归属调用者
+          await store.createSession({ id, userId: caller ?? undefined });
+        }
+        const [message] = await store.appendMessages(id, [{ role: 'user', content }]);
+        sendJson(res, 201, message);
+        return message;
+      }
+    }
+
+    return undefined;
+  }
+
+  // ============================================================================
+  // 工具确认
+  // ============================================================================
+
+  private async handleConfirmations(
+    req: IncomingMessage,
+    url: URL,
+    segments: string[],
+    method: string,
+    caller: string | null
+  ): Promise<unknown> {
+    const broker = this.require(this.deps.confirmationBroker, 'Confirmation broker', 'CONFIRMATIONS_UNAVAILABLE');
+    const [id, action] = segments;
+
+    if (id === undefined && method === 'GET') {
+      return broker.getPending({
+        sessionId: url.searchParams.get('sessionId') ?? undefined,
+        userId: requireCaller(caller),
+      });
+    }
+
+    if (segments.length === 2 && (action === 'approve' || action === 'deny') && method === 'POST') {
+      const user = requireCaller(caller);
+      // 他人的请求与不存在的请求同样返回 404
+      if (broker.get(id)?.userId !== user) {
+        throw new AgentApiError(`No pending confirmation: ${id}`, 404, 'CONFIRMATION_NOT_FOUND');
+      }
+      const reason = stringField(await readJson(req, this.maxBodyBytes), 'reason');
+      const by = `rest:${user}`;
+      const settled = action === 'approve'
+        ? broker.approve(id, { by, reason })
+        : broker.deny(id, { by, reason });
+      if (!settled) {
+        throw new AgentApiError(`No pending confirmation: ${id}`, 404, 'CONFIRMATION_NOT_FOUND');
+      }
+      return { id, decision: action === 'approve' ? 'approved' : 'denied' };
+    }
+
+    return undefined;
+  }
+
+  private require<T>(service: T | null | undefined, name: string, code: string): T {
+    if (!service) {
+      throw new AgentApiError(`${name} is not configured`, 503, code);
+    }
+    return service;
+  }
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function requireCaller(caller: string | null): string {
+  if (caller === null) {
+    throw new AgentApiError('Authentication required', 401, 'AUTHENTICATION_REQUIRED');
+  }
+  return caller;
+}
+
+function requireSession(session: SessionRecord | null, id: string): SessionRecord {
+  if (!session) {
+    throw new AgentApiError(`Session not found: ${id}`, 404, 'SESSION_NOT_FOUND');
+  }
+  return session;
+}
+
+function intParam(url: URL, name: string): number | undefined {
+  const value = url.searchParams.get(name);
+  return value ? parseInt(value, 10) : undefined;
+}
+
+/** 解码路径段；非法的百分号编码返回 400 */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new AgentApiError('Invalid URL encoding in path', 400, 'VALIDATION_ERROR');
+  }
+}
+
+/** 读取 JSON 对象请求体 (空请求体视为 {})；超出 maxBytes 时返回 413 */
+function readJson(req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new AgentApiError(`Request body exceeds ${maxBytes} bytes`, 413, 'PAYLOAD_TOO_LARGE');
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // 丢弃其余请求体，由调用方返回 413
+        req.off('data', onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => {
+      const data = Buffer.concat(chunks).toString('utf-8');
+      if (!data.trim()) {
+        resolve({});
+        return;
+      }
+      let body: unknown;
+      try {
+        body = JSON.parse(data);
+      } catch {
+        reject(new AgentApiError('Invalid JSON body', 400, 'VALIDATION_ERROR'));
+        return;
+      }
+      if (!isRecord(body)) {
+        reject(new AgentApiError('Request body must be a JSON object', 400, 'VALIDATION_ERROR'));
+        return;
+      }
+      resolve(body);
+    });
+    req.on('error', reject);
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** 可选字符串字段 (null 视为未提供) */
+function stringField(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new AgentApiError(`Invalid field: ${name}`, 400, 'VALIDATION_ERROR');
+  }
+  return value;
+}
+
+/** 可选布尔字段 */
+function booleanField(body: Record<string, unknown>, name: string): boolean | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'boolean') {
+    throw new AgentApiError(`Invalid field: ${name}`, 400, 'VALIDATION_ERROR');
+  }
+  return value;
+}
+
+/** 可选 JSON 对象字段 */
+function objectField(body: Record<string, unknown>, name: string): Record<string, unknown> | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw new AgentApiError(`Invalid field: ${name}`, 400, 'VALIDATION_ERROR');
+  }
+  return value;
+}
+
+// ============================================================================
+// 工厂函数
+// ============================================================================
+
+export function createAgentApi(deps: AgentApiDependencies, options?: AgentApiOptions): AgentApi {
+  return new AgentApi(deps, options);
+}
+
+export default AgentApi;
@@ -313,86 +313,7 @@ export function setupRoutes(app: Application, config: ConfigManager): void {
     }));
   });
 
-  // ═══════════════════════════════════════════════════════════════
-  // 会话管理路由
-  // ═══════════════════════════════════════════════════════════════
-
-  /**
-   * 创建会话
-   * POST /api/v1/sessions
-   */
-  app.post(`${apiPath}/sessions`, (req: Request, res: Response) => {
-    const { agentId, context } = req.body;
-
-    const session = {
-      id: `session-${Date.now()}`,
-      agentId,
-      status: 'active',
-      context: context || {},
-      createdAt: new Date().toISOString(),
-    };
-
-    res.status(201).json(createResponse(session));
-  });
-
-  /**
-   * 获取会话
-   * GET /api/v1/sessions/:id
-   */
-  app.get(`${apiPath}/sessions/:id`, (req: Request, res: Response) => {
-    const { id } = req.params;
-
-    const session = {
-      id,
-      agentId: 'agent-1',
-      status: 'active',
-      messages: [],
-      createdAt: new Date().toISOString(),
-    };
-
-    res.json(createResponse(session));
-  });
-
-  /**
-   * 发送消息到会话
-   * POST /api/v1/sessions/:id/messages
-   */
-  app.post(`${apiPath}/sessions/:id/messages`, (req: Request, res: Response) => {
-    const { id } = req.params;
-    const { content, type = 'text' } = req.body;
-
-    if (!content) {
-      res.status(400).json(createErrorResponse(
-        'Missing required field: content',
-        'VALIDATION_ERROR'
-      ));
-      return;
-    }
-
-    const message = {
-      id: `msg-${Date.now()}`,
-      sessionId: id,
-      content,
-      type,
-      role: 'user',
-      timestamp: new Date().toISOString(),
-    };
-
-    res.status(201).json(createResponse(message));
-  });
-
-  /**
-   * 结束会话
-   * DELETE /api/v1/sessions/:id
-   */
-  app.delete(`${apiPath}/sessions/:id`, (req: Request, res: Response) => {
-    const { id } = req.params;
-    res.json(createResponse({
-      id,
-      status: 'ended',
-      endedAt: new Date().toISOString(),
-    }));
-  });
+  // 会话、用量与工具确认路由由 Web 模式的服务器提供 (adapters/agent-api.ts)
 
   // ═══════════════════════════════════════════════════════════════
   // 工具路由
@@ -514,10 +435,6 @@ export function setupRoutes(app: Application, config: ConfigManager): void {
         { method: 'POST', path: '/tasks', description: 'Create new task' },
         { method: 'GET', path: '/tasks/:id', description: 'Get task details' },
         { method: 'POST', path: '/tasks/:id/cancel', description: 'Cancel task' },
-        { method: 'POST', path: '/sessions', description: 'Create session' },
-        { method: 'GET', path: '/sessions/:id', description: 'Get session' },
-        { method: 'POST', path: '/sessions/:id/messages', description: 'Send message' },
-        { method: 'DELETE', path: '/sessions/:id', description: 'End session' },
         { method: 'GET', path: '/tools', description: 'List available tools' },
         { method: 'POST', path: '/tools/execute', description: 'Execute tool' },
         { method: 'GET', path: '/logs', description: 'Get system logs' },
@@ -12,6 +12,12 @@
 import readline from 'readline';
 import { EventEmitter } from 'events';
 import os from 'os';
+import type { ChatStreamEvent } from '../unified-agent.js';
+import type {
+  ConfirmationBroker,
+  ConfirmationRequest,
+  ConfirmationResolution,
+} from '../execution/confirmation-broker.js';
 
 export interface TUIAdapterConfig {
   prompt?: string;
@@ -19,6 +25,7 @@ export interface TUIAdapterConfig {
   enableHistory?: boolean;
   historySize?: number;
   showTimestamps?: boolean;
+  chatSessionId?: string;
 }
 
 export interface TUICommand {
@@ -36,6 +43,8 @@ export interface IUnifiedAgent {
   handleCommand(command: string, args: string[]): Promise<unknown>;
   getSystemStatus(): Record<string, unknown>;
   getHealthStatus(): { status: string; components: Record<string, string> };
+  chatStream?(sessionId: string, message: string): AsyncIterable<ChatStreamEvent>;
+  cancelChat?(sessionId: string): boolean;
 }
 
 export class TUIAdapter extends EventEmitter {
@@ -46,6 +55,7 @@ export class TUIAdapter extends EventEmitter {
   private commandAliases: Map<string, string> = new Map();
   private history: string[] = [];
   private isRunning = false;
+  private chatActive = false;
   private originalStdout: NodeJS.WriteStream | null = null;
 
   // ANSI颜色代码
@@ -72,6 +82,7 @@ export class TUIAdapter extends EventEmitter {
       enableHistory: true,
       historySize: 1000,
       showTimestamps: false,
+      chatSessionId: `tui-${process.pid}`,
       ...config,
     };
 
@@ -157,6 +168,15 @@ export class TUIAdapter extends EventEmitter {
       handler: (args) => this.showHistory(args),
     });
 
+    // 流式对话
+    this.registerCommand({
+      name: 'chat',
+      description: '与模型对话 (流式输出，Ctrl+C 取消)',
+      usage: 'chat <message>',
+      aliases: ['c'],
+      handler: (args) => this.streamChat(args.join(' ')),
+    });
+
     // 回声命令（测试用）
     this.registerCommand({
       name: 'echo',
@@ -189,15 +209,14 @@ export class TUIAdapter extends EventEmitter {
 
     // 设置事件处理
     this.rl.on('line', this.handleInput.bind(this));
+    this.rl.on('SIGINT', this.handleInterrupt.bind(this));
     this.rl.on('close', () => {
       this.emit('close');
       this.stop();
     });
 
     // 处理SIGINT
-    process.on('SIGINT', () => {
-      this.stop();
-    });
+    process.on('SIGINT', this.handleInterrupt.bind(this));
 
     // 显示欢迎信息
     this.showBanner();
@@ -228,6 +247,114 @@ export class TUIAdapter extends EventEmitter {
     process.exit(0);
   }
 
+  /**
+   * 处理中断：对话进行中时取消对话，否则退出
+   */
+  private handleInterrupt(): void {
+    if (this.chatActive && this.agent.cancelChat?.(this.config.chatSessionId)) {
+      return;
+    }
+    this.stop();
+  }
+
+  /**
+   * 流式对话 - 逐步渲染 token 与工具调用
+   */
+  async streamChat(message: string): Promise<void> {
+    if (!message) {
+      this.log('warn', '用法: chat <message>');
+      return;
+    }
+    if (!this.agent.chatStream) {
+      this.log('error', '当前Agent不支持流式对话');
+      return;
+    }
+
+    this.chatActive = true;
+    try {
+      for await (const event of this.agent.chatStream(this.config.chatSessionId, message)) {
+        this.renderChatEvent(event);
+      }
+    } finally {
+      this.chatActive = false;
+    }
+  }
+
+  /**
+   * 启用工具确认：本终端会话发起的确认请求以 [y/N] 提示询问
+   */
+  enableConfirmations(broker: ConfirmationBroker): void {
+    const prompts: Map<string, AbortController> = new Map();
+
+    broker.on('requested', (request: ConfirmationRequest) => {
+      if (request.sessionId !== this.config.chatSessionId || !this.rl) {
+        return;
+      }
+
+      const controller = new AbortController();
+      prompts.set(request.id, controller);
+      console.log();
+      this.rl.question(
+        this.colorize(`⚠ ${request.message} [y/N] `, 'yellow'),
+        { signal: controller.signal },
+        (answer) => {
+          prompts.delete(request.id);
+          if (/^y(es)?$/i.test(answer.trim())) {
+            broker.approve(request.id, { by: 'tui' });
+          } else {
+            broker.deny(request.id, { by: 'tui', reason: 'Denied in terminal' });
+          }
+        }
+      );
+    });
+
+    // 在其他通道批准、超时或取消时收起提示
+    broker.on('resolved', ({ resolution }: { resolution: ConfirmationResolution }) => {
+      const controller = prompts.get(resolution.id);
+      if (controller) {
+        prompts.delete(resolution.id);
+        controller.abort();
+        this.log('warn', `确认请求已结束: ${resolution.decision}`);
+      }
+    });
+  }
+
+  /**
+   * 渲染流式对话事件
+   */
+  private renderChatEvent(event: ChatStreamEvent): void {
+    switch (event.type) {
+      case 'token':
+        process.stdout.write(event.content);
+        break;
+
+      case 'tool_start':
+        console.log(`\n${this.colorize(`⚙ ${event.name} ${JSON.stringify(event.args)}`, 'gray')}`);
+        break;
+
+      case 'tool_end': {
+        const mark = event.result.success
+          ? this.colorize('✓', 'green')
+          : this.colorize(`✗ ${event.result.error}`, 'red');
+        console.log(`${mark} ${this.colorize(`${event.name} (${event.result.durationMs}ms)`, 'gray')}`);
+        break;
+      }
+
+      case 'final':
+        console.log();
+        if (event.result.finishReason === 'aborted') {
+          this.log('warn', '对话已取消');
+        } else if (event.result.finishReason === 'max_iterations') {
+          this.log('warn', '已达到最大工具调用次数');
+        }
+        console.log(this.colorize(
+          `[${event.result.usage.totalTokens} tokens, ${event.result.latencyMs}ms]`,
+          'dim'
+        ));
+        break;
+    }
+  }
+
   /**
    * 显示欢迎横幅
    */
@@ -14,6 +14,7 @@ import { createServer, Server } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
+import type { UsageTotals } from '../execution/usage-ledger.js';
 
 export interface WebAdapterConfig {
   port: number;
@@ -82,6 +83,11 @@ export interface SystemStatus {
     completed: number;
     failed: number;
   };
+  /** 模型用量 (配置用量账本时) */
+  usage?: {
+    today: UsageTotals;
+    sessions: number;
+  };
 }
 
 export interface IUnifiedAgent {
@@ -440,6 +446,20 @@ export class WebAdapter {
         }
       }
 
+      // 模型用量指标
+      if (status.usage) {
+        metrics.push(
+          '',
+          '# HELP ouroboros_model_tokens_today Model tokens used today',
+          '# TYPE ouroboros_model_tokens_today gauge',
+          `ouroboros_model_tokens_today ${status.usage.today.totalTokens}`,
+          '',
+          '# HELP ouroboros_model_cost_usd_today Estimated model cost today in USD',
+          '# TYPE ouroboros_model_cost_usd_today gauge',
+          `ouroboros_model_cost_usd_today ${status.usage.today.costUsd}`
+        );
+      }
+
       res.set('Content-Type', 'text/plain');
       res.send(metrics.join('\n'));
     } catch (error) {
@@ -7,12 +7,20 @@
  * - 连接状态监控
  * - 心跳检测
  * - 广播/单播消息
+ * - 会话归属：连接只能对话、取消与订阅自己的会话 (chat:<sessionId>)
  */
 
 import { IncomingMessage } from 'http';
 import { Server as HTTPServer } from 'http';
 import { WebSocketServer, WebSocket, RawData } from 'ws';
 import { EventEmitter } from 'events';
+import type { ChatStreamEvent, ChatOptions } from '../unified-agent.js';
+import type { Authenticator } from './agent-api.js';
+import type {
+  ConfirmationBroker,
+  ConfirmationRequest,
+  ConfirmationResolution,
+} from '../execution/confirmation-broker.js';
 
 export interface WebSocketConfig {
   path?: string;
@@ -20,6 +28,8 @@ export interface WebSocketConfig {
   heartbeatTimeout?: number;
   maxConnections?: number;
   perMessageDeflate?: boolean;
+  /** 连接认证 (升级请求)；未配置时所有连接视为匿名 */
+  authenticate?: Authenticator;
 }
 
 export interface WSMessage {
@@ -37,8 +47,24 @@ export interface ConnectionInfo {
   isAlive: boolean;
   metadata: Record<string, unknown>;
   subscriptions: Set<string>;
+  /** 已认证的用户 ID，匿名连接为 null */
+  userId: string | null;
 }
 
+/** 支持流式对话的 Agent 接口 */
+export interface IChatStreamAgent {
+  chatStream(sessionId: string, message: string, options?: ChatOptions): AsyncIterable<ChatStreamEvent>;
+  cancelChat(sessionId: string): boolean;
+}
+
+/** 查询已持久化会话的归属 (通常为 SessionStore) */
+export interface ISessionLookup {
+  getSession(id: string): Promise<{ userId?: string } | null>;
+}
+
+/** 会话对话频道的前缀 */
+const CHAT_CHANNEL_PREFIX = 'chat:';
+
 export type MessageHandler = (message: WSMessage, connection: ConnectionInfo) => void | Promise<void>;
 
 export class WebSocketManager extends EventEmitter {
@@ -48,6 +74,11 @@ export class WebSocketManager extends EventEmitter {
   private messageHandlers: Map<string, MessageHandler> = new Map();
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private connectionCounter = 0;
+  /** 升级请求 -> 认证结果 */
+  private identities: WeakMap<IncomingMessage, string | null> = new WeakMap();
+  /** 由本管理器中的连接开始的会话 -> 开始它的连接 */
+  private sessionClaims: Map<string, string> = new Map();
+  private sessions: ISessionLookup | null = null;
 
   constructor(config: WebSocketConfig = {}) {
     super();
@@ -57,6 +88,7 @@ export class WebSocketManager extends EventEmitter {
       heartbeatTimeout: 60000,   // 60秒超时
       maxConnections: 100,
       perMessageDeflate: false,
+      authenticate: () => null,
       ...config,
     };
   }
@@ -69,6 +101,15 @@ export class WebSocketManager extends EventEmitter {
       server,
       path: this.config.path,
       perMessageDeflate: this.config.perMessageDeflate,
+      verifyClient: (info, done) => {
+        Promise.resolve(this.config.authenticate(info.req)).then(
+          userId => {
+            this.identities.set(info.req, userId);
+            done(true);
+          },
+          () => done(false, 401, 'Unauthorized')
+        );
+      },
     });
 
     this.wss.on('connection', this.handleConnection.bind(this));
@@ -107,6 +148,7 @@ export class WebSocketManager extends EventEmitter {
         userAgent: req.headers['user-agent'] || 'unknown',
       },
       subscriptions: new Set(),
+      userId: this.identities.get(req) ?? null,
     };
 
     this.connections.set(connectionId, connection);
@@ -163,14 +205,7 @@ export class WebSocketManager extends EventEmitter {
 
       // 处理订阅消息
       if (message.type === 'subscribe') {
-        const channels = message.payload as string[] || [];
-        for (const channel of channels) {
-          connection.subscriptions.add(channel);
-        }
-        this.sendToConnection(connection.id, {
-          type: 'subscribed',
-          payload: { channels: Array.from(connection.subscriptions) },
-        });
+        void this.subscribe(connection, message.payload as string[] || []);
         return;
       }
 
@@ -204,12 +239,61 @@ export class WebSocketManager extends EventEmitter {
     }
   }
 
+  /**
+   * 订阅频道；会话频道 chat:<sessionId> 需要会话归属于该连接
+   */
+  private async subscribe(connection: ConnectionInfo, channels: string[]): Promise<void> {
+    const denied: string[] = [];
+    for (const channel of channels) {
+      const sessionId = channel.startsWith(CHAT_CHANNEL_PREFIX) ? channel.slice(CHAT_CHANNEL_PREFIX.length) : null;
+      if (sessionId !== null && !await this.canAccessSession(connection, sessionId)) {
+        denied.push(channel);
+        continue;
+      }
+      connection.subscriptions.add(channel);
+    }
+    this.sendToConnection(connection.id, {
+      type: 'subscribed',
+      payload: { channels: Array.from(connection.subscriptions), ...(denied.length > 0 ? { denied } : {}) },
+    });
+  }
+
+  /**
+   * 连接能否访问会话：
+   * - 由本管理器中的连接开始的会话，只属于该连接 (或同一已认证用户的连接)
+   * - 已持久化的会话只属于其所属用户，匿名会话不能被其他连接接管
+   * - 新会话由首个访问的连接占用 (claim 为 false 时不占用，视为无权访问)，连接断开时释放
+   */
+  private async canAccessSession(connection: ConnectionInfo, sessionId: string, claim = true): Promise<boolean> {
+    const claimedBy = this.sessionClaims.get(sessionId);
+    if (claimedBy !== undefined) {
+      const owner = this.connections.get(claimedBy);
+      return claimedBy === connection.id
+        || (connection.userId !== null && owner?.userId === connection.userId);
+    }
+
+    const stored = this.sessions ? await this.sessions.getSession(sessionId) : null;
+    if (stored) {
+      return connection.userId !== null && stored.userId === connection.userId;
+    }
+    if (!claim) {
+      return false;
+    }
+    // 等待查询期间可能已被其他连接占用
+    if (this.sessionClaims.has(sessionId)) {
+      return this.sessionClaims.get(sessionId) === connection.id;
+    }
+    this.sessionClaims.set(sessionId, connection.id);
+    return true;
+  }
+
   /**
    * 处理断开连接
    */
   private handleDisconnect(connectionId: string, code: number, reason: Buffer): void {
     const connection = this.connections.get(connectionId);
     if (connection) {
+      this.releaseSessions(connectionId);
       this.connections.delete(connectionId);
       this.emit('disconnected', { connectionId, code, reason: reason.toString() });
       console.log(`📡 Client disconnected: ${connectionId} (${this.connections.size} total)`);
@@ -228,6 +312,7 @@ export class WebSocketManager extends EventEmitter {
         if (now - connection.lastPing > this.config.heartbeatTimeout) {
           console.log(`📡 Connection timeout: ${id}`);
           connection.socket.terminate();
+          this.releaseSessions(id);
           this.connections.delete(id);
           this.emit('timeout', { connectionId: id });
           continue;
@@ -242,6 +327,17 @@ export class WebSocketManager extends EventEmitter {
     }, this.config.heartbeatInterval);
   }
 
+  /**
+   * 释放连接占用的会话
+   */
+  private releaseSessions(connectionId: string): void {
+    for (const [sessionId, claimedBy] of this.sessionClaims) {
+      if (claimedBy === connectionId) {
+        this.sessionClaims.delete(sessionId);
+      }
+    }
+  }
+
   /**
    * 注册消息处理器
    */
@@ -363,6 +459,148 @@ export class WebSocketManager extends EventEmitter {
     });
   }
 
+  /**
+   * 推送流式对话事件到会话频道
+   */
+  pushChatEvent(event: ChatStreamEvent): number {
+    return this.broadcastToChannel(chatChannel(event.sessionId), {
+      type: `chat_${event.type}`,
+      payload: event,
+    });
+  }
+
+  /**
+   * 启用流式对话
+   *
+   * 客户端消息：
+   * - chat: { sessionId, message } 开始一轮对话，自动订阅 chat:<sessionId> 频道
+   * - chat_cancel: { sessionId } 取消正在进行的对话 (映射到 ModelEngine.abort)
+   * 两者都要求会话归属于该连接；sessions 用于查询已持久化会话的所属用户，
+   * 对话以连接的已认证用户身份进行 (匿名连接的会话无用户)
+   */
+  enableChatStreaming(agent: IChatStreamAgent, sessions: ISessionLookup | null = null): void {
+    this.sessions = sessions;
+
+    this.registerHandler('chat', async (message, connection) => {
+      const { sessionId, message: text } = (message.payload || {}) as {
+        sessionId?: string;
+        message?: string;
+      };
+
+      if (!sessionId || !text) {
+        this.sendToConnection(connection.id, {
+          type: 'chat_error',
+          payload: { sessionId, message: 'sessionId and message are required' },
+        });
+        return;
+      }
+
+      if (!await this.canAccessSession(connection, sessionId)) {
+        this.sendToConnection(connection.id, {
+          type: 'chat_error',
+          payload: { sessionId, message: `Session is not accessible: ${sessionId}` },
+        });
+        return;
+      }
+      connection.subscriptions.add(chatChannel(sessionId));
+
+      try {
+        const options = connection.userId !== null ? { userId: connection.userId } : {};
+        for await (const event of agent.chatStream(sessionId, text, options)) {
+          this.pushChatEvent(event);
+        }
+      } catch (error) {
+        this.broadcastToChannel(chatChannel(sessionId), {
+          type: 'chat_error',
+          payload: {
+            sessionId,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+
+    this.registerHandler('chat_cancel', async (message, connection) => {
+      const { sessionId } = (message.payload || {}) as { sessionId?: string };
+      const cancelled = sessionId && await this.canAccessSession(connection, sessionId)
+        ? agent.cancelChat(sessionId)
+        : false;
+
+      this.sendToConnection(connection.id, {
+        type: 'chat_cancelled',
+        payload: { sessionId, cancelled },
+      });
+    });
+  }
+
+  /**
+   * 启用工具确认
+   *
+   * 确认请求推送到发起会话的频道 chat:<sessionId>；无会话时推送给订阅了 confirmations 频道、
+   * 且已认证为发起用户的连接：
+   * - 服务端消息: confirmation_required / confirmation_resolved
+   * - 客户端消息: confirmation_response { id, approved, reason? }
+   * 只有会话归属于该连接 (无会话时为发起用户本人) 的连接可以决定，决定者由服务端记录
+   */
+  enableConfirmations(broker: ConfirmationBroker): void {
+    const notify = (request: ConfirmationRequest, message: WSMessage) => {
+      if (request.sessionId) {
+        this.broadcastToChannel(chatChannel(request.sessionId), message);
+        return;
+      }
+      for (const connection of this.connections.values()) {
+        if (connection.subscriptions.has('confirmations') && isRequester(connection, request)) {
+          this.sendToConnection(connection.id, { ...message });
+        }
+      }
+    };
+
+    broker.on('requested', (request: ConfirmationRequest) => {
+      notify(request, {
+        type: 'confirmation_required',
+        payload: request,
+      });
+    });
+
+    broker.on('resolved', ({ request, resolution }: {
+      request: ConfirmationRequest;
+      resolution: ConfirmationResolution;
+    }) => {
+      notify(request, {
+        type: 'confirmation_resolved',
+        payload: { ...resolution, sessionId: request.sessionId, toolName: request.toolName },
+      });
+    });
+
+    this.registerHandler('confirmation_response', async (message, connection) => {
+      const { id, approved, reason } = (message.payload || {}) as {
+        id?: string;
+        approved?: boolean;
+        reason?: string;
+      };
+
+      const request = id ? broker.get(id) : undefined;
+      const allowed = request !== undefined && (
+        request.sessionId
+          ? await this.canAccessSession(connection, request.sessionId, false)
+            && (request.userId === undefined || isRequester(connection, request))
+          : isRequester(connection, request)
+      );
+
+      const options = { by: `websocket:${connection.userId ?? connection.id}`, reason };
+      const settled = allowed
+        ? (approved === true ? broker.approve(id!, options) : broker.deny(id!, options))
+        : false;
+
+      if (!settled) {
+        this.sendToConnection(connection.id, {
+          type: 'error',
+          payload: { message: `No pending confirmation: ${id}` },
+        });
+      }
+    });
+  }
+
   /**
    * 获取连接信息
    */
@@ -409,6 +647,7 @@ export class WebSocketManager extends EventEmitter {
     const connection = this.connections.get(connectionId);
     if (connection) {
       connection.socket.close(code, reason);
+      this.releaseSessions(connectionId);
       this.connections.delete(connectionId);
     }
   }
@@ -421,6 +660,7 @@ export class WebSocketManager extends EventEmitter {
       connection.socket.close(code, reason);
     }
     this.connections.clear();
+    this.sessionClaims.clear();
   }
 
   /**
@@ -462,4 +702,18 @@ export class WebSocketManager extends EventEmitter {
   }
 }
 
+/**
+ * 连接是否已认证为确认请求的发起用户
+ */
+function isRequester(connection: ConnectionInfo, request: ConfirmationRequest): boolean {
+  return connection.userId !== null && request.userId === connection.userId;
+}
+
+/**
+ * 会话对话频道名
+ */
+export function chatChannel(sessionId: string): string {
+  return `${CHAT_CHANNEL_PREFIX}${sessionId}`;
+}
+
 export default WebSocketManager;
@@ -6,11 +6,39 @@
  * - tui: 终端交互界面模式  
  * - telegram: Telegram Bot 模式
  * - cli: 命令行模式
+ * - mcp: MCP 服务器模式 (stdio)，供 IDE 与其他 Agent 调用
  * 
  * 🐍⭕ "The Eternal Serpent Devours Itself to Be Reborn"
  */
 
 import { UnifiedAgent, UnifiedAgentConfig, ToolSkill } from './unified-agent.js';
+import { WebSocketManager } from './adapters/websocket.js';
+import { AgentApi } from './adapters/agent-api.js';
+import type { ModelProviderName } from './execution/model-engine.js';
+import { UsageLedger } from './execution/usage-ledger.js';
+import type { UsageBudget } from './execution/usage-ledger.js';
+import { createCassette } from './execution/cassette.js';
+import type { CassetteMode } from './execution/cassette.js';
+import { SessionStore } from './execution/session-store.js';
+import { ConfirmationBroker } from './execution/confirmation-broker.js';
+import { AccessControl } from './execution/access-control.js';
+import { PathPolicy } from './execution/path-policy.js';
+import { ShellSandbox } from './execution/sandbox.js';
+import { GitClient } from './execution/git-client.js';
+import { NetworkPolicy } from './execution/network-policy.js';
+import { loadPipelines } from './execution/pipeline.js';
+import { ToolResultCache } from './execution/tool-cache.js';
+import { MCPToolManager } from './execution/mcp-tool-manager.js';
+import { MCPServer, createSelfResources } from './execution/mcp-server.js';
+import { createSelfTools } from './execution/tools/self.js';
+import { createShellTools } from './execution/tools/shell.js';
+import { createHttpTools } from './execution/tools/http.js';
+import { createCodeTools } from './execution/tools/code.js';
+import { createGitTools } from './execution/tools/git.js';
+import { UnifiedSelfDescription } from './cognitive/unified-self-description.js';
+import { loadConfig as loadGlobalConfig, getConfigPathFromEnv } from './config/index.js';
+import { SQLiteConnectionPool } from './db/connection.js';
+import { MigrationManager, BUILT_IN_MIGRATIONS } from './db/migrations.js';
 import * as http from 'http';
 import * as readline from 'readline';
 import { promises as fs } from 'fs';
@@ -29,13 +57,30 @@ const TAGLINE = '🐍⭕ The Eternal Serpent Devours Itself to Be Reborn';
 // ============================================================================
 
 interface AppConfig {
-  mode: 'web' | 'tui' | 'telegram' | 'cli';
+  mode: 'web' | 'tui' | 'telegram' | 'cli' | 'mcp';
   port: number;
   host: string;
   dataDir: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   openaiApiKey?: string;
+  anthropicApiKey?: string;
   telegramToken?: string;
+  model: {
+    provider: ModelProviderName;
+    name: string;
+    baseUrl?: string;
+    apiKey?: string;
+  };
+  budget: UsageBudget;
+  /** 模型交互录制/回放 (用于复现问题对话) */
+  cassette?: {
+    path: string;
+    mode: CassetteMode;
+  };
+  /** 工具确认等待时间 (毫秒) */
+  confirmationTimeoutMs: number;
+  /** 匿名调用者的角色 (未设置时 Web 为 public，MCP 为 user，本地终端为 admin；MCP 需要 admin 时显式设置 OURO_ANONYMOUS_ROLE) */
+  anonymousRole?: string;
   memory: {
     maxMemoryCount: number;
     enableVectorization: boolean;
@@ -59,7 +104,32 @@ function loadConfig(): AppConfig {
     dataDir: process.env.OURO_DATA_DIR || './data',
     logLevel: (process.env.OURO_LOG_LEVEL as AppConfig['logLevel']) || 'info',
     openaiApiKey: process.env.OPENAI_API_KEY,
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     telegramToken: process.env.TELEGRAM_BOT_TOKEN,
+    model: {
+      provider: process.env.OURO_MODEL_PROVIDER || 'openai',
+      name: process.env.OURO_MODEL || 'gpt-4o-mini',
+      baseUrl: process.env.OURO_MODEL_BASE_URL,
+      apiKey: process.env.OURO_MODEL_API_KEY,
+    },
+    budget: {
+      dailyTokens: parseOptionalNumber(process.env.OURO_BUDGET_DAILY_TOKENS),
+      dailyCostUsd: parseOptionalNumber(process.env.OURO_BUDGET_DAILY_USD),
+      sessionTokens: parseOptionalNumber(process.env.OURO_BUDGET_SESSION_TOKENS),
+      sessionCostUsd: parseOptionalNumber(process.env.OURO_BUDGET_SESSION_USD),
+      onExceeded: process.env.OURO_BUDGET_DOWNGRADE_MODEL ? 'downgrade' : 'refuse',
+      downgradeTo: process.env.OURO_BUDGET_DOWNGRADE_MODEL
+        ? { model: process.env.OURO_BUDGET_DOWNGRADE_MODEL }
+        : undefined,
+    },
+    cassette: process.env.OURO_CASSETTE
+      ? {
+          path: process.env.OURO_CASSETTE,
+          mode: (process.env.OURO_CASSETTE_MODE as CassetteMode) || 'auto',
+        }
+      : undefined,
+    confirmationTimeoutMs: parseInt(process.env.OURO_CONFIRM_TIMEOUT_MS || '120000', 10),
+    anonymousRole: process.env.OURO_ANONYMOUS_ROLE,
     memory: {
       maxMemoryCount: parseInt(process.env.OURO_MAX_MEMORY || '10000', 10),
       enableVectorization: process.env.OURO_ENABLE_VECTORIZATION === 'true',
@@ -76,6 +146,22 @@ function loadConfig(): AppConfig {
   };
 }
 
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * 未设置 OURO_ANONYMOUS_ROLE 时匿名调用者的角色
+ *
+ * 只有本地终端默认 admin；MCP 客户端不受本进程控制，默认 user
+ */
+function defaultAnonymousRole(mode: AppConfig['mode']): string {
+  if (mode === 'tui' || mode === 'cli') return 'admin';
+  return mode === 'mcp' ? 'user' : 'public';
+}
+
 // ============================================================================
 // 日志工具
 // ============================================================================
@@ -126,7 +212,7 @@ class Logger {
 // 内置工具
 // ============================================================================
 
-function createBuiltInTools(): ToolSkill[] {
+function createBuiltInTools(pathPolicy: PathPolicy): ToolSkill[] {
   return [
     {
       name: 'file_read',
@@ -138,9 +224,10 @@ function createBuiltInTools(): ToolSkill[] {
         },
         required: ['path'],
       },
+      permissionLevel: 'user',
       execute: async (args: unknown) => {
         const { path: filePath } = args as { path: string };
-        const content = await fs.readFile(filePath, 'utf-8');
+        const content = await fs.readFile(await pathPolicy.resolve(filePath, 'read'), 'utf-8');
         return { content };
       },
     },
@@ -155,11 +242,13 @@ function createBuiltInTools(): ToolSkill[] {
         },
         required: ['path', 'content'],
       },
+      permissionLevel: 'user',
       execute: async (args: unknown) => {
         const { path: filePath, content } = args as { path: string; content: string };
-        await fs.mkdir(path.dirname(filePath), { recursive: true });
-        await fs.writeFile(filePath, content, 'utf-8');
-        return { success: true, path: filePath };
+        const resolvedPath = await pathPolicy.resolve(filePath, 'write');
+        await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+        await fs.writeFile(resolvedPath, content, 'utf-8');
+        return { success: true, path: resolvedPath };
       },
     },
     {
@@ -169,6 +258,7 @@ function createBuiltInTools(): ToolSkill[] {
         type: 'object',
         properties: {},
       },
+      permissionLevel: 'public',
       execute: async () => {
         const os = await import('os');
         return {
@@ -191,6 +281,7 @@ function createBuiltInTools(): ToolSkill[] {
         },
         required: ['query'],
       },
+      permissionLevel: 'public',
       execute: async (args: unknown) => {
         const { query } = args as { query: string };
         // 实际实现需要接入搜索引擎API
@@ -211,11 +302,14 @@ function createBuiltInTools(): ToolSkill[] {
 class WebAdapter {
   private agent: UnifiedAgent;
   private server: http.Server | null = null;
+  private wsManager: WebSocketManager | null = null;
   private logger: Logger;
+  private api: AgentApi;
 
   constructor(agent: UnifiedAgent, logger: Logger) {
     this.agent = agent;
     this.logger = logger;
+    this.api = new AgentApi(agent);
   }
 
   async start(port: number, host: string): Promise<void> {
@@ -223,6 +317,14 @@ class WebAdapter {
       this.handleRequest(req, res);
     });
 
+    // WebSocket 流式对话 (频道 chat:<sessionId>)
+    this.wsManager = new WebSocketManager();
+    this.wsManager.initialize(this.server);
+    this.wsManager.enableChatStreaming(this.agent, this.agent.sessionStore);
+    if (this.agent.confirmationBroker) {
+      this.wsManager.enableConfirmations(this.agent.confirmationBroker);
+    }
+
     return new Promise((resolve, reject) => {
       this.server!.listen(port, host, () => {
         this.logger.info(`Web server listening on ${host}:${port}`);
@@ -234,6 +336,11 @@ class WebAdapter {
   }
 
   async stop(): Promise<void> {
+    if (this.wsManager) {
+      await this.wsManager.close();
+      this.wsManager = null;
+    }
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -249,7 +356,7 @@ class WebAdapter {
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     // CORS headers
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
 
     if (req.method === 'OPTIONS') {
@@ -276,6 +383,11 @@ class WebAdapter {
         return;
       }
 
+      // 用量、会话与工具确认 (/api/v1/...)
+      if (await this.api.handle(req, res, url)) {
+        return;
+      }
+
       // Command endpoint
       if (url.pathname === '/api/command' && req.method === 'POST') {
         const body = await this.parseBody(req);
@@ -358,6 +470,7 @@ class TUIAdapter {
   private agent: UnifiedAgent;
   private logger: Logger;
   private rl: readline.Interface | null = null;
+  private chatSession: string | null = null;
 
   constructor(agent: UnifiedAgent, logger: Logger) {
     this.agent = agent;
@@ -377,6 +490,28 @@ class TUIAdapter {
 
     this.rl.prompt();
 
+    // 本终端发起的工具调用需要确认时询问 [y/N]
+    this.agent.confirmationBroker?.on('requested', (request) => {
+      if (!this.rl || request.sessionId !== this.chatSession) {
+        return;
+      }
+      this.rl.question(`\n⚠ ${request.message} [y/N] `, (answer) => {
+        if (/^y(es)?$/i.test(answer.trim())) {
+          this.agent.confirmationBroker?.approve(request.id, { by: 'tui' });
+        } else {
+          this.agent.confirmationBroker?.deny(request.id, { by: 'tui', reason: 'Denied in terminal' });
+        }
+      });
+    });
+
+    // 对话进行中 Ctrl+C 取消对话，否则退出
+    this.rl.on('SIGINT', () => {
+      if (this.chatSession && this.agent.cancelChat(this.chatSession)) {
+        return;
+      }
+      this.rl!.close();
+    });
+
     this.rl.on('line', async (line) => {
       const trimmed = line.trim();
       if (!trimmed) {
@@ -418,6 +553,11 @@ class TUIAdapter {
       const command = parts[0];
       const args = parts.slice(1);
 
+      if (command === 'chat' && args.length >= 2) {
+        await this.streamChat(args[0], args.slice(1).join(' '));
+        return;
+      }
+
       const result = await this.agent.handleCommand(command, args);
       
       console.log('\n' + JSON.stringify(result, null, 2) + '\n');
@@ -426,6 +566,30 @@ class TUIAdapter {
     }
   }
 
+  private async streamChat(sessionId: string, message: string): Promise<void> {
+    this.chatSession = sessionId;
+    try {
+      for await (const event of this.agent.chatStream(sessionId, message)) {
+        switch (event.type) {
+          case 'token':
+            process.stdout.write(event.content);
+            break;
+          case 'tool_start':
+            console.log(`\n[tool] ${event.name} ${JSON.stringify(event.args)}`);
+            break;
+          case 'tool_end':
+            console.log(`[tool] ${event.name} ${event.result.success ? 'ok' : `failed: ${event.result.error}`}`);
+            break;
+          case 'final':
+            console.log(`\n[${event.result.finishReason}, ${event.result.usage.totalTokens} tokens]\n`);
+            break;
+        }
+      }
+    } finally {
+      this.chatSession = null;
+    }
+  }
+
   private printHelp(): void {
     console.log(`
 Available Commands:
@@ -437,6 +601,13 @@ Available Commands:
   capabilities  - Show Bayesian capabilities
   reflect       - Perform reflection
   consolidate   - Consolidate memories
+  chat <session> <message> - Talk to the model
+  mcp servers   - Show MCP server status
+  mcp resources [server]  - List MCP resources
+  mcp read <server> <uri> - Read an MCP resource
+  mcp prompts   - List MCP prompt templates
+  mcp prompt <server.prompt> [name=value ...] - Fill a prompt template
+  mcp use <session> <server.prompt> [name=value ...] - Chat with a prompt template
   help          - Show this help
   exit/quit     - Exit the application
 `);
@@ -465,6 +636,10 @@ Commands:
   reflect             Perform reflection
   consolidate         Consolidate memories
   tool <name> [args]  Execute a tool
+  chat <session> <m>  Talk to the model (tool calling enabled)
+  mcp prompts         List MCP prompt templates
+  mcp use <session> <server.prompt> [name=value ...]
+                      Talk to the model with an MCP prompt template
 
 Examples:
   ouro status
@@ -518,6 +693,22 @@ function setupSignalHandlers(agent: UnifiedAgent, logger: Logger): void {
   });
 }
 
+/**
+ * 打开数据库并执行迁移
+ */
+async function openDatabase(dataDir: string, logger: Logger): Promise<SQLiteConnectionPool> {
+  const pool = new SQLiteConnectionPool({ dbPath: path.join(dataDir, 'ouroboros.db') });
+  const migrations = new MigrationManager(pool);
+  migrations.registerMany(BUILT_IN_MIGRATIONS);
+
+  const failed = (await migrations.migrate()).find(result => !result.success);
+  if (failed) {
+    throw new Error(`Database migration ${failed.version} (${failed.name}) failed: ${failed.error}`);
+  }
+  logger.debug(`Database ready: ${path.join(dataDir, 'ouroboros.db')}`);
+  return pool;
+}
+
 // ============================================================================
 // 主函数
 // ============================================================================
@@ -529,9 +720,30 @@ async function main(): Promise<void> {
   // 从命令行参数或环境变量确定模式
   const mode = process.argv[2] as AppConfig['mode'] || config.mode;
 
+  // MCP 模式下 stdout 是协议通道，日志与其他输出改写到 stderr
+  if (mode === 'mcp') {
+    console.log = console.error;
+    console.info = console.error;
+    console.debug = console.error;
+  }
+
   logger.info(`Starting ${NAME} v${VERSION} in ${mode} mode`);
   logger.debug('Configuration:', config);
 
+  // 文件工具的路径范围 (GlobalConfigSchema 的 tools.fileScope，配置文件由 OUROBOROS_CONFIG_PATH 指定)
+  const configPath = getConfigPathFromEnv();
+  const globalConfig = await loadGlobalConfig({ configPath, allowEnvOverride: false });
+  // 数据目录 (数据库、MCP 服务器、流水线) 与配置文件不对工具开放
+  const pathPolicy = new PathPolicy({
+    ...globalConfig.tools.fileScope,
+    deniedGlobs: [
+      ...globalConfig.tools.fileScope.deniedGlobs,
+      path.resolve(config.dataDir),
+      ...(globalConfig.tools.pipelineDir ? [path.resolve(globalConfig.tools.pipelineDir)] : []),
+      ...(configPath ? [path.resolve(configPath)] : []),
+    ],
+  });
+
   // 创建 Agent 配置
   const agentConfig: UnifiedAgentConfig = {
     scheduler: {
@@ -548,12 +760,106 @@ async function main(): Promise<void> {
       enabled: config.reflection.enabled,
       intervalMs: config.reflection.intervalMinutes * 60 * 1000,
     },
-    tools: createBuiltInTools(),
+    tools: createBuiltInTools(pathPolicy),
   };
 
+  // 打开数据库：会话与用量在重启后保留
+  const pool = await openDatabase(config.dataDir, logger);
+  agentConfig.sessionStore = new SessionStore({ pool });
+
+  // 需要确认的工具调用挂起，等待 WebSocket / TUI / REST 批准
+  agentConfig.confirmationBroker = new ConfirmationBroker({ timeoutMs: config.confirmationTimeoutMs });
+
+  // 工具按调用者角色鉴权 (用户与角色存储在 SQLite)
+  agentConfig.accessControl = new AccessControl({
+    pool,
+    anonymousRole: config.anonymousRole ?? defaultAnonymousRole(mode),
+  });
+
+  // 统一自我描述：MCP 服务器的状态与工具随管理器事件同步
+  const selfDescription = new UnifiedSelfDescription(path.join(config.dataDir, 'self-description'));
+  await selfDescription.load();
+
+  // 连接 <dataDir>/mcp-servers.json 中启用的 MCP 服务器 (资源供模型读取，提示词模板通过 mcp 命令调用)
+  // stdio 服务器进程意外退出时自动重启
+  const mcpManager = new MCPToolManager(path.join(config.dataDir, 'mcp-servers.json'));
+  mcpManager.on('serverStateChanged', server => selfDescription.updateMCPServer(server));
+  mcpManager.on('serverExited', ({ server, code, signal }) => {
+    logger.warn(`MCP server ${server} exited (code ${code}${signal ? `, signal ${signal}` : ''})`);
+  });
+  mcpManager.on('serverRestarting', ({ server, attempt }) => logger.info(`Restarting MCP server ${server} (attempt ${attempt})`));
+  mcpManager.on('serverRestarted', ({ server }) => logger.info(`MCP server restarted: ${server}`));
+  mcpManager.on('serverRestartFailed', ({ server, attempts, error }) => {
+    logger.error(`MCP server ${server} failed to restart after ${attempts} attempts:`, error instanceof Error ? error.message : error);
+  });
+  for (const server of await mcpManager.loadConfig()) {
+    if (!server.enabled) {
+      continue;
+    }
+    try {
+      await mcpManager.connectServer(server);
+      logger.info(`MCP server connected: ${server.name}`);
+    } catch (error) {
+      logger.warn(`MCP server ${server.name} failed to connect:`, error instanceof Error ? error.message : error);
+    }
+  }
+  agentConfig.mcp = mcpManager;
+
+  // 配置模型引擎 (OpenAI 需要 API Key，其余提供商自行校验配置)
+  const modelApiKey = config.model.apiKey
+    || (config.model.provider === 'anthropic' ? config.anthropicApiKey : config.openaiApiKey);
+  if (config.model.provider !== 'openai' || modelApiKey) {
+    agentConfig.model = {
+      provider: config.model.provider,
+      model: config.model.name,
+      apiKey: modelApiKey,
+      baseUrl: config.model.baseUrl,
+    };
+    agentConfig.usageLedger = new UsageLedger({ pool, budget: config.budget });
+    await agentConfig.usageLedger.initialize();
+    if (config.cassette) {
+      agentConfig.cassette = await createCassette(config.cassette);
+      logger.info(`Model cassette: ${config.cassette.path} (${config.cassette.mode})`);
+    }
+  }
+
   // 创建并启动 Agent
   const agent = new UnifiedAgent(agentConfig);
   
+  // 只读工具的结果缓存 (tools.cache)
+  agent.toolRegistry.setCache(
+    globalConfig.tools.cache.enabled ? new ToolResultCache(globalConfig.tools.cache) : null
+  );
+
+  // Shell 工具在 tools.sandbox 配置的沙箱中执行 (root 默认为启动目录)
+  // shell_cd 会改变整个进程的工作目录，不注册
+  const sandbox = new ShellSandbox({
+    ...globalConfig.tools.sandbox,
+    root: path.resolve(globalConfig.tools.sandbox.root),
+  });
+  agent.toolRegistry.registerMany(createShellTools(sandbox).filter(tool => tool.name !== 'shell_cd'));
+
+  // HTTP 工具的出站访问受 tools.network 约束，下载路径受 tools.fileScope 约束
+  const { rateLimit, ...network } = globalConfig.tools.network;
+  const networkPolicy = new NetworkPolicy({
+    ...network,
+    rateLimit: rateLimit ? { maxRequests: rateLimit.maxRequests, windowMs: rateLimit.windowMs } : null,
+  });
+  agent.toolRegistry.registerMany(createHttpTools(networkPolicy, pathPolicy));
+
+  // code_eval 在独立 worker 中执行，没有文件与网络访问
+  agent.toolRegistry.registerMany(createCodeTools());
+
+  // Git 工具的仓库与文件路径受同一路径策略约束 (tools.fileScope)
+  agent.toolRegistry.registerMany(createGitTools(new GitClient({ policy: pathPolicy })));
+
+  // 流水线注册为工具 (默认目录 <dataDir>/pipelines)
+  const pipelineDir = globalConfig.tools.pipelineDir ?? path.join(config.dataDir, 'pipelines');
+  for (const pipeline of await loadPipelines(pipelineDir)) {
+    agent.toolRegistry.registerPipeline(pipeline);
+    logger.debug(`Pipeline registered: ${pipeline.name}`);
+  }
+
   // 设置信号处理
   setupSignalHandlers(agent, logger);
 
@@ -584,6 +890,21 @@ async function main(): Promise<void> {
       break;
     }
 
+    case 'mcp': {
+      // 通过 stdio 提供注册表中的工具与只读的自身状态资源，客户端断开后退出
+      agent.toolRegistry.registerMany(createSelfTools(agent));
+      const mcpServer = new MCPServer({
+        registry: agent.toolRegistry,
+        resources: createSelfResources(agent, selfDescription),
+        name: NAME.toLowerCase(),
+        version: VERSION,
+      });
+      mcpServer.on('initialized', client => logger.info(`MCP client connected: ${client?.name ?? 'unknown'}`));
+      await mcpServer.listen();
+      await agent.stop();
+      break;
+    }
+
     case 'telegram': {
       logger.info('Telegram mode - requires additional implementation');
       // Telegram bot 实现需要额外的依赖和配置
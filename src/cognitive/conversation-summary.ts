@@ -0,0 +1,251 @@
+/**
+ * Ouroboros - 滚动对话摘要 (Rolling Conversation Summary)
+ *
+ * 对话历史超出预算时：
+ * - 最近的消息原样保留
+ * - 更早的消息 (连同上一次摘要) 交给模型压缩为摘要
+ * - 摘要本身也受预算约束，超出时截断
+ * 摘要通过 onSummary 回调交给调用方持久化 (例如存为情景记忆)，
+ * 恢复会话时通过 setSummary 重新载入
+ */
+
+import { EventEmitter } from 'events';
+import { estimateTokens } from './tokenizer.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 对话消息 (与 ModelEngine 的 Message 结构兼容) */
+export interface ConversationMessage {
+  role: string;
+  content: string;
+  tool_calls?: unknown[];
+  tool_call_id?: string;
+}
+
+/** 摘要函数：将较早的消息 (及上一次摘要) 压缩为一段文本；sessionId 用于用量归属 */
+export type SummarizeFunction = (
+  messages: ConversationMessage[],
+  previousSummary: string | undefined,
+  sessionId: string
+) => Promise<string>;
+
+/** 摘要事件 */
+export interface SummaryEvent {
+  sessionId: string;
+  summary: string;
+  /** 本次被摘要的消息数 */
+  summarizedCount: number;
+  tokens: number;
+}
+
+export interface ConversationSummarizerConfig {
+  summarize: SummarizeFunction;
+  /** token 计数函数，默认按字符估算 */
+  countTokens?: (text: string) => number;
+  /** 摘要占对话预算的比例，默认 0.3 */
+  summaryShare?: number;
+  /** 生成新摘要后调用 (例如写入情景记忆) */
+  onSummary?: (event: SummaryEvent) => Promise<void> | void;
+}
+
+/** 压缩结果 */
+export interface CompactResult<M extends ConversationMessage> {
+  /** 原样保留的最近消息 */
+  messages: M[];
+  /** 当前会话的摘要 (无需摘要时为上一次的摘要或 undefined) */
+  summary?: string;
+  summarizedCount: number;
+  /** messages 与 summary 的合计 token 数 */
+  tokens: number;
+}
+
+/** 每条消息的固定开销 (角色、分隔符) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const DEFAULT_SUMMARY_SHARE = 0.3;
+
+// ============================================================================
+// 滚动摘要器
+// ============================================================================
+
+export class ConversationSummarizer extends EventEmitter {
+  private summarize: SummarizeFunction;
+  private countTokens: (text: string) => number;
+  private summaryShare: number;
+  private onSummary?: ConversationSummarizerConfig['onSummary'];
+  private summaries: Map<string, string> = new Map();
+
+  constructor(config: ConversationSummarizerConfig) {
+    super();
+    this.summarize = config.summarize;
+    this.countTokens = config.countTokens ?? estimateTokens;
+    this.summaryShare = config.summaryShare ?? DEFAULT_SUMMARY_SHARE;
+    this.onSummary = config.onSummary;
+  }
+
+  /**
+   * 计算消息列表的 token 数
+   */
+  countMessages(messages: ConversationMessage[]): number {
+    return countMessageTokens(messages, this.countTokens);
+  }
+
+  /**
+   * 获取会话当前的摘要
+   */
+  getSummary(sessionId: string): string | undefined {
+    return this.summaries.get(sessionId);
+  }
+
+  /**
+   * 恢复会话的摘要 (例如从会话存储重新加载后)
+   */
+  setSummary(sessionId: string, summary: string): void {
+    this.summaries.set(sessionId, summary);
+  }
+
+  /**
+   * 清除会话摘要
+   */
+  clear(sessionId: string): void {
+    this.summaries.delete(sessionId);
+  }
+
+  /**
+   * 将对话历史压缩到预算内：保留能放下的最近消息，其余并入摘要
+   */
+  async compact<M extends ConversationMessage>(
+    sessionId: string,
+    messages: M[],
+    budget: number
+  ): Promise<CompactResult<M>> {
+    const previous = this.summaries.get(sessionId);
+    const previousTokens = previous ? this.countTokens(previous) : 0;
+    const total = this.countMessages(messages);
+
+    if (total + previousTokens <= budget) {
+      return { messages, summary: previous, summarizedCount: 0, tokens: total + previousTokens };
+    }
+
+    const summaryBudget = Math.floor(budget * this.summaryShare);
+    const { recent, older } = this.split(messages, budget - summaryBudget);
+
+    let summary = previous;
+    if (older.length > 0) {
+      summary = this.truncate(await this.summarize(older, previous, sessionId), summaryBudget);
+      this.summaries.set(sessionId, summary);
+
+      const event: SummaryEvent = {
+        sessionId,
+        summary,
+        summarizedCount: older.length,
+        tokens: this.countTokens(summary),
+      };
+      this.emit('summarized', event);
+      await this.onSummary?.(event);
+    } else if (summary) {
+      summary = this.truncate(summary, summaryBudget);
+    }
+
+    return {
+      messages: recent,
+      summary,
+      summarizedCount: older.length,
+      tokens: this.countMessages(recent) + (summary ? this.countTokens(summary) : 0),
+    };
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private countMessage(message: ConversationMessage): number {
+    return countMessageTokens([message], this.countTokens);
+  }
+
+  /**
+   * 从末尾开始保留放得下的消息；保留部分不以孤立的工具结果开头
+   */
+  private split<M extends ConversationMessage>(
+    messages: M[],
+    recentBudget: number
+  ): { recent: M[]; older: M[] } {
+    let start = messages.length;
+    let used = 0;
+    while (start > 0) {
+      const tokens = this.countMessage(messages[start - 1]);
+      if (used + tokens > recentBudget) break;
+      used += tokens;
+      start--;
+    }
+    while (start < messages.length && messages[start].role === 'tool') {
+      start++;
+    }
+
+    if (start < messages.length || messages.length === 0) {
+      return { recent: messages.slice(start), older: messages.slice(0, start) };
+    }
+
+    // 最后一条消息本身就超出预算：截断其内容
+    const last = messages[messages.length - 1];
+    const room = Math.max(0, recentBudget - MESSAGE_OVERHEAD_TOKENS
+      - (last.tool_calls?.length ? this.countTokens(JSON.stringify(last.tool_calls)) : 0));
+    const truncated = { ...last, content: this.truncate(last.content ?? '', room) };
+    return this.countMessage(truncated) <= recentBudget
+      ? { recent: [truncated], older: messages.slice(0, -1) }
+      : { recent: [], older: messages };
+  }
+
+  /**
+   * 截断文本到指定 token 数以内
+   */
+  private truncate(text: string, maxTokens: number): string {
+    if (this.countTokens(text) <= maxTokens) {
+      return text;
+    }
+    if (maxTokens <= 0) {
+      return '';
+    }
+
+    let end = text.length;
+    let candidate = text;
+    while (end > 0 && this.countTokens(candidate) > maxTokens) {
+      end = Math.floor(end * 0.9);
+      candidate = `${text.slice(0, end)}...`;
+    }
+    return end > 0 ? candidate : '';
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 计算消息列表的 token 数 (内容、工具调用与每条消息的固定开销)
+ */
+export function countMessageTokens(
+  messages: ConversationMessage[],
+  countTokens: (text: string) => number
+): number {
+  return messages.reduce((sum, message) => {
+    const toolCalls = message.tool_calls?.length ? countTokens(JSON.stringify(message.tool_calls)) : 0;
+    return sum + countTokens(message.content ?? '') + toolCalls + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+}
+
+/**
+ * 将消息渲染为供模型摘要的对话记录
+ */
+export function formatTranscript(messages: ConversationMessage[]): string {
+  return messages.map(message => {
+    const calls = (message.tool_calls ?? []) as Array<{ function?: { name?: string } }>;
+    const toolNote = calls.length > 0
+      ? ` [called ${calls.map(c => c.function?.name ?? 'tool').join(', ')}]`
+      : '';
+    return `${message.role}: ${message.content}${toolNote}`;
+  }).join('\n');
+}
+
+export default ConversationSummarizer;
@@ -16,6 +16,19 @@ import { EventEmitter } from 'events';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
+import { ConversationSummarizer, countMessageTokens } from './conversation-summary.js';
+import type {
+  ConversationMessage,
+  ConversationSummarizerConfig,
+  SummarizeFunction,
+} from './conversation-summary.js';
+import {
+  DEFAULT_MODEL_CONTEXT_WINDOW,
+  estimateTokens,
+  getTokenCounter,
+  resolveModelProfile,
+} from './tokenizer.js';
+import type { ModelTokenProfile } from './tokenizer.js';
 
 // ============================================================================
 // 类型定义
@@ -146,9 +159,36 @@ export interface MemoryPromptContent {
     userIntent: string;
     pendingQuestions: string[];
     establishedFacts: string[];
+    /** 当前会话 (切换会话时从历史来源加载最近轮次) */
+    sessionId?: string;
+    /** 会话恢复时加载的最近对话轮次 */
+    recentTurns: Array<{
+      role: string;
+      content: string;
+    }>;
   };
 }
 
+/** 对话历史来源 (例如 SessionStore) */
+export interface ConversationHistorySource {
+  getRecentMessages(
+    sessionId: string,
+    limit: number
+  ): Promise<Array<{ role: string; content: string }>>;
+}
+
+/** 含对话历史的组装结果 */
+export interface ConversationPrompt<M extends ConversationMessage> {
+  /** 系统/自我/记忆提示词 (含对话摘要段) */
+  prompt: AssembledPrompt;
+  /** 原样保留的最近消息 */
+  history: M[];
+  /** 较早消息的摘要 */
+  summary?: string;
+  /** history 的 token 数；prompt.totalTokens + historyTokens 不超过可用预算 */
+  historyTokens: number;
+}
+
 /** 提示词优化记录 */
 export interface OptimizationRecord {
   timestamp: number;
@@ -307,6 +347,13 @@ Pending Questions:
 - {{this}}
 {{/each}}
 {{/if}}
+
+{{#if conversationContext.recentTurns}}
+Earlier in This Session:
+{{#each conversationContext.recentTurns}}
+{{role}}: {{content}}
+{{/each}}
+{{/if}}
 `,
 };
 
@@ -317,18 +364,45 @@ Pending Questions:
 export class TokenBudgetManager {
   private budget: TokenBudget;
   private encoder: (text: string) => number; // token计数函数
+  private profile: ModelTokenProfile | null = null;
 
   constructor(
     maxContextWindow: number,
     encoder?: (text: string) => number
   ) {
-    // 默认使用简单估算：~4字符/token
-    this.encoder = encoder || ((text: string) => Math.ceil(text.length / 4));
+    // 默认使用估算：CJK ~1 token/字，其余 ~4字符/token
+    this.encoder = encoder || estimateTokens;
     
     // 智能分配预算
     this.budget = this.allocateBudget(maxContextWindow);
   }
 
+  /**
+   * 按模型创建：使用该模型家族的分词器，未指定窗口时取模型上下文窗口
+   */
+  static forModel(model: string, maxContextWindow?: number): TokenBudgetManager {
+    const manager = new TokenBudgetManager(maxContextWindow ?? DEFAULT_MODEL_CONTEXT_WINDOW);
+    manager.setModel(model, maxContextWindow);
+    return manager;
+  }
+
+  /**
+   * 切换模型：更换分词器并重新分配各段预算
+   */
+  setModel(model: string, maxContextWindow?: number): TokenBudget {
+    this.profile = resolveModelProfile(model);
+    this.encoder = getTokenCounter(this.profile.encoding);
+    this.budget = this.allocateBudget(maxContextWindow ?? this.profile.contextWindow);
+    return this.getBudget();
+  }
+
+  /**
+   * 获取当前模型的分词信息 (未按模型创建时为 null)
+   */
+  getModelProfile(): ModelTokenProfile | null {
+    return this.profile ? { ...this.profile } : null;
+  }
+
   /**
    * 智能分配Token预算
    */
@@ -391,6 +465,13 @@ export class SelfPromptManager extends EventEmitter {
     this.loadFromDiskSync();
   }
 
+  /**
+   * 更新Token预算 (切换模型时)
+   */
+  setBudget(budget: number): void {
+    this.budget = budget;
+  }
+
   /**
    * 生成默认自我内容
    */
@@ -785,10 +866,15 @@ export class SelfPromptOptimizer {
 // 记忆提示词管理器
 // ============================================================================
 
+/** 恢复会话时每个轮次保留的最大字符数 */
+const MAX_RECENT_TURN_CHARS = 500;
+
 export class MemoryPromptManager extends EventEmitter {
   private content: MemoryPromptContent;
   private template: string;
   private budget: number;
+  private historySource: ConversationHistorySource | null = null;
+  private recentTurnLimit = 6;
 
   constructor(budget: number) {
     super();
@@ -797,6 +883,13 @@ export class MemoryPromptManager extends EventEmitter {
     this.content = this.generateEmptyContent();
   }
 
+  /**
+   * 更新Token预算 (切换模型时)
+   */
+  setBudget(budget: number): void {
+    this.budget = budget;
+  }
+
   /**
    * 生成空内容
    */
@@ -814,6 +907,7 @@ export class MemoryPromptManager extends EventEmitter {
         userIntent: '',
         pendingQuestions: [],
         establishedFacts: [],
+        recentTurns: [],
       },
     };
   }
@@ -1003,6 +1097,8 @@ export class MemoryPromptManager extends EventEmitter {
    */
   private renderTemplate(template: string, data: any): string {
     let result = template;
+    const lookup = (keyPath: string): any =>
+      keyPath.split('.').reduce((value, key) => value?.[key], data);
     
     // 简单变量替换
     result = result.replace(/\{\{(\w+)\}\}/g, (match, key) => {
@@ -1014,10 +1110,10 @@ export class MemoryPromptManager extends EventEmitter {
       return data[obj]?.[prop] !== undefined ? String(data[obj][prop]) : match;
     });
     
-    // 数组循环
-    result = result.replace(/\{\{#each (\w+)\}\}([\s\S]*?)\{\{\/each\}\}/g, 
+    // 数组循环 (支持嵌套路径)
+    result = result.replace(/\{\{#each ([\w.]+)\}\}([\s\S]*?)\{\{\/each\}\}/g,
       (match, arrayName, innerTemplate) => {
-        const array = data[arrayName];
+        const array = lookup(arrayName);
         if (!Array.isArray(array) || array.length === 0) return '';
         
         return array.map((item: any) => {
@@ -1037,10 +1133,10 @@ export class MemoryPromptManager extends EventEmitter {
       }
     );
     
-    // 条件渲染
-    result = result.replace(/\{\{#if (\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g, 
+    // 条件渲染 (支持嵌套路径)
+    result = result.replace(/\{\{#if ([\w.]+)\}\}([\s\S]*?)\{\{\/if\}\}/g, 
       (match, condition, innerContent) => {
-        const value = data[condition];
+        const value = lookup(condition);
         const hasContent = Array.isArray(value) ? value.length > 0 : !!value;
         return hasContent ? innerContent : '';
       }
@@ -1050,10 +1146,39 @@ export class MemoryPromptManager extends EventEmitter {
   }
 
   /**
-   * 更新对话上下文
+   * 设置对话历史来源，会话恢复时从中加载最近轮次
    */
-  updateContext(context: Partial<MemoryPromptContent['conversationContext']>): void {
+  setHistorySource(source: ConversationHistorySource | null, recentTurnLimit?: number): void {
+    this.historySource = source;
+    if (recentTurnLimit !== undefined) {
+      this.recentTurnLimit = recentTurnLimit;
+    }
+  }
+
+  /**
+   * 更新对话上下文；切换到新的 sessionId 时从历史来源加载最近轮次
+   */
+  async updateContext(context: Partial<MemoryPromptContent['conversationContext']>): Promise<void> {
+    const resumed = context.sessionId !== undefined
+      && context.sessionId !== this.content.conversationContext.sessionId
+      && context.recentTurns === undefined;
     this.content.conversationContext = { ...this.content.conversationContext, ...context };
+
+    if (resumed && this.historySource) {
+      const messages = await this.historySource.getRecentMessages(context.sessionId!, this.recentTurnLimit);
+      this.content.conversationContext.recentTurns = messages
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && m.content.trim())
+        .map(m => ({
+          role: m.role,
+          content: m.content.length > MAX_RECENT_TURN_CHARS
+            ? m.content.slice(0, MAX_RECENT_TURN_CHARS - 3) + '...'
+            : m.content,
+        }));
+      this.emit('contextResumed', {
+        sessionId: context.sessionId,
+        turns: this.content.conversationContext.recentTurns.length,
+      });
+    }
   }
 }
 
@@ -1066,6 +1191,7 @@ export class PromptAssembler extends EventEmitter {
   private selfManager: SelfPromptManager;
   private memoryManager: MemoryPromptManager;
   private budgetManager: TokenBudgetManager;
+  private summarizer: ConversationSummarizer | null = null;
 
   constructor(
     systemConfig: {
@@ -1076,12 +1202,15 @@ export class PromptAssembler extends EventEmitter {
       forbiddenActions: string[];
     },
     selfConfigPath: string,
-    maxContextWindow: number
+    maxContextWindow: number,
+    model?: string
   ) {
     super();
     
-    // 初始化预算管理器
-    this.budgetManager = new TokenBudgetManager(maxContextWindow);
+    // 初始化预算管理器 (指定模型时使用该模型的分词器)
+    this.budgetManager = model
+      ? TokenBudgetManager.forModel(model, maxContextWindow)
+      : new TokenBudgetManager(maxContextWindow);
     const budget = this.budgetManager.getBudget();
     
     // 初始化系统提示词（静态）
@@ -1281,6 +1410,148 @@ export class PromptAssembler extends EventEmitter {
   getMemoryManager(): MemoryPromptManager {
     return this.memoryManager;
   }
+
+  /**
+   * 获取Token预算管理器
+   */
+  getBudgetManager(): TokenBudgetManager {
+    return this.budgetManager;
+  }
+
+  /**
+   * 切换模型：更换分词器并重新分配自我/记忆段预算
+   *
+   * 未指定窗口时取模型的上下文窗口；模型与窗口均未变化时返回 false
+   */
+  setModel(model: string, maxContextWindow?: number): boolean {
+    const current = this.budgetManager.getModelProfile();
+    const window = maxContextWindow ?? resolveModelProfile(model).contextWindow;
+    if (current?.model === model && this.budgetManager.getBudget().maxTotal === window) {
+      return false;
+    }
+
+    const budget = this.budgetManager.setModel(model, window);
+    this.selfManager.setBudget(budget.self);
+    this.memoryManager.setBudget(budget.memory);
+    this.emit('modelChanged', { profile: this.budgetManager.getModelProfile(), budget });
+    return true;
+  }
+
+  /**
+   * 启用滚动摘要：对话历史超出剩余预算时由模型压缩较早的消息
+   */
+  setSummarizer(
+    summarize: SummarizeFunction | null,
+    options: Omit<ConversationSummarizerConfig, 'summarize' | 'countTokens'> = {}
+  ): void {
+    this.summarizer = summarize
+      ? new ConversationSummarizer({
+          ...options,
+          summarize,
+          countTokens: this.budgetManager.countTokens.bind(this.budgetManager),
+        })
+      : null;
+    if (this.summarizer) {
+      this.summarizer.on('summarized', event => this.emit('conversationSummarized', event));
+    }
+  }
+
+  /**
+   * 获取会话当前的对话摘要
+   */
+  getConversationSummary(sessionId: string): string | undefined {
+    return this.summarizer?.getSummary(sessionId);
+  }
+
+  /**
+   * 恢复会话的对话摘要 (未启用摘要时忽略)
+   */
+  restoreConversation(sessionId: string, summary: string): void {
+    this.summarizer?.setSummary(sessionId, summary);
+  }
+
+  /**
+   * 清除会话的对话摘要
+   */
+  clearConversation(sessionId: string): void {
+    this.summarizer?.clear(sessionId);
+  }
+
+  /**
+   * 组装提示词并将对话历史放入剩余预算
+   *
+   * 历史超出时较早的消息被摘要为一个记忆段 (未启用摘要时直接丢弃)，
+   * 最近的消息原样保留；结果总量不超过 maxTotal - reserve
+   */
+  async assembleConversation<M extends ConversationMessage>(
+    options: Parameters<PromptAssembler['assemble']>[0] & {
+      sessionId: string;
+      history: M[];
+    }
+  ): Promise<ConversationPrompt<M>> {
+    const prompt = this.assemble(options);
+    const budget = this.budgetManager.getBudget();
+    const header = '### Earlier Conversation (summary)\n';
+    const available = Math.max(
+      0,
+      budget.maxTotal - budget.reserve - prompt.totalTokens - this.budgetManager.countTokens(header)
+    );
+
+    const compacted = this.summarizer
+      ? await this.summarizer.compact(options.sessionId, options.history, available)
+      : this.dropOldest(options.history, available);
+
+    if (!compacted.summary) {
+      return { prompt, history: compacted.messages, historyTokens: compacted.tokens };
+    }
+
+    const content = `${header}${compacted.summary}`;
+    const summarySegment: PromptSegment = {
+      type: PromptType.MEMORY,
+      content,
+      tokens: this.budgetManager.countTokens(content),
+      priority: 0.7,
+      mutable: true,
+      lastOptimized: Date.now(),
+      version: 1,
+    };
+    const segments = [...prompt.segments, summarySegment];
+    const totalTokens = prompt.totalTokens + summarySegment.tokens;
+
+    return {
+      prompt: {
+        ...prompt,
+        fullPrompt: segments.map(s => s.content).join('\n\n'),
+        segments,
+        totalTokens,
+        budgetUsed: totalTokens / budget.maxTotal,
+        optimizations: compacted.summarizedCount > 0
+          ? [...prompt.optimizations, `Summarized ${compacted.summarizedCount} earlier messages`]
+          : prompt.optimizations,
+      },
+      history: compacted.messages,
+      summary: compacted.summary,
+      historyTokens: compacted.tokens - this.budgetManager.countTokens(compacted.summary),
+    };
+  }
+
+  /**
+   * 未启用摘要时：从最早的消息开始丢弃，直到放得下
+   */
+  private dropOldest<M extends ConversationMessage>(
+    history: M[],
+    available: number
+  ): { messages: M[]; summary?: string; summarizedCount: number; tokens: number } {
+    const countTokens = this.budgetManager.countTokens.bind(this.budgetManager);
+    const messages = [...history];
+    while (
+      messages.length > 0
+      && (countMessageTokens(messages, countTokens) > available || messages[0].role === 'tool')
+    ) {
+      messages.shift();
+    }
+    return { messages, summarizedCount: 0, tokens: countMessageTokens(messages, countTokens) };
+  }
 }
 
 // ============================================================================
@@ -0,0 +1,158 @@
+/**
+ * Ouroboros - 模型分词器 (Model Tokenizers)
+ *
+ * 为常见模型家族提供离线 BPE 计数 (js-tiktoken 内置词表，无需联网)：
+ * - o200k_base: GPT-4o / GPT-4.1 / GPT-5 / o 系列
+ * - cl100k_base: GPT-4 / GPT-3.5 / embeddings；
+ *   Llama 3、Qwen、DeepSeek、Claude 等没有公开 JS 词表的模型以它近似
+ * 未识别的模型同样以 cl100k_base 近似 (exact = false)
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 计数所用的编码 */
+export type TokenEncoding = 'o200k_base' | 'cl100k_base' | 'heuristic';
+
+/** token 计数函数 */
+export type TokenCounter = (text: string) => number;
+
+/** 模型的分词与上下文窗口信息 */
+export interface ModelTokenProfile {
+  model: string;
+  family: string;
+  encoding: TokenEncoding;
+  /** 模型上下文窗口 (tokens) */
+  contextWindow: number;
+  /** 编码是否与模型实际分词一致 (否则为近似) */
+  exact: boolean;
+}
+
+interface FamilyRule {
+  family: string;
+  pattern: RegExp;
+  encoding: TokenEncoding;
+  contextWindow: number;
+  exact: boolean;
+}
+
+/** 未识别模型的上下文窗口 */
+export const DEFAULT_MODEL_CONTEXT_WINDOW = 8192;
+
+/** 按顺序匹配，先匹配者优先 */
+const FAMILY_RULES: FamilyRule[] = [
+  { family: 'gpt-4o', pattern: /^(chatgpt-)?gpt-4o/, encoding: 'o200k_base', contextWindow: 128000, exact: true },
+  { family: 'gpt-4.1', pattern: /^gpt-4\.1/, encoding: 'o200k_base', contextWindow: 1047576, exact: true },
+  { family: 'gpt-4.5', pattern: /^gpt-4\.5/, encoding: 'o200k_base', contextWindow: 128000, exact: true },
+  { family: 'gpt-5', pattern: /^gpt-5/, encoding: 'o200k_base', contextWindow: 400000, exact: true },
+  { family: 'o-series', pattern: /^o[134](-|$)/, encoding: 'o200k_base', contextWindow: 200000, exact: true },
+  { family: 'gpt-4-turbo', pattern: /^gpt-4-(turbo|\d{4}-preview|vision)/, encoding: 'cl100k_base', contextWindow: 128000, exact: true },
+  { family: 'gpt-4-32k', pattern: /^gpt-4-32k/, encoding: 'cl100k_base', contextWindow: 32768, exact: true },
+  { family: 'gpt-4', pattern: /^gpt-4(-|$)/, encoding: 'cl100k_base', contextWindow: 8192, exact: true },
+  { family: 'gpt-3.5', pattern: /^gpt-3\.5|^gpt-35/, encoding: 'cl100k_base', contextWindow: 16385, exact: true },
+  { family: 'embedding', pattern: /^text-embedding/, encoding: 'cl100k_base', contextWindow: 8191, exact: true },
+  { family: 'claude', pattern: /^claude/, encoding: 'cl100k_base', contextWindow: 200000, exact: false },
+  { family: 'llama-3.1', pattern: /^llama-?3\.[1-9]/, encoding: 'cl100k_base', contextWindow: 131072, exact: false },
+  { family: 'llama-3', pattern: /^llama-?3/, encoding: 'cl100k_base', contextWindow: 8192, exact: false },
+  { family: 'qwen', pattern: /^qwen/, encoding: 'cl100k_base', contextWindow: 32768, exact: false },
+  { family: 'deepseek', pattern: /^deepseek/, encoding: 'cl100k_base', contextWindow: 65536, exact: false },
+  { family: 'mistral', pattern: /^(mistral|mixtral|codestral)/, encoding: 'cl100k_base', contextWindow: 32768, exact: false },
+];
+
+const RANKS = {
+  o200k_base: o200kBase,
+  cl100k_base: cl100kBase,
+};
+
+/** 词表解析开销较大，按编码缓存 */
+const encoders: Map<TokenEncoding, Tiktoken> = new Map();
+
+/** CJK 统一表意文字、假名、谚文与全角标点 */
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+// ============================================================================
+// 模型解析
+// ============================================================================
+
+/**
+ * 根据模型名称解析分词编码与上下文窗口
+ *
+ * 名称不区分大小写，忽略 `openai/`、`library/` 等前缀与 Ollama 的 `:tag` 后缀
+ */
+export function resolveModelProfile(model: string): ModelTokenProfile {
+  const name = model.trim().toLowerCase().split('/').pop()!.split(':')[0];
+  const rule = FAMILY_RULES.find(r => r.pattern.test(name));
+
+  if (!rule) {
+    return {
+      model,
+      family: 'unknown',
+      encoding: 'cl100k_base',
+      contextWindow: DEFAULT_MODEL_CONTEXT_WINDOW,
+      exact: false,
+    };
+  }
+
+  return {
+    model,
+    family: rule.family,
+    encoding: rule.encoding,
+    contextWindow: rule.contextWindow,
+    exact: rule.exact,
+  };
+}
+
+// ============================================================================
+// 计数
+// ============================================================================
+
+/**
+ * 获取编码对应的计数函数
+ */
+export function getTokenCounter(encoding: TokenEncoding): TokenCounter {
+  if (encoding === 'heuristic') {
+    return estimateTokens;
+  }
+
+  return (text: string) => {
+    if (!text) {
+      return 0;
+    }
+    // 特殊标记按普通文本计数，避免用户输入中的 <|endoftext|> 抛错
+    return getEncoder(encoding).encode(text, [], []).length;
+  };
+}
+
+/**
+ * 获取模型的计数函数
+ */
+export function createModelTokenCounter(model: string): TokenCounter {
+  return getTokenCounter(resolveModelProfile(model).encoding);
+}
+
+/**
+ * 无词表时的估算：CJK 字符约 1 token/字，其余约 4 字符/token
+ */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function getEncoder(encoding: Exclude<TokenEncoding, 'heuristic'>): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+export default resolveModelProfile;
@@ -332,6 +332,19 @@ export class UnifiedSelfDescription extends EventEmitter {
     }
   }
 
+  /**
+   * 更新MCP服务器状态 (来自MCPToolManager的serverStateChanged事件)，不存在时添加
+   */
+  updateMCPServer(server: SelfDescription['toolSet']['mcpServers'][0]): void {
+    const existing = this.description.toolSet.mcpServers.find(s => s.name === server.name);
+    if (!existing) {
+      this.addMCPServer(server);
+      return;
+    }
+    Object.assign(existing, server, { tools: [...server.tools] });
+    this.emit('mcpServerUpdated', server);
+  }
+
   /**
    * 更新世界模型 (来自反思)
    */
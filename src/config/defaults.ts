@@ -0,0 +1,38 @@
+/**
+ * 配置默认值 (Config Defaults)
+ *
+ * 配置 Schema 与执行层共用的默认值，不依赖其他模块
+ */
+
+/**
+ * 默认禁止的 glob
+ *
+ * 不含 '/' 的模式匹配路径中的任一段 (文件名或目录名)，
+ * 含 '/' 的模式匹配相对 baseDir 的路径 (以 '/' 开头时匹配绝对路径)
+ */
+export const DEFAULT_DENIED_GLOBS = [
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  'id_rsa*',
+  'id_ed25519*',
+  '.npmrc',
+  '.netrc',
+  '.git',
+  // Agent 自身的配置与数据 (数据目录本身由启动时按 dataDir 追加)
+  '.ouroboros',
+  'ouroboros.db',
+  'ouroboros.db-*',
+  'mcp-servers.json',
+];
+
+/** 默认拒绝的主机：云厂商元数据服务 (关闭私有地址检查时仍然拒绝) */
+export const DEFAULT_DENIED_HOSTS = [
+  'metadata.google.internal',
+  'metadata.goog',
+  '169.254.169.254',
+  '169.254.170.2',
+  '100.100.100.200',
+  'fd00:ec2::254',
+];
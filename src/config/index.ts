@@ -24,6 +24,7 @@ import {
   type ConfigLoadOptions,
   type DeepPartial,
 } from '../types.js';
+import { DEFAULT_DENIED_GLOBS, DEFAULT_DENIED_HOSTS } from './defaults.js';
 
 // ============================================================================
 // Zod Schema 定义
@@ -476,6 +477,78 @@ const AdapterConfigsSchema = z.object({
   tui: TUIAdapterConfigSchema.optional(),
 });
 
+/**
+ * 文件工具路径范围Schema
+ */
+const FileScopeConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  allowedRoots: z.array(z.string()).default(['.', os.tmpdir()]),
+  readOnlyRoots: z.array(z.string()).default([]),
+  deniedGlobs: z.array(z.string()).default([...DEFAULT_DENIED_GLOBS]),
+  protectSelfSource: z.boolean().default(true),
+  selfSourceRoot: z.string().optional(),
+});
+
+/**
+ * HTTP 工具出站策略Schema
+ */
+const NetworkPolicyConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  allowedHosts: z.array(z.string()).default([]),
+  deniedHosts: z.array(z.string()).default([...DEFAULT_DENIED_HOSTS]),
+  blockPrivateNetworks: z.boolean().default(true),
+  allowPrivateHosts: z.array(z.string()).default([]),
+  maxResponseBytes: z.number().int().positive().default(10 * 1024 * 1024),
+  maxRedirects: z.number().int().min(0).max(20).default(5),
+  rateLimit: z.object({
+    maxRequests: z.number().int().positive().default(60),
+    windowMs: z.number().int().positive().default(60000),
+  }).nullable().default({}),
+  timeoutMs: z.number().int().positive().default(60000),
+});
+
+/**
+ * Shell 工具沙箱Schema
+ */
+const SandboxConfigSchema = z.object({
+  root: z.string().default('.'),
+  allowCommands: z.array(z.string()).optional(),
+  denyCommands: z.array(z.string()).default([]),
+  env: z.object({
+    passthrough: z.array(z.string()).optional(),
+    set: z.record(z.string()).default({}),
+  }).default({}),
+  limits: z.object({
+    timeoutMs: z.number().int().positive().default(120000),
+    cpuSeconds: z.number().int().positive().default(60),
+    memoryBytes: z.number().int().positive().default(2 * 1024 * 1024 * 1024),
+    maxFileSizeBytes: z.number().int().positive().default(100 * 1024 * 1024),
+    maxProcesses: z.number().int().positive().optional(),
+    maxOutputBytes: z.number().int().positive().default(1024 * 1024),
+  }).default({}),
+  isolateNetwork: z.union([z.boolean(), z.literal('auto')]).default(false),
+});
+
+/**
+ * 工具结果缓存Schema
+ */
+const ToolCacheConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxEntries: z.number().int().positive().default(500),
+  defaultTtlMs: z.number().int().positive().default(30000),
+});
+
+/**
+ * 工具配置Schema
+ */
+const ToolsConfigSchema = z.object({
+  fileScope: FileScopeConfigSchema.default({}),
+  network: NetworkPolicyConfigSchema.default({}),
+  sandbox: SandboxConfigSchema.default({}),
+  cache: ToolCacheConfigSchema.default({}),
+  pipelineDir: z.string().optional(),
+});
+
 /**
  * 全局配置Schema
  */
@@ -493,6 +566,7 @@ export const GlobalConfigSchema = z.object({
   logging: LoggerConfigSchema.default({}),
   monitoring: MonitoringConfigSchema.default({}),
   adapters: AdapterConfigsSchema.default({}),
+  tools: ToolsConfigSchema.default({}),
 });
 
 /**
@@ -933,6 +1007,13 @@ export function getMonitoringConfig(config: ValidatedGlobalConfig): typeof confi
   return config.monitoring;
 }
 
+/**
+ * 获取工具配置
+ */
+export function getToolsConfig(config: ValidatedGlobalConfig): typeof config.tools {
+  return config.tools;
+}
+
 // ============================================================================
 // 配置常量
 // ============================================================================
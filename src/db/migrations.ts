@@ -592,6 +592,130 @@ export const BUILT_IN_MIGRATIONS: Migration[] = [
       UPDATE config SET value = '2' WHERE key = 'db.version';
     `,
   },
+
+  // Migration 4: 模型用量账本
+  {
+    version: 4,
+    name: 'usage_ledger',
+    up: `
+      CREATE TABLE IF NOT EXISTS usage_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        session_id TEXT,
+        loop_id TEXT,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        recorded_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_session ON usage_ledger(session_id);
+      CREATE INDEX IF NOT EXISTS idx_usage_model ON usage_ledger(model);
+      CREATE INDEX IF NOT EXISTS idx_usage_recorded ON usage_ledger(recorded_at DESC);
+
+      UPDATE config SET value = '4' WHERE key = 'db.version';
+    `,
+    down: `
+      DROP TABLE IF EXISTS usage_ledger;
+      UPDATE config SET value = '3' WHERE key = 'db.version';
+    `,
+  },
+
+  // Migration 5: 持久化对话会话
+  {
+    version: 5,
+    name: 'conversation_sessions',
+    up: `
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        agent_id TEXT,
+        title TEXT,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+        context TEXT NOT NULL DEFAULT '{}',
+        message_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        archived_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, updated_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+
+      CREATE TABLE IF NOT EXISTS session_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        role TEXT NOT NULL CHECK (role IN ('system', 'user', 'assistant', 'tool')),
+        content TEXT NOT NULL DEFAULT '',
+        tool_calls TEXT,
+        tool_call_id TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_session_messages_session ON session_messages(session_id, id);
+
+      UPDATE config SET value = '5' WHERE key = 'db.version';
+    `,
+    down: `
+      DROP TABLE IF EXISTS session_messages;
+      DROP TABLE IF EXISTS sessions;
+      UPDATE config SET value = '4' WHERE key = 'db.version';
+    `,
+  },
+  {
+    version: 6,
+    name: 'access_control',
+    up: `
+      CREATE TABLE IF NOT EXISTS roles (
+        name TEXT PRIMARY KEY,
+        level TEXT NOT NULL CHECK (level IN ('public', 'user', 'admin', 'system')),
+        description TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      INSERT OR IGNORE INTO roles (name, level, description, created_at) VALUES
+        ('public', 'public', 'Anonymous callers', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        ('user', 'user', 'Registered users', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        ('admin', 'admin', 'Administrators', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        ('system', 'system', 'Internal agent loops', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        display_name TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS user_roles (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+        granted_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, role)
+      );
+
+      CREATE TABLE IF NOT EXISTS role_grants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+        tool TEXT NOT NULL,
+        effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')),
+        created_at TEXT NOT NULL,
+        UNIQUE (role, tool)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_role_grants_tool ON role_grants(tool);
+
+      UPDATE config SET value = '6' WHERE key = 'db.version';
+    `,
+    down: `
+      DROP TABLE IF EXISTS role_grants;
+      DROP TABLE IF EXISTS user_roles;
+      DROP TABLE IF EXISTS users;
+      DROP TABLE IF EXISTS roles;
+      UPDATE config SET value = '5' WHERE key = 'db.version';
+    `,
+  },
 ];
 
 export default MigrationManager;
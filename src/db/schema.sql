@@ -373,6 +373,101 @@ CREATE TABLE IF NOT EXISTS config (
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- =============================================================================
+-- 模型用量账本
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS usage_ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    session_id TEXT,
+    loop_id TEXT,                            -- 工具循环 (一轮对话) 标识
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd REAL NOT NULL DEFAULT 0,        -- 估算成本 (美元)
+    recorded_at TEXT NOT NULL                -- ISO 8601 (UTC)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_session ON usage_ledger(session_id);
+CREATE INDEX IF NOT EXISTS idx_usage_model ON usage_ledger(model);
+CREATE INDEX IF NOT EXISTS idx_usage_recorded ON usage_ledger(recorded_at DESC);
+
+-- =============================================================================
+-- 对话会话
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,                            -- 所属用户 (按用户列出会话)
+    agent_id TEXT,
+    title TEXT,                              -- 未设置时取首条用户消息
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+    context TEXT NOT NULL DEFAULT '{}',      -- JSON
+    message_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    archived_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+
+CREATE TABLE IF NOT EXISTS session_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,    -- 分页游标
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('system', 'user', 'assistant', 'tool')),
+    content TEXT NOT NULL DEFAULT '',
+    tool_calls TEXT,                         -- JSON
+    tool_call_id TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_messages_session ON session_messages(session_id, id);
+
+-- =============================================================================
+-- 访问控制 (用户、角色、工具授权)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS roles (
+    name TEXT PRIMARY KEY,
+    level TEXT NOT NULL CHECK (level IN ('public', 'user', 'admin', 'system')),  -- 可调用的最高工具权限级别
+    description TEXT,
+    created_at TEXT NOT NULL
+);
+
+INSERT OR IGNORE INTO roles (name, level, description, created_at) VALUES
+    ('public', 'public', 'Anonymous callers', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    ('user', 'user', 'Registered users', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    ('admin', 'admin', 'Administrators', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    ('system', 'system', 'Internal agent loops', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    display_name TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+    granted_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS role_grants (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+    tool TEXT NOT NULL,                      -- 工具名称，'*' 匹配所有工具
+    effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')),  -- deny 优先于 allow
+    created_at TEXT NOT NULL,
+    UNIQUE (role, tool)
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_grants_tool ON role_grants(tool);
+
 -- =============================================================================
 -- 迁移历史表
 -- =============================================================================
@@ -0,0 +1,534 @@
+/**
+ * 访问控制 (Access Control)
+ *
+ * 基于角色的工具授权 (users / roles / user_roles / role_grants 表，见迁移 v6)：
+ * - 权限级别 public < user < admin < system，角色的级别决定可调用的工具
+ * - 角色上的授权可以针对单个工具 (或 '*') 放行或禁止，deny 优先于 allow
+ * - 调用者由 ToolContext 的 userId / source 解析：
+ *   无用户的 system 调用 (反思循环等内部任务) 使用 system 角色，
+ *   其余匿名调用 (Web、未登录会话) 使用 anonymousRole
+ * - 拒绝时抛出 SecurityError 并写入审计日志
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+import type { SQLiteConnectionPool } from '../db/connection.js';
+import { ErrorCode, SecurityError } from '../utils/errors.js';
+import { AuditLogger } from '../utils/logger.js';
+import type { ToolContext, ToolDefinition } from './tool-registry.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type PermissionLevel = 'public' | 'user' | 'admin' | 'system';
+
+export type GrantEffect = 'allow' | 'deny';
+
+/** 角色 */
+export interface RoleRecord {
+  name: string;
+  level: PermissionLevel;
+  description?: string;
+  createdAt: string;
+}
+
+/** 用户 (含已分配的角色) */
+export interface UserRecord {
+  id: string;
+  displayName?: string;
+  roles: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** 角色上的工具授权 */
+export interface ToolGrant {
+  role: string;
+  /** 工具名称，'*' 匹配所有工具 */
+  tool: string;
+  effect: GrantEffect;
+  createdAt: string;
+}
+
+/** 创建用户参数 */
+export interface CreateUserInput {
+  id: string;
+  displayName?: string;
+  /** 默认 ['user'] */
+  roles?: string[];
+}
+
+/** 解析后的调用者 */
+export interface Principal {
+  userId?: string;
+  source: ToolContext['source'];
+  roles: string[];
+  /** 角色中的最高级别 */
+  level: PermissionLevel;
+}
+
+/** 授权结果 */
+export interface AuthorizationDecision {
+  allowed: boolean;
+  tool: string;
+  /** 工具要求的级别 */
+  required: PermissionLevel;
+  principal: Principal;
+  reason: string;
+  /** 决定结果的授权 (未命中授权时按级别判断) */
+  grant?: ToolGrant;
+}
+
+export interface AccessControlConfig {
+  pool: SQLiteConnectionPool;
+  /** 匿名调用者的角色，默认 'public' */
+  anonymousRole?: string;
+  /** 无用户的 system 调用使用的角色，默认 'system' */
+  systemRole?: string;
+  /** 审计日志 */
+  auditLogger?: AuditLogger;
+}
+
+interface RoleRow {
+  name: string;
+  level: PermissionLevel;
+  description: string | null;
+  created_at: string;
+}
+
+interface UserRow {
+  id: string;
+  display_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GrantRow {
+  role: string;
+  tool: string;
+  effect: GrantEffect;
+  created_at: string;
+}
+
+/** 级别从低到高 */
+export const PERMISSION_LEVELS: PermissionLevel[] = ['public', 'user', 'admin', 'system'];
+
+/** 迁移中预置的角色，不可删除 */
+export const BUILT_IN_ROLES = ['public', 'user', 'admin', 'system'];
+
+const DEFAULT_USER_ROLES = ['user'];
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class AccessControlError extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'AccessControlError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// 访问控制主类
+// ============================================================================
+
+export class AccessControl extends EventEmitter {
+  private pool: SQLiteConnectionPool;
+  private anonymousRole: string;
+  private systemRole: string;
+  private audit: AuditLogger;
+
+  constructor(config: AccessControlConfig) {
+    super();
+    this.pool = config.pool;
+    this.anonymousRole = config.anonymousRole ?? 'public';
+    this.systemRole = config.systemRole ?? 'system';
+    this.audit = config.auditLogger ?? new AuditLogger();
+  }
+
+  // ============================================================================
+  // 角色
+  // ============================================================================
+
+  /**
+   * 创建角色
+   */
+  async createRole(name: string, level: PermissionLevel, description?: string): Promise<RoleRecord> {
+    if (!PERMISSION_LEVELS.includes(level)) {
+      throw new AccessControlError(`Invalid permission level: ${level}`, 'INVALID_LEVEL');
+    }
+    if (await this.getRole(name)) {
+      throw new AccessControlError(`Role already exists: ${name}`, 'ROLE_EXISTS');
+    }
+
+    await this.pool.run(
+      'INSERT INTO roles (name, level, description, created_at) VALUES (?, ?, ?, ?)',
+      [name, level, description ?? null, new Date().toISOString()]
+    );
+    return (await this.getRole(name))!;
+  }
+
+  /**
+   * 获取角色，不存在时返回 null
+   */
+  async getRole(name: string): Promise<RoleRecord | null> {
+    const row = await this.pool.get<RoleRow>('SELECT * FROM roles WHERE name = ?', [name]);
+    return row ? rowToRole(row) : null;
+  }
+
+  /**
+   * 列出角色 (按级别从低到高)
+   */
+  async listRoles(): Promise<RoleRecord[]> {
+    const result = await this.pool.query<RoleRow>('SELECT * FROM roles ORDER BY name');
+    return result.rows
+      .map(rowToRole)
+      .sort((a, b) => levelRank(a.level) - levelRank(b.level));
+  }
+
+  /**
+   * 删除角色 (同时移除其分配与授权)；预置角色不可删除
+   */
+  async deleteRole(name: string): Promise<boolean> {
+    if (BUILT_IN_ROLES.includes(name)) {
+      throw new AccessControlError(`Built-in role cannot be deleted: ${name}`, 'ROLE_PROTECTED');
+    }
+    const result = await this.pool.run('DELETE FROM roles WHERE name = ?', [name]);
+    return result.changes > 0;
+  }
+
+  // ============================================================================
+  // 用户
+  // ============================================================================
+
+  /**
+   * 创建用户并分配角色
+   */
+  async createUser(input: CreateUserInput): Promise<UserRecord> {
+    if (await this.getUser(input.id)) {
+      throw new AccessControlError(`User already exists: ${input.id}`, 'USER_EXISTS');
+    }
+    const roles = input.roles ?? DEFAULT_USER_ROLES;
+    for (const role of roles) {
+      await this.requireRole(role);
+    }
+
+    const now = new Date().toISOString();
+    await this.pool.transaction(db => {
+      db.prepare('INSERT INTO users (id, display_name, created_at, updated_at) VALUES (?, ?, ?, ?)')
+        .run(input.id, input.displayName ?? null, now, now);
+      const assign = db.prepare('INSERT INTO user_roles (user_id, role, granted_at) VALUES (?, ?, ?)');
+      roles.forEach(role => assign.run(input.id, role, now));
+    });
+
+    const user = (await this.getUser(input.id))!;
+    this.emit('userCreated', user);
+    return user;
+  }
+
+  /**
+   * 获取用户，不存在时返回 null
+   */
+  async getUser(id: string): Promise<UserRecord | null> {
+    const row = await this.pool.get<UserRow>('SELECT * FROM users WHERE id = ?', [id]);
+    return row ? rowToUser(row, await this.getUserRoles(id)) : null;
+  }
+
+  /**
+   * 列出用户
+   */
+  async listUsers(): Promise<UserRecord[]> {
+    const users = await this.pool.query<UserRow>('SELECT * FROM users ORDER BY id');
+    const roles = await this.pool.query<{ user_id: string; role: string }>(
+      'SELECT user_id, role FROM user_roles ORDER BY role'
+    );
+
+    return users.rows.map(row => rowToUser(
+      row,
+      roles.rows.filter(r => r.user_id === row.id).map(r => r.role)
+    ));
+  }
+
+  /**
+   * 删除用户
+   */
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await this.pool.run('DELETE FROM users WHERE id = ?', [id]);
+    if (result.changes > 0) {
+      this.emit('userDeleted', { id });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 为用户分配角色
+   */
+  async assignRole(userId: string, role: string): Promise<UserRecord> {
+    await this.requireUser(userId);
+    await this.requireRole(role);
+
+    const now = new Date().toISOString();
+    await this.pool.run(
+      'INSERT OR IGNORE INTO user_roles (user_id, role, granted_at) VALUES (?, ?, ?)',
+      [userId, role, now]
+    );
+    await this.pool.run('UPDATE users SET updated_at = ? WHERE id = ?', [now, userId]);
+
+    this.emit('roleAssigned', { userId, role });
+    return (await this.getUser(userId))!;
+  }
+
+  /**
+   * 撤销用户的角色
+   */
+  async revokeRole(userId: string, role: string): Promise<boolean> {
+    const result = await this.pool.run(
+      'DELETE FROM user_roles WHERE user_id = ? AND role = ?',
+      [userId, role]
+    );
+    if (result.changes > 0) {
+      this.emit('roleRevoked', { userId, role });
+      return true;
+    }
+    return false;
+  }
+
+  // ============================================================================
+  // 授权
+  // ============================================================================
+
+  /**
+   * 设置角色对工具的授权 (覆盖已有授权)
+   */
+  async grant(role: string, tool: string, effect: GrantEffect = 'allow'): Promise<ToolGrant> {
+    await this.requireRole(role);
+
+    const createdAt = new Date().toISOString();
+    await this.pool.run(
+      `INSERT INTO role_grants (role, tool, effect, created_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(role, tool) DO UPDATE SET effect = excluded.effect, created_at = excluded.created_at`,
+      [role, tool, effect, createdAt]
+    );
+
+    const grant: ToolGrant = { role, tool, effect, createdAt };
+    this.emit('grantChanged', grant);
+    return grant;
+  }
+
+  /**
+   * 禁止角色调用工具
+   */
+  async deny(role: string, tool: string): Promise<ToolGrant> {
+    return this.grant(role, tool, 'deny');
+  }
+
+  /**
+   * 移除角色对工具的授权
+   */
+  async revokeGrant(role: string, tool: string): Promise<boolean> {
+    const result = await this.pool.run(
+      'DELETE FROM role_grants WHERE role = ? AND tool = ?',
+      [role, tool]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * 列出授权
+   */
+  async listGrants(role?: string): Promise<ToolGrant[]> {
+    const result = role === undefined
+      ? await this.pool.query<GrantRow>('SELECT * FROM role_grants ORDER BY role, tool')
+      : await this.pool.query<GrantRow>('SELECT * FROM role_grants WHERE role = ? ORDER BY tool', [role]);
+    return result.rows.map(rowToGrant);
+  }
+
+  // ============================================================================
+  // 鉴权
+  // ============================================================================
+
+  /**
+   * 解析调用者的角色与级别
+   *
+   * 已注册用户使用其角色；未注册用户与无用户的非 system 调用视为匿名
+   */
+  async resolvePrincipal(context: Pick<ToolContext, 'userId' | 'source'>): Promise<Principal> {
+    let roles: string[] = [];
+
+    if (context.userId) {
+      roles = await this.getUserRoles(context.userId);
+    } else if (context.source === 'system') {
+      roles = [this.systemRole];
+    }
+    if (roles.length === 0) {
+      roles = [this.anonymousRole];
+    }
+
+    const levels = await this.pool.query<{ level: PermissionLevel }>(
+      `SELECT level FROM roles WHERE name IN (${roles.map(() => '?').join(', ')})`,
+      roles
+    );
+    const level = levels.rows.reduce<PermissionLevel>(
+      (highest, row) => (levelRank(row.level) > levelRank(highest) ? row.level : highest),
+      'public'
+    );
+
+    return { userId: context.userId, source: context.source, roles, level };
+  }
+
+  /**
+   * 判断调用者能否调用工具：deny 授权 > allow 授权 > 角色级别
+   */
+  async authorize(
+    tool: Pick<ToolDefinition, 'name' | 'permissionLevel'>,
+    context: Pick<ToolContext, 'userId' | 'source'>
+  ): Promise<AuthorizationDecision> {
+    const principal = await this.resolvePrincipal(context);
+    const required = tool.permissionLevel ?? 'user';
+    const grants = (await this.pool.query<GrantRow>(
+      `SELECT * FROM role_grants
+       WHERE tool IN (?, '*') AND role IN (${principal.roles.map(() => '?').join(', ')})`,
+      [tool.name, ...principal.roles]
+    )).rows.map(rowToGrant);
+
+    const denied = grants.find(g => g.effect === 'deny');
+    if (denied) {
+      return {
+        allowed: false,
+        tool: tool.name,
+        required,
+        principal,
+        reason: `Role "${denied.role}" is denied tool "${tool.name}"`,
+        grant: denied,
+      };
+    }
+
+    const allowed = grants.find(g => g.effect === 'allow');
+    if (allowed) {
+      return {
+        allowed: true,
+        tool: tool.name,
+        required,
+        principal,
+        reason: `Role "${allowed.role}" is granted tool "${tool.name}"`,
+        grant: allowed,
+      };
+    }
+
+    const sufficient = levelRank(principal.level) >= levelRank(required);
+    return {
+      allowed: sufficient,
+      tool: tool.name,
+      required,
+      principal,
+      reason: sufficient
+        ? `Level "${principal.level}" satisfies "${required}"`
+        : `Tool "${tool.name}" requires "${required}" permission, caller has "${principal.level}"`,
+    };
+  }
+
+  /**
+   * 鉴权并在拒绝时写入审计日志、抛出 SecurityError
+   */
+  async enforce(
+    tool: Pick<ToolDefinition, 'name' | 'permissionLevel'>,
+    context: Pick<ToolContext, 'userId' | 'source' | 'sessionId' | 'callId'>
+  ): Promise<AuthorizationDecision> {
+    const decision = await this.authorize(tool, context);
+    if (decision.allowed) {
+      return decision;
+    }
+
+    const details = {
+      source: context.source,
+      sessionId: context.sessionId ?? null,
+      callId: context.callId ?? null,
+      roles: decision.principal.roles,
+      level: decision.principal.level,
+      required: decision.required,
+      reason: decision.reason,
+    };
+    this.audit.access('tool.execute', tool.name, context.userId ?? 'anonymous', false, details);
+    this.emit('accessDenied', decision);
+
+    throw new SecurityError(decision.reason, ErrorCode.SEC_FORBIDDEN, {
+      metadata: { tool: tool.name, userId: context.userId ?? null, ...details },
+    });
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private async getUserRoles(userId: string): Promise<string[]> {
+    const result = await this.pool.query<{ role: string }>(
+      'SELECT role FROM user_roles WHERE user_id = ? ORDER BY role',
+      [userId]
+    );
+    return result.rows.map(r => r.role);
+  }
+
+  private async requireUser(id: string): Promise<void> {
+    const row = await this.pool.get('SELECT id FROM users WHERE id = ?', [id]);
+    if (!row) {
+      throw new AccessControlError(`User not found: ${id}`, 'USER_NOT_FOUND');
+    }
+  }
+
+  private async requireRole(name: string): Promise<void> {
+    if (!(await this.getRole(name))) {
+      throw new AccessControlError(`Role not found: ${name}`, 'ROLE_NOT_FOUND');
+    }
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 级别序号 (越大权限越高)
+ */
+export function levelRank(level: PermissionLevel): number {
+  return PERMISSION_LEVELS.indexOf(level);
+}
+
+function rowToRole(row: RoleRow): RoleRecord {
+  return {
+    name: row.name,
+    level: row.level,
+    description: row.description ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToUser(row: UserRow, roles: string[]): UserRecord {
+  return {
+    id: row.id,
+    displayName: row.display_name ?? undefined,
+    roles,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToGrant(row: GrantRow): ToolGrant {
+  return {
+    role: row.role,
+    tool: row.tool,
+    effect: row.effect,
+    createdAt: row.created_at,
+  };
+}
+
+export function createAccessControl(config: AccessControlConfig): AccessControl {
+  return new AccessControl(config);
+}
+
+export default AccessControl;
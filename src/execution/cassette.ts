@@ -0,0 +1,359 @@
+/**
+ * 模型交互录制/回放 (Model Cassette)
+ *
+ * 包装提供商，将请求/响应 (含流式分块与工具调用) 写入磁带文件，
+ * 回放时按请求哈希返回录制内容：
+ * - record: 始终调用真实提供商并录制
+ * - replay: 仅从磁带返回，未命中时报错 (CASSETTE_MISS)
+ * - auto:   命中则回放，否则调用并录制
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ModelEngineError } from './providers/base.js';
+import type {
+  ModelProvider,
+  ProviderContext,
+  ProviderRequest,
+} from './providers/base.js';
+import type {
+  Message,
+  ToolDefinition,
+  StreamChunk,
+  CompletionResult,
+  EmbeddingResult,
+} from './model-engine.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 磁带模式 */
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+/** 交互类型 */
+export type InteractionKind = 'complete' | 'stream';
+
+/** 参与哈希的请求内容 (不含 API Key、地址等环境相关配置) */
+export interface RecordedRequest {
+  kind: InteractionKind;
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+  messages: Message[];
+  tools?: ToolDefinition[];
+}
+
+/** 录制的单次交互 */
+export interface RecordedInteraction {
+  hash: string;
+  request: RecordedRequest;
+  /** 非流式响应 (不含 latencyMs) */
+  response?: Omit<CompletionResult, 'latencyMs'>;
+  /** 流式分块 */
+  chunks?: StreamChunk[];
+  /** 提供商报错时的错误 */
+  error?: { message: string; code: string };
+  recordedAt: string;
+}
+
+/** 磁带文件格式 */
+export interface CassetteFile {
+  version: 1;
+  interactions: RecordedInteraction[];
+}
+
+/** 磁带配置 */
+export interface CassetteConfig {
+  /** 磁带文件路径 (不设置时仅保存在内存中) */
+  path?: string;
+  /** 模式，默认 auto */
+  mode?: CassetteMode;
+  /** 哈希时是否包含 system 消息，默认 true；提示词含时间戳等易变内容时可关闭 */
+  matchSystemPrompt?: boolean;
+  /** 每次录制后立即写盘，默认 true */
+  autoSave?: boolean;
+}
+
+const CASSETTE_VERSION = 1;
+
+// ============================================================================
+// 磁带
+// ============================================================================
+
+export class Cassette extends EventEmitter {
+  private config: Required<Omit<CassetteConfig, 'path'>> & { path?: string };
+  private interactions: RecordedInteraction[] = [];
+  /** 每个哈希下一次回放的位置 (同一请求多次出现时按录制顺序返回) */
+  private cursors: Map<string, number> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: CassetteConfig = {}) {
+    super();
+    this.config = {
+      mode: 'auto',
+      matchSystemPrompt: true,
+      autoSave: true,
+      ...config,
+    };
+  }
+
+  /**
+   * 从磁带文件加载录制内容 (文件不存在时视为空磁带，replay 模式除外)
+   */
+  async load(): Promise<void> {
+    if (!this.config.path) return;
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.config.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && this.config.mode !== 'replay') {
+        return;
+      }
+      throw new ModelEngineError(
+        `Failed to read cassette ${this.config.path}: ${(error as Error).message}`,
+        'CASSETTE_ERROR'
+      );
+    }
+
+    const file = JSON.parse(raw) as CassetteFile;
+    if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+      throw new ModelEngineError(
+        `Unsupported cassette format in ${this.config.path}`,
+        'CASSETTE_ERROR',
+        { version: file.version }
+      );
+    }
+
+    this.interactions = file.interactions;
+    this.cursors.clear();
+    this.emit('loaded', { path: this.config.path, interactions: this.interactions.length });
+  }
+
+  /**
+   * 写入磁带文件 (串行化，避免并发写入交错)
+   */
+  save(): Promise<void> {
+    const target = this.config.path;
+    if (!target) return Promise.resolve();
+
+    this.writeQueue = this.writeQueue.then(async () => {
+      const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, JSON.stringify(file, null, 2));
+    });
+    return this.writeQueue;
+  }
+
+  getMode(): CassetteMode {
+    return this.config.mode;
+  }
+
+  setMode(mode: CassetteMode): void {
+    this.config.mode = mode;
+  }
+
+  /**
+   * 获取全部录制内容
+   */
+  getInteractions(): RecordedInteraction[] {
+    return [...this.interactions];
+  }
+
+  /**
+   * 重置回放位置
+   */
+  rewind(): void {
+    this.cursors.clear();
+  }
+
+  /**
+   * 计算请求哈希
+   */
+  hashRequest(request: RecordedRequest): string {
+    const messages = this.config.matchSystemPrompt
+      ? request.messages
+      : request.messages.filter(m => m.role !== 'system');
+    return createHash('sha256')
+      .update(canonicalJSON({ ...request, messages }))
+      .digest('hex');
+  }
+
+  /**
+   * 包装提供商，按当前模式录制或回放
+   */
+  wrap(provider: ModelProvider): ModelProvider {
+    const cassette = this;
+    return {
+      name: provider.name,
+      complete: request => cassette.complete(provider, request),
+      stream: request => cassette.stream(provider, request),
+      ...(provider.embed
+        ? { embed: (text: string, context: ProviderContext): Promise<EmbeddingResult> => provider.embed!(text, context) }
+        : {}),
+    };
+  }
+
+  // ============================================================================
+  // 录制与回放
+  // ============================================================================
+
+  private async complete(provider: ModelProvider, request: ProviderRequest): Promise<CompletionResult> {
+    const recorded = toRecordedRequest('complete', request);
+    const hash = this.hashRequest(recorded);
+    const hit = this.lookup(hash, recorded);
+
+    if (hit) {
+      if (hit.error) {
+        throw new ModelEngineError(hit.error.message, hit.error.code, { replayed: true });
+      }
+      return { ...hit.response!, latencyMs: 0 };
+    }
+
+    try {
+      const result = await provider.complete(request);
+      const { latencyMs: _latencyMs, ...response } = result;
+      await this.append({ hash, request: recorded, response, recordedAt: new Date().toISOString() });
+      return result;
+    } catch (error) {
+      await this.recordError(hash, recorded, error);
+      throw error;
+    }
+  }
+
+  private async *stream(provider: ModelProvider, request: ProviderRequest): AsyncGenerator<StreamChunk> {
+    const recorded = toRecordedRequest('stream', request);
+    const hash = this.hashRequest(recorded);
+    const hit = this.lookup(hash, recorded);
+
+    if (hit) {
+      for (const chunk of hit.chunks ?? []) {
+        yield chunk;
+      }
+      if (hit.error) {
+        throw new ModelEngineError(hit.error.message, hit.error.code, { replayed: true });
+      }
+      return;
+    }
+
+    const chunks: StreamChunk[] = [];
+    let completed = false;
+    try {
+      for await (const chunk of provider.stream(request)) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      completed = true;
+    } catch (error) {
+      await this.recordError(hash, recorded, error, chunks);
+      throw error;
+    } finally {
+      // 消费方提前停止时不录制不完整的流
+      if (completed) {
+        await this.append({ hash, request: recorded, chunks, recordedAt: new Date().toISOString() });
+      }
+    }
+  }
+
+  /**
+   * 查找录制内容；replay 模式下未命中时报错
+   */
+  private lookup(hash: string, request: RecordedRequest): RecordedInteraction | null {
+    if (this.config.mode === 'record') return null;
+
+    const matches = this.interactions.filter(i => i.hash === hash);
+    if (matches.length === 0) {
+      if (this.config.mode === 'replay') {
+        this.emit('miss', { hash, request });
+        throw new ModelEngineError(
+          `No recorded interaction for ${request.kind} request ${hash.slice(0, 12)}`,
+          'CASSETTE_MISS',
+          { hash, model: request.model }
+        );
+      }
+      return null;
+    }
+
+    // 录制次数用尽后重复最后一次
+    const cursor = this.cursors.get(hash) ?? 0;
+    this.cursors.set(hash, cursor + 1);
+    const hit = matches[Math.min(cursor, matches.length - 1)];
+    this.emit('replayed', { hash, kind: request.kind });
+    return hit;
+  }
+
+  private async recordError(
+    hash: string,
+    request: RecordedRequest,
+    error: unknown,
+    chunks?: StreamChunk[]
+  ): Promise<void> {
+    // 仅录制提供商返回的错误，中断与程序错误不录制
+    if (!(error instanceof ModelEngineError) || error.code === 'ABORTED') return;
+
+    await this.append({
+      hash,
+      request,
+      ...(chunks ? { chunks } : {}),
+      error: { message: error.message, code: error.code },
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  private async append(interaction: RecordedInteraction): Promise<void> {
+    this.interactions.push(interaction);
+    this.emit('recorded', { hash: interaction.hash, kind: interaction.request.kind });
+    if (this.config.autoSave) {
+      await this.save();
+    }
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+function toRecordedRequest(kind: InteractionKind, request: ProviderRequest): RecordedRequest {
+  const { config } = request;
+  return {
+    kind,
+    provider: config.provider,
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    responseFormat: request.responseFormat,
+    messages: request.messages,
+    tools: request.tools,
+  };
+}
+
+/**
+ * 键排序后的 JSON，保证相同请求得到相同哈希
+ */
+function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.keys(val).sort().filter(k => val[k] !== undefined).map(k => [k, val[k]])
+      );
+    }
+    return val;
+  });
+}
+
+/**
+ * 创建并加载磁带
+ */
+export async function createCassette(config: CassetteConfig = {}): Promise<Cassette> {
+  const cassette = new Cassette(config);
+  await cassette.load();
+  return cassette;
+}
+
+export default Cassette;
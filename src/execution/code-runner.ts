@@ -0,0 +1,355 @@
+/**
+ * 代码执行器 (Code Runner)
+ *
+ * code_eval 工具的受限 JavaScript 执行层：
+ * - 每次执行在独立的 worker 线程中运行，worker 设置堆内存上限 (resourceLimits)
+ * - 代码在 node:vm 的新上下文中执行：没有 require / process / 定时器，禁止 eval 与 new Function
+ * - 宿主函数不直接暴露给代码 (console 与结果回传经由上下文内部的闭包转发)，
+ *   结果在上下文内部序列化为 JSON 后回传
+ * - 墙钟超时后终止 worker (包括异步代码中的死循环)
+ * - 捕获 console 输出，超出上限时截断
+ * 结果中的 limitsHit 报告触发了哪些限制
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { Worker } from 'worker_threads';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export interface CodeRunnerConfig {
+  /** 墙钟超时 (毫秒)，同时是单次调用可请求的上限，默认 10000 */
+  timeoutMs?: number;
+  /** worker 堆内存上限 (MB)，默认 64 */
+  memoryLimitMb?: number;
+  /** console 输出的最大字节数，默认 64 KiB */
+  maxOutputBytes?: number;
+}
+
+/** 单次执行参数 */
+export interface CodeRunOptions {
+  /** JavaScript 代码：表达式或语句的结果为返回值，也可以使用 return 与 await */
+  code: string;
+  /** 以全局变量 input 提供给代码的数据 (需可 JSON 序列化) */
+  input?: unknown;
+  /** 超时 (毫秒)，不超过 config.timeoutMs */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export type CodeLimit = 'timeout' | 'memory' | 'output';
+
+export interface ConsoleEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+}
+
+/** 执行结果 */
+export interface CodeRunResult {
+  success: boolean;
+  /** 返回值 (JSON 序列化后的结构化数据) */
+  result?: unknown;
+  /** 返回值的类型 (typeof，数组为 'array'，null 为 'null') */
+  resultType?: string;
+  console: ConsoleEntry[];
+  error?: { name: string; message: string; stack?: string };
+  durationMs: number;
+  /** 触发的限制 */
+  limitsHit: CodeLimit[];
+  /** console 输出被截断 */
+  truncated: boolean;
+}
+
+/** worker 回传的消息 */
+interface WorkerReply {
+  ok: boolean;
+  json?: string;
+  resultType?: string;
+  error?: { name: string; message: string; stack?: string };
+  console: ConsoleEntry[];
+  truncated: boolean;
+  timedOut?: boolean;
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MEMORY_LIMIT_MB = 64;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+
+/**
+ * worker 线程源码 (CommonJS，eval 模式运行)
+ *
+ * SETUP 在上下文内部执行：取走宿主的 __bridge 后删除全局引用，
+ * 代码只能接触到上下文自身的对象
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const { code, inputJson, timeoutMs, maxOutputBytes } = workerData;
+const entries = [];
+let outputBytes = 0;
+let truncated = false;
+let replied = false;
+
+function reply(message) {
+  if (replied) return;
+  replied = true;
+  parentPort.postMessage({ ...message, console: entries, truncated });
+}
+
+function bridge(kind, a, b) {
+  if (kind === 'console') {
+    if (typeof a !== 'string' || typeof b !== 'string' || truncated) return;
+    const size = Buffer.byteLength(b);
+    if (outputBytes + size > maxOutputBytes) {
+      truncated = true;
+      return;
+    }
+    outputBytes += size;
+    entries.push({ level: a, message: b });
+  } else if (kind === 'done') {
+    reply({ ok: true, json: typeof a === 'string' ? a : undefined, resultType: String(b) });
+  } else if (kind === 'error') {
+    let error = { name: 'Error', message: 'Unknown error' };
+    try { error = JSON.parse(String(a)); } catch {}
+    reply({ ok: false, error });
+  }
+}
+
+const SETUP = \`(() => {
+  const send = globalThis.__bridge;
+  delete globalThis.__bridge;
+  // 在代码运行前保存内置函数，代码改写全局对象不影响结果回传
+  const stringify = JSON.stringify;
+  const format = value => {
+    if (typeof value === 'string') return value;
+    try {
+      const json = stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() + 'n' : v);
+      return json === undefined ? String(value) : json;
+    } catch {
+      return String(value);
+    }
+  };
+  const log = level => (...args) => send('console', level, args.map(format).join(' '));
+  globalThis.console = { log: log('log'), info: log('info'), warn: log('warn'), error: log('error'), debug: log('debug') };
+  globalThis.input = JSON.parse(globalThis.__input);
+  delete globalThis.__input;
+  const typeOf = value => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  const serialize = value => stringify(value, (_, v) => {
+    if (typeof v === 'bigint') return v.toString();
+    if (typeof v === 'function') return '[Function ' + (v.name || 'anonymous') + ']';
+    if (typeof v === 'symbol') return v.toString();
+    if (v instanceof Map) return Object.fromEntries(v);
+    if (v instanceof Set) return Array.from(v);
+    return v;
+  });
+  const serializeError = error => stringify(error instanceof Error
+    ? { name: String(error.name), message: String(error.message), stack: String(error.stack) }
+    : { name: 'Error', message: format(error) });
+  const promise = Promise.resolve();
+  const then = Promise.prototype.then;
+  return (value, isFunction) => {
+    const settled = then.call(promise, () => (isFunction ? value() : value));
+    then.call(settled, result => send('done', serialize(result), typeOf(result)), error => send('error', serializeError(error)));
+  };
+})()\`;
+
+try {
+  const sandbox = Object.create(null);
+  sandbox.__bridge = bridge;
+  sandbox.__input = inputJson;
+  const context = vm.createContext(sandbox, {
+    name: 'code_eval',
+    codeGeneration: { strings: false, wasm: false },
+  });
+  const start = new vm.Script(SETUP).runInContext(context);
+
+  // 优先作为脚本执行 (取最后一个表达式的值)，包含 return / await 时作为 async 函数体执行
+  let script;
+  let isFunction = false;
+  try {
+    script = new vm.Script(code, { filename: 'code_eval.js' });
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    script = new vm.Script('(async () => {\\n' + code + '\\n})', { filename: 'code_eval.js', lineOffset: -1 });
+    isFunction = true;
+  }
+
+  const value = script.runInContext(context, { timeout: timeoutMs });
+  start(value, isFunction);
+} catch (error) {
+  const timedOut = error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+  reply({
+    ok: false,
+    timedOut,
+    error: {
+      name: String(error && error.name || 'Error'),
+      message: String(error && error.message || error),
+      stack: error && error.stack ? String(error.stack) : undefined,
+    },
+  });
+}
+`;
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class CodeRunnerError extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'CodeRunnerError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// 执行器主类
+// ============================================================================
+
+export class CodeRunner {
+  private config: CodeRunnerConfig;
+
+  constructor(config: CodeRunnerConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 获取配置
+   */
+  getConfig(): CodeRunnerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 在隔离的 worker 与 vm 上下文中执行代码
+   */
+  async run(options: CodeRunOptions): Promise<CodeRunResult> {
+    if (typeof options.code !== 'string' || options.code.trim() === '') {
+      throw new CodeRunnerError('Code must be a non-empty string', 'INVALID_CODE');
+    }
+
+    let inputJson: string;
+    try {
+      inputJson = JSON.stringify(options.input ?? null);
+    } catch (error) {
+      throw new CodeRunnerError(
+        `Input is not JSON serializable: ${error instanceof Error ? error.message : String(error)}`,
+        'INVALID_INPUT'
+      );
+    }
+
+    if (options.signal?.aborted) {
+      throw new CodeRunnerError('Code execution aborted before start', 'ABORTED');
+    }
+
+    const maxTimeout = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const timeoutMs = Math.min(options.timeoutMs ?? maxTimeout, maxTimeout);
+    const memoryLimitMb = this.config.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+
+    const startTime = Date.now();
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        code: options.code,
+        inputJson,
+        timeoutMs,
+        maxOutputBytes: this.config.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+        stackSizeMb: 4,
+      },
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+
+    return new Promise<CodeRunResult>((resolve, reject) => {
+      let settled = false;
+
+      const finish = (outcome: { reply?: WorkerReply; limit?: CodeLimit; error?: Error }) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        void worker.terminate();
+
+        if (outcome.error) {
+          reject(outcome.error);
+          return;
+        }
+        resolve(this.buildResult(outcome.reply, outcome.limit, timeoutMs, memoryLimitMb, Date.now() - startTime));
+      };
+
+      const onAbort = () => finish({ error: new CodeRunnerError('Code execution aborted', 'ABORTED') });
+
+      const timer = setTimeout(() => finish({ limit: 'timeout' }), timeoutMs);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.once('message', (reply: WorkerReply) => {
+        finish({ reply, limit: reply.timedOut ? 'timeout' : undefined });
+      });
+      worker.once('error', (error: Error & { code?: string }) => {
+        if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          finish({ limit: 'memory' });
+        } else {
+          finish({ error: new CodeRunnerError(`Code worker failed: ${error.message}`, 'WORKER_ERROR') });
+        }
+      });
+      worker.once('exit', code => {
+        finish({ error: new CodeRunnerError(`Code worker exited unexpectedly (code ${code})`, 'WORKER_ERROR') });
+      });
+    });
+  }
+
+  private buildResult(
+    reply: WorkerReply | undefined,
+    limit: CodeLimit | undefined,
+    timeoutMs: number,
+    memoryLimitMb: number,
+    durationMs: number
+  ): CodeRunResult {
+    const limitsHit: CodeLimit[] = limit ? [limit] : [];
+    if (reply?.truncated) {
+      limitsHit.push('output');
+    }
+
+    const result: CodeRunResult = {
+      success: Boolean(reply?.ok) && !limit,
+      console: reply?.console ?? [],
+      durationMs,
+      limitsHit,
+      truncated: reply?.truncated ?? false,
+    };
+
+    if (limit === 'timeout') {
+      result.error = { name: 'TimeoutError', message: `Code execution timed out after ${timeoutMs}ms` };
+    } else if (limit === 'memory') {
+      result.error = { name: 'RangeError', message: `Code execution exceeded the ${memoryLimitMb}MB memory limit` };
+    } else if (reply?.ok) {
+      result.result = reply.json === undefined ? undefined : JSON.parse(reply.json);
+      result.resultType = reply.resultType;
+    } else {
+      result.error = reply?.error;
+    }
+    return result;
+  }
+}
+
+/**
+ * 创建代码执行器
+ */
+export function createCodeRunner(config?: CodeRunnerConfig): CodeRunner {
+  return new CodeRunner(config);
+}
+
+export default CodeRunner;
@@ -0,0 +1,240 @@
+/**
+ * Ouroboros - 工具确认代理 (Confirmation Broker)
+ *
+ * 人在回路 (human-in-the-loop)：
+ * - 标记 requireConfirmation 的工具在执行前挂起
+ * - 渲染后的确认请求通过 'requested' 事件推送给发起会话的适配器
+ *   (WebSocket 会话频道、TUI 提示、REST 待确认列表)
+ * - 批准后继续执行；拒绝、超时或取消时中止
+ */
+
+import { EventEmitter } from 'events';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type ConfirmationDecision = 'approved' | 'denied' | 'timeout' | 'cancelled';
+
+/** 待确认的工具调用 */
+export interface ConfirmationRequest {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  /** 渲染后的确认提示 */
+  message: string;
+  callId?: string;
+  sessionId?: string;
+  userId?: string;
+  source?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** 确认结果 */
+export interface ConfirmationResolution {
+  id: string;
+  decision: ConfirmationDecision;
+  reason?: string;
+  /** 做出决定的一方 (适配器或用户标识) */
+  decidedBy?: string;
+  decidedAt: string;
+}
+
+export interface ConfirmationBrokerConfig {
+  /** 等待确认的超时时间 (毫秒)，默认 120000 */
+  timeoutMs?: number;
+  /** 同时挂起的确认上限，超出时直接拒绝，默认 100 */
+  maxPending?: number;
+}
+
+/** 新确认请求的参数 */
+export type ConfirmationInput = Omit<ConfirmationRequest, 'id' | 'createdAt' | 'expiresAt'> & {
+  /** 覆盖默认超时 */
+  timeoutMs?: number;
+};
+
+interface PendingConfirmation {
+  request: ConfirmationRequest;
+  resolve: (resolution: ConfirmationResolution) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_PENDING = 100;
+
+// ============================================================================
+// 确认代理
+// ============================================================================
+
+export class ConfirmationBroker extends EventEmitter {
+  private timeoutMs: number;
+  private maxPending: number;
+  private pending: Map<string, PendingConfirmation> = new Map();
+  private counter = 0;
+
+  constructor(config: ConfirmationBrokerConfig = {}) {
+    super();
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxPending = config.maxPending ?? DEFAULT_MAX_PENDING;
+  }
+
+  /**
+   * 请求确认：挂起直到批准、拒绝、超时或 signal 中止
+   */
+  request(input: ConfirmationInput, signal?: AbortSignal): Promise<ConfirmationResolution> {
+    const { timeoutMs = this.timeoutMs, ...fields } = input;
+    const now = Date.now();
+    const request: ConfirmationRequest = {
+      ...fields,
+      id: `confirm_${now}_${++this.counter}`,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeoutMs).toISOString(),
+    };
+
+    if (signal?.aborted) {
+      return Promise.resolve(this.resolution(request.id, 'cancelled', 'Aborted before confirmation'));
+    }
+    if (this.pending.size >= this.maxPending) {
+      return Promise.resolve(this.resolution(request.id, 'denied', 'Too many pending confirmations'));
+    }
+
+    return new Promise(resolve => {
+      const onAbort = () => this.settle(request.id, 'cancelled', { reason: 'Tool call aborted' });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(request.id, {
+        request,
+        resolve,
+        timer: setTimeout(
+          () => this.settle(request.id, 'timeout', { reason: `No response within ${timeoutMs}ms` }),
+          timeoutMs
+        ),
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      });
+
+      this.emit('requested', request);
+    });
+  }
+
+  /**
+   * 批准
+   */
+  approve(id: string, options: { by?: string; reason?: string } = {}): boolean {
+    return this.settle(id, 'approved', options);
+  }
+
+  /**
+   * 拒绝
+   */
+  deny(id: string, options: { by?: string; reason?: string } = {}): boolean {
+    return this.settle(id, 'denied', options);
+  }
+
+  /**
+   * 取消会话中所有待确认的请求 (例如对话被取消)
+   */
+  cancelSession(sessionId: string, reason = 'Session cancelled'): number {
+    const ids = this.getPending({ sessionId }).map(r => r.id);
+    ids.forEach(id => this.settle(id, 'cancelled', { reason }));
+    return ids.length;
+  }
+
+  /**
+   * 取消所有待确认的请求
+   */
+  cancelAll(reason = 'Broker shut down'): number {
+    const ids = Array.from(this.pending.keys());
+    ids.forEach(id => this.settle(id, 'cancelled', { reason }));
+    return ids.length;
+  }
+
+  /**
+   * 获取单个待确认请求
+   */
+  get(id: string): ConfirmationRequest | undefined {
+    const entry = this.pending.get(id);
+    return entry ? { ...entry.request } : undefined;
+  }
+
+  /**
+   * 列出待确认请求 (按创建时间)
+   */
+  getPending(filter: { sessionId?: string; userId?: string } = {}): ConfirmationRequest[] {
+    return Array.from(this.pending.values())
+      .map(entry => entry.request)
+      .filter(r => filter.sessionId === undefined || r.sessionId === filter.sessionId)
+      .filter(r => filter.userId === undefined || r.userId === filter.userId)
+      .map(r => ({ ...r }));
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private settle(
+    id: string,
+    decision: ConfirmationDecision,
+    options: { by?: string; reason?: string }
+  ): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.cleanup();
+
+    const resolution = this.resolution(id, decision, options.reason, options.by);
+    this.emit('resolved', { request: entry.request, resolution });
+    entry.resolve(resolution);
+    return true;
+  }
+
+  private resolution(
+    id: string,
+    decision: ConfirmationDecision,
+    reason?: string,
+    decidedBy?: string
+  ): ConfirmationResolution {
+    return { id, decision, reason, decidedBy, decidedAt: new Date().toISOString() };
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 渲染确认模板：{{name}} 替换为对应参数 (对象序列化为 JSON)
+ */
+export function renderConfirmation(
+  template: string | undefined,
+  toolName: string,
+  args: Record<string, unknown>
+): string {
+  if (!template) {
+    return `Allow tool "${toolName}" to run with ${JSON.stringify(args)}?`;
+  }
+
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+    const value = key.split('.').reduce<unknown>(
+      (current, part) => (current && typeof current === 'object'
+        ? (current as Record<string, unknown>)[part]
+        : undefined),
+      args
+    );
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+export function createConfirmationBroker(config?: ConfirmationBrokerConfig): ConfirmationBroker {
+  return new ConfirmationBroker(config);
+}
+
+export default ConfirmationBroker;
@@ -0,0 +1,825 @@
+/**
+ * Git 客户端 (Git Client)
+ *
+ * git_* 工具基于本地 git 命令行的实现，受文件路径策略约束：
+ * - 仓库根目录与所有显式路径都经路径策略解析 (realpath) 与检查
+ * - 不指定路径的 status / diff / show 通过排除 pathspec 隐藏禁止访问的文件
+ *   (禁止的 glob 与 Agent 自身源码，后者仅硬自指流程可见)
+ * - 提交只写入指定分支 (默认需以 agent/ 开头)，使用临时索引构建提交，
+ *   不改动工作区、当前索引与已检出的分支，修改以可审查的提交形式呈现
+ * - 只继承白名单环境变量，禁用交互提示、外部 diff 与 fsmonitor
+ * - 超时与输出大小上限
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PathPolicy } from './path-policy.js';
+import type { PathAccess, PathCheckOptions } from './path-policy.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export interface GitClientConfig {
+  /** 路径策略，默认 new PathPolicy() */
+  policy?: PathPolicy;
+  /** 可提交的分支名前缀，默认 'agent/'；空字符串表示不限制 (已检出的分支始终不可提交) */
+  branchPrefix?: string;
+  /** 提交作者，默认 Ouroboros Agent <agent@ouroboros.local> */
+  author?: { name: string; email: string };
+  /** 单个 git 命令的超时 (毫秒)，默认 30000 */
+  timeoutMs?: number;
+  /** 输出最大字节数，默认 1 MiB；超出时截断 */
+  maxOutputBytes?: number;
+  /** git 可执行文件，默认 'git' */
+  gitPath?: string;
+}
+
+/** 单次 git 命令参数 */
+export interface GitRunOptions {
+  /** 写入 stdin 的内容 */
+  input?: string;
+  /** 额外的环境变量 */
+  env?: Record<string, string>;
+  /** 非零退出码时不抛出异常 */
+  allowFailure?: boolean;
+}
+
+export interface GitRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  truncated: boolean;
+}
+
+export interface GitStatusEntry {
+  path: string;
+  /** 重命名或复制前的路径 */
+  origPath?: string;
+  /** 暂存区状态 (porcelain 的 X 列) */
+  index: string;
+  /** 工作区状态 (porcelain 的 Y 列) */
+  worktree: string;
+}
+
+export interface GitStatus {
+  root: string;
+  branch: string | null;
+  detached: boolean;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  entries: GitStatusEntry[];
+  clean: boolean;
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  parents: string[];
+  subject: string;
+  body?: string;
+}
+
+export interface GitDiffOptions {
+  /** 限定的路径 */
+  paths?: string[];
+  /** 比较暂存区与 HEAD */
+  staged?: boolean;
+  /** 起始提交 (省略时比较工作区) */
+  base?: string;
+  /** 目标提交 */
+  target?: string;
+  /** 上下文行数 */
+  contextLines?: number;
+}
+
+export interface GitDiffFile {
+  path: string;
+  origPath?: string;
+  additions: number | null;
+  deletions: number | null;
+  binary: boolean;
+}
+
+export interface GitDiffResult {
+  root: string;
+  diff: string;
+  files: GitDiffFile[];
+  truncated: boolean;
+}
+
+export interface GitLogOptions {
+  ref?: string;
+  path?: string;
+  /** 最大条数，默认 20，上限 200 */
+  limit?: number;
+  since?: string;
+  author?: string;
+  /** 按提交信息过滤 */
+  grep?: string;
+}
+
+export interface GitShowResult {
+  root: string;
+  ref: string;
+  /** 指定 path 时为该版本的文件内容 */
+  path?: string;
+  content?: string;
+  commit?: GitCommitInfo;
+  diff?: string;
+  truncated: boolean;
+}
+
+export interface GitBlameLine {
+  line: number;
+  commit: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+}
+
+export interface GitBlameOptions {
+  ref?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+/** 提交中的文件修改 */
+export interface GitFileChange {
+  path: string;
+  /** 新内容 (UTF-8) */
+  content?: string;
+  /** 删除该文件 */
+  delete?: boolean;
+}
+
+export interface GitCommitOptions {
+  branch: string;
+  message: string;
+  changes: GitFileChange[];
+}
+
+export interface GitCommitResult {
+  root: string;
+  branch: string;
+  commit: string;
+  parent: string;
+  files: Array<{ path: string; action: 'added' | 'modified' | 'deleted' }>;
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+export const DEFAULT_BRANCH_PREFIX = 'agent/';
+
+/** 默认继承的环境变量 */
+const ENV_PASSTHROUGH = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TZ', 'TMPDIR'];
+
+/**
+ * 所有命令都使用的全局参数
+ *
+ * 仓库配置可能由不受信任的一方写入：禁用 fsmonitor 与钩子，避免其中的命令被 git 执行
+ */
+const GLOBAL_ARGS = [
+  '-c', 'core.quotepath=off',
+  '-c', 'core.fsmonitor=',
+  '-c', 'core.hooksPath=/dev/null',
+  '-c', 'color.ui=false',
+  '--no-pager',
+];
+
+const DEFAULT_AUTHOR = { name: 'Ouroboros Agent', email: 'agent@ouroboros.local' };
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+const DEFAULT_LOG_LIMIT = 20;
+const MAX_LOG_LIMIT = 200;
+const MAX_STDERR_BYTES = 64 * 1024;
+
+/** 提交信息格式：字段以 0x1f 分隔，记录以 0x1e 结尾 */
+const COMMIT_FORMAT = '%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%P%x1f%s%x1f%b%x1e';
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class GitError extends Error {
+  public readonly code: string;
+  public readonly stderr?: string;
+
+  constructor(message: string, code: string, stderr?: string) {
+    super(message);
+    this.name = 'GitError';
+    this.code = code;
+    this.stderr = stderr;
+  }
+}
+
+// ============================================================================
+// Git 客户端主类
+// ============================================================================
+
+export class GitClient {
+  private policy: PathPolicy;
+  private config: GitClientConfig;
+
+  constructor(config: GitClientConfig = {}) {
+    this.policy = config.policy ?? new PathPolicy();
+    this.config = config;
+  }
+
+  /**
+   * 获取配置
+   */
+  getConfig(): GitClientConfig {
+    return { ...this.config, policy: this.policy };
+  }
+
+  /**
+   * 解析仓库根目录，仓库或其根目录不在路径策略范围内时抛出异常
+   */
+  async openRepository(repo = '.', scope: PathCheckOptions = {}): Promise<string> {
+    const dir = await this.policy.resolve(repo, 'read', scope);
+    const result = await this.run(dir, ['rev-parse', '--show-toplevel'], { allowFailure: true });
+    if (result.exitCode !== 0) {
+      throw new GitError(`Not a git repository: ${repo}`, 'NOT_A_REPOSITORY', result.stderr);
+    }
+    return this.policy.resolve(result.stdout.trim(), 'read', scope);
+  }
+
+  /**
+   * 工作区状态
+   */
+  async status(repo?: string, scope: PathCheckOptions = {}): Promise<GitStatus> {
+    const root = await this.openRepository(repo, scope);
+    const excludes = await this.excludePathspecs(root, scope);
+    const { stdout } = await this.run(root, [
+      'status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all', '--', '.', ...excludes,
+    ]);
+
+    const fields = stdout.split('\0');
+    const status: GitStatus = { root, branch: null, detached: false, ahead: 0, behind: 0, entries: [], clean: true };
+
+    for (let i = 0; i < fields.length; i++) {
+      const field = fields[i];
+      if (!field) continue;
+
+      if (field.startsWith('## ')) {
+        Object.assign(status, parseBranchHeader(field.slice(3)));
+        continue;
+      }
+
+      const entry: GitStatusEntry = { index: field[0], worktree: field[1], path: field.slice(3) };
+      if (entry.index === 'R' || entry.index === 'C' || entry.worktree === 'R' || entry.worktree === 'C') {
+        entry.origPath = fields[++i];
+      }
+      status.entries.push(entry);
+    }
+
+    status.clean = status.entries.length === 0;
+    return status;
+  }
+
+  /**
+   * 差异 (工作区、暂存区或两个提交之间)
+   */
+  async diff(repo: string | undefined, options: GitDiffOptions = {}, scope: PathCheckOptions = {}): Promise<GitDiffResult> {
+    const root = await this.openRepository(repo, scope);
+    if (options.target && !options.base) {
+      throw new GitError('target requires base', 'INVALID_ARGUMENT');
+    }
+    const revisions = await Promise.all(
+      [options.base, options.target].filter((ref): ref is string => Boolean(ref)).map(ref => this.resolveCommit(root, ref))
+    );
+
+    const pathspecs = await this.pathspecs(root, options.paths, 'read', scope);
+    const common = [
+      '--no-ext-diff', '--no-textconv',
+      ...(options.staged ? ['--cached'] : []),
+      ...revisions,
+    ];
+
+    const [patch, numstat] = await Promise.all([
+      this.run(root, [
+        'diff', ...common,
+        ...(options.contextLines !== undefined ? [`--unified=${Math.max(0, Math.floor(options.contextLines))}`] : []),
+        '--', ...pathspecs,
+      ]),
+      this.run(root, ['diff', ...common, '--numstat', '-z', '--', ...pathspecs]),
+    ]);
+
+    return { root, diff: patch.stdout, files: parseNumstat(numstat.stdout), truncated: patch.truncated };
+  }
+
+  /**
+   * 提交历史
+   */
+  async log(repo: string | undefined, options: GitLogOptions = {}, scope: PathCheckOptions = {}): Promise<GitCommitInfo[]> {
+    const root = await this.openRepository(repo, scope);
+    const limit = Math.min(Math.max(1, Math.floor(options.limit ?? DEFAULT_LOG_LIMIT)), MAX_LOG_LIMIT);
+    const pathspecs = options.path ? await this.pathspecs(root, [options.path], 'read', scope) : [];
+
+    const { stdout } = await this.run(root, [
+      'log', `--format=${COMMIT_FORMAT}`, `--max-count=${limit}`,
+      ...(options.since ? [`--since=${options.since}`] : []),
+      ...(options.author ? [`--author=${options.author}`] : []),
+      ...(options.grep ? [`--grep=${options.grep}`] : []),
+      ...(options.ref ? [await this.resolveCommit(root, options.ref)] : []),
+      '--', ...pathspecs,
+    ]);
+
+    return parseCommits(stdout);
+  }
+
+  /**
+   * 查看提交 (信息与差异)，或指定 path 时查看该版本的文件内容
+   */
+  async show(repo: string | undefined, ref: string, filePath?: string, scope: PathCheckOptions = {}): Promise<GitShowResult> {
+    const root = await this.openRepository(repo, scope);
+    // 文件内容只能经由 filePath (路径策略检查)，ref 本身解析为提交，不接受 rev:path 或树、blob 对象
+    const commitHash = await this.resolveCommit(root, ref);
+
+    if (filePath) {
+      const relative = await this.resolvePath(root, filePath, 'read', scope);
+      const result = await this.run(root, ['show', '--no-textconv', `${commitHash}:${relative}`], { allowFailure: true });
+      if (result.exitCode !== 0 && !result.truncated) {
+        throw new GitError(`Path "${relative}" not found at ${ref}`, 'PATH_NOT_FOUND', result.stderr);
+      }
+      return { root, ref, path: relative, content: result.stdout, truncated: result.truncated };
+    }
+
+    const excludes = await this.excludePathspecs(root, scope);
+    const { stdout, truncated } = await this.run(root, [
+      'show', '--no-ext-diff', '--no-textconv', `--format=${COMMIT_FORMAT}`, commitHash, '--', '.', ...excludes,
+    ]);
+    const separator = stdout.indexOf('\x1e');
+    const [commit] = parseCommits(stdout.slice(0, separator + 1));
+
+    return { root, ref, commit, diff: stdout.slice(separator + 1).replace(/^\n+/, ''), truncated };
+  }
+
+  /**
+   * 逐行追溯
+   */
+  async blame(repo: string | undefined, filePath: string, options: GitBlameOptions = {}, scope: PathCheckOptions = {}): Promise<GitBlameLine[]> {
+    const root = await this.openRepository(repo, scope);
+    const relative = await this.resolvePath(root, filePath, 'read', scope);
+    const commit = options.ref ? await this.resolveCommit(root, options.ref) : null;
+
+    const range = options.startLine || options.endLine
+      ? [`-L${Math.max(1, options.startLine ?? 1)},${options.endLine ?? ''}`]
+      : [];
+    const { stdout } = await this.run(root, [
+      'blame', '--porcelain', '--no-textconv', ...range, ...(commit ? [commit] : []), '--', relative,
+    ]);
+
+    return parseBlame(stdout);
+  }
+
+  /**
+   * 创建分支 (不检出)
+   */
+  async createBranch(repo: string | undefined, name: string, base = 'HEAD', scope: PathCheckOptions = {}): Promise<{ root: string; branch: string; base: string; commit: string }> {
+    const root = await this.openRepository(repo, scope);
+    await this.assertBranchName(root, name);
+    assertRef(base);
+
+    if (await this.revParse(root, `refs/heads/${name}`)) {
+      throw new GitError(`Branch already exists: ${name}`, 'BRANCH_EXISTS');
+    }
+    const commit = await this.revParse(root, `${base}^{commit}`);
+    if (!commit) {
+      throw new GitError(`Unknown base revision: ${base}`, 'UNKNOWN_REVISION');
+    }
+
+    await this.run(root, ['update-ref', '-m', `branch: created from ${base}`, `refs/heads/${name}`, commit, '']);
+    return { root, branch: name, base, commit };
+  }
+
+  /**
+   * 在分支上提交修改
+   *
+   * 使用临时索引基于分支当前提交构建新树，工作区与当前索引保持不变；
+   * 分支在此期间被其他提交更新时失败 (update-ref 的比较交换)
+   */
+  async commit(repo: string | undefined, options: GitCommitOptions, scope: PathCheckOptions = {}): Promise<GitCommitResult> {
+    const root = await this.openRepository(repo, scope);
+    await this.assertBranchName(root, options.branch);
+
+    const message = options.message?.trim();
+    if (!message) {
+      throw new GitError('Commit message is required', 'INVALID_ARGUMENT');
+    }
+    if (!options.changes?.length) {
+      throw new GitError('No changes to commit', 'NO_CHANGES');
+    }
+
+    const ref = `refs/heads/${options.branch}`;
+    const parent = await this.revParse(root, `${ref}^{commit}`);
+    if (!parent) {
+      throw new GitError(`Branch not found: ${options.branch} (create it with git_branch_create)`, 'BRANCH_NOT_FOUND');
+    }
+    const head = await this.run(root, ['symbolic-ref', '--quiet', 'HEAD'], { allowFailure: true });
+    if (head.stdout.trim() === ref) {
+      throw new GitError(`Cannot commit to the checked-out branch: ${options.branch}`, 'BRANCH_CHECKED_OUT');
+    }
+
+    // 所有路径先经路径策略检查，再开始构建
+    const changes: Array<GitFileChange & { relative: string }> = [];
+    for (const change of options.changes) {
+      const relative = await this.resolvePath(root, change.path, 'write', scope);
+      if (changes.some(c => c.relative === relative)) {
+        throw new GitError(`Duplicate change for path: ${relative}`, 'INVALID_ARGUMENT');
+      }
+      if (!change.delete && typeof change.content !== 'string') {
+        throw new GitError(`Change for "${relative}" needs content or delete`, 'INVALID_ARGUMENT');
+      }
+      changes.push({ ...change, relative });
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-git-'));
+    const env = { GIT_INDEX_FILE: path.join(tempDir, 'index') };
+    try {
+      await this.run(root, ['read-tree', parent], { env });
+
+      const files: GitCommitResult['files'] = [];
+      for (const change of changes) {
+        const existing = await this.run(root, ['ls-tree', '-z', parent, '--', change.relative]);
+        const mode = existing.stdout.split(' ')[0];
+
+        if (change.delete) {
+          if (!existing.stdout) {
+            throw new GitError(`Cannot delete "${change.relative}": not found on ${options.branch}`, 'PATH_NOT_FOUND');
+          }
+          await this.run(root, ['update-index', '--force-remove', '--', change.relative], { env });
+          files.push({ path: change.relative, action: 'deleted' });
+          continue;
+        }
+
+        const { stdout: blob } = await this.run(root, ['hash-object', '-w', '--no-filters', '--stdin'], { input: change.content });
+        const fileMode = mode === '100755' ? '100755' : '100644';
+        await this.run(root, ['update-index', '--add', '--cacheinfo', `${fileMode},${blob.trim()},${change.relative}`], { env });
+        files.push({ path: change.relative, action: existing.stdout ? 'modified' : 'added' });
+      }
+
+      const tree = (await this.run(root, ['write-tree'], { env })).stdout.trim();
+      if (tree === await this.revParse(root, `${parent}^{tree}`)) {
+        throw new GitError(`Changes are identical to ${options.branch}`, 'NO_CHANGES');
+      }
+
+      const author = this.config.author ?? DEFAULT_AUTHOR;
+      const { stdout } = await this.run(root, ['commit-tree', tree, '-p', parent, '-F', '-'], {
+        input: `${message}\n`,
+        env: {
+          GIT_AUTHOR_NAME: author.name,
+          GIT_AUTHOR_EMAIL: author.email,
+          GIT_COMMITTER_NAME: author.name,
+          GIT_COMMITTER_EMAIL: author.email,
+        },
+      });
+      const commit = stdout.trim();
+
+      const updated = await this.run(root, ['update-ref', '-m', `commit: ${message.split('\n')[0]}`, ref, commit, parent], { allowFailure: true });
+      if (updated.exitCode !== 0) {
+        throw new GitError(`Branch ${options.branch} was updated concurrently`, 'CONFLICT', updated.stderr);
+      }
+
+      return { root, branch: options.branch, commit, parent, files };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * 执行 git 命令
+   */
+  run(cwd: string, args: string[], options: GitRunOptions = {}): Promise<GitRunResult> {
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxOutput = this.config.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.gitPath ?? 'git', [...GLOBAL_ARGS, ...args], {
+        cwd,
+        env: buildEnv(options.env),
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let stdoutBytes = 0;
+      let stderrBytes = 0;
+      let truncated = false;
+      let timedOut = false;
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        if (truncated) return;
+        const remaining = maxOutput - stdoutBytes;
+        stdout.push(chunk.length <= remaining ? chunk : chunk.subarray(0, remaining));
+        stdoutBytes += Math.min(chunk.length, remaining);
+        if (chunk.length > remaining) {
+          truncated = true;
+          child.kill('SIGTERM');
+        }
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (stderrBytes < MAX_STDERR_BYTES) {
+          stderr.push(chunk);
+          stderrBytes += chunk.length;
+        }
+      });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        const code = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'GIT_NOT_FOUND' : 'GIT_FAILED';
+        reject(new GitError(`Failed to run git: ${error.message}`, code));
+      });
+
+      child.on('close', exitCode => {
+        clearTimeout(timer);
+        const result: GitRunResult = {
+          stdout: Buffer.concat(stdout).toString('utf-8'),
+          stderr: Buffer.concat(stderr).toString('utf-8'),
+          exitCode,
+          truncated,
+        };
+
+        if (timedOut) {
+          reject(new GitError(`git ${args[0]} timed out after ${timeoutMs}ms`, 'TIMEOUT', result.stderr));
+        } else if (exitCode !== 0 && !truncated && !options.allowFailure) {
+          reject(new GitError(
+            `git ${args[0]} failed: ${result.stderr.trim() || `exit code ${exitCode}`}`,
+            'GIT_FAILED',
+            result.stderr
+          ));
+        } else {
+          resolve(result);
+        }
+      });
+
+      // stdin 提前关闭 (git 未读取输入) 时忽略 EPIPE
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(options.input ?? '');
+    });
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  /**
+   * 经路径策略检查后返回仓库内的相对路径 (POSIX 分隔符)
+   */
+  private async resolvePath(root: string, filePath: string, access: PathAccess, scope: PathCheckOptions): Promise<string> {
+    const lexical = path.resolve(root, filePath);
+    const real = await this.policy.resolve(lexical, access, scope);
+
+    for (const candidate of [lexical, real]) {
+      const relative = path.relative(root, candidate);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new GitError(`Path is outside the repository: ${filePath}`, 'PATH_OUTSIDE_REPOSITORY');
+      }
+    }
+
+    const relative = path.relative(root, lexical).split(path.sep).join('/');
+    if (relative === '.git' || relative.startsWith('.git/')) {
+      throw new GitError(`Path is inside the git directory: ${filePath}`, 'PATH_OUTSIDE_REPOSITORY');
+    }
+    return relative || '.';
+  }
+
+  /**
+   * 显式路径转换为字面量 pathspec，省略时为整个仓库减去排除项
+   */
+  private async pathspecs(root: string, paths: string[] | undefined, access: PathAccess, scope: PathCheckOptions): Promise<string[]> {
+    if (!paths?.length) {
+      return ['.', ...await this.excludePathspecs(root, scope)];
+    }
+
+    const specs: string[] = [];
+    for (const filePath of paths) {
+      specs.push(`:(literal)${await this.resolvePath(root, filePath, access, scope)}`);
+    }
+    return specs;
+  }
+
+  /**
+   * 路径策略中禁止访问的部分对应的排除 pathspec
+   */
+  private async excludePathspecs(root: string, scope: PathCheckOptions): Promise<string[]> {
+    const config = this.policy.getConfig();
+    if (config.enabled === false) {
+      return [];
+    }
+
+    const excludes: string[] = [];
+    const inside = (relative: string) => !relative.startsWith('..') && !path.isAbsolute(relative);
+    const toPosix = (relative: string) => relative.split(path.sep).join('/');
+
+    if (config.selfSourceRoot && !scope.allowSelfSource) {
+      const selfRoot = await fs.realpath(config.selfSourceRoot).catch(() => config.selfSourceRoot!);
+      const relative = path.relative(root, selfRoot);
+      if (relative && inside(relative)) {
+        excludes.push(`:(exclude,literal)${toPosix(relative)}`);
+      }
+    }
+
+    const base = path.relative(root, config.baseDir ?? root);
+    for (const glob of config.deniedGlobs ?? []) {
+      const pattern = glob.replace(/\/$/, '');
+      if (!pattern.includes('/')) {
+        // 匹配任一路径段 (文件或目录)
+        excludes.push(`:(exclude,glob)**/${pattern}`, `:(exclude,glob)**/${pattern}/**`);
+      } else if (pattern.startsWith('/')) {
+        const relative = path.relative(root, pattern);
+        if (inside(relative)) {
+          excludes.push(`:(exclude,glob)${toPosix(relative)}`, `:(exclude,glob)${toPosix(relative)}/**`);
+        }
+      } else if (inside(base)) {
+        const prefixed = base ? `${toPosix(base)}/${pattern}` : pattern;
+        excludes.push(`:(exclude,glob)${prefixed}`, `:(exclude,glob)${prefixed}/**`);
+      }
+    }
+    return excludes;
+  }
+
+  private async assertBranchName(root: string, name: string): Promise<void> {
+    const prefix = this.config.branchPrefix ?? DEFAULT_BRANCH_PREFIX;
+    if (typeof name !== 'string' || !name.startsWith(prefix) || name.length === prefix.length || name.startsWith('-')) {
+      throw new GitError(`Branch name must start with "${prefix}": ${name}`, 'BRANCH_NOT_ALLOWED');
+    }
+
+    const check = await this.run(root, ['check-ref-format', '--branch', name], { allowFailure: true });
+    if (check.exitCode !== 0) {
+      throw new GitError(`Invalid branch name: ${name}`, 'INVALID_BRANCH');
+    }
+  }
+
+  /** 把修订解析为提交哈希，不是提交 (不存在、树或 blob) 时抛出 GitError */
+  private async resolveCommit(root: string, ref: string): Promise<string> {
+    const commit = await this.revParse(root, `${assertRef(ref)}^{commit}`);
+    if (!commit) {
+      throw new GitError(`Unknown revision: ${ref}`, 'UNKNOWN_REVISION');
+    }
+    return commit;
+  }
+
+  /** 解析修订，不存在时返回 null */
+  private async revParse(root: string, revision: string): Promise<string | null> {
+    const result = await this.run(root, ['rev-parse', '--verify', '--quiet', revision], { allowFailure: true });
+    return result.exitCode === 0 ? result.stdout.trim() : null;
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 检查修订名称，拒绝可被解释为选项的值与 rev:path 形式 (文件内容须经路径策略读取)
+ */
+function assertRef(ref: string): string {
+  if (typeof ref !== 'string' || !ref || ref.startsWith('-') || ref.includes(':') || /[\s\0-\x1f\x7f]/.test(ref) || ref.length > 256) {
+    throw new GitError(`Invalid revision: ${ref}`, 'INVALID_REVISION');
+  }
+  return ref;
+}
+
+function buildEnv(extra: Record<string, string> = {}): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const key of ENV_PASSTHROUGH) {
+    if (process.env[key] !== undefined) {
+      env[key] = process.env[key]!;
+    }
+  }
+  return {
+    ...env,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_OPTIONAL_LOCKS: '0',
+    GIT_CONFIG_NOSYSTEM: '1',
+    ...extra,
+  };
+}
+
+/** 解析 status 的分支行，如 "main...origin/main [ahead 1, behind 2]" */
+function parseBranchHeader(header: string): Partial<GitStatus> {
+  if (header.startsWith('HEAD (no branch)')) {
+    return { branch: null, detached: true };
+  }
+  if (header.startsWith('No commits yet on ')) {
+    return { branch: header.slice('No commits yet on '.length) };
+  }
+
+  const match = header.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+  const tracking = match?.[3] ?? '';
+  return {
+    branch: match?.[1] ?? header,
+    upstream: match?.[2],
+    ahead: Number(tracking.match(/ahead (\d+)/)?.[1] ?? 0),
+    behind: Number(tracking.match(/behind (\d+)/)?.[1] ?? 0),
+  };
+}
+
+/** 解析 --numstat -z 输出 (重命名时路径字段为空，随后是原路径与新路径) */
+function parseNumstat(output: string): GitDiffFile[] {
+  const fields = output.split('\0');
+  const files: GitDiffFile[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    if (!fields[i]) continue;
+    const [added, deleted, filePath] = fields[i].split('\t');
+    const binary = added === '-';
+    const file: GitDiffFile = {
+      path: filePath,
+      additions: binary ? null : Number(added),
+      deletions: binary ? null : Number(deleted),
+      binary,
+    };
+    if (!filePath) {
+      file.origPath = fields[++i];
+      file.path = fields[++i];
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+function parseCommits(output: string): GitCommitInfo[] {
+  return output.split('\x1e')
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(Boolean)
+    .map(record => {
+      const [hash, shortHash, author, email, date, parents, subject, body] = record.split('\x1f');
+      const commit: GitCommitInfo = {
+        hash,
+        shortHash,
+        author,
+        email,
+        date,
+        parents: parents ? parents.split(' ') : [],
+        subject,
+      };
+      if (body?.trim()) {
+        commit.body = body.trim();
+      }
+      return commit;
+    });
+}
+
+/** 解析 blame --porcelain 输出 (提交信息只在每个提交首次出现时给出) */
+function parseBlame(output: string): GitBlameLine[] {
+  const commits = new Map<string, { author: string; date: string; summary: string }>();
+  const lines: GitBlameLine[] = [];
+  let current: { commit: string; line: number } | null = null;
+
+  for (const row of output.split('\n')) {
+    if (row.startsWith('\t')) {
+      if (current) {
+        const info = commits.get(current.commit)!;
+        lines.push({ line: current.line, commit: current.commit, ...info, content: row.slice(1) });
+      }
+      current = null;
+      continue;
+    }
+
+    const header = row.match(/^([0-9a-f]{40,64}) \d+ (\d+)/);
+    if (header) {
+      current = { commit: header[1], line: Number(header[2]) };
+      if (!commits.has(header[1])) {
+        commits.set(header[1], { author: '', date: '', summary: '' });
+      }
+      continue;
+    }
+
+    if (!current) continue;
+    const info = commits.get(current.commit)!;
+    const space = row.indexOf(' ');
+    const key = space === -1 ? row : row.slice(0, space);
+    const value = space === -1 ? '' : row.slice(space + 1);
+    if (key === 'author') info.author = value;
+    else if (key === 'author-time') info.date = new Date(Number(value) * 1000).toISOString();
+    else if (key === 'summary') info.summary = value;
+  }
+  return lines;
+}
+
+/**
+ * 创建 Git 客户端
+ */
+export function createGitClient(config?: GitClientConfig): GitClient {
+  return new GitClient(config);
+}
+
+export default GitClient;
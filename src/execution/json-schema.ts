@@ -0,0 +1,455 @@
+/**
+ * JSON Schema 校验 (JSON Schema Validation)
+ *
+ * 工具参数校验使用的 JSON Schema (draft 2020-12 子集) 实现，
+ * 内置工具、MCP 工具 (inputSchema) 与动态注册的工具共用：
+ * - type / enum / const
+ * - 对象：properties、required、additionalProperties、patternProperties、propertyNames、
+ *   minProperties / maxProperties、dependentRequired
+ * - 数组：items、prefixItems、contains、minItems / maxItems、uniqueItems
+ * - 字符串：minLength / maxLength、pattern、format
+ * - 数值：minimum / maximum、exclusiveMinimum / exclusiveMaximum、multipleOf
+ * - 组合：allOf / anyOf / oneOf / not、if / then / else
+ * - 本地引用：$ref (#/$defs/...、#/definitions/...)
+ * 错误路径为 JSON Pointer (如 /items/0/name)；未知关键字与未知 format 按规范忽略
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import * as net from 'net';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema | boolean>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  patternProperties?: Record<string, JsonSchema | boolean>;
+  propertyNames?: JsonSchema | boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, string[]>;
+  items?: JsonSchema | boolean;
+  prefixItems?: Array<JsonSchema | boolean>;
+  contains?: JsonSchema | boolean;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  allOf?: Array<JsonSchema | boolean>;
+  anyOf?: Array<JsonSchema | boolean>;
+  oneOf?: Array<JsonSchema | boolean>;
+  not?: JsonSchema | boolean;
+  if?: JsonSchema | boolean;
+  then?: JsonSchema | boolean;
+  else?: JsonSchema | boolean;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema | boolean>;
+  definitions?: Record<string, JsonSchema | boolean>;
+  description?: string;
+  /** 其他关键字 (title、default、examples 等) 不参与校验 */
+  [keyword: string]: unknown;
+}
+
+export interface SchemaValidationError {
+  /** 出错位置 (JSON Pointer，根为 '') */
+  path: string;
+  /** 失败的关键字 */
+  keyword: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 支持校验的 format */
+export const SUPPORTED_FORMATS: Record<string, (value: string) => boolean> = {
+  'date-time': value => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value)
+    && isCalendarDate(value.slice(0, 10)) && !Number.isNaN(Date.parse(value)),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isCalendarDate(value),
+  time: value => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(value),
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uri: value => {
+    try {
+      return /^[a-z][a-z\d+.-]*:/i.test(value) && Boolean(new URL(value));
+    } catch {
+      return false;
+    }
+  },
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  ipv4: value => net.isIPv4(value),
+  ipv6: value => net.isIPv6(value),
+  hostname: value => value.length <= 253
+    && value.split('.').every(label => /^[a-z\d]([a-z\d-]{0,61}[a-z\d])?$/i.test(label)),
+  regex: value => {
+    try {
+      new RegExp(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+// ============================================================================
+// 校验
+// ============================================================================
+
+/**
+ * 按 JSON Schema 校验值
+ */
+export function validateSchema(schema: JsonSchema | boolean, value: unknown): SchemaValidationResult {
+  const errors: SchemaValidationError[] = [];
+  validateNode(schema, value, '', typeof schema === 'object' ? schema : {}, errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * 将错误格式化为单行文本：/items/0/name: must be string; /count: is required
+ */
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map(error => `${error.path || '(root)'}: ${error.message}`).join('; ');
+}
+
+function validateNode(
+  schema: JsonSchema | boolean,
+  value: unknown,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaValidationError[]
+): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({ path, keyword: 'false', message: 'is not allowed' });
+    return;
+  }
+
+  const fail = (keyword: string, message: string, at: string = path) => {
+    errors.push({ path: at, keyword, message });
+  };
+
+  if (schema.$ref !== undefined) {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      fail('$ref', `cannot resolve reference "${schema.$ref}"`);
+    } else {
+      validateNode(target, value, path, root, errors);
+    }
+  }
+
+  // 类型不符时不再检查该类型专属的关键字，避免重复报错
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      fail('type', `must be ${types.join(' or ')}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(item => deepEqual(item, value))) {
+    fail('enum', `must be one of: ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+  if ('const' in schema && schema.const !== undefined && !deepEqual(schema.const, value)) {
+    fail('const', `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    validateString(schema, value, fail);
+  } else if (typeof value === 'number') {
+    validateNumber(schema, value, fail);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, root, errors, fail);
+  } else if (value !== null && typeof value === 'object') {
+    validateObject(schema, value as Record<string, unknown>, path, root, errors, fail);
+  }
+
+  validateCombinators(schema, value, path, root, errors, fail);
+}
+
+function validateString(
+  schema: JsonSchema,
+  value: string,
+  fail: (keyword: string, message: string) => void
+): void {
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    fail('minLength', `must NOT have fewer than ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    fail('maxLength', `must NOT have more than ${schema.maxLength} characters`);
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    fail('pattern', `must match pattern "${schema.pattern}"`);
+  }
+  if (schema.format !== undefined && SUPPORTED_FORMATS[schema.format] && !SUPPORTED_FORMATS[schema.format](value)) {
+    fail('format', `must match format "${schema.format}"`);
+  }
+}
+
+function validateNumber(
+  schema: JsonSchema,
+  value: number,
+  fail: (keyword: string, message: string) => void
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    fail('minimum', `must be >= ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    fail('maximum', `must be <= ${schema.maximum}`);
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+  }
+  if (schema.multipleOf !== undefined) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail('multipleOf', `must be multiple of ${schema.multipleOf}`);
+    }
+  }
+}
+
+function validateArray(
+  schema: JsonSchema,
+  value: unknown[],
+  path: string,
+  root: JsonSchema,
+  errors: SchemaValidationError[],
+  fail: (keyword: string, message: string) => void
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    fail('minItems', `must NOT have fewer than ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    fail('maxItems', `must NOT have more than ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems) {
+    for (let i = 0; i < value.length; i++) {
+      const duplicate = value.findIndex((item, j) => j > i && deepEqual(item, value[i]));
+      if (duplicate !== -1) {
+        fail('uniqueItems', `must NOT have duplicate items (items ${i} and ${duplicate} are identical)`);
+        break;
+      }
+    }
+  }
+
+  const prefix = schema.prefixItems ?? [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefix.length ? prefix[index] : schema.items;
+    if (itemSchema !== undefined) {
+      validateNode(itemSchema, item, `${path}/${index}`, root, errors);
+    }
+  });
+
+  if (schema.contains !== undefined && !value.some(item => isValid(schema.contains!, item, root))) {
+    fail('contains', 'must contain at least 1 valid item');
+  }
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaValidationError[],
+  fail: (keyword: string, message: string, at?: string) => void
+): void {
+  const keys = Object.keys(value);
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      fail('required', 'is required', `${path}/${escapePointer(key)}`);
+    }
+  }
+  for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+    if (value[key] === undefined) continue;
+    for (const dependency of dependencies.filter(name => value[name] === undefined)) {
+      fail('dependentRequired', `is required when "${key}" is present`, `${path}/${escapePointer(dependency)}`);
+    }
+  }
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    fail('minProperties', `must NOT have fewer than ${schema.minProperties} properties`);
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    fail('maxProperties', `must NOT have more than ${schema.maxProperties} properties`);
+  }
+
+  const patterns = Object.entries(schema.patternProperties ?? {}).map(
+    ([pattern, propertySchema]) => [new RegExp(pattern, 'u'), propertySchema] as const
+  );
+
+  for (const key of keys) {
+    const propertyPath = `${path}/${escapePointer(key)}`;
+    if (value[key] === undefined) continue;
+
+    if (schema.propertyNames !== undefined && !isValid(schema.propertyNames, key, root)) {
+      fail('propertyNames', `property name "${key}" is invalid`, propertyPath);
+    }
+
+    let matched = false;
+    if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+      matched = true;
+      validateNode(schema.properties[key], value[key], propertyPath, root, errors);
+    }
+    for (const [regex, propertySchema] of patterns) {
+      if (regex.test(key)) {
+        matched = true;
+        validateNode(propertySchema, value[key], propertyPath, root, errors);
+      }
+    }
+    if (!matched && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        fail('additionalProperties', `must NOT have additional property "${key}"`, propertyPath);
+      } else {
+        validateNode(schema.additionalProperties, value[key], propertyPath, root, errors);
+      }
+    }
+  }
+}
+
+function validateCombinators(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaValidationError[],
+  fail: (keyword: string, message: string) => void
+): void {
+  for (const subschema of schema.allOf ?? []) {
+    validateNode(subschema, value, path, root, errors);
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(subschema => collect(subschema, value, path, root));
+    if (!branches.some(branch => branch.length === 0)) {
+      fail('anyOf', 'must match at least one schema in anyOf');
+      errors.push(...closest(branches, path));
+    }
+  }
+
+  if (schema.oneOf) {
+    const branches = schema.oneOf.map(subschema => collect(subschema, value, path, root));
+    const matched = branches.filter(branch => branch.length === 0).length;
+    if (matched === 0) {
+      fail('oneOf', 'must match exactly one schema in oneOf');
+      errors.push(...closest(branches, path));
+    } else if (matched > 1) {
+      fail('oneOf', `must match exactly one schema in oneOf (matched ${matched})`);
+    }
+  }
+
+  if (schema.not !== undefined && isValid(schema.not, value, root)) {
+    fail('not', 'must NOT be valid against the "not" schema');
+  }
+
+  if (schema.if !== undefined) {
+    const branch = isValid(schema.if, value, root) ? schema.then : schema.else;
+    if (branch !== undefined) {
+      validateNode(branch, value, path, root, errors);
+    }
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+function collect(schema: JsonSchema | boolean, value: unknown, path: string, root: JsonSchema): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateNode(schema, value, path, root, errors);
+  return errors;
+}
+
+function isValid(schema: JsonSchema | boolean, value: unknown, root: JsonSchema): boolean {
+  return collect(schema, value, '', root).length === 0;
+}
+
+/**
+ * anyOf / oneOf 全部失败时报告最接近的分支：类型匹配 (未在当前位置报 type 错误) 且错误最少
+ */
+function closest(branches: SchemaValidationError[][], path: string): SchemaValidationError[] {
+  const score = (branch: SchemaValidationError[]) =>
+    (branch.some(error => error.keyword === 'type' && error.path === path) ? 1000 : 0) + branch.length;
+  return [...branches].sort((a, b) => score(a) - score(b))[0] ?? [];
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | boolean | undefined {
+  if (ref === '#') {
+    return root;
+  }
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const part of ref.slice(2).split('/').map(unescapePointer)) {
+    if (!target || typeof target !== 'object') {
+      return undefined;
+    }
+    target = (target as Record<string, unknown>)[part];
+  }
+  return target === undefined ? undefined : target as JsonSchema | boolean;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(part: string): string {
+  return decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  return aKeys.length === bKeys.length && aKeys.every(key =>
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/** YYYY-MM-DD 是否为真实存在的日期 (Date 会把 2023-02-29 顺延为 03-01) */
+function isCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+export default validateSchema;
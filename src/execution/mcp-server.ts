@@ -0,0 +1,452 @@
+/**
+ * MCP 服务器 (MCP Server)
+ *
+ * 把 Ouroboros 自身作为 MCP 服务器提供给 IDE 与其他 Agent：
+ * - 工具：ToolRegistry 中的已启用工具，调用经过注册表的鉴权、缓存与统计
+ * - 资源：只读的自身状态 (自我描述、激素状态、最近的反思)
+ *
+ * 传输方式为 stdio (每行一条 JSON-RPC 消息)，stdout 只用于协议输出
+ */
+
+import { EventEmitter } from 'events';
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { ToolRegistry, ToolDefinition } from './tool-registry.js';
+import { MCP_PROTOCOL_VERSION, MCP_STREAMABLE_HTTP_PROTOCOL_VERSION } from './mcp-tool-manager.js';
+import type { UnifiedAgent } from '../unified-agent.js';
+import type { UnifiedSelfDescription } from '../cognitive/unified-self-description.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 服务器提供的只读资源，每次读取时生成内容 */
+export interface MCPServerResource {
+  uri: string;
+  name: string;
+  description?: string;
+  /** 默认 application/json (read 返回字符串时为 text/plain) */
+  mimeType?: string;
+  read: () => unknown | Promise<unknown>;
+}
+
+export interface MCPServerOptions {
+  /** 通过 ToolRegistry 提供工具 */
+  registry: ToolRegistry;
+  resources?: MCPServerResource[];
+  /** serverInfo.name，默认 ouroboros */
+  name?: string;
+  version?: string;
+  /** initialize 响应中给客户端的使用说明 */
+  instructions?: string;
+  /** 默认 process.stdin */
+  input?: Readable;
+  /** 默认 process.stdout */
+  output?: Writable;
+}
+
+type JsonRpcId = string | number;
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// ============================================================================
+// 常量与错误
+// ============================================================================
+
+/** JSON-RPC 与 MCP 错误码 */
+export const MCP_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, MCP_STREAMABLE_HTTP_PROTOCOL_VERSION];
+
+/** 作为响应错误返回给客户端的异常 */
+export class MCPServerError extends Error {
+  public readonly code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = 'MCPServerError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// MCP 服务器
+// ============================================================================
+
+export class MCPServer extends EventEmitter {
+  private registry: ToolRegistry;
+  private resources: Map<string, MCPServerResource> = new Map();
+  private name: string;
+  private version: string;
+  private instructions?: string;
+  private input: Readable;
+  private output: Writable;
+  private initialized = false;
+  private clientInfo: { name: string; version?: string } | null = null;
+  private lines: readline.Interface | null = null;
+  private closed: Promise<void> | null = null;
+  /** 进行中的请求，客户端发送 notifications/cancelled 时中止 */
+  private inFlight: Map<JsonRpcId, AbortController> = new Map();
+  private readonly onToolsChanged = () => this.notify('notifications/tools/list_changed');
+
+  constructor(options: MCPServerOptions) {
+    super();
+    this.registry = options.registry;
+    this.name = options.name ?? 'ouroboros';
+    this.version = options.version ?? '1.0.0';
+    this.instructions = options.instructions;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    for (const resource of options.resources ?? []) {
+      this.resources.set(resource.uri, resource);
+    }
+  }
+
+  /**
+   * 开始读取输入流，输入结束 (客户端断开) 时 resolve
+   */
+  listen(): Promise<void> {
+    if (this.closed) {
+      return this.closed;
+    }
+
+    this.registry.on('toolRegistered', this.onToolsChanged);
+    this.registry.on('toolUnregistered', this.onToolsChanged);
+    this.registry.on('toolUpdated', this.onToolsChanged);
+
+    this.lines = readline.createInterface({ input: this.input, crlfDelay: Infinity });
+    this.lines.on('line', line => this.handleLine(line));
+    this.closed = new Promise(resolve => {
+      this.lines!.once('close', () => {
+        this.detach();
+        this.emit('closed');
+        resolve();
+      });
+    });
+    return this.closed;
+  }
+
+  /** 停止读取并中止进行中的工具调用 */
+  close(): void {
+    this.lines?.close();
+    this.detach();
+  }
+
+  /** 添加资源 (已存在的 URI 会被替换) */
+  addResource(resource: MCPServerResource): void {
+    this.resources.set(resource.uri, resource);
+    this.notify('notifications/resources/list_changed');
+  }
+
+  /** 客户端在 initialize 中提供的信息 */
+  getClientInfo(): { name: string; version?: string } | null {
+    return this.clientInfo;
+  }
+
+  /** 当前提供给客户端的工具 (需要人工确认的工具无法通过 MCP 确认，不提供) */
+  getTools(): ToolDefinition[] {
+    return this.registry.getEnabled().filter(tool => tool.requireConfirmation !== true);
+  }
+
+  /**
+   * 处理单条 JSON-RPC 消息，通知与已取消的请求返回 null
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== 'object' || (message as { jsonrpc?: unknown }).jsonrpc !== '2.0') {
+      return errorResponse(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request');
+    }
+
+    const { id, method, params } = message as { id?: JsonRpcId; method?: unknown; params?: unknown };
+    if (typeof method !== 'string') {
+      // 客户端对服务器请求的响应：本服务器不发起请求，忽略
+      return id === undefined ? errorResponse(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid request') : null;
+    }
+
+    if (id === undefined || id === null) {
+      this.handleNotification(method, params);
+      return null;
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(id, controller);
+    try {
+      const result = await this.dispatch(method, (params ?? {}) as Record<string, unknown>, controller.signal);
+      return controller.signal.aborted ? null : { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return null;
+      }
+      return error instanceof MCPServerError
+        ? errorResponse(id, error.code, error.message)
+        : errorResponse(id, MCP_ERROR_CODES.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  // ============================================================================
+  // 方法分发
+  // ============================================================================
+
+  private async dispatch(method: string, params: Record<string, unknown>, signal: AbortSignal): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: this.getTools().map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: { ...tool.parameters, type: 'object' },
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(params, signal);
+      case 'resources/list':
+        return {
+          resources: Array.from(this.resources.values()).map(({ uri, name, description, mimeType }) => ({
+            uri,
+            name,
+            description,
+            mimeType,
+          })),
+        };
+      case 'resources/templates/list':
+        return { resourceTemplates: [] };
+      case 'resources/read':
+        return this.readResource(params);
+      default:
+        throw new MCPServerError(`Method not found: ${method}`, MCP_ERROR_CODES.METHOD_NOT_FOUND);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>): unknown {
+    const requested = params.protocolVersion as string | undefined;
+    this.clientInfo = (params.clientInfo as { name: string; version?: string } | undefined) ?? null;
+
+    return {
+      protocolVersion: requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+      },
+      serverInfo: { name: this.name, version: this.version },
+      ...(this.instructions ? { instructions: this.instructions } : {}),
+    };
+  }
+
+  /**
+   * 工具执行失败在结果中以 isError 返回，由客户端的模型处理；协议错误才作为响应错误
+   */
+  private async callTool(params: Record<string, unknown>, signal: AbortSignal): Promise<unknown> {
+    const name = params.name;
+    const args = (params.arguments ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string') {
+      throw new MCPServerError('Missing tool name', MCP_ERROR_CODES.INVALID_PARAMS);
+    }
+
+    const tool = this.getTools().find(t => t.name === name);
+    if (!tool) {
+      throw new MCPServerError(`Unknown tool: ${name}`, MCP_ERROR_CODES.INVALID_PARAMS);
+    }
+    if (this.registry.requiresConfirmation(tool, args)) {
+      return toolError(`Tool "${name}" requires confirmation, which is not available over MCP`);
+    }
+
+    try {
+      const result = await this.registry.execute(name, args, {
+        context: {
+          source: 'user',
+          cancelSignal: signal,
+          metadata: { transport: 'mcp', client: this.clientInfo?.name },
+        },
+      });
+      if (!result.success) {
+        return toolError(result.error ?? `Tool "${name}" failed`);
+      }
+      return {
+        content: [{ type: 'text', text: typeof result.data === 'string' ? result.data : JSON.stringify(result.data ?? null, null, 2) }],
+        isError: false,
+      };
+    } catch (error) {
+      // 访问控制拒绝 (SecurityError) 等
+      return toolError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async readResource(params: Record<string, unknown>): Promise<unknown> {
+    const uri = params.uri;
+    const resource = typeof uri === 'string' ? this.resources.get(uri) : undefined;
+    if (!resource) {
+      throw new MCPServerError(`Resource not found: ${String(uri)}`, MCP_ERROR_CODES.RESOURCE_NOT_FOUND);
+    }
+
+    const value = await resource.read();
+    const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    const mimeType = resource.mimeType ?? (typeof value === 'string' ? 'text/plain' : 'application/json');
+    return { contents: [{ uri: resource.uri, mimeType, text }] };
+  }
+
+  private handleNotification(method: string, params: unknown): void {
+    switch (method) {
+      case 'notifications/initialized':
+        this.initialized = true;
+        this.emit('initialized', this.clientInfo);
+        break;
+      case 'notifications/cancelled': {
+        const requestId = (params as { requestId?: JsonRpcId } | undefined)?.requestId;
+        if (requestId !== undefined) {
+          this.inFlight.get(requestId)?.abort();
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  // ============================================================================
+  // 传输
+  // ============================================================================
+
+  private handleLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.write(errorResponse(null, MCP_ERROR_CODES.PARSE_ERROR, 'Parse error'));
+      return;
+    }
+
+    if (Array.isArray(message)) {
+      Promise.all(message.map(item => this.handle(item))).then(responses => {
+        const replies = responses.filter((r): r is JsonRpcResponse => r !== null);
+        if (replies.length > 0) {
+          this.write(replies);
+        }
+      });
+      return;
+    }
+
+    this.handle(message).then(response => {
+      if (response) {
+        this.write(response);
+      }
+    });
+  }
+
+  /** 初始化完成后才向客户端发送通知 */
+  private notify(method: string, params?: unknown): void {
+    if (this.initialized) {
+      this.write({ jsonrpc: '2.0', method, ...(params === undefined ? {} : { params }) });
+    }
+  }
+
+  private write(message: unknown): void {
+    if (!this.output.writable) {
+      return;
+    }
+    this.output.write(JSON.stringify(message) + '\n');
+  }
+
+  private detach(): void {
+    this.registry.off('toolRegistered', this.onToolsChanged);
+    this.registry.off('toolUnregistered', this.onToolsChanged);
+    this.registry.off('toolUpdated', this.onToolsChanged);
+    for (const controller of this.inFlight.values()) {
+      controller.abort();
+    }
+    this.inFlight.clear();
+  }
+}
+
+// ============================================================================
+// 自身状态资源
+// ============================================================================
+
+/** 最近反思资源返回的条数 */
+const RECENT_REFLECTIONS = 20;
+
+/**
+ * 创建 Ouroboros 自身状态的只读资源，自我描述中的激素水平替换为实时值
+ */
+export function createSelfResources(agent: UnifiedAgent, selfDescription?: UnifiedSelfDescription): MCPServerResource[] {
+  const resources: MCPServerResource[] = [
+    {
+      uri: 'ouroboros://self/hormones',
+      name: 'hormones',
+      description: '当前激素水平与对应的行为建议',
+      read: () => ({
+        state: agent.hormoneSystem.getState(),
+        advice: agent.hormoneSystem.getBehavioralAdvice(),
+      }),
+    },
+    {
+      uri: 'ouroboros://self/reflections',
+      name: 'reflections',
+      description: `最近 ${RECENT_REFLECTIONS} 条反思记录`,
+      read: () => agent.memory.getRecent({ type: 'reflective', limit: RECENT_REFLECTIONS }).map(entry => ({
+        id: entry.id,
+        content: entry.content,
+        timestamp: new Date(entry.timestamp).toISOString(),
+        tags: entry.tags,
+      })),
+    },
+  ];
+
+  if (selfDescription) {
+    resources.unshift({
+      uri: 'ouroboros://self/description',
+      name: 'self-description',
+      description: '统一自我描述：身份、身体、世界模型、工具集与认知状态',
+      read: () => {
+        const description = selfDescription.getDescription();
+        return {
+          ...description,
+          cognitiveState: { ...description.cognitiveState, hormoneLevels: agent.hormoneSystem.getState() },
+        };
+      },
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * 创建 MCP 服务器
+ */
+export function createMCPServer(options: MCPServerOptions): MCPServer {
+  return new MCPServer(options);
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+function errorResponse(id: JsonRpcId | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function toolError(message: string): unknown {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+export default MCPServer;
@@ -2,13 +2,19 @@
  * MCP (Model Context Protocol) 工具集成
  * 
  * 将每个 MCP 服务器作为 Agent 的工具使用
- * 支持 SSE 和 stdio 两种传输方式
+ * 支持 stdio 与 HTTP 两类传输方式，HTTP 包括 Streamable HTTP 和旧版 SSE
  */
 
 import { EventEmitter } from 'events';
 import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
 import * as path from 'path';
+import { validateSchema, formatSchemaErrors } from './json-schema.js';
+import { withRetry } from '../utils/errors.js';
+import type { ToolRegistry, ToolDefinition, ParameterSchema } from './tool-registry.js';
+import type { JsonSchema } from './json-schema.js';
 
 // ============================================================================
 // 类型定义
@@ -17,23 +23,144 @@ import * as path from 'path';
 /** MCP 工具定义 */
 export interface MCPTool {
   name: string;
+  title?: string;
   description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
+  /** 参数的 JSON Schema */
+  inputSchema: JsonSchema & { type: 'object' };
+  /** 服务器对工具行为的提示 (不可作为安全依据，仅在 standard 信任级别下决定是否确认) */
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
   };
 }
 
+/** MCP 资源 (服务器提供的可读上下文，如文件、数据库表结构) */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/** 资源内容：文本资源为 text，二进制资源为 base64 的 blob */
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/** MCP 提示词模板 */
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/** 提示词消息内容 */
+export type MCPPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: MCPResourceContents };
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPPromptContent;
+}
+
+/** prompts/get 的结果 */
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/** 服务器在 initialize 响应中声明的能力 */
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  [key: string]: unknown;
+}
+
 /** MCP 服务器配置 */
 export interface MCPServerConfig {
   name: string;
   command?: string;           // stdio 模式
   args?: string[];
   env?: Record<string, string>;
-  url?: string;               // SSE 模式
-  timeout?: number;
+  url?: string;               // HTTP 模式 (Streamable HTTP 或旧版 SSE)
+  /** HTTP 传输方式，默认 auto：先尝试 Streamable HTTP，失败时回退到 SSE */
+  transport?: MCPHttpTransport | 'auto';
+  /** HTTP 模式的附加请求头 (如 Authorization)，只发送到 url 的同源地址 */
+  headers?: Record<string, string>;
+  /** HTTP 模式事件流断开后的重连策略 */
+  reconnect?: MCPReconnectConfig;
+  /** stdio 模式子进程意外退出后的重启策略 */
+  restart?: MCPRestartConfig;
+  /** 工具桥接到 ToolRegistry 时的信任级别，默认 standard */
+  trust?: MCPTrustLevel;
+  timeout?: number;           // 请求超时 (毫秒)，默认 30000
+  enabled: boolean;
+}
+
+/** HTTP 传输方式 */
+export type MCPHttpTransport = 'streamable-http' | 'sse';
+
+/** 事件流重连策略：第 n 次重连前等待 delayMs * n (不超过 maxDelayMs) */
+export interface MCPReconnectConfig {
+  /** 最大重连次数，0 表示不重连，默认 5 */
+  maxAttempts?: number;
+  /** 默认 1000 */
+  delayMs?: number;
+  /** 默认 30000 */
+  maxDelayMs?: number;
+}
+
+/**
+ * 服务器信任级别，决定桥接到 ToolRegistry 的工具权限与确认策略：
+ * - trusted：user 权限，不需要确认
+ * - standard：user 权限，只有声明 readOnlyHint 的工具不需要确认
+ * - untrusted：admin 权限，每次调用都需要确认
+ */
+export type MCPTrustLevel = 'trusted' | 'standard' | 'untrusted';
+
+/** stdio 服务器进程意外退出后的重启策略：指数退避，第 n 次失败后等待 delayMs * 2^(n-1) */
+export interface MCPRestartConfig {
+  /** 最大重启尝试次数，0 表示不重启，默认 5 */
+  maxAttempts?: number;
+  /** 默认 1000 */
+  delayMs?: number;
+}
+
+/** 服务器健康状况 */
+export interface MCPServerHealth {
+  /** 已连接且可用 */
+  healthy: boolean;
+  restarting: boolean;
+  /** 成功重启的次数 */
+  restarts: number;
+  connectedAt?: string;
+  /** 最近一次意外退出 */
+  lastExit?: { code: number | null; signal: string | null; at: string };
+  lastError?: string;
+}
+
+/** 服务器概况 (与 UnifiedSelfDescription 的 mcpServers 条目结构相同) */
+export interface MCPServerState {
+  name: string;
   enabled: boolean;
+  tools: string[];
+  status: 'connected' | 'disconnected' | 'error';
 }
 
 /** MCP 连接状态 */
@@ -64,6 +191,47 @@ export interface MCPResponse {
   };
 }
 
+/** MCP 通知 (没有 id，不需要响应) */
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+/** 客户端发出的任意 JSON-RPC 消息 (请求、通知或对服务器请求的响应) */
+export type MCPMessage = MCPRequest | MCPNotification | MCPResponse;
+
+// ============================================================================
+// 常量与错误
+// ============================================================================
+
+/** stdio 与旧版 SSE 使用的协议版本 */
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+/** Streamable HTTP 传输引入的协议版本 */
+export const MCP_STREAMABLE_HTTP_PROTOCOL_VERSION = '2025-03-26';
+
+export const DEFAULT_MCP_REQUEST_TIMEOUT_MS = 30000;
+
+/** 列表请求的最大翻页数 */
+const MAX_LIST_PAGES = 100;
+
+/** 桥接到 ToolRegistry 的工具名中服务器名与工具名的分隔符 */
+export const MCP_TOOL_NAMESPACE_SEPARATOR = '__';
+
+/** MCP 传输层错误 */
+export class MCPTransportError extends Error {
+  public readonly code: string;
+  public readonly status?: number;
+
+  constructor(message: string, code: string, status?: number) {
+    super(message);
+    this.name = 'MCPTransportError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
 // ============================================================================
 // MCP 客户端基类
 // ============================================================================
@@ -72,17 +240,31 @@ export abstract class MCPClient extends EventEmitter {
   protected serverName: string;
   protected status: MCPConnectionStatus = MCPConnectionStatus.DISCONNECTED;
   protected tools: Map<string, MCPTool> = new Map();
+  protected resources: Map<string, MCPResource> = new Map();
+  protected prompts: Map<string, MCPPrompt> = new Map();
+  /** 服务器声明的能力，initialize 之前为 null */
+  protected capabilities: MCPServerCapabilities | null = null;
+  protected requestTimeout: number;
+  /** 服务器在 initialize 响应中选定的协议版本 */
+  protected protocolVersion: string | null = null;
   private requestId = 0;
-  private pendingRequests: Map<number, { resolve: Function; reject: Function }> = new Map();
+  /** 已订阅更新的资源 URI，重新初始化后恢复订阅 */
+  private subscriptions: Set<string> = new Set();
+  private pendingRequests: Map<number, { resolve: (response: MCPResponse) => void; reject: (error: Error) => void }> = new Map();
 
-  constructor(serverName: string) {
+  constructor(serverName: string, requestTimeout: number = DEFAULT_MCP_REQUEST_TIMEOUT_MS) {
     super();
     this.serverName = serverName;
+    this.requestTimeout = requestTimeout;
   }
 
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
-  abstract sendRequest(request: MCPRequest): Promise<MCPResponse>;
+
+  /**
+   * 把一条消息交给传输层；请求的响应由传输层经 handleMessage 送回
+   */
+  protected abstract send(message: MCPMessage): Promise<void>;
 
   getStatus(): MCPConnectionStatus {
     return this.status;
@@ -96,6 +278,55 @@ export abstract class MCPClient extends EventEmitter {
     return this.tools.get(name);
   }
 
+  getResources(): MCPResource[] {
+    return Array.from(this.resources.values());
+  }
+
+  getPrompts(): MCPPrompt[] {
+    return Array.from(this.prompts.values());
+  }
+
+  getPrompt(name: string): MCPPrompt | undefined {
+    return this.prompts.get(name);
+  }
+
+  getCapabilities(): MCPServerCapabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * 发送请求并等待响应
+   */
+  sendRequest(request: MCPRequest): Promise<MCPResponse> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (this.pendingRequests.delete(request.id)) {
+          reject(new Error('Request timeout'));
+        }
+      }, this.requestTimeout);
+
+      this.pendingRequests.set(request.id, {
+        resolve: response => {
+          clearTimeout(timer);
+          resolve(response);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      this.send(request).catch(error => this.rejectRequest(request.id, error));
+    });
+  }
+
+  /**
+   * 发送通知
+   */
+  async sendNotification(method: string, params?: unknown): Promise<void> {
+    await this.send({ jsonrpc: '2.0', method, ...(params !== undefined && { params }) });
+  }
+
   protected setStatus(status: MCPConnectionStatus): void {
     this.status = status;
     this.emit('statusChange', { server: this.serverName, status });
@@ -110,8 +341,64 @@ export abstract class MCPClient extends EventEmitter {
     return ++this.requestId;
   }
 
+  /** initialize 请求中声明的协议版本 */
+  protected clientProtocolVersion(): string {
+    return MCP_PROTOCOL_VERSION;
+  }
+
+  protected hasPendingRequest(id: number): boolean {
+    return this.pendingRequests.has(id);
+  }
+
+  protected rejectRequest(id: number, error: Error): void {
+    const pending = this.pendingRequests.get(id);
+    if (pending) {
+      this.pendingRequests.delete(id);
+      pending.reject(error);
+    }
+  }
+
+  /** 连接断开时让所有等待中的请求立即失败 */
+  protected rejectAllRequests(error: Error): void {
+    for (const id of Array.from(this.pendingRequests.keys())) {
+      this.rejectRequest(id, error);
+    }
+  }
+
+  /**
+   * 处理传输层收到的消息：响应交给等待中的请求，服务器请求自动应答，通知转为 notification 事件
+   */
+  protected handleMessage(message: unknown): void {
+    if (Array.isArray(message)) {
+      for (const item of message) {
+        this.handleMessage(item);
+      }
+      return;
+    }
+    if (!message || typeof message !== 'object') {
+      this.emit('invalidMessage', message);
+      return;
+    }
+
+    const { id, method, params } = message as { id?: number | string | null; method?: unknown; params?: unknown };
+    if (typeof method === 'string') {
+      if (id === undefined || id === null) {
+        this.handleNotification(method, params);
+      } else {
+        this.answerServerRequest(id, method);
+      }
+      return;
+    }
+
+    const pending = typeof id === 'number' ? this.pendingRequests.get(id) : undefined;
+    if (pending) {
+      this.pendingRequests.delete(id as number);
+      pending.resolve(message as MCPResponse);
+    }
+  }
+
   /**
-   * 初始化：获取工具列表
+   * 初始化：协商协议版本并获取工具列表
    */
   async initialize(): Promise<void> {
     const response = await this.sendRequest({
@@ -119,7 +406,7 @@ export abstract class MCPClient extends EventEmitter {
       id: this.generateRequestId(),
       method: 'initialize',
       params: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: this.clientProtocolVersion(),
         capabilities: {},
         clientInfo: {
           name: 'OuroborosAgent',
@@ -132,28 +419,187 @@ export abstract class MCPClient extends EventEmitter {
       throw new Error(`MCP init failed: ${response.error.message}`);
     }
 
-    // 获取工具列表
-    await this.listTools();
+    const result = response.result as { protocolVersion?: string; capabilities?: MCPServerCapabilities } | undefined;
+    this.protocolVersion = result?.protocolVersion ?? null;
+    this.capabilities = result?.capabilities ?? null;
+    await this.sendNotification('notifications/initialized');
+
+    // 获取工具列表 (未声明能力的旧服务器默认提供工具)
+    if (!this.capabilities || this.capabilities.tools) {
+      await this.listTools();
+    }
+    if (this.capabilities?.resources) {
+      await this.listResources();
+      for (const uri of this.subscriptions) {
+        await this.invoke('resources/subscribe', { uri });
+      }
+    }
+    if (this.capabilities?.prompts) {
+      await this.listPrompts();
+    }
   }
 
   /**
    * 获取工具列表
    */
-  private async listTools(): Promise<void> {
+  async listTools(): Promise<MCPTool[]> {
+    const tools = await this.listAll<MCPTool>('tools/list', 'tools');
+    this.tools.clear();
+    for (const tool of tools) {
+      this.addTool(tool);
+    }
+    this.emit('toolsChanged', { server: this.serverName, tools });
+    return tools;
+  }
+
+  /**
+   * 获取资源列表
+   */
+  async listResources(): Promise<MCPResource[]> {
+    const resources = await this.listAll<MCPResource>('resources/list', 'resources');
+    this.resources = new Map(resources.map(resource => [resource.uri, resource]));
+    this.emit('resourcesChanged', { server: this.serverName, resources });
+    return resources;
+  }
+
+  /**
+   * 读取资源内容
+   */
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    this.assertCapability('resources');
+    const result = await this.invoke('resources/read', { uri }) as { contents?: MCPResourceContents[] };
+    return result?.contents ?? [];
+  }
+
+  /**
+   * 订阅资源更新，服务器推送 notifications/resources/updated 时触发 resourceUpdated 事件
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    this.assertCapability('resources');
+    if (!this.capabilities?.resources?.subscribe) {
+      throw new Error(`MCP server "${this.serverName}" does not support resource subscriptions`);
+    }
+    await this.invoke('resources/subscribe', { uri });
+    this.subscriptions.add(uri);
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    if (!this.subscriptions.delete(uri)) {
+      return;
+    }
+    await this.invoke('resources/unsubscribe', { uri });
+  }
+
+  getSubscriptions(): string[] {
+    return Array.from(this.subscriptions);
+  }
+
+  /**
+   * 获取提示词模板列表
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const prompts = await this.listAll<MCPPrompt>('prompts/list', 'prompts');
+    this.prompts = new Map(prompts.map(prompt => [prompt.name, prompt]));
+    this.emit('promptsChanged', { server: this.serverName, prompts });
+    return prompts;
+  }
+
+  /**
+   * 以参数填充提示词模板，缺少必填参数时在发送前报错
+   */
+  async getPromptMessages(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    this.assertCapability('prompts');
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new Error(`Prompt not found: ${name}`);
+    }
+
+    const missing = (prompt.arguments ?? []).filter(arg => arg.required && args[arg.name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument${missing.length > 1 ? 's' : ''} for prompt "${name}": ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    const result = await this.invoke('prompts/get', { name, arguments: args }) as MCPPromptResult;
+    return { ...result, messages: result?.messages ?? [] };
+  }
+
+  /**
+   * 服务器通知：资源更新与工具、资源、提示词列表变化在此处理，所有通知都转为 notification 事件
+   */
+  protected handleNotification(method: string, params: unknown): void {
+    this.emit('notification', { server: this.serverName, method, params });
+
+    const refresh = (list: () => Promise<unknown>) => {
+      list().catch(error => this.emit('transportError', { server: this.serverName, error }));
+    };
+    switch (method) {
+      case 'notifications/tools/list_changed':
+        refresh(() => this.listTools());
+        break;
+      case 'notifications/resources/updated':
+        this.emit('resourceUpdated', { server: this.serverName, uri: (params as { uri?: string } | undefined)?.uri });
+        break;
+      case 'notifications/resources/list_changed':
+        refresh(() => this.listResources());
+        break;
+      case 'notifications/prompts/list_changed':
+        refresh(() => this.listPrompts());
+        break;
+    }
+  }
+
+  /**
+   * 发送请求并返回 result，错误响应转为异常
+   */
+  private async invoke(method: string, params?: unknown): Promise<unknown> {
     const response = await this.sendRequest({
       jsonrpc: '2.0',
       id: this.generateRequestId(),
-      method: 'tools/list',
+      method,
+      ...(params !== undefined && { params }),
     });
-
     if (response.error) {
-      throw new Error(`List tools failed: ${response.error.message}`);
+      throw new Error(`${method} failed: ${response.error.message}`);
     }
+    return response.result;
+  }
 
-    const result = response.result as { tools: MCPTool[] };
-    for (const tool of result.tools) {
-      this.addTool(tool);
+  /**
+   * 按 nextCursor 翻页取完列表
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await this.invoke(method, cursor ? { cursor } : undefined) as Record<string, unknown> | undefined;
+      items.push(...((result?.[key] as T[] | undefined) ?? []));
+      cursor = result?.nextCursor as string | undefined;
+      if (!cursor) {
+        break;
+      }
     }
+
+    return items;
+  }
+
+  private assertCapability(capability: 'resources' | 'prompts'): void {
+    if (!this.capabilities?.[capability]) {
+      throw new Error(`MCP server "${this.serverName}" does not provide ${capability}`);
+    }
+  }
+
+  /**
+   * 服务器发来的请求：应答 ping，其余方法客户端不支持
+   */
+  private answerServerRequest(id: number | string, method: string): void {
+    const response = method === 'ping'
+      ? { jsonrpc: '2.0', id, result: {} }
+      : { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+
+    this.send(response as MCPResponse).catch(error => {
+      this.emit('transportError', { server: this.serverName, error });
+    });
   }
 
   /**
@@ -195,41 +641,64 @@ export class StdioMCPClient extends MCPClient {
   private buffer = '';
 
   constructor(config: MCPServerConfig) {
-    super(config.name);
+    super(config.name, config.timeout);
     this.command = config.command!;
     this.args = config.args || [];
     this.env = config.env || {};
   }
 
+  /**
+   * 启动子进程并初始化；可在子进程退出后再次调用以重启
+   *
+   * 子进程意外退出 (非 disconnect) 时触发 exit 事件
+   */
   async connect(): Promise<void> {
     this.setStatus(MCPConnectionStatus.CONNECTING);
+    this.buffer = '';
 
     return new Promise((resolve, reject) => {
-      this.process = spawn(this.command, this.args, {
+      const child = spawn(this.command, this.args, {
         env: { ...process.env, ...this.env },
         stdio: ['pipe', 'pipe', 'pipe'],
       });
+      this.process = child;
 
-      this.process.stdout!.on('data', (data: Buffer) => {
+      child.stdout!.on('data', (data: Buffer) => {
         this.handleData(data.toString());
       });
 
-      this.process.stderr!.on('data', (data: Buffer) => {
+      child.stderr!.on('data', (data: Buffer) => {
         this.emit('stderr', data.toString());
       });
 
-      this.process.on('error', (error) => {
+      // 子进程退出后写入 stdin 会产生 EPIPE，由 exit 处理
+      child.stdin!.on('error', (error) => {
+        this.emit('transportError', { server: this.serverName, error });
+      });
+
+      child.on('error', (error) => {
         this.setStatus(MCPConnectionStatus.ERROR);
         reject(error);
       });
 
-      this.process.on('exit', (code) => {
+      child.on('exit', (code, signal) => {
+        if (this.process !== child) {
+          return;
+        }
+        this.process = null;
+        const error = new Error(`MCP server exited with code ${code}`);
+        this.rejectAllRequests(error);
         this.setStatus(MCPConnectionStatus.DISCONNECTED);
-        this.emit('exit', code);
+        reject(error);
+        this.emit('exit', { server: this.serverName, code, signal });
       });
 
       // 等待初始化完成
       setTimeout(async () => {
+        if (this.process !== child) {
+          reject(new Error('Disconnected'));
+          return;
+        }
         try {
           await this.initialize();
           this.setStatus(MCPConnectionStatus.CONNECTED);
@@ -247,30 +716,15 @@ export class StdioMCPClient extends MCPClient {
       this.process.kill();
       this.process = null;
     }
+    this.rejectAllRequests(new Error('Disconnected'));
     this.setStatus(MCPConnectionStatus.DISCONNECTED);
   }
 
-  sendRequest(request: MCPRequest): Promise<MCPResponse> {
-    return new Promise((resolve, reject) => {
-      if (!this.process?.stdin) {
-        reject(new Error('Not connected'));
-        return;
-      }
-
-      this.pendingRequests.set(request.id, { resolve, reject });
-
-      // 发送请求
-      const message = JSON.stringify(request) + '\n';
-      this.process.stdin.write(message);
-
-      // 超时处理
-      setTimeout(() => {
-        if (this.pendingRequests.has(request.id)) {
-          this.pendingRequests.delete(request.id);
-          reject(new Error('Request timeout'));
-        }
-      }, 30000);
-    });
+  protected async send(message: MCPMessage): Promise<void> {
+    if (!this.process?.stdin) {
+      throw new Error('Not connected');
+    }
+    this.process.stdin.write(JSON.stringify(message) + '\n');
   }
 
   private handleData(data: string): void {
@@ -280,27 +734,499 @@ export class StdioMCPClient extends MCPClient {
 
     for (const line of lines) {
       if (line.trim()) {
+        let message: unknown;
         try {
-          const response = JSON.parse(line) as MCPResponse;
-          const pending = this.pendingRequests.get(response.id);
-          if (pending) {
-            this.pendingRequests.delete(response.id);
-            pending.resolve(response);
-          }
+          message = JSON.parse(line);
         } catch {
           this.emit('invalidMessage', line);
+          continue;
         }
+        this.handleMessage(message);
       }
     }
   }
 }
 
+// ============================================================================
+// HTTP MCP 客户端
+// ============================================================================
+
+/**
+ * HTTP MCP 客户端
+ *
+ * - Streamable HTTP：每条消息 POST 到 url，响应为 JSON 或 SSE 流；会话 ID 由 Mcp-Session-Id
+ *   头携带，会话过期 (404) 时重新初始化并重试一次；另开 GET 事件流接收服务器主动发送的消息，
+ *   断开后带 Last-Event-ID 重连
+ * - 旧版 SSE：GET url 建立事件流，endpoint 事件给出消息 POST 地址，响应经事件流返回；
+ *   事件流断开后重新建立连接并重新初始化
+ * - auto 模式按规范的兼容流程：initialize 的 POST 返回 400/404/405 时回退到旧版 SSE
+ */
+export class HttpMCPClient extends MCPClient {
+  private url: URL;
+  private preferredTransport: MCPHttpTransport | 'auto';
+  private transport: MCPHttpTransport | null = null;
+  private headers: Record<string, string>;
+  private reconnectConfig: Required<MCPReconnectConfig>;
+  private sessionId: string | null = null;
+  /** 旧版 SSE 的消息 POST 地址 */
+  private messageEndpoint: URL | null = null;
+  private eventStream: http.IncomingMessage | null = null;
+  private lastEventId: string | null = null;
+  /** 服务器通过 retry 字段建议的重连间隔 */
+  private retryDelayMs: number | null = null;
+  private reinitializing: Promise<void> | null = null;
+  private reconnectWait: { timer: NodeJS.Timeout; resolve: () => void } | null = null;
+  private reconnecting = false;
+  private closing = false;
+
+  constructor(config: MCPServerConfig) {
+    super(config.name, config.timeout);
+    this.url = new URL(config.url!);
+    if (this.url.protocol !== 'http:' && this.url.protocol !== 'https:') {
+      throw new MCPTransportError(`Unsupported MCP server URL: ${config.url}`, 'INVALID_URL');
+    }
+    this.preferredTransport = config.transport ?? 'auto';
+    this.headers = config.headers ?? {};
+    this.reconnectConfig = {
+      maxAttempts: config.reconnect?.maxAttempts ?? 5,
+      delayMs: config.reconnect?.delayMs ?? 1000,
+      maxDelayMs: config.reconnect?.maxDelayMs ?? 30000,
+    };
+  }
+
+  /** 实际使用的传输方式，连接前为 null */
+  getTransport(): MCPHttpTransport | null {
+    return this.transport;
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  async connect(): Promise<void> {
+    this.closing = false;
+    this.setStatus(MCPConnectionStatus.CONNECTING);
+
+    try {
+      await this.establish();
+      this.setStatus(MCPConnectionStatus.CONNECTED);
+    } catch (error) {
+      this.closeEventStream();
+      this.setStatus(MCPConnectionStatus.ERROR);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    this.closeEventStream();
+    if (this.reconnectWait) {
+      clearTimeout(this.reconnectWait.timer);
+      this.reconnectWait.resolve();
+    }
+
+    // 显式结束会话；服务器可以返回 405 表示不支持
+    if (this.transport === 'streamable-http' && this.sessionId) {
+      await this.request('DELETE', this.url)
+        .then(response => { response.resume(); })
+        .catch(() => undefined);
+    }
+
+    this.rejectAllRequests(new Error('Disconnected'));
+    this.transport = null;
+    this.sessionId = null;
+    this.messageEndpoint = null;
+    this.lastEventId = null;
+    this.setStatus(MCPConnectionStatus.DISCONNECTED);
+  }
+
+  /**
+   * 发送请求；Streamable HTTP 会话过期时重新初始化后重试一次
+   */
+  async sendRequest(request: MCPRequest): Promise<MCPResponse> {
+    try {
+      return await super.sendRequest(request);
+    } catch (error) {
+      if (!(error instanceof MCPTransportError) || error.code !== 'SESSION_EXPIRED' || request.method === 'initialize') {
+        throw error;
+      }
+      await this.reinitialize();
+      return super.sendRequest({ ...request, id: this.generateRequestId() });
+    }
+  }
+
+  protected clientProtocolVersion(): string {
+    return this.transport === 'streamable-http' ? MCP_STREAMABLE_HTTP_PROTOCOL_VERSION : MCP_PROTOCOL_VERSION;
+  }
+
+  protected async send(message: MCPMessage): Promise<void> {
+    if (this.transport === 'streamable-http') {
+      return this.postStreamable(message);
+    }
+    if (this.transport === 'sse' && this.messageEndpoint) {
+      const response = await this.request('POST', this.messageEndpoint, JSON.stringify(message));
+      await this.assertOk(response);
+      response.resume();
+      return;
+    }
+    throw new MCPTransportError(`MCP server "${this.serverName}" is not connected`, 'NOT_CONNECTED');
+  }
+
+  // ============================================================================
+  // 连接建立
+  // ============================================================================
+
+  private async establish(): Promise<void> {
+    if (this.preferredTransport !== 'sse') {
+      this.transport = 'streamable-http';
+      try {
+        await this.initialize();
+        await this.openServerStream().catch(error => {
+          this.emit('transportError', { server: this.serverName, error });
+        });
+        return;
+      } catch (error) {
+        // 旧版 SSE 服务器不接受向事件流地址 POST
+        const status = error instanceof MCPTransportError ? error.status : undefined;
+        if (this.preferredTransport === 'streamable-http' || !status || ![400, 404, 405].includes(status)) {
+          throw error;
+        }
+        this.sessionId = null;
+      }
+    }
+
+    this.transport = 'sse';
+    await this.openLegacyStream();
+    await this.initialize();
+  }
+
+  /**
+   * 会话过期后重新初始化，同时进行的请求共用同一次初始化
+   */
+  private reinitialize(): Promise<void> {
+    if (!this.reinitializing) {
+      this.sessionId = null;
+      this.lastEventId = null;
+      this.closeEventStream();
+      this.reinitializing = this.initialize()
+        .then(async () => {
+          this.emit('sessionRestored', { server: this.serverName, sessionId: this.sessionId });
+          await this.openServerStream().catch(error => {
+            this.emit('transportError', { server: this.serverName, error });
+          });
+        })
+        .finally(() => {
+          this.reinitializing = null;
+        });
+    }
+    return this.reinitializing;
+  }
+
+  // ============================================================================
+  // Streamable HTTP
+  // ============================================================================
+
+  private async postStreamable(message: MCPMessage): Promise<void> {
+    const isInitialize = 'method' in message && message.method === 'initialize';
+    const response = await this.request('POST', this.url, JSON.stringify(message), {
+      accept: 'application/json, text/event-stream',
+    });
+
+    if (response.statusCode === 404 && this.sessionId && !isInitialize) {
+      response.resume();
+      throw new MCPTransportError(`MCP session expired on server "${this.serverName}"`, 'SESSION_EXPIRED', 404);
+    }
+    await this.assertOk(response);
+
+    const sessionId = response.headers['mcp-session-id'];
+    if (typeof sessionId === 'string' && sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (contentType === 'text/event-stream') {
+      await readEventStream(response, event => this.handleEvent(event));
+    } else if (contentType === 'application/json') {
+      const body = await readBody(response);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        throw new MCPTransportError(`MCP server "${this.serverName}" returned invalid JSON`, 'INVALID_RESPONSE', response.statusCode);
+      }
+      this.handleMessage(parsed);
+    } else {
+      response.resume();
+    }
+
+    if ('method' in message && 'id' in message && this.hasPendingRequest(message.id)) {
+      throw new MCPTransportError(
+        `MCP server "${this.serverName}" closed the response without answering ${message.method}`,
+        'STREAM_CLOSED',
+        response.statusCode
+      );
+    }
+  }
+
+  /**
+   * 打开接收服务器主动消息的 GET 事件流，断开后自动重连；服务器返回 405 表示不提供
+   */
+  private async openServerStream(): Promise<void> {
+    const response = await this.request('GET', this.url, undefined, {
+      accept: 'text/event-stream',
+      ...(this.lastEventId !== null && { 'last-event-id': this.lastEventId }),
+    });
+    if (response.statusCode === 405) {
+      response.resume();
+      return;
+    }
+    await this.assertOk(response);
+
+    this.eventStream = response;
+    void readEventStream(response, event => {
+      // Last-Event-ID 只对同一事件流有效
+      if (event.id !== undefined) {
+        this.lastEventId = event.id;
+      }
+      this.handleEvent(event);
+    }).then(() => {
+      if (this.eventStream !== response) {
+        return;
+      }
+      this.eventStream = null;
+      if (!this.closing && !this.reconnecting) {
+        void this.reconnect(() => this.openServerStream(), false);
+      }
+    });
+  }
+
+  // ============================================================================
+  // 旧版 SSE
+  // ============================================================================
+
+  /**
+   * 建立旧版 SSE 事件流，等待服务器通过 endpoint 事件给出消息 POST 地址
+   */
+  private async openLegacyStream(): Promise<void> {
+    const response = await this.request('GET', this.url, undefined, { accept: 'text/event-stream' });
+    await this.assertOk(response);
+    this.eventStream = response;
+    this.messageEndpoint = null;
+
+    await new Promise<void>((resolve, reject) => {
+      const fail = (error: MCPTransportError) => {
+        clearTimeout(timer);
+        if (this.eventStream === response) {
+          this.eventStream = null;
+        }
+        response.destroy();
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        fail(new MCPTransportError(`MCP server "${this.serverName}" did not send an endpoint event`, 'TIMEOUT'));
+      }, this.requestTimeout);
+
+      void readEventStream(response, event => {
+        if (event.event !== 'endpoint') {
+          this.handleEvent(event);
+          return;
+        }
+
+        // 认证头会随 POST 发送，只接受同源地址
+        let endpoint: URL | null = null;
+        try {
+          endpoint = new URL(event.data, this.url);
+        } catch {
+          // 视为无效地址
+        }
+        if (!endpoint || endpoint.origin !== this.url.origin) {
+          fail(new MCPTransportError(`MCP server "${this.serverName}" sent an invalid endpoint: ${event.data}`, 'INVALID_ENDPOINT'));
+          return;
+        }
+        this.messageEndpoint = endpoint;
+        clearTimeout(timer);
+        resolve();
+      }).then(() => {
+        if (!this.messageEndpoint) {
+          fail(new MCPTransportError(`Event stream of MCP server "${this.serverName}" closed before the endpoint event`, 'STREAM_CLOSED'));
+        } else if (this.eventStream === response) {
+          void this.handleLegacyStreamLost();
+        }
+      });
+    });
+  }
+
+  /**
+   * 旧版 SSE 的会话随事件流结束：让等待中的请求失败，重新连接并重新初始化
+   */
+  private async handleLegacyStreamLost(): Promise<void> {
+    this.eventStream = null;
+    this.messageEndpoint = null;
+    if (this.closing) {
+      return;
+    }
+
+    this.rejectAllRequests(new MCPTransportError(`Event stream of MCP server "${this.serverName}" closed`, 'STREAM_CLOSED'));
+    if (this.reconnecting) {
+      return;
+    }
+
+    this.setStatus(MCPConnectionStatus.CONNECTING);
+    await this.reconnect(async () => {
+      await this.openLegacyStream();
+      await this.initialize();
+    }, true);
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  /**
+   * 按重连策略重复尝试；updateStatus 时以结果更新连接状态
+   */
+  private async reconnect(attempt: () => Promise<void>, updateStatus: boolean): Promise<void> {
+    this.reconnecting = true;
+    let lastError: unknown;
+
+    try {
+      for (let n = 1; n <= this.reconnectConfig.maxAttempts; n++) {
+        this.emit('reconnecting', { server: this.serverName, attempt: n });
+        await this.waitBeforeReconnect(n);
+        if (this.closing) {
+          return;
+        }
+
+        try {
+          await attempt();
+        } catch (error) {
+          lastError = error;
+          this.closeEventStream();
+          continue;
+        }
+        if (updateStatus) {
+          this.setStatus(MCPConnectionStatus.CONNECTED);
+        }
+        this.emit('reconnected', { server: this.serverName, attempt: n });
+        return;
+      }
+
+      if (updateStatus) {
+        this.setStatus(MCPConnectionStatus.ERROR);
+      }
+      this.emit('reconnectFailed', { server: this.serverName, error: lastError });
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  private waitBeforeReconnect(attempt: number): Promise<void> {
+    const delay = Math.min((this.retryDelayMs ?? this.reconnectConfig.delayMs) * attempt, this.reconnectConfig.maxDelayMs);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.reconnectWait = null;
+        resolve();
+      }, delay);
+      this.reconnectWait = { timer, resolve };
+    });
+  }
+
+  private handleEvent(event: SseEvent): void {
+    if (event.retry !== undefined) {
+      this.retryDelayMs = event.retry;
+    }
+    if (event.event !== 'message' || !event.data) {
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      this.emit('invalidMessage', event.data);
+      return;
+    }
+    this.handleMessage(message);
+  }
+
+  private closeEventStream(): void {
+    const stream = this.eventStream;
+    this.eventStream = null;
+    stream?.destroy();
+  }
+
+  /**
+   * 发送 HTTP 请求，附带配置的请求头、会话 ID 与协议版本；在响应头到达时返回
+   * 事件流 (GET) 不设超时，其余请求以 requestTimeout 为上限
+   */
+  private request(
+    method: string,
+    url: URL,
+    body?: string,
+    headers: Record<string, string> = {}
+  ): Promise<http.IncomingMessage> {
+    const streamable = this.transport === 'streamable-http';
+    const requestHeaders: Record<string, string> = {
+      ...this.headers,
+      ...headers,
+      ...(body !== undefined && { 'content-type': 'application/json', 'content-length': String(Buffer.byteLength(body)) }),
+      ...(streamable && this.sessionId && { 'mcp-session-id': this.sessionId }),
+      ...(streamable && this.protocolVersion && { 'mcp-protocol-version': this.protocolVersion }),
+    };
+    const signal = method === 'GET' ? undefined : AbortSignal.timeout(this.requestTimeout);
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, { method, headers: requestHeaders, signal }, resolve);
+      req.on('error', error => {
+        reject(signal?.aborted
+          ? new MCPTransportError(`${method} request to MCP server "${this.serverName}" timed out`, 'TIMEOUT')
+          : new MCPTransportError(`${method} request to MCP server "${this.serverName}" failed: ${error.message}`, 'NETWORK_ERROR'));
+      });
+      req.end(body);
+    });
+  }
+
+  private async assertOk(response: http.IncomingMessage): Promise<void> {
+    const status = response.statusCode ?? 0;
+    if (status >= 200 && status < 300) {
+      return;
+    }
+
+    const detail = (await readBody(response, 1024).catch(() => '')).trim();
+    throw new MCPTransportError(
+      `MCP server "${this.serverName}" responded with HTTP ${status}${detail ? `: ${detail}` : ''}`,
+      status === 401 || status === 403 ? 'UNAUTHORIZED' : 'HTTP_ERROR',
+      status
+    );
+  }
+}
+
 // ============================================================================
 // MCP 工具管理器
 // ============================================================================
 
+/** 受监督的服务器 */
+interface SupervisedServer {
+  config: MCPServerConfig;
+  health: MCPServerHealth;
+  /** 已断开，不再重启 */
+  stopped: boolean;
+}
+
+/**
+ * MCP 工具管理器
+ *
+ * 监督已连接的服务器：stdio 子进程意外退出时按指数退避重启，健康状况见 getStatus()；
+ * 服务器状态或工具列表变化时触发 serverStateChanged，用于同步 UnifiedSelfDescription。
+ * bindRegistry() 之后工具以 {server}__{tool} 注册到 ToolRegistry，并随工具列表变化与断开同步
+ */
 export class MCPToolManager extends EventEmitter {
   private clients: Map<string, MCPClient> = new Map();
+  private servers: Map<string, SupervisedServer> = new Map();
+  private registry: ToolRegistry | null = null;
+  /** 每个服务器已注册到 ToolRegistry 的工具名 */
+  private bridgedTools: Map<string, Set<string>> = new Map();
   private configPath: string;
 
   constructor(configPath: string = './data/mcp-servers.json') {
@@ -342,38 +1268,184 @@ export class MCPToolManager extends EventEmitter {
       // stdio 模式
       client = new StdioMCPClient(config);
     } else if (config.url) {
-      // SSE 模式 (待实现)
-      throw new Error('SSE mode not yet implemented');
+      // HTTP 模式 (Streamable HTTP 或旧版 SSE)
+      client = new HttpMCPClient(config);
     } else {
       throw new Error('Invalid server config: need command or url');
     }
 
+    const supervised: SupervisedServer = {
+      config,
+      health: { healthy: false, restarting: false, restarts: 0 },
+      stopped: false,
+    };
+
     // 监听事件
     client.on('statusChange', ({ server, status }) => {
+      supervised.health.healthy = status === MCPConnectionStatus.CONNECTED;
+      if (supervised.health.healthy) {
+        supervised.health.connectedAt = new Date().toISOString();
+      }
       this.emit('serverStatusChange', { server, status });
+      this.emitServerState(supervised, client);
+    });
+
+    client.on('toolsChanged', ({ server, tools }) => {
+      this.emit('toolsChanged', { server, tools });
+      this.syncRegistryTools(config, client);
+      this.emitServerState(supervised, client);
+    });
+
+    client.on('exit', ({ code, signal }) => {
+      supervised.health.lastExit = { code, signal, at: new Date().toISOString() };
+      this.emit('serverExited', { server: config.name, code, signal });
+      if (this.servers.get(config.name) === supervised) {
+        void this.restartServer(supervised, client);
+      }
     });
 
     client.on('toolAdded', ({ server, tool }) => {
       this.emit('toolRegistered', { server, tool });
     });
 
-    await client.connect();
+    client.on('reconnecting', ({ server, attempt }) => {
+      this.emit('serverReconnecting', { server, attempt });
+    });
+
+    client.on('resourceUpdated', ({ server, uri }) => {
+      this.emit('resourceUpdated', { server, uri });
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      supervised.health.lastError = error instanceof Error ? error.message : String(error);
+      await client.disconnect().catch(() => undefined);
+      this.unregisterTools(config.name);
+      this.emitServerState(supervised, client, 'error');
+      throw error;
+    }
     this.clients.set(config.name, client);
+    this.servers.set(config.name, supervised);
 
     return client;
   }
 
   /**
-   * 断开 MCP 服务器
+   * 断开 MCP 服务器 (停止监督，不再重启)
    */
   async disconnectServer(name: string): Promise<void> {
     const client = this.clients.get(name);
+    const supervised = this.servers.get(name);
+    if (supervised) {
+      supervised.stopped = true;
+      this.servers.delete(name);
+    }
+    this.unregisterTools(name);
     if (client) {
       await client.disconnect();
       this.clients.delete(name);
     }
   }
 
+  /**
+   * 把已连接及之后连接的服务器工具注册到 ToolRegistry，获得注册表的统计、参数验证、鉴权、
+   * 确认与 OpenAI/Ollama 格式导出；权限与确认由服务器的信任级别决定
+   */
+  bindRegistry(registry: ToolRegistry): void {
+    for (const name of Array.from(this.bridgedTools.keys())) {
+      this.unregisterTools(name);
+    }
+    this.registry = registry;
+    for (const [name, client] of this.clients) {
+      this.syncRegistryTools(this.servers.get(name)?.config ?? { name, enabled: true }, client);
+    }
+  }
+
+  /**
+   * 同步服务器的桥接工具：新增的注册，仍存在的就地更新 (保留统计)，已移除的注销
+   */
+  private syncRegistryTools(config: MCPServerConfig, client: MCPClient): void {
+    if (!this.registry) {
+      return;
+    }
+
+    const previous = this.bridgedTools.get(config.name) ?? new Set<string>();
+    const current = new Set<string>();
+    for (const tool of client.getTools()) {
+      const { name, ...definition } = createBridgedTool(config, client, tool);
+      current.add(name);
+      if (previous.has(name) && this.registry.has(name)) {
+        this.registry.update(name, definition);
+      } else {
+        this.registry.register({ name, ...definition });
+      }
+    }
+    for (const name of previous) {
+      if (!current.has(name)) {
+        this.registry.unregister(name);
+      }
+    }
+    this.bridgedTools.set(config.name, current);
+  }
+
+  private unregisterTools(serverName: string): void {
+    for (const name of this.bridgedTools.get(serverName) ?? []) {
+      this.registry?.unregister(name);
+    }
+    this.bridgedTools.delete(serverName);
+  }
+
+  /**
+   * 重启意外退出的服务器；每次尝试失败后按指数退避等待，全部失败时触发 serverRestartFailed
+   */
+  private async restartServer(supervised: SupervisedServer, client: MCPClient): Promise<void> {
+    const { maxAttempts = 5, delayMs = 1000 } = supervised.config.restart ?? {};
+    const name = supervised.config.name;
+    if (maxAttempts <= 0 || supervised.health.restarting) {
+      return;
+    }
+
+    supervised.health.restarting = true;
+    let attempt = 0;
+    try {
+      await withRetry(async () => {
+        if (supervised.stopped) {
+          throw new MCPTransportError(`Supervision of ${name} stopped`, 'STOPPED');
+        }
+        attempt++;
+        this.emit('serverRestarting', { server: name, attempt });
+        try {
+          await client.connect();
+        } catch (error) {
+          // 清理初始化失败的子进程，避免它再触发 exit
+          await client.disconnect();
+          throw error;
+        }
+      }, {
+        maxRetries: maxAttempts - 1,
+        delay: delayMs,
+        backoff: 'exponential',
+        retryable: () => !supervised.stopped,
+        onRetry: error => {
+          supervised.health.lastError = error.message;
+        },
+      });
+
+      supervised.health.restarts++;
+      this.emit('serverRestarted', { server: name, attempt });
+    } catch (error) {
+      if (!supervised.stopped) {
+        supervised.health.lastError = error instanceof Error ? error.message : String(error);
+        this.unregisterTools(name);
+        this.emitServerState(supervised, client, 'error');
+        this.emit('serverRestartFailed', { server: name, attempts: attempt, error });
+      }
+    } finally {
+      supervised.health.restarting = false;
+    }
+  }
+
   /**
    * 获取所有工具（转换为 Agent 工具格式）
    */
@@ -394,6 +1466,7 @@ export class MCPToolManager extends EventEmitter {
           server: serverName,
           parameters: mcpTool.inputSchema,
           execute: async (args: Record<string, unknown>) => {
+            assertValidArgs(`${serverName}.${mcpTool.name}`, mcpTool.inputSchema, args);
             return client.callTool(mcpTool.name, args);
           },
         });
@@ -414,17 +1487,94 @@ export class MCPToolManager extends EventEmitter {
       throw new Error(`Server not found: ${serverName}`);
     }
 
+    const tool = client.getTools().find(t => t.name === toolName);
+    if (tool) {
+      assertValidArgs(fullName, tool.inputSchema, args);
+    }
+
     return client.callTool(toolName, args);
   }
 
   /**
-   * 获取连接状态
+   * 获取所有服务器的资源
+   */
+  getAllResources(): Array<MCPResource & { server: string }> {
+    const resources: Array<MCPResource & { server: string }> = [];
+    for (const [serverName, client] of this.clients) {
+      for (const resource of client.getResources()) {
+        resources.push({ ...resource, server: serverName });
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * 读取资源
+   */
+  async readResource(serverName: string, uri: string): Promise<MCPResourceContents[]> {
+    return this.getClient(serverName).readResource(uri);
+  }
+
+  /**
+   * 订阅资源更新 (通过 resourceUpdated 事件通知)
+   */
+  async subscribeResource(serverName: string, uri: string): Promise<void> {
+    await this.getClient(serverName).subscribeResource(uri);
+  }
+
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    await this.getClient(serverName).unsubscribeResource(uri);
+  }
+
+  /**
+   * 获取所有提示词模板，fullName 为 {serverName}.{promptName}
+   */
+  getAllPrompts(): Array<MCPPrompt & { server: string; fullName: string }> {
+    const prompts: Array<MCPPrompt & { server: string; fullName: string }> = [];
+    for (const [serverName, client] of this.clients) {
+      for (const prompt of client.getPrompts()) {
+        prompts.push({ ...prompt, server: serverName, fullName: `${serverName}.${prompt.name}` });
+      }
+    }
+    return prompts;
+  }
+
+  /**
+   * 填充提示词模板
+   */
+  async getPrompt(fullName: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const separator = fullName.indexOf('.');
+    if (separator <= 0) {
+      throw new Error(`Invalid prompt name: ${fullName} (expected server.prompt)`);
+    }
+    return this.getClient(fullName.slice(0, separator)).getPromptMessages(fullName.slice(separator + 1), args);
+  }
+
+  /**
+   * 填充提示词模板并渲染为一条文本消息
    */
-  getStatus(): Array<{ name: string; status: MCPConnectionStatus; tools: number }> {
+  async renderPrompt(fullName: string, args: Record<string, string> = {}): Promise<string> {
+    return formatPromptMessages((await this.getPrompt(fullName, args)).messages);
+  }
+
+  /**
+   * 获取连接状态与健康状况
+   */
+  getStatus(): Array<{
+    name: string;
+    status: MCPConnectionStatus;
+    tools: number;
+    resources: number;
+    prompts: number;
+    health: MCPServerHealth;
+  }> {
     return Array.from(this.clients.entries()).map(([name, client]) => ({
       name,
       status: client.getStatus(),
       tools: client.getTools().length,
+      resources: client.getResources().length,
+      prompts: client.getPrompts().length,
+      health: { ...(this.servers.get(name)?.health ?? { healthy: false, restarting: false, restarts: 0 }) },
     }));
   }
 
@@ -432,11 +1582,223 @@ export class MCPToolManager extends EventEmitter {
    * 断开所有连接
    */
   async disconnectAll(): Promise<void> {
+    for (const supervised of this.servers.values()) {
+      supervised.stopped = true;
+    }
+    this.servers.clear();
+    for (const name of Array.from(this.bridgedTools.keys())) {
+      this.unregisterTools(name);
+    }
     for (const [name, client] of this.clients) {
       await client.disconnect();
     }
     this.clients.clear();
   }
+
+  private emitServerState(supervised: SupervisedServer, client: MCPClient, override?: MCPServerState['status']): void {
+    const status = client.getStatus();
+    const state: MCPServerState = {
+      name: supervised.config.name,
+      enabled: !supervised.stopped,
+      tools: client.getTools().map(tool => tool.name),
+      status: override ?? (status === MCPConnectionStatus.CONNECTED
+        ? 'connected'
+        : status === MCPConnectionStatus.ERROR ? 'error' : 'disconnected'),
+    };
+    this.emit('serverStateChanged', state);
+  }
+
+  private getClient(serverName: string): MCPClient {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      throw new Error(`Server not found: ${serverName}`);
+    }
+    return client;
+  }
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+/**
+ * 把提示词消息渲染为文本：单条用户消息原样输出，多条消息按角色标注
+ */
+export function formatPromptMessages(messages: MCPPromptMessage[]): string {
+  const render = (content: MCPPromptContent): string => {
+    switch (content.type) {
+      case 'text':
+        return content.text;
+      case 'resource':
+        return content.resource.text ?? `[resource: ${content.resource.uri}]`;
+      default:
+        return `[${content.type}: ${content.mimeType}]`;
+    }
+  };
+
+  if (messages.length === 1 && messages[0].role === 'user') {
+    return render(messages[0].content);
+  }
+  return messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${render(message.content)}`)
+    .join('\n\n');
+}
+
+/** SSE 事件 */
+interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * SSE 流解析器 (按 WHATWG EventSource 规则处理字段，忽略注释行)
+ */
+class SseParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+  private id?: string;
+  private retry?: number;
+
+  constructor(private onEvent: (event: SseEvent) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    for (const raw of lines) {
+      const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+      if (line === '') {
+        this.dispatch();
+        continue;
+      }
+      if (line.startsWith(':')) {
+        continue;
+      }
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+
+      switch (field) {
+        case 'event':
+          this.event = value;
+          break;
+        case 'data':
+          this.data.push(value);
+          break;
+        case 'id':
+          if (!value.includes('\0')) {
+            this.id = value;
+          }
+          break;
+        case 'retry':
+          if (/^\d+$/.test(value)) {
+            this.retry = Number(value);
+          }
+          break;
+      }
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data.length > 0 || this.id !== undefined || this.retry !== undefined) {
+      this.onEvent({ event: this.event || 'message', data: this.data.join('\n'), id: this.id, retry: this.retry });
+    }
+    this.event = '';
+    this.data = [];
+    this.id = undefined;
+    this.retry = undefined;
+  }
+}
+
+/**
+ * 逐个读取响应中的 SSE 事件，流结束 (包括出错或被中断) 时完成
+ */
+function readEventStream(response: http.IncomingMessage, onEvent: (event: SseEvent) => void): Promise<void> {
+  return new Promise(resolve => {
+    const parser = new SseParser(onEvent);
+    response.setEncoding('utf-8');
+    response.on('data', (chunk: string) => parser.push(chunk));
+    response.on('end', () => resolve());
+    response.on('close', () => resolve());
+    response.on('error', () => resolve());
+  });
+}
+
+/**
+ * 读取响应体，超出 maxBytes 的部分丢弃
+ */
+function readBody(response: http.IncomingMessage, maxBytes: number = Infinity): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    response.on('data', (chunk: Buffer) => {
+      if (size < maxBytes) {
+        chunks.push(chunk);
+      }
+      size += chunk.length;
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks).subarray(0, maxBytes).toString('utf-8')));
+    response.on('error', reject);
+  });
+}
+
+/**
+ * 桥接到 ToolRegistry 的工具名：{server}__{tool}，不符合函数名规则的字符替换为 _
+ */
+export function toRegistryToolName(serverName: string, toolName: string): string {
+  return `${serverName}${MCP_TOOL_NAMESPACE_SEPARATOR}${toolName}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * 把 MCP 工具转换为 ToolRegistry 工具定义；isError 结果转为异常，计入失败统计
+ */
+function createBridgedTool(config: MCPServerConfig, client: MCPClient, tool: MCPTool): ToolDefinition {
+  const trust = config.trust ?? 'standard';
+
+  return {
+    name: toRegistryToolName(config.name, tool.name),
+    displayName: `${config.name}: ${tool.title ?? tool.annotations?.title ?? tool.name}`,
+    description: `[${config.name}] ${tool.description || tool.title || tool.name}`,
+    parameters: { properties: {}, ...tool.inputSchema, type: 'object' } as ParameterSchema,
+    category: 'external',
+    tags: ['mcp', config.name],
+    permissionLevel: trust === 'untrusted' ? 'admin' : 'user',
+    requireConfirmation: trust === 'untrusted' || (trust === 'standard' && tool.annotations?.readOnlyHint !== true),
+    // 未声明只读的工具可能改变该服务器的资源
+    invalidates: () => (tool.annotations?.readOnlyHint === true ? [] : [
+      { tool: 'mcp_resource_list' },
+      { tool: 'mcp_resource_read', args: { server: config.name } },
+    ]),
+    execute: async (args) => {
+      const result = await client.callTool(tool.name, args) as {
+        content?: Array<{ type: string; text?: string }>;
+        isError?: boolean;
+      };
+      if (result?.isError) {
+        const message = (result.content ?? []).map(item => item.text ?? '').join('\n').trim();
+        throw new Error(message || `MCP tool ${config.name}.${tool.name} failed`);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * 调用前按 inputSchema 校验参数 (与 ToolRegistry 使用同一校验器)
+ */
+function assertValidArgs(toolName: string, schema: JsonSchema, args: Record<string, unknown>): void {
+  const result = validateSchema(schema, args);
+  if (!result.valid) {
+    throw new Error(`Invalid arguments for MCP tool "${toolName}": ${formatSchemaErrors(result.errors)}`);
+  }
 }
 
 export default MCPToolManager;
@@ -1,18 +1,38 @@
 /**
  * 模型引擎 (Model Engine)
  * 
- * 统一封装 OpenAI / Ollama API，支持流式响应
+ * 统一封装模型 API，支持流式响应
+ * 具体后端由可注册的提供商实现 (见 ./providers)
  * 位置: 执行层 (Execution Layer)
  */
 
 import { EventEmitter } from 'events';
+import { ModelEngineError } from './providers/base.js';
+import type { ModelProvider } from './providers/base.js';
+import { builtInProviders, ScriptedProvider } from './providers/index.js';
+import type { ScriptedStep } from './providers/index.js';
+import type { RoutingDecision } from './model-router.js';
+import type { UsageLedger, BudgetCheck } from './usage-ledger.js';
+import type { Cassette } from './cassette.js';
+import { completeStructured } from './structured-output.js';
+import type { StructuredOptions, StructuredResult } from './structured-output.js';
+import type { z } from 'zod';
 
 // ============================================================================
 // 类型定义
 // ============================================================================
 
+/** 内置提供商名称，也可以是任意已注册的自定义名称 */
+export type ModelProviderName =
+  | 'openai'
+  | 'openai-compatible'
+  | 'ollama'
+  | 'anthropic'
+  | 'scripted'
+  | (string & {});
+
 export interface ModelConfig {
-  provider: 'openai' | 'ollama';
+  provider: ModelProviderName;
   model: string;
   apiKey?: string;
   baseUrl?: string;
@@ -59,6 +79,30 @@ export interface StreamChunk {
     completionTokens: number;
     totalTokens: number;
   };
+  metadata?: ResponseMetadata;
+}
+
+/** 单次请求选项 */
+export interface RequestOptions {
+  /** 所属会话 (用于用量记录与会话预算) */
+  sessionId?: string;
+  /** 所属工具循环 (同一轮对话内的多次调用共享) */
+  loopId?: string;
+  /** 期望的响应格式；'json' 在提供商支持时启用 JSON 模式 */
+  responseFormat?: 'text' | 'json';
+  /** 中止本次请求 (不影响同一引擎上的其他请求) */
+  signal?: AbortSignal;
+}
+
+/** 响应元数据 */
+export interface ResponseMetadata {
+  /** 经 ModelRouter 路由时的决策记录 */
+  routing?: RoutingDecision;
+  /** 超出预算而降级时的预算检查结果 */
+  budget?: BudgetCheck;
+  /** 实际使用的模型 (降级时与配置不同) */
+  model?: string;
+  [key: string]: unknown;
 }
 
 export interface CompletionResult {
@@ -71,6 +115,7 @@ export interface CompletionResult {
     totalTokens: number;
   };
   latencyMs: number;
+  metadata?: ResponseMetadata;
 }
 
 export interface EmbeddingResult {
@@ -82,45 +127,42 @@ export interface EmbeddingResult {
   };
 }
 
-// OpenAI API Response Types
-interface OpenAICompletionResponse {
-  choices: Array<{
-    message?: {
-      content?: string;
-      tool_calls?: ToolCall[];
-    };
-    finish_reason?: string;
-  }>;
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    total_tokens?: number;
-  };
+// ============================================================================
+// 提供商注册表
+// ============================================================================
+
+const providers: Map<string, ModelProvider> = new Map();
+
+/**
+ * 注册模型提供商 (同名覆盖)
+ */
+export function registerModelProvider(provider: ModelProvider): void {
+  providers.set(provider.name, provider);
 }
 
-interface OpenAIEmbeddingResponse {
-  data?: Array<{
-    embedding?: number[];
-  }>;
-  usage?: {
-    prompt_tokens?: number;
-    total_tokens?: number;
-  };
+/**
+ * 注销模型提供商
+ */
+export function unregisterModelProvider(name: string): boolean {
+  return providers.delete(name);
 }
 
-// Ollama API Response Types
-interface OllamaCompletionResponse {
-  message?: {
-    content?: string;
-    tool_calls?: ToolCall[];
-  };
-  done?: boolean;
-  prompt_eval_count?: number;
-  eval_count?: number;
+/**
+ * 获取模型提供商
+ */
+export function getModelProvider(name: string): ModelProvider | undefined {
+  return providers.get(name);
 }
 
-interface OllamaEmbeddingResponse {
-  embedding?: number[];
+/**
+ * 列出已注册的提供商名称
+ */
+export function listModelProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+for (const provider of builtInProviders) {
+  registerModelProvider(provider);
 }
 
 // ============================================================================
@@ -129,9 +171,17 @@ interface OllamaEmbeddingResponse {
 
 export class ModelEngine extends EventEmitter {
   private config: ModelConfig;
-  private abortController: AbortController | null = null;
+  /** 进行中的请求，每个请求独立中止 */
+  private activeRequests: Set<AbortController> = new Set();
+  private customProvider: ModelProvider | null;
+  private usageLedger: UsageLedger | null = null;
+  private cassette: Cassette | null = null;
 
-  constructor(config: ModelConfig) {
+  /**
+   * @param config 模型配置
+   * @param provider 可选的提供商实例，优先于按 config.provider 从注册表查找
+   */
+  constructor(config: ModelConfig, provider?: ModelProvider) {
     super();
     this.config = {
       temperature: 0.7,
@@ -139,6 +189,7 @@ export class ModelEngine extends EventEmitter {
       timeoutMs: 60000,
       ...config,
     };
+    this.customProvider = provider ?? null;
   }
 
   /**
@@ -155,22 +206,81 @@ export class ModelEngine extends EventEmitter {
     return { ...this.config };
   }
 
+  /**
+   * 设置用量账本 (记录用量并执行预算)
+   */
+  setUsageLedger(ledger: UsageLedger | null): void {
+    this.usageLedger = ledger;
+  }
+
+  /**
+   * 获取用量账本
+   */
+  getUsageLedger(): UsageLedger | null {
+    return this.usageLedger;
+  }
+
+  /**
+   * 设置录制/回放磁带 (包装 complete 与 stream 请求)
+   */
+  setCassette(cassette: Cassette | null): void {
+    this.cassette = cassette;
+  }
+
+  /**
+   * 获取录制/回放磁带
+   */
+  getCassette(): Cassette | null {
+    return this.cassette;
+  }
+
+  /**
+   * 获取当前提供商
+   */
+  getProvider(config: ModelConfig = this.config): ModelProvider {
+    if (this.customProvider) {
+      return this.customProvider;
+    }
+
+    const provider = getModelProvider(config.provider);
+    if (!provider) {
+      throw new ModelEngineError(
+        `Unknown model provider: ${config.provider}`,
+        'CONFIG_ERROR',
+        { provider: config.provider, available: listModelProviders() }
+      );
+    }
+    return provider;
+  }
+
   /**
    * 非流式完成请求
    */
   async complete(
     messages: Message[],
-    tools?: ToolDefinition[]
+    tools?: ToolDefinition[],
+    options: RequestOptions = {}
   ): Promise<CompletionResult> {
     const startTime = Date.now();
+    const { config, budget } = await this.resolveBudget(options);
+    const request = this.beginRequest(options.signal);
 
     try {
-      if (this.config.provider === 'openai') {
-        return await this.callOpenAI(messages, tools, false) as CompletionResult;
-      } else {
-        return await this.callOllama(messages, tools, false) as CompletionResult;
-      }
+      const result = await this.resolveProvider(config).complete({
+        config,
+        messages,
+        tools,
+        responseFormat: options.responseFormat,
+        signal: request.signal,
+      });
+      await this.recordUsage(config, result.usage, options);
+      return {
+        ...result,
+        latencyMs: Date.now() - startTime,
+        ...(budget ? { metadata: { ...result.metadata, budget, model: config.model } } : {}),
+      };
     } finally {
+      request.release();
       this.emit('requestComplete', { latencyMs: Date.now() - startTime });
     }
   }
@@ -180,431 +290,170 @@ export class ModelEngine extends EventEmitter {
    */
   async *stream(
     messages: Message[],
-    tools?: ToolDefinition[]
+    tools?: ToolDefinition[],
+    options: RequestOptions = {}
   ): AsyncGenerator<StreamChunk, void, unknown> {
     const startTime = Date.now();
-    this.abortController = new AbortController();
+    const { config, budget } = await this.resolveBudget(options);
+    const request = this.beginRequest(options.signal);
+    let usage: StreamChunk['usage'];
 
     try {
-      if (this.config.provider === 'openai') {
-        const result = await this.callOpenAI(messages, tools, true);
-        yield* result as AsyncGenerator<StreamChunk>;
-      } else {
-        const result = await this.callOllama(messages, tools, true);
-        yield* result as AsyncGenerator<StreamChunk>;
+      for await (const chunk of this.resolveProvider(config).stream({
+        config,
+        messages,
+        tools,
+        responseFormat: options.responseFormat,
+        signal: request.signal,
+      })) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        yield chunk;
+      }
+
+      if (budget) {
+        yield { metadata: { budget, model: config.model } };
       }
     } finally {
+      request.release();
       this.emit('requestComplete', { latencyMs: Date.now() - startTime });
-      this.abortController = null;
+      if (usage) {
+        await this.recordUsage(config, usage, options);
+      }
     }
   }
 
+  /**
+   * 结构化完成请求：按 zod 模式校验 JSON 输出，失败时携带错误重新提示
+   */
+  async completeStructured<T>(
+    messages: Message[],
+    schema: z.ZodType<T>,
+    options: StructuredOptions = {}
+  ): Promise<StructuredResult<T>> {
+    return completeStructured(this, messages, schema, options);
+  }
+
   /**
    * 生成嵌入向量
    */
   async embed(text: string): Promise<EmbeddingResult> {
     const startTime = Date.now();
+    const provider = this.getProvider();
 
+    if (!provider.embed) {
+      throw new ModelEngineError(
+        `Provider "${provider.name}" does not support embeddings`,
+        'UNSUPPORTED'
+      );
+    }
+
+    const request = this.beginRequest();
     try {
-      if (this.config.provider === 'openai') {
-        return await this.embedOpenAI(text);
-      } else {
-        return await this.embedOllama(text);
-      }
+      return await provider.embed(text, {
+        config: this.config,
+        signal: request.signal,
+      });
     } finally {
+      request.release();
       this.emit('embeddingComplete', { latencyMs: Date.now() - startTime });
     }
   }
 
   /**
-   * 中断当前请求
+   * 中断所有进行中的请求 (只中断单个请求时使用 RequestOptions.signal)
    */
   abort(): void {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.emit('aborted');
+    if (this.activeRequests.size === 0) {
+      return;
     }
-  }
-
-  // ============================================================================
-  // OpenAI API 调用
-  // ============================================================================
-
-  private async callOpenAI(
-    messages: Message[],
-    tools: ToolDefinition[] | undefined,
-    stream: boolean
-  ): Promise<CompletionResult | AsyncGenerator<StreamChunk>> {
-    const apiKey = this.config.apiKey;
-    if (!apiKey) {
-      throw new ModelEngineError('OpenAI API key is required', 'CONFIG_ERROR');
-    }
-
-    const baseUrl = this.config.baseUrl || 'https://api.openai.com/v1';
-    const url = `${baseUrl}/chat/completions`;
-
-    const body: Record<string, unknown> = {
-      model: this.config.model,
-      messages: messages.map(m => ({
-        role: m.role,
-        content: m.content,
-        ...(m.tool_calls && { tool_calls: m.tool_calls }),
-        ...(m.tool_call_id && { tool_call_id: m.tool_call_id }),
-      })),
-      temperature: this.config.temperature,
-      max_tokens: this.config.maxTokens,
-      stream,
-    };
-
-    if (tools && tools.length > 0) {
-      body.tools = tools;
-      body.tool_choice = 'auto';
-    }
-
-    if (stream) {
-      return this.streamOpenAI(url, apiKey, body);
+    for (const controller of this.activeRequests) {
+      controller.abort();
     }
+    this.emit('aborted');
+  }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-      signal: this.abortController?.signal,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new ModelEngineError(
-        `OpenAI API error: ${response.status} - ${error}`,
-        'API_ERROR',
-        { status: response.status }
-      );
+  /**
+   * 开始跟踪一个请求：调用方的 signal 与 abort() 都会中止它，结束时需调用 release
+   */
+  private beginRequest(signal?: AbortSignal): { signal: AbortSignal; release: () => void } {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
     }
-
-    const data = await response.json() as OpenAICompletionResponse;
-    const choice = data.choices[0];
+    this.activeRequests.add(controller);
 
     return {
-      content: choice.message?.content || '',
-      toolCalls: choice.message?.tool_calls,
-      finishReason: choice.finish_reason || 'stop',
-      usage: {
-        promptTokens: data.usage?.prompt_tokens || 0,
-        completionTokens: data.usage?.completion_tokens || 0,
-        totalTokens: data.usage?.total_tokens || 0,
+      signal: controller.signal,
+      release: () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.activeRequests.delete(controller);
       },
-      latencyMs: 0, // 由外层计算
     };
   }
 
-  private async *streamOpenAI(
-    url: string,
-    apiKey: string,
-    body: Record<string, unknown>
-  ): AsyncGenerator<StreamChunk> {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-      signal: this.abortController?.signal,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new ModelEngineError(
-        `OpenAI API error: ${response.status} - ${error}`,
-        'API_ERROR',
-        { status: response.status }
-      );
-    }
-
-    if (!response.body) {
-      throw new ModelEngineError('Response body is null', 'STREAM_ERROR');
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed || !trimmed.startsWith('data: ')) continue;
-
-          const data = trimmed.slice(6);
-          if (data === '[DONE]') return;
-
-          try {
-            const parsed = JSON.parse(data);
-            const delta = parsed.choices?.[0]?.delta;
-            const finishReason = parsed.choices?.[0]?.finish_reason;
-
-            const chunk: StreamChunk = {};
-
-            if (delta?.content) {
-              chunk.content = delta.content;
-            }
-
-            if (delta?.tool_calls) {
-              chunk.toolCalls = delta.tool_calls;
-            }
-
-            if (finishReason) {
-              chunk.finishReason = finishReason;
-            }
-
-            if (Object.keys(chunk).length > 0) {
-              yield chunk;
-            }
-          } catch (e) {
-            // 忽略解析错误
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
-  }
-
-  private async embedOpenAI(text: string): Promise<EmbeddingResult> {
-    const apiKey = this.config.apiKey;
-    if (!apiKey) {
-      throw new ModelEngineError('OpenAI API key is required', 'CONFIG_ERROR');
-    }
-
-    const baseUrl = this.config.baseUrl || 'https://api.openai.com/v1';
-    const url = `${baseUrl}/embeddings`;
-
-    // 使用专门的嵌入模型
-    const embeddingModel = this.config.model.includes('embed')
-      ? this.config.model
-      : 'text-embedding-3-small';
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: embeddingModel,
-        input: text,
-      }),
-      signal: this.abortController?.signal,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new ModelEngineError(
-        `OpenAI API error: ${response.status} - ${error}`,
-        'API_ERROR',
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json() as OpenAIEmbeddingResponse;
-
-    return {
-      embedding: data.data?.[0]?.embedding || [],
-      model: embeddingModel,
-      usage: {
-        promptTokens: data.usage?.prompt_tokens || 0,
-        totalTokens: data.usage?.total_tokens || 0,
-      },
-    };
+  /**
+   * 请求实际使用的提供商 (设置磁带时经其包装)
+   */
+  private resolveProvider(config: ModelConfig): ModelProvider {
+    const provider = this.getProvider(config);
+    return this.cassette ? this.cassette.wrap(provider) : provider;
   }
 
   // ============================================================================
-  // Ollama API 调用
+  // 用量与预算
   // ============================================================================
 
-  private async callOllama(
-    messages: Message[],
-    tools: ToolDefinition[] | undefined,
-    stream: boolean
-  ): Promise<CompletionResult | AsyncGenerator<StreamChunk>> {
-    const baseUrl = this.config.baseUrl || 'http://localhost:11434';
-    const url = `${baseUrl}/api/chat`;
-
-    const body: Record<string, unknown> = {
-      model: this.config.model,
-      messages: messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      })),
-      stream,
-      options: {
-        temperature: this.config.temperature,
-        num_predict: this.config.maxTokens,
-      },
-    };
-
-    if (tools && tools.length > 0) {
-      body.tools = tools.map(t => ({
-        type: 'function',
-        function: t.function,
-      }));
+  /**
+   * 检查预算：超出时拒绝 (BUDGET_EXCEEDED) 或返回降级后的配置
+   */
+  private async resolveBudget(
+    options: RequestOptions
+  ): Promise<{ config: ModelConfig; budget?: BudgetCheck }> {
+    if (!this.usageLedger) {
+      return { config: this.config };
     }
 
-    if (stream) {
-      return this.streamOllama(url, body);
+    const budget = await this.usageLedger.checkBudget(options.sessionId);
+    if (!budget.exceeded) {
+      return { config: this.config };
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-      signal: this.abortController?.signal,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
+    if (budget.action === 'refuse') {
+      this.emit('budgetExceeded', { ...budget, sessionId: options.sessionId });
       throw new ModelEngineError(
-        `Ollama API error: ${response.status} - ${error}`,
-        'API_ERROR',
-        { status: response.status }
+        `Usage budget exceeded: ${budget.reason}`,
+        'BUDGET_EXCEEDED',
+        { scope: budget.scope, sessionId: options.sessionId }
       );
     }
 
-    const data = await response.json() as OllamaCompletionResponse;
-
-    return {
-      content: data.message?.content || '',
-      toolCalls: data.message?.tool_calls,
-      finishReason: data.done ? 'stop' : null,
-      usage: {
-        promptTokens: data.prompt_eval_count || 0,
-        completionTokens: data.eval_count || 0,
-        totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
-      },
-      latencyMs: 0,
-    };
+    const config = { ...this.config, ...this.usageLedger.getBudget().downgradeTo };
+    this.emit('budgetDowngrade', { ...budget, sessionId: options.sessionId, model: config.model });
+    return { config, budget };
   }
 
-  private async *streamOllama(
-    url: string,
-    body: Record<string, unknown>
-  ): AsyncGenerator<StreamChunk> {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-      signal: this.abortController?.signal,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new ModelEngineError(
-        `Ollama API error: ${response.status} - ${error}`,
-        'API_ERROR',
-        { status: response.status }
-      );
-    }
-
-    if (!response.body) {
-      throw new ModelEngineError('Response body is null', 'STREAM_ERROR');
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+  /**
+   * 记录用量；账本写入失败不影响已得到的响应
+   */
+  private async recordUsage(
+    config: ModelConfig,
+    usage: CompletionResult['usage'],
+    options: RequestOptions
+  ): Promise<void> {
+    if (!this.usageLedger) return;
 
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n').filter(line => line.trim());
-
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-            const result: StreamChunk = {};
-
-            if (parsed.message?.content) {
-              result.content = parsed.message.content;
-            }
-
-            if (parsed.message?.tool_calls) {
-              result.toolCalls = parsed.message.tool_calls;
-            }
-
-            if (parsed.done) {
-              result.finishReason = 'stop';
-              result.usage = {
-                promptTokens: parsed.prompt_eval_count || 0,
-                completionTokens: parsed.eval_count || 0,
-                totalTokens: (parsed.prompt_eval_count || 0) + (parsed.eval_count || 0),
-              };
-            }
-
-            if (Object.keys(result).length > 0) {
-              yield result;
-            }
-          } catch (e) {
-            // 忽略解析错误
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
+      await this.usageLedger.record(config, usage, options);
+    } catch (error) {
+      this.emit('usageRecordFailed', error);
     }
   }
 
-  private async embedOllama(text: string): Promise<EmbeddingResult> {
-    const baseUrl = this.config.baseUrl || 'http://localhost:11434';
-    const url = `${baseUrl}/api/embeddings`;
-
-    // 使用专门的嵌入模型
-    const embeddingModel = this.config.model.includes('embed')
-      ? this.config.model
-      : 'nomic-embed-text';
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: embeddingModel,
-        prompt: text,
-      }),
-      signal: this.abortController?.signal,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new ModelEngineError(
-        `Ollama API error: ${response.status} - ${error}`,
-        'API_ERROR',
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json() as OllamaEmbeddingResponse;
-
-    return {
-      embedding: data.embedding || [],
-      model: embeddingModel,
-      usage: {
-        promptTokens: 0, // Ollama 不提供 token 计数
-        totalTokens: 0,
-      },
-    };
-  }
-
   // ============================================================================
   // 便捷方法
   // ============================================================================
@@ -641,17 +490,8 @@ export class ModelEngine extends EventEmitter {
 // 错误类
 // ============================================================================
 
-export class ModelEngineError extends Error {
-  public readonly code: string;
-  public readonly details?: Record<string, unknown>;
-
-  constructor(message: string, code: string, details?: Record<string, unknown>) {
-    super(message);
-    this.name = 'ModelEngineError';
-    this.code = code;
-    this.details = details;
-  }
-}
+export { ModelEngineError };
+export type { ModelProvider, ProviderContext, ProviderRequest } from './providers/base.js';
 
 // ============================================================================
 // 工厂函数
@@ -683,4 +523,46 @@ export function createOllamaEngine(
   });
 }
 
+export function createAnthropicEngine(
+  apiKey: string,
+  model: string = 'claude-sonnet-4-5',
+  options?: Partial<Omit<ModelConfig, 'provider' | 'apiKey' | 'model'>>
+): ModelEngine {
+  return new ModelEngine({
+    provider: 'anthropic',
+    apiKey,
+    model,
+    ...options,
+  });
+}
+
+/**
+ * 创建 OpenAI 兼容服务引擎 (llama.cpp server、vLLM 等)
+ */
+export function createOpenAICompatibleEngine(
+  baseUrl: string,
+  model: string,
+  options?: Partial<Omit<ModelConfig, 'provider' | 'model' | 'baseUrl'>>
+): ModelEngine {
+  return new ModelEngine({
+    provider: 'openai-compatible',
+    model,
+    baseUrl,
+    ...options,
+  });
+}
+
+/**
+ * 创建脚本化引擎 (离线、确定性，用于测试)
+ */
+export function createScriptedEngine(
+  script: ScriptedStep[] = [],
+  options?: Partial<Omit<ModelConfig, 'provider'>>
+): ModelEngine {
+  return new ModelEngine(
+    { provider: 'scripted', model: 'scripted', ...options },
+    new ScriptedProvider(script)
+  );
+}
+
 export default ModelEngine;
@@ -0,0 +1,531 @@
+/**
+ * 模型路由器 (Model Router)
+ *
+ * 在多个已配置的模型之间路由请求：
+ * - 疲劳度高 (皮质醇) 或稳态非 healthy 时选用快速廉价的模型
+ * - 贝叶斯预测为 caution/avoid 时选用更强的模型
+ * - 遇到 ModelEngineError 或超时自动回退到下一个模型
+ *
+ * 路由决策写入响应的 metadata.routing，便于审计
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+import { ModelEngine, ModelEngineError } from './model-engine.js';
+import type {
+  ModelConfig,
+  Message,
+  ToolDefinition,
+  StreamChunk,
+  CompletionResult,
+  RequestOptions,
+} from './model-engine.js';
+import type { UsageLedger } from './usage-ledger.js';
+import type { Cassette } from './cassette.js';
+import { completeStructured } from './structured-output.js';
+import type { StructuredOptions, StructuredResult } from './structured-output.js';
+import { TimeoutError } from '../utils/errors.js';
+import type { z } from 'zod';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 模型档位 */
+export type ModelTier = 'fast' | 'standard' | 'strong';
+
+/** 路由原因 */
+export type RoutingReason = 'default' | 'fatigue' | 'homeostasis' | 'low_confidence';
+
+/** 路由目标配置 */
+export interface ModelRoute {
+  /** 路由名称，默认 `${provider}:${model}` */
+  name?: string;
+  /** 模型引擎 (实例或配置) */
+  engine: ModelEngine | ModelConfig;
+  tier: ModelTier;
+  /** 单次请求超时 (毫秒)，默认取引擎配置的 timeoutMs */
+  timeoutMs?: number;
+}
+
+/**
+ * 路由信号来源 (结构化接口，兼容 embodiment/cognitive 模块与 UnifiedAgent 内置子系统)
+ */
+export interface RoutingSignalSources {
+  /** 激素系统：皮质醇水平作为疲劳/压力指标 */
+  hormones?: { getState(): { cortisol: number } };
+  /** 稳态系统 */
+  homeostasis?: { getCurrentStatus(): string };
+  /** 贝叶斯认知：recommendation 为 'caution' | 'avoid' 时视为低置信度 */
+  bayesian?: { predictPerformance(capability: string): { recommendation: string } };
+}
+
+/** 路由器配置 */
+export interface ModelRouterConfig {
+  routes: ModelRoute[];
+  /** 默认路由名称，未指定时取第一个 standard 档位的路由 */
+  defaultRoute?: string;
+  /** 疲劳阈值 (0-1)，默认 0.7 */
+  fatigueThreshold?: number;
+  /** 未指定时用于贝叶斯预测的能力名称 */
+  capability?: string;
+  sources?: RoutingSignalSources;
+}
+
+/** 单次请求选项 */
+export interface RouteOptions extends RequestOptions {
+  /** 当前任务对应的能力 (用于贝叶斯预测) */
+  capability?: string;
+}
+
+/** 决策时读取的信号 */
+export interface RoutingSignals {
+  capability: string;
+  fatigue?: number;
+  health?: string;
+  recommendation?: string;
+}
+
+/** 单次尝试记录 */
+export interface RoutingAttempt {
+  route: string;
+  model: string;
+  provider: string;
+  success: boolean;
+  latencyMs: number;
+  error?: string;
+  code?: string;
+}
+
+/** 路由决策 (写入响应 metadata.routing) */
+export interface RoutingDecision {
+  /** 最终使用的路由名称 */
+  route: string;
+  /** 最终使用的模型 */
+  model: string;
+  provider: string;
+  /** 首选路由 */
+  selected: string;
+  tier: ModelTier;
+  reasons: RoutingReason[];
+  signals: RoutingSignals;
+  attempts: RoutingAttempt[];
+  /** 是否发生了回退 */
+  fallback: boolean;
+}
+
+interface ResolvedRoute {
+  name: string;
+  engine: ModelEngine;
+  tier: ModelTier;
+  timeoutMs?: number;
+}
+
+const DEFAULT_FATIGUE_THRESHOLD = 0.7;
+const DEFAULT_CAPABILITY = 'conversation';
+const LOW_CONFIDENCE_RECOMMENDATIONS = new Set(['caution', 'avoid']);
+
+// ============================================================================
+// 模型路由器主类
+// ============================================================================
+
+export class ModelRouter extends EventEmitter {
+  private routes: ResolvedRoute[];
+  private defaultRoute: ResolvedRoute;
+  private fatigueThreshold: number;
+  private capability: string;
+  private sources: RoutingSignalSources;
+  /** 进行中的请求，每个请求独立中止 */
+  private activeRequests: Set<AbortController> = new Set();
+  private lastDecision: RoutingDecision | null = null;
+
+  constructor(config: ModelRouterConfig) {
+    super();
+
+    if (config.routes.length === 0) {
+      throw new ModelEngineError('Model router requires at least one route', 'CONFIG_ERROR');
+    }
+
+    this.routes = config.routes.map(route => {
+      const engine = route.engine instanceof ModelEngine ? route.engine : new ModelEngine(route.engine);
+      const { provider, model } = engine.getConfig();
+      return {
+        name: route.name ?? `${provider}:${model}`,
+        engine,
+        tier: route.tier,
+        timeoutMs: route.timeoutMs,
+      };
+    });
+
+    const names = new Set(this.routes.map(r => r.name));
+    if (names.size !== this.routes.length) {
+      throw new ModelEngineError('Model route names must be unique', 'CONFIG_ERROR');
+    }
+
+    const defaultRoute = config.defaultRoute
+      ? this.routes.find(r => r.name === config.defaultRoute)
+      : this.routes.find(r => r.tier === 'standard') ?? this.routes[0];
+    if (!defaultRoute) {
+      throw new ModelEngineError(
+        `Unknown default route: ${config.defaultRoute}`,
+        'CONFIG_ERROR',
+        { available: Array.from(names) }
+      );
+    }
+
+    this.defaultRoute = defaultRoute;
+    this.fatigueThreshold = config.fatigueThreshold ?? DEFAULT_FATIGUE_THRESHOLD;
+    this.capability = config.capability ?? DEFAULT_CAPABILITY;
+    this.sources = { ...config.sources };
+  }
+
+  /**
+   * 设置信号来源 (与已有来源合并)
+   */
+  setSources(sources: RoutingSignalSources): void {
+    this.sources = { ...this.sources, ...sources };
+  }
+
+  /**
+   * 获取当前信号来源
+   */
+  getSources(): RoutingSignalSources {
+    return { ...this.sources };
+  }
+
+  /**
+   * 为所有路由的引擎设置用量账本
+   */
+  setUsageLedger(ledger: UsageLedger | null): void {
+    for (const route of this.routes) {
+      route.engine.setUsageLedger(ledger);
+    }
+  }
+
+  /**
+   * 为所有路由的引擎设置录制/回放磁带
+   */
+  setCassette(cassette: Cassette | null): void {
+    for (const route of this.routes) {
+      route.engine.setCassette(cassette);
+    }
+  }
+
+  /**
+   * 列出路由
+   */
+  getRoutes(): Array<{ name: string; tier: ModelTier; model: string; provider: string }> {
+    return this.routes.map(r => {
+      const { model, provider } = r.engine.getConfig();
+      return { name: r.name, tier: r.tier, model, provider };
+    });
+  }
+
+  /**
+   * 最近一次请求的路由决策
+   */
+  getLastDecision(): RoutingDecision | null {
+    return this.lastDecision;
+  }
+
+  /**
+   * 根据当前信号做出路由决策 (不发起请求)
+   */
+  decide(options: RouteOptions = {}): RoutingDecision {
+    const signals = this.readSignals(options.capability ?? this.capability);
+    const reasons: RoutingReason[] = [];
+
+    if (signals.recommendation && LOW_CONFIDENCE_RECOMMENDATIONS.has(signals.recommendation)) {
+      reasons.push('low_confidence');
+    }
+    if (signals.fatigue !== undefined && signals.fatigue >= this.fatigueThreshold) {
+      reasons.push('fatigue');
+    }
+    if (signals.health && signals.health !== 'healthy') {
+      reasons.push('homeostasis');
+    }
+
+    // 低置信度优先保证质量，其次才考虑节能
+    let tier: ModelTier = this.defaultRoute.tier;
+    if (reasons.includes('low_confidence')) {
+      tier = 'strong';
+    } else if (reasons.length > 0) {
+      tier = 'fast';
+    } else {
+      reasons.push('default');
+    }
+
+    const selected = tier === this.defaultRoute.tier
+      ? this.defaultRoute
+      : this.routes.find(r => r.tier === tier) ?? this.defaultRoute;
+    const { model, provider } = selected.engine.getConfig();
+
+    return {
+      route: selected.name,
+      model,
+      provider,
+      selected: selected.name,
+      tier: selected.tier,
+      reasons,
+      signals,
+      attempts: [],
+      fallback: false,
+    };
+  }
+
+  /**
+   * 非流式完成请求，失败时沿回退链依次尝试
+   */
+  async complete(
+    messages: Message[],
+    tools?: ToolDefinition[],
+    options: RouteOptions = {}
+  ): Promise<CompletionResult> {
+    const decision = this.begin(options);
+    const request = this.track(options.signal);
+
+    try {
+      for (const route of this.chain(decision)) {
+        if (request.signal.aborted) break;
+
+        const startTime = Date.now();
+        const attempt = this.track(request.signal);
+        try {
+          const result = await this.withTimeout(
+            route,
+            route.engine.complete(messages, tools, { ...options, signal: attempt.signal }),
+            attempt.abort
+          );
+          this.recordSuccess(decision, route, startTime);
+          return { ...result, metadata: { ...result.metadata, routing: decision } };
+        } catch (error) {
+          this.recordFailure(decision, route, startTime, error, request.signal);
+        } finally {
+          attempt.release();
+        }
+      }
+    } finally {
+      request.release();
+    }
+
+    throw request.signal.aborted
+      ? new ModelEngineError('Model request aborted', 'ABORTED')
+      : this.exhausted(decision);
+  }
+
+  /**
+   * 流式完成请求
+   *
+   * 仅在收到首个分块之前回退；结束时追加一个携带 metadata.routing 的分块
+   */
+  async *stream(
+    messages: Message[],
+    tools?: ToolDefinition[],
+    options: RouteOptions = {}
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    const decision = this.begin(options);
+    const request = this.track(options.signal);
+
+    try {
+      for (const route of this.chain(decision)) {
+        if (request.signal.aborted) return;
+
+        const startTime = Date.now();
+        const attempt = this.track(request.signal);
+        const iterator = route.engine.stream(messages, tools, { ...options, signal: attempt.signal });
+
+        let first: IteratorResult<StreamChunk, void>;
+        try {
+          first = await this.withTimeout(route, iterator.next(), attempt.abort);
+        } catch (error) {
+          attempt.abort();
+          attempt.release();
+          iterator.return(undefined).catch(() => undefined);
+          this.recordFailure(decision, route, startTime, error, request.signal);
+          continue;
+        }
+
+        this.recordSuccess(decision, route, startTime);
+        try {
+          if (!first.done) {
+            yield first.value as StreamChunk;
+            yield* { [Symbol.asyncIterator]: () => iterator };
+          }
+        } finally {
+          attempt.release();
+        }
+
+        yield { metadata: { routing: decision } };
+        return;
+      }
+    } finally {
+      request.release();
+    }
+
+    if (!request.signal.aborted) {
+      throw this.exhausted(decision);
+    }
+  }
+
+  /**
+   * 结构化完成请求，每次尝试 (含重新提示) 都经过路由与回退
+   */
+  async completeStructured<T>(
+    messages: Message[],
+    schema: z.ZodType<T>,
+    options: StructuredOptions & RouteOptions = {}
+  ): Promise<StructuredResult<T>> {
+    return completeStructured(this, messages, schema, options);
+  }
+
+  /**
+   * 中断所有进行中的请求 (不再回退)；只中断单个请求时使用 RouteOptions.signal
+   */
+  abort(): void {
+    for (const controller of this.activeRequests) {
+      controller.abort();
+    }
+    this.emit('aborted');
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private begin(options: RouteOptions): RoutingDecision {
+    const decision = this.decide(options);
+    this.lastDecision = decision;
+    this.emit('routed', decision);
+    return decision;
+  }
+
+  /**
+   * 跟踪一个请求或单次尝试：上级 signal 与 abort() 都会中止它，结束时需调用 release
+   */
+  private track(signal?: AbortSignal): { signal: AbortSignal; abort: () => void; release: () => void } {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+    this.activeRequests.add(controller);
+
+    return {
+      signal: controller.signal,
+      abort,
+      release: () => {
+        signal?.removeEventListener('abort', abort);
+        this.activeRequests.delete(controller);
+      },
+    };
+  }
+
+  /** 回退链：首选路由在前，其余按配置顺序 */
+  private chain(decision: RoutingDecision): ResolvedRoute[] {
+    const selected = this.routes.find(r => r.name === decision.selected)!;
+    return [selected, ...this.routes.filter(r => r !== selected)];
+  }
+
+  private readSignals(capability: string): RoutingSignals {
+    const { hormones, homeostasis, bayesian } = this.sources;
+
+    return {
+      capability,
+      fatigue: hormones?.getState().cortisol,
+      health: homeostasis?.getCurrentStatus(),
+      recommendation: bayesian?.predictPerformance(capability).recommendation,
+    };
+  }
+
+  /**
+   * 限制单次尝试的时长；超时时通过 onTimeout 中止落败的请求，避免其继续占用提供商并计入用量
+   */
+  private async withTimeout<T>(route: ResolvedRoute, promise: Promise<T>, onTimeout: () => void): Promise<T> {
+    const timeoutMs = route.timeoutMs ?? route.engine.getConfig().timeoutMs;
+    if (!timeoutMs) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        onTimeout();
+        reject(new TimeoutError(
+          `Model route "${route.name}" timed out after ${timeoutMs}ms`,
+          route.name,
+          timeoutMs
+        ));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordSuccess(decision: RoutingDecision, route: ResolvedRoute, startTime: number): void {
+    const { model, provider } = route.engine.getConfig();
+    decision.attempts.push({
+      route: route.name,
+      model,
+      provider,
+      success: true,
+      latencyMs: Date.now() - startTime,
+    });
+    decision.route = route.name;
+    decision.model = model;
+    decision.provider = provider;
+    decision.fallback = route.name !== decision.selected;
+  }
+
+  /** 记录失败；不可回退的错误 (含预算超限) 直接抛出 */
+  private recordFailure(
+    decision: RoutingDecision,
+    route: ResolvedRoute,
+    startTime: number,
+    error: unknown,
+    signal: AbortSignal
+  ): void {
+    if (signal.aborted || !(error instanceof ModelEngineError || error instanceof TimeoutError)) {
+      throw error;
+    }
+    if (error instanceof ModelEngineError && error.code === 'BUDGET_EXCEEDED') {
+      throw error;
+    }
+
+    const { model, provider } = route.engine.getConfig();
+    const attempt: RoutingAttempt = {
+      route: route.name,
+      model,
+      provider,
+      success: false,
+      latencyMs: Date.now() - startTime,
+      error: error.message,
+      code: error instanceof TimeoutError ? 'TIMEOUT' : error.code,
+    };
+    decision.attempts.push(attempt);
+    this.emit('fallback', { decision, attempt });
+  }
+
+  private exhausted(decision: RoutingDecision): ModelEngineError {
+    return new ModelEngineError(
+      `All model routes failed (${decision.attempts.map(a => a.route).join(', ')})`,
+      'ROUTING_FAILED',
+      { routing: decision }
+    );
+  }
+}
+
+// ============================================================================
+// 工厂函数
+// ============================================================================
+
+export function createModelRouter(config: ModelRouterConfig): ModelRouter {
+  return new ModelRouter(config);
+}
+
+export default ModelRouter;
@@ -0,0 +1,526 @@
+/**
+ * 网络策略 (Network Policy)
+ *
+ * http_* 工具的出站访问控制：
+ * - 主机白名单/黑名单 (支持 *.example.com 通配与 IP / CIDR)
+ * - SSRF 防护：DNS 解析后检查地址，拒绝私有、回环、链路本地、元数据地址；
+ *   检查在建立连接时进行 (自定义 lookup)，DNS rebinding 无法绕过
+ * - 每次重定向重新检查目标，限制重定向次数
+ * - 响应体大小上限 (流式计数，超出即中断)
+ * - 按主机的速率限制 (滑动窗口)
+ * 配置见 GlobalConfigSchema 的 tools.network
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { DEFAULT_DENIED_HOSTS } from '../config/defaults.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 速率限制：每个主机在 windowMs 内最多 maxRequests 次请求 */
+export interface NetworkRateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface NetworkPolicyConfig {
+  /** 关闭时不做任何限制 (响应大小与重定向上限仍然生效)，默认 true */
+  enabled?: boolean;
+  /** 主机白名单，非空时只允许其中的主机 */
+  allowedHosts?: string[];
+  /** 主机黑名单 (主机名、*.domain、IP 或 CIDR)，默认 DEFAULT_DENIED_HOSTS */
+  deniedHosts?: string[];
+  /** 拒绝解析到私有/保留地址的主机，默认 true */
+  blockPrivateNetworks?: boolean;
+  /** 允许访问私有地址的主机 (如内网服务)，仍受黑名单限制 */
+  allowPrivateHosts?: string[];
+  /** 响应体最大字节数，默认 10 MiB */
+  maxResponseBytes?: number;
+  /** 最大重定向次数，默认 5 */
+  maxRedirects?: number;
+  /** 按主机的速率限制，null 表示不限制，默认每分钟 60 次 */
+  rateLimit?: NetworkRateLimit | null;
+  /** 请求超时 (毫秒)，同时是单次请求可设置的上限，默认 60000 */
+  timeoutMs?: number;
+}
+
+export interface NetworkRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+  /** 超时 (毫秒)，不超过 timeoutMs 配置 */
+  timeoutMs?: number;
+  /** 最大重定向次数，不超过配置；0 表示不跟随，直接返回 3xx 响应 */
+  maxRedirects?: number;
+  /** 响应体最大字节数，不超过配置 */
+  maxBytes?: number;
+  signal?: AbortSignal;
+}
+
+export interface NetworkResponse {
+  /** 最终 URL (跟随重定向之后) */
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Record<string, string>;
+  body: Buffer;
+  /** 依次经过的重定向目标 */
+  redirects: string[];
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 默认拒绝的主机，定义见 config/defaults */
+export { DEFAULT_DENIED_HOSTS };
+
+/** 私有与保留地址段 */
+const PRIVATE_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  // NAT64 与 6to4 内嵌 IPv4 地址，可经由转换网关到达私有 IPv4
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const PRIVATE_BLOCK_LIST = new net.BlockList();
+for (const [address, prefix, type] of PRIVATE_RANGES) {
+  PRIVATE_BLOCK_LIST.addSubnet(address, prefix, type);
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** 速率限制最多跟踪的主机数，超出时淘汰最久未请求的主机 */
+const MAX_TRACKED_HOSTS = 1000;
+
+/** 跨源重定向时移除的请求头 */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class NetworkPolicyError extends Error {
+  public readonly code: string;
+  public readonly url: string;
+
+  constructor(message: string, code: string, url: string) {
+    super(message);
+    this.name = 'NetworkPolicyError';
+    this.code = code;
+    this.url = url;
+  }
+}
+
+// ============================================================================
+// 网络策略主类
+// ============================================================================
+
+export class NetworkPolicy {
+  private enabled: boolean;
+  private allowedHosts: string[];
+  private deniedHosts: string[];
+  private deniedAddresses: net.BlockList;
+  private blockPrivateNetworks: boolean;
+  private allowPrivateHosts: string[];
+  private maxResponseBytes: number;
+  private maxRedirects: number;
+  private rateLimit: NetworkRateLimit | null;
+  private timeoutMs: number;
+  /** 主机 -> 窗口内的请求时间 (按最近请求排序，便于淘汰) */
+  private requestLog: Map<string, number[]> = new Map();
+  private lastPrunedAt = 0;
+
+  constructor(config: NetworkPolicyConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.allowedHosts = (config.allowedHosts ?? []).map(normalizeHost);
+    this.deniedHosts = (config.deniedHosts ?? DEFAULT_DENIED_HOSTS).map(normalizeHost);
+    this.deniedAddresses = toBlockList(this.deniedHosts);
+    this.blockPrivateNetworks = config.blockPrivateNetworks ?? true;
+    this.allowPrivateHosts = (config.allowPrivateHosts ?? []).map(normalizeHost);
+    this.maxResponseBytes = config.maxResponseBytes ?? 10 * 1024 * 1024;
+    this.maxRedirects = config.maxRedirects ?? 5;
+    this.rateLimit = config.rateLimit === undefined ? { maxRequests: 60, windowMs: 60000 } : config.rateLimit;
+    this.timeoutMs = config.timeoutMs ?? 60000;
+  }
+
+  /**
+   * 获取生效的配置
+   */
+  getConfig(): NetworkPolicyConfig {
+    return {
+      enabled: this.enabled,
+      allowedHosts: [...this.allowedHosts],
+      deniedHosts: [...this.deniedHosts],
+      blockPrivateNetworks: this.blockPrivateNetworks,
+      allowPrivateHosts: [...this.allowPrivateHosts],
+      maxResponseBytes: this.maxResponseBytes,
+      maxRedirects: this.maxRedirects,
+      rateLimit: this.rateLimit ? { ...this.rateLimit } : null,
+      timeoutMs: this.timeoutMs,
+    };
+  }
+
+  /**
+   * 检查 URL 的协议与主机 (DNS 解析前的部分)，不允许时抛出 NetworkPolicyError
+   */
+  checkUrl(target: string | URL): URL {
+    const url = parseUrl(target);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new NetworkPolicyError(`Protocol is not allowed: ${url.protocol}`, 'PROTOCOL_NOT_ALLOWED', url.href);
+    }
+    if (!this.enabled) {
+      return url;
+    }
+
+    const host = normalizeHost(url.hostname);
+    if (this.deniedHosts.some(pattern => matchesHost(host, pattern))) {
+      throw new NetworkPolicyError(`Host is denied: ${host}`, 'HOST_DENIED', url.href);
+    }
+    if (this.allowedHosts.length > 0 && !this.allowedHosts.some(pattern => matchesHost(host, pattern))) {
+      throw new NetworkPolicyError(`Host is not in the allow list: ${host}`, 'HOST_NOT_ALLOWED', url.href);
+    }
+    // IP 字面量不经过 DNS 解析，在此检查
+    if (net.isIP(host)) {
+      this.checkAddress(host, host, url.href);
+    }
+    return url;
+  }
+
+  /**
+   * 检查主机解析得到的地址
+   */
+  checkAddress(host: string, address: string, url: string = host): void {
+    if (!this.enabled) {
+      return;
+    }
+    const normalized = unmapIPv4(address);
+    const type = net.isIPv4(normalized) ? 'ipv4' : 'ipv6';
+
+    if (this.deniedAddresses.check(normalized, type)) {
+      throw new NetworkPolicyError(`Address is denied: ${host} (${address})`, 'HOST_DENIED', url);
+    }
+    if (
+      this.blockPrivateNetworks
+      && PRIVATE_BLOCK_LIST.check(normalized, type)
+      && !this.allowPrivateHosts.some(pattern => matchesHost(normalizeHost(host), pattern))
+    ) {
+      throw new NetworkPolicyError(
+        `Host resolves to a private or reserved address: ${host} (${address})`,
+        'PRIVATE_ADDRESS',
+        url
+      );
+    }
+  }
+
+  /**
+   * 记录一次对主机的请求，超出速率限制时抛出 NetworkPolicyError
+   */
+  acquire(host: string, url: string = host): void {
+    if (!this.enabled || !this.rateLimit) {
+      return;
+    }
+    const { maxRequests, windowMs } = this.rateLimit;
+    const now = Date.now();
+    if (now - this.lastPrunedAt >= windowMs) {
+      this.pruneRequestLog(now, windowMs);
+    }
+    const key = normalizeHost(host);
+    const recent = (this.requestLog.get(key) ?? []).filter(time => now - time < windowMs);
+
+    if (recent.length >= maxRequests) {
+      const retryAfterMs = windowMs - (now - recent[0]);
+      this.requestLog.set(key, recent);
+      throw new NetworkPolicyError(
+        `Rate limit exceeded for ${key}: ${maxRequests} requests per ${windowMs}ms, retry after ${retryAfterMs}ms`,
+        'RATE_LIMITED',
+        url
+      );
+    }
+    recent.push(now);
+    this.requestLog.delete(key);
+    this.requestLog.set(key, recent);
+    for (const oldest of this.requestLog.keys()) {
+      if (this.requestLog.size <= MAX_TRACKED_HOSTS) {
+        break;
+      }
+      this.requestLog.delete(oldest);
+    }
+  }
+
+  /**
+   * 发送受策略约束的 HTTP 请求
+   */
+  async request(target: string | URL, options: NetworkRequestOptions = {}): Promise<NetworkResponse> {
+    const timeoutMs = Math.min(options.timeoutMs ?? this.timeoutMs, this.timeoutMs);
+    const maxRedirects = Math.min(options.maxRedirects ?? this.maxRedirects, this.maxRedirects);
+    const maxBytes = Math.min(options.maxBytes ?? this.maxResponseBytes, this.maxResponseBytes);
+
+    let url = this.checkUrl(target);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let method = (options.method ?? 'GET').toUpperCase();
+    let headers = { ...options.headers };
+    let body = options.body;
+    const redirects: string[] = [];
+
+    try {
+      for (;;) {
+        this.acquire(url.hostname, url.href);
+        const response = await this.send(url, { method, headers, body, maxBytes, signal: controller.signal })
+          .catch(error => {
+            if (controller.signal.aborted && !(error instanceof NetworkPolicyError)) {
+              throw options.signal?.aborted
+                ? new NetworkPolicyError(`Request aborted: ${url.href}`, 'ABORTED', url.href)
+                : new NetworkPolicyError(`Request timed out after ${timeoutMs}ms: ${url.href}`, 'TIMEOUT', url.href);
+            }
+            throw error;
+          });
+
+        const location = response.headers.location;
+        if (!REDIRECT_STATUSES.has(response.status) || !location || maxRedirects === 0) {
+          return { ...response, url: url.href, redirects };
+        }
+        if (redirects.length >= maxRedirects) {
+          throw new NetworkPolicyError(`Too many redirects (max ${maxRedirects}): ${url.href}`, 'TOO_MANY_REDIRECTS', url.href);
+        }
+
+        const next = this.checkUrl(new URL(location, url));
+        if (next.origin !== url.origin) {
+          headers = Object.fromEntries(
+            Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()))
+          );
+        }
+        // 303 以及 301/302 的 POST 改为不带请求体的 GET (与浏览器一致)
+        if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+          method = method === 'HEAD' ? 'HEAD' : 'GET';
+          body = undefined;
+          headers = Object.fromEntries(
+            Object.entries(headers).filter(([name]) => !/^content-(type|length)$/i.test(name))
+          );
+        }
+        redirects.push(next.href);
+        url = next;
+      }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  /**
+   * 移除窗口内没有请求的主机
+   */
+  private pruneRequestLog(now: number, windowMs: number): void {
+    for (const [key, times] of this.requestLog) {
+      if (times.length === 0 || now - times[times.length - 1] >= windowMs) {
+        this.requestLog.delete(key);
+      }
+    }
+    this.lastPrunedAt = now;
+  }
+
+  /**
+   * 单次请求 (不跟随重定向)；连接时通过 lookup 检查解析得到的地址
+   */
+  private send(
+    url: URL,
+    options: { method: string; headers: Record<string, string>; body?: string | Buffer; maxBytes: number; signal: AbortSignal }
+  ): Promise<Omit<NetworkResponse, 'url' | 'redirects'>> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, {
+        method: options.method,
+        headers: options.headers,
+        agent: false,
+        lookup: this.createLookup(url.href),
+        signal: options.signal,
+      }, res => {
+        const declared = Number(res.headers['content-length']);
+        if (declared > options.maxBytes) {
+          res.destroy();
+          reject(tooLarge(url.href, options.maxBytes));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > options.maxBytes) {
+            res.destroy();
+            reject(tooLarge(url.href, options.maxBytes));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on('error', reject);
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          resolve({
+            status,
+            statusText: res.statusMessage ?? '',
+            ok: status >= 200 && status < 300,
+            headers: flattenHeaders(res.headers),
+            body: Buffer.concat(chunks),
+          });
+        });
+      });
+
+      req.on('error', reject);
+      req.end(options.body);
+    });
+  }
+
+  private createLookup(url: string): net.LookupFunction {
+    return (hostname, options, callback) => {
+      dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+          callback(error, '', 0);
+          return;
+        }
+        try {
+          for (const { address } of addresses) {
+            this.checkAddress(hostname, address, url);
+          }
+        } catch (policyError) {
+          callback(policyError as NodeJS.ErrnoException, '', 0);
+          return;
+        }
+        if (options.all) {
+          (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      });
+    };
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 地址是否属于私有或保留地址段 (含 IPv4 映射的 IPv6 地址)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const normalized = unmapIPv4(normalizeHost(address));
+  if (!net.isIP(normalized)) {
+    return false;
+  }
+  return PRIVATE_BLOCK_LIST.check(normalized, net.isIPv4(normalized) ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * 主机是否匹配模式：精确匹配、*.domain (仅子域名)、IP 或 CIDR
+ */
+export function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1));
+  }
+  if (pattern.includes('/') && net.isIP(host)) {
+    return toBlockList([pattern]).check(unmapIPv4(host), net.isIPv4(unmapIPv4(host)) ? 'ipv4' : 'ipv6');
+  }
+  return host === pattern;
+}
+
+function parseUrl(target: string | URL): URL {
+  try {
+    return new URL(target);
+  } catch {
+    throw new NetworkPolicyError(`Invalid URL: ${target}`, 'INVALID_URL', String(target));
+  }
+}
+
+/** 小写并去掉 IPv6 字面量的方括号 */
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
+
+/** ::ffff:7f00:1 / ::ffff:127.0.0.1 -> 127.0.0.1 */
+function unmapIPv4(address: string): string {
+  const match = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (!match) {
+    return address;
+  }
+  if (match[1]) {
+    return match[1];
+  }
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/** 黑名单中的 IP 与 CIDR 条目 */
+function toBlockList(patterns: string[]): net.BlockList {
+  const list = new net.BlockList();
+  for (const pattern of patterns) {
+    const [address, prefix] = pattern.split('/');
+    const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+    if (!type) {
+      continue;
+    }
+    if (prefix === undefined) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, Number(prefix), type);
+    }
+  }
+  return list;
+}
+
+function flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return result;
+}
+
+function tooLarge(url: string, maxBytes: number): NetworkPolicyError {
+  return new NetworkPolicyError(`Response exceeds ${maxBytes} bytes: ${url}`, 'RESPONSE_TOO_LARGE', url);
+}
+
+export function createNetworkPolicy(config?: NetworkPolicyConfig): NetworkPolicy {
+  return new NetworkPolicy(config);
+}
+
+export default NetworkPolicy;
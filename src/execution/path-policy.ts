@@ -0,0 +1,333 @@
+/**
+ * 路径策略 (Path Policy)
+ *
+ * file_* 工具的文件系统访问范围：
+ * - 允许的根目录 (读写) 与只读根目录
+ * - 禁止的 glob (如 .env、*.pem)，同时检查调用者给出的路径与解析后的真实路径
+ * - Agent 自身源码目录只能经由硬自指流程 (带审查与回滚的自修改) 访问
+ * 所有判断基于 realpath，`..` 与符号链接都无法逃出允许范围；
+ * 尚不存在的目标 (写入、复制、移动) 按其最近的已存在祖先目录解析；
+ * 递归删除与移动目录时用 resolveTree 检查整个子树
+ * 配置见 GlobalConfigSchema 的 tools.fileScope
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import * as fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_DENIED_GLOBS } from '../config/defaults.js';
+import type { ToolContext } from './tool-registry.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type PathAccess = 'read' | 'write';
+
+export interface PathPolicyConfig {
+  /** 关闭时不做任何限制，默认 true */
+  enabled?: boolean;
+  /** 可读写的根目录 (相对路径基于 baseDir)，默认当前目录与系统临时目录 */
+  allowedRoots?: string[];
+  /** 只读根目录 (可读；即使位于允许的根目录中也不可写) */
+  readOnlyRoots?: string[];
+  /** 禁止访问的 glob，默认 DEFAULT_DENIED_GLOBS */
+  deniedGlobs?: string[];
+  /** 保护 Agent 自身源码，默认 true */
+  protectSelfSource?: boolean;
+  /** Agent 源码目录，默认 <baseDir>/src */
+  selfSourceRoot?: string;
+  /** 解析相对路径的基准目录，默认 process.cwd() */
+  baseDir?: string;
+}
+
+export interface PathCheckOptions {
+  /** 允许访问 Agent 自身源码 (仅硬自指流程) */
+  allowSelfSource?: boolean;
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 默认禁止的 glob，定义见 config/defaults */
+export { DEFAULT_DENIED_GLOBS };
+
+/** 硬自指流程的标识：ToolContext.metadata.flow 为该值的 system 调用可访问自身源码 */
+export const SELF_MODIFICATION_FLOW = 'hard-self-reference';
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class PathPolicyError extends Error {
+  public readonly code: string;
+  public readonly path: string;
+
+  constructor(message: string, code: string, filePath: string) {
+    super(message);
+    this.name = 'PathPolicyError';
+    this.code = code;
+    this.path = filePath;
+  }
+}
+
+// ============================================================================
+// 路径策略主类
+// ============================================================================
+
+export class PathPolicy {
+  private enabled: boolean;
+  private baseDir: string;
+  private allowedRoots: string[];
+  private readOnlyRoots: string[];
+  private deniedGlobs: string[];
+  private deniedPatterns: Array<{ glob: string; regex: RegExp; segment: boolean }>;
+  private selfSourceRoot: string | null;
+
+  constructor(config: PathPolicyConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.baseDir = path.resolve(config.baseDir ?? process.cwd());
+    this.allowedRoots = (config.allowedRoots ?? ['.', os.tmpdir()]).map(r => path.resolve(this.baseDir, r));
+    this.readOnlyRoots = (config.readOnlyRoots ?? []).map(r => path.resolve(this.baseDir, r));
+    this.deniedGlobs = config.deniedGlobs ?? DEFAULT_DENIED_GLOBS;
+    this.deniedPatterns = this.deniedGlobs.map(glob => ({
+      glob,
+      regex: globToRegExp(glob.replace(/\/$/, '')),
+      segment: !glob.replace(/\/$/, '').includes('/'),
+    }));
+    this.selfSourceRoot = config.protectSelfSource === false
+      ? null
+      : path.resolve(this.baseDir, config.selfSourceRoot ?? 'src');
+  }
+
+  /**
+   * 获取生效的配置
+   */
+  getConfig(): PathPolicyConfig {
+    return {
+      enabled: this.enabled,
+      baseDir: this.baseDir,
+      allowedRoots: [...this.allowedRoots],
+      readOnlyRoots: [...this.readOnlyRoots],
+      deniedGlobs: [...this.deniedGlobs],
+      protectSelfSource: this.selfSourceRoot !== null,
+      selfSourceRoot: this.selfSourceRoot ?? undefined,
+    };
+  }
+
+  /**
+   * 解析路径并检查访问权限，返回真实路径；不允许时抛出 PathPolicyError
+   */
+  async resolve(target: string, access: PathAccess, options: PathCheckOptions = {}): Promise<string> {
+    const lexical = path.resolve(this.baseDir, target);
+    if (!this.enabled) {
+      return lexical;
+    }
+
+    const real = await realpathAllowMissing(lexical);
+    const [allowedRoots, readOnlyRoots] = await Promise.all([
+      Promise.all(this.allowedRoots.map(realpathAllowMissing)),
+      Promise.all(this.readOnlyRoots.map(realpathAllowMissing)),
+    ]);
+
+    const readOnly = readOnlyRoots.some(root => isWithin(real, root));
+    if (!allowedRoots.some(root => isWithin(real, root)) && !(access === 'read' && readOnly)) {
+      throw new PathPolicyError(`Path is outside the allowed roots: ${target}`, 'OUTSIDE_ALLOWED_ROOTS', lexical);
+    }
+    if (access === 'write' && readOnly) {
+      throw new PathPolicyError(`Path is read-only: ${target}`, 'READ_ONLY', lexical);
+    }
+
+    const denied = this.matchDenied(lexical) ?? this.matchDenied(real);
+    if (denied) {
+      throw new PathPolicyError(`Path matches denied pattern "${denied}": ${target}`, 'DENIED_PATH', lexical);
+    }
+
+    if (this.selfSourceRoot && !options.allowSelfSource) {
+      const selfRoot = await realpathAllowMissing(this.selfSourceRoot);
+      if (isWithin(real, selfRoot) || isWithin(lexical, this.selfSourceRoot)) {
+        throw new PathPolicyError(
+          `Agent source can only be modified through the self-modification flow: ${target}`,
+          'SELF_SOURCE_PROTECTED',
+          lexical
+        );
+      }
+    }
+
+    return real;
+  }
+
+  /**
+   * 与 resolve 相同，并检查目标之下的整个子树 (递归删除、移动目录)：
+   * 子树中不能包含禁止的文件、只读根目录 (写访问时) 或 Agent 自身源码
+   */
+  async resolveTree(target: string, access: PathAccess, options: PathCheckOptions = {}): Promise<string> {
+    const real = await this.resolve(target, access, options);
+    if (!this.enabled) {
+      return real;
+    }
+
+    if (access === 'write') {
+      for (const root of await Promise.all(this.readOnlyRoots.map(realpathAllowMissing))) {
+        if (isWithin(root, real)) {
+          throw new PathPolicyError(`Path contains a read-only root: ${target}`, 'READ_ONLY', real);
+        }
+      }
+    }
+    if (this.selfSourceRoot && !options.allowSelfSource) {
+      const selfRoot = await realpathAllowMissing(this.selfSourceRoot);
+      if (isWithin(selfRoot, real) || isWithin(this.selfSourceRoot, real)) {
+        throw new PathPolicyError(
+          `Path contains the agent source, which can only be modified through the self-modification flow: ${target}`,
+          'SELF_SOURCE_PROTECTED',
+          real
+        );
+      }
+    }
+
+    for (const entry of await listTree(real)) {
+      const denied = this.matchDenied(entry);
+      if (denied) {
+        throw new PathPolicyError(`Path contains "${entry}" matching denied pattern "${denied}": ${target}`, 'DENIED_PATH', entry);
+      }
+    }
+    return real;
+  }
+
+  /**
+   * 路径是否匹配禁止的 glob (不解析符号链接，用于过滤目录列表)
+   */
+  isDenied(filePath: string): boolean {
+    return this.enabled && this.matchDenied(path.resolve(this.baseDir, filePath)) !== null;
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private matchDenied(absolute: string): string | null {
+    const absoluteSegments = absolute.split(path.sep).filter(Boolean);
+    const absolutePrefixes = prefixesOf(absoluteSegments).map(p => `/${p}`);
+    const relative = path.relative(this.baseDir, absolute);
+    const inside = !isOutside(relative);
+    // 基准目录之内只检查其下的路径段，避免基准目录本身的名称误匹配
+    const segments = inside ? relative.split(path.sep).filter(Boolean) : absoluteSegments;
+    const relativePrefixes = inside ? prefixesOf(segments) : [];
+
+    for (const pattern of this.deniedPatterns) {
+      const candidates = pattern.segment
+        ? segments
+        : pattern.glob.startsWith('/') ? absolutePrefixes : relativePrefixes;
+      if (candidates.some(candidate => pattern.regex.test(candidate))) {
+        return pattern.glob;
+      }
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 调用是否来自硬自指流程
+ */
+export function isSelfModificationContext(context?: Partial<ToolContext>): boolean {
+  return context?.source === 'system' && context.metadata?.flow === SELF_MODIFICATION_FLOW;
+}
+
+/**
+ * glob 转正则：** 匹配任意层级，* 与 ? 不跨越 '/'
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * realpath；路径不存在时解析最近的已存在祖先，再拼接其余部分
+ */
+async function realpathAllowMissing(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) {
+        throw error;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * 列出目录下的所有条目 (不跟随符号链接)；目标不是目录或不存在时返回空
+ */
+async function listTree(root: string): Promise<string[]> {
+  const entries: string[] = [];
+  const pending = [root];
+
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+    let children: Dirent[];
+    try {
+      children = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') {
+        continue;
+      }
+      throw error;
+    }
+    for (const child of children) {
+      const entry = path.join(dir, child.name);
+      entries.push(entry);
+      if (child.isDirectory()) {
+        pending.push(entry);
+      }
+    }
+  }
+  return entries;
+}
+
+/** ['a', 'b', 'c'] -> ['a', 'a/b', 'a/b/c'] */
+function prefixesOf(segments: string[]): string[] {
+  return segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+}
+
+function isWithin(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || !isOutside(relative);
+}
+
+function isOutside(relative: string): boolean {
+  return relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative);
+}
+
+export function createPathPolicy(config?: PathPolicyConfig): PathPolicy {
+  return new PathPolicy(config);
+}
+
+export default PathPolicy;
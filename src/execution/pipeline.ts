@@ -0,0 +1,649 @@
+/**
+ * 工具流水线 (Tool Pipelines)
+ *
+ * 声明式的多步工具调用 (JSON / YAML)，在 ToolRegistry 之上编排：
+ * - 具名步骤，参数模板 {{ input.x }} / {{ steps.<id>.a.b }} (与 util_get_path 相同的点路径)
+ * - 条件执行 (when)
+ * - 每步重试与超时
+ * - 并行扇出 (parallel / forEach)，后续步骤通过 steps.<id> 汇合结果
+ * 流水线可注册为工具，模型按名称调用整个工作流；每一步仍按调用者身份鉴权与确认
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { getPath } from './tools/utility.js';
+import type {
+  ParameterSchema,
+  ToolContext,
+  ToolDefinition,
+  ToolRegistry,
+} from './tool-registry.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 条件：模板字符串按真值判断，或对模板值做比较，可用 all / any / not 组合
+ */
+export type PipelineCondition =
+  | string
+  | { all: PipelineCondition[] }
+  | { any: PipelineCondition[] }
+  | { not: PipelineCondition }
+  | { value: unknown; equals?: unknown; notEquals?: unknown; in?: unknown[]; exists?: boolean };
+
+export interface PipelineRetry {
+  /** 总尝试次数 (含首次)，默认 1 */
+  attempts?: number;
+  /** 重试间隔 (毫秒)，默认 0 */
+  delayMs?: number;
+  /** 间隔倍增系数，默认 1 */
+  backoff?: number;
+}
+
+export interface PipelineStep {
+  /** 步骤 ID，在整个流水线内唯一 */
+  id: string;
+  /** 调用的工具 (与 parallel 二选一) */
+  tool?: string;
+  /** 工具参数，支持模板 */
+  args?: Record<string, unknown>;
+  /** 并行执行的子步骤，输出为 { 子步骤ID: 输出 } */
+  parallel?: PipelineStep[];
+  /** 对模板解析出的数组逐项调用 tool (参数中可用 item / index)，输出为数组 */
+  forEach?: string;
+  /** forEach 的并发数，默认 4 */
+  concurrency?: number;
+  /** 条件不满足时跳过 */
+  when?: PipelineCondition;
+  retry?: PipelineRetry;
+  /** 单次调用超时 (毫秒) */
+  timeoutMs?: number;
+  /** 失败时继续执行后续步骤 (输出为 null) */
+  continueOnError?: boolean;
+}
+
+export interface PipelineDefinition {
+  /** 注册为工具时的名称 */
+  name: string;
+  displayName?: string;
+  description: string;
+  /** 输入参数 Schema */
+  parameters?: ParameterSchema;
+  category?: string;
+  tags?: string[];
+  permissionLevel?: 'public' | 'user' | 'admin' | 'system';
+  requireConfirmation?: boolean;
+  /** 整个流水线的超时 (毫秒)，默认 DEFAULT_PIPELINE_TIMEOUT_MS */
+  timeoutMs?: number;
+  steps: PipelineStep[];
+  /** 输出模板，默认为最后一个执行的步骤的输出 */
+  output?: unknown;
+}
+
+export type PipelineStepStatus = 'success' | 'failed' | 'skipped';
+
+export interface PipelineStepResult {
+  id: string;
+  status: PipelineStepStatus;
+  output?: unknown;
+  error?: string;
+  attempts: number;
+  durationMs: number;
+}
+
+export interface PipelineRunResult {
+  pipeline: string;
+  success: boolean;
+  output: unknown;
+  steps: Record<string, PipelineStepResult>;
+  durationMs: number;
+}
+
+export interface PipelineRunOptions {
+  /** 调用者上下文，传递给每一步 */
+  context?: Partial<ToolContext>;
+}
+
+/** 模板求值的作用域 */
+interface PipelineScope {
+  input: Record<string, unknown>;
+  steps: Record<string, unknown>;
+  item?: unknown;
+  index?: number;
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+export const DEFAULT_PIPELINE_TIMEOUT_MS = 300000;
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.$-]+)\s*\}\}/g;
+const SINGLE_TEMPLATE_PATTERN = /^\{\{\s*([\w.$-]+)\s*\}\}$/;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const PipelineConditionSchema: z.ZodTypeAny = z.lazy(() => z.union([
+  z.string(),
+  z.object({ all: z.array(PipelineConditionSchema) }).strict(),
+  z.object({ any: z.array(PipelineConditionSchema) }).strict(),
+  z.object({ not: PipelineConditionSchema }).strict(),
+  z.object({
+    value: z.unknown(),
+    equals: z.unknown().optional(),
+    notEquals: z.unknown().optional(),
+    in: z.array(z.unknown()).optional(),
+    exists: z.boolean().optional(),
+  }).strict(),
+]));
+
+const PipelineStepSchema: z.ZodTypeAny = z.lazy(() => z.object({
+  id: z.string().regex(/^[A-Za-z_][\w-]*$/, 'Step id must be an identifier'),
+  tool: z.string().min(1).optional(),
+  args: z.record(z.unknown()).optional(),
+  parallel: z.array(PipelineStepSchema).min(1).optional(),
+  forEach: z.string().optional(),
+  concurrency: z.number().int().positive().optional(),
+  when: PipelineConditionSchema.optional(),
+  retry: z.object({
+    attempts: z.number().int().min(1).max(10).optional(),
+    delayMs: z.number().int().min(0).optional(),
+    backoff: z.number().min(1).optional(),
+  }).strict().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  continueOnError: z.boolean().optional(),
+}).strict().superRefine((step, ctx) => {
+  if (!step.tool === !step.parallel) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Step "${step.id}" must have exactly one of "tool" or "parallel"` });
+  }
+  if (step.forEach !== undefined && !step.tool) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Step "${step.id}" uses "forEach" without "tool"` });
+  }
+}));
+
+export const PipelineDefinitionSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][\w-]*$/, 'Pipeline name must be an identifier'),
+  displayName: z.string().optional(),
+  description: z.string().min(1),
+  parameters: z.object({
+    type: z.literal('object'),
+    properties: z.record(z.any()),
+    required: z.array(z.string()).optional(),
+  }).optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  permissionLevel: z.enum(['public', 'user', 'admin', 'system']).optional(),
+  requireConfirmation: z.boolean().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  steps: z.array(PipelineStepSchema).min(1),
+  output: z.unknown().optional(),
+}).strict();
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class PipelineError extends Error {
+  public readonly code: string;
+  /** 失败的步骤 */
+  public readonly step?: string;
+  /** 失败前已完成的步骤 */
+  public readonly result?: PipelineRunResult;
+
+  constructor(message: string, code: string, step?: string, result?: PipelineRunResult) {
+    super(message);
+    this.name = 'PipelineError';
+    this.code = code;
+    this.step = step;
+    this.result = result;
+  }
+}
+
+// ============================================================================
+// 流水线执行器
+// ============================================================================
+
+export class PipelineRunner extends EventEmitter {
+  private registry: ToolRegistry;
+
+  constructor(registry: ToolRegistry) {
+    super();
+    this.registry = registry;
+  }
+
+  /**
+   * 执行流水线，任一步骤失败 (且未设置 continueOnError) 时抛出 PipelineError
+   */
+  async run(
+    definition: PipelineDefinition,
+    input: Record<string, unknown> = {},
+    options: PipelineRunOptions = {}
+  ): Promise<PipelineRunResult> {
+    const stack = (options.context?.metadata?.pipelineStack as string[] | undefined) ?? [];
+    if (stack.includes(definition.name)) {
+      throw new PipelineError(
+        `Pipeline "${definition.name}" calls itself: ${[...stack, definition.name].join(' -> ')}`,
+        'RECURSION'
+      );
+    }
+
+    const startTime = Date.now();
+    const scope: PipelineScope = { input, steps: {} };
+    const result: PipelineRunResult = {
+      pipeline: definition.name,
+      success: true,
+      output: undefined,
+      steps: {},
+      durationMs: 0,
+    };
+    // 每一步由注册中心生成新的 callId
+    const { callId: _callId, ...inherited } = options.context ?? {};
+    const context: Partial<ToolContext> = {
+      ...inherited,
+      metadata: { ...options.context?.metadata, pipeline: definition.name, pipelineStack: [...stack, definition.name] },
+    };
+    let last: unknown;
+
+    this.emit('pipelineStarted', { pipeline: definition.name, input });
+
+    for (const step of definition.steps) {
+      const stepResult = await this.runStep(step, scope, context, result);
+      if (stepResult.status === 'failed' && !step.continueOnError) {
+        result.success = false;
+        result.durationMs = Date.now() - startTime;
+        this.emit('pipelineFailed', { pipeline: definition.name, step: step.id, result });
+        throw new PipelineError(
+          `Pipeline "${definition.name}" failed at step "${step.id}": ${stepResult.error}`,
+          'STEP_FAILED',
+          step.id,
+          result
+        );
+      }
+      if (stepResult.status !== 'skipped') {
+        last = stepResult.output;
+      }
+    }
+
+    result.output = definition.output === undefined ? last : renderTemplate(definition.output, scope);
+    result.durationMs = Date.now() - startTime;
+    this.emit('pipelineCompleted', { pipeline: definition.name, result });
+    return result;
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private async runStep(
+    step: PipelineStep,
+    scope: PipelineScope,
+    context: Partial<ToolContext>,
+    result: PipelineRunResult
+  ): Promise<PipelineStepResult> {
+    const startTime = Date.now();
+    const record = (stepResult: Omit<PipelineStepResult, 'id' | 'durationMs'>): PipelineStepResult => {
+      const full = { id: step.id, ...stepResult, durationMs: Date.now() - startTime };
+      result.steps[step.id] = full;
+      scope.steps[step.id] = full.status === 'success' ? full.output : null;
+      return full;
+    };
+
+    if (step.when !== undefined && !evaluateCondition(step.when, scope)) {
+      this.emit('stepSkipped', { pipeline: result.pipeline, step: step.id });
+      return record({ status: 'skipped', attempts: 0 });
+    }
+
+    this.emit('stepStarted', { pipeline: result.pipeline, step: step.id });
+    const stepContext = { ...context, metadata: { ...context.metadata, pipelineStep: step.id } };
+
+    try {
+      let output: unknown;
+      let attempts = 1;
+
+      if (step.parallel) {
+        const children = await Promise.all(step.parallel.map(child => this.runStep(child, scope, stepContext, result)));
+        const failed = children.find((child, i) => child.status === 'failed' && !step.parallel![i].continueOnError);
+        if (failed) {
+          throw new Error(`Parallel step "${failed.id}" failed: ${failed.error}`);
+        }
+        output = Object.fromEntries(children.map(child => [child.id, child.status === 'success' ? child.output : null]));
+      } else if (step.forEach !== undefined) {
+        const items = renderTemplate(step.forEach, scope);
+        if (!Array.isArray(items)) {
+          throw new Error(`forEach of step "${step.id}" did not resolve to an array`);
+        }
+        const runs = await mapWithConcurrency(items, step.concurrency ?? 4, (item, index) =>
+          this.callTool(step, { ...scope, item, index }, stepContext)
+        );
+        output = runs.map(run => run.output);
+        attempts = runs.reduce((sum, run) => sum + run.attempts, 0);
+      } else {
+        ({ output, attempts } = await this.callTool(step, scope, stepContext));
+      }
+
+      const stepResult = record({ status: 'success', output, attempts });
+      this.emit('stepCompleted', { pipeline: result.pipeline, step: step.id, result: stepResult });
+      return stepResult;
+    } catch (error) {
+      const attempts = (error as { attempts?: number }).attempts ?? 1;
+      const stepResult = record({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+      });
+      this.emit('stepFailed', { pipeline: result.pipeline, step: step.id, result: stepResult });
+      return stepResult;
+    }
+  }
+
+  /**
+   * 调用工具，按 retry 配置重试失败的调用 (鉴权拒绝等异常不重试)
+   */
+  private async callTool(
+    step: PipelineStep,
+    scope: PipelineScope,
+    context: Partial<ToolContext>
+  ): Promise<{ output: unknown; attempts: number }> {
+    const args = renderTemplate(step.args ?? {}, scope) as Record<string, unknown>;
+    const maxAttempts = step.retry?.attempts ?? 1;
+    let delayMs = step.retry?.delayMs ?? 0;
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const toolResult = await this.registry.execute(step.tool!, args, {
+        timeoutMs: step.timeoutMs,
+        context,
+      });
+      if (toolResult.success) {
+        return { output: toolResult.data, attempts: attempt };
+      }
+
+      lastError = toolResult.error ?? 'Unknown error';
+      if (attempt < maxAttempts) {
+        this.emit('stepRetry', { step: step.id, attempt, error: lastError });
+        await sleep(delayMs, context.cancelSignal);
+        delayMs *= step.retry?.backoff ?? 1;
+      }
+    }
+
+    throw Object.assign(new Error(lastError), { attempts: maxAttempts });
+  }
+}
+
+// ============================================================================
+// 解析与注册
+// ============================================================================
+
+/**
+ * 解析并校验流水线定义 (JSON 或 YAML 文本，或已解析的对象)
+ */
+export function parsePipeline(source: string | unknown, format?: 'json' | 'yaml'): PipelineDefinition {
+  let raw = source;
+  if (typeof source === 'string') {
+    try {
+      raw = (format ?? (source.trimStart().startsWith('{') ? 'json' : 'yaml')) === 'json'
+        ? JSON.parse(source)
+        : parseYaml(source);
+    } catch (error) {
+      throw new PipelineError(
+        `Failed to parse pipeline: ${error instanceof Error ? error.message : String(error)}`,
+        'PARSE_ERROR'
+      );
+    }
+  }
+
+  const parsed = PipelineDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new PipelineError(`Invalid pipeline definition: ${issues.join('; ')}`, 'INVALID_DEFINITION');
+  }
+
+  const definition = parsed.data as PipelineDefinition;
+  checkStepReferences(definition);
+  return definition;
+}
+
+/**
+ * 从文件加载流水线 (.json / .yaml / .yml)
+ */
+export async function loadPipelineFile(filePath: string): Promise<PipelineDefinition> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+  try {
+    return parsePipeline(content, ext === '.json' ? 'json' : 'yaml');
+  } catch (error) {
+    if (error instanceof PipelineError) {
+      throw new PipelineError(`${filePath}: ${error.message}`, error.code);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 加载目录中的所有流水线，目录不存在时返回空数组
+ */
+export async function loadPipelines(directory: string): Promise<PipelineDefinition[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files = entries.filter(name => /\.(json|ya?ml)$/i.test(name)).sort();
+  return Promise.all(files.map(name => loadPipelineFile(path.join(directory, name))));
+}
+
+/**
+ * 将流水线包装为工具定义，返回值为 { output, steps }
+ */
+export function createPipelineTool(
+  registry: ToolRegistry,
+  pipeline: PipelineDefinition | string,
+  runner: PipelineRunner = new PipelineRunner(registry)
+): ToolDefinition {
+  const definition = typeof pipeline === 'string' ? parsePipeline(pipeline) : parsePipeline(pipeline as unknown);
+
+  return {
+    name: definition.name,
+    displayName: definition.displayName,
+    description: definition.description,
+    category: definition.category ?? 'utility',
+    tags: ['pipeline', ...(definition.tags ?? [])],
+    permissionLevel: definition.permissionLevel ?? 'user',
+    requireConfirmation: definition.requireConfirmation ?? false,
+    timeoutMs: definition.timeoutMs ?? DEFAULT_PIPELINE_TIMEOUT_MS,
+    parameters: definition.parameters ?? { type: 'object', properties: {} },
+    execute: async (args, context) => {
+      const result = await runner.run(definition, args, { context });
+      return {
+        output: result.output,
+        steps: Object.fromEntries(Object.values(result.steps).map(step => [
+          step.id,
+          { status: step.status, attempts: step.attempts, durationMs: step.durationMs, ...(step.error ? { error: step.error } : {}) },
+        ])),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// 模板与条件
+// ============================================================================
+
+/**
+ * 渲染模板：仅含一个 {{路径}} 的字符串保留原始类型，其余字符串做插值；递归处理数组与对象
+ */
+export function renderTemplate(value: unknown, scope: object): unknown {
+  if (typeof value === 'string') {
+    const single = SINGLE_TEMPLATE_PATTERN.exec(value);
+    if (single) {
+      return getPath(scope, single[1]);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+      const resolved = getPath(scope, expression);
+      if (resolved === undefined || resolved === null) {
+        return '';
+      }
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, scope)]));
+  }
+  return value;
+}
+
+/**
+ * 条件求值
+ */
+export function evaluateCondition(condition: PipelineCondition, scope: object): boolean {
+  if (typeof condition === 'string') {
+    return Boolean(renderTemplate(condition, scope));
+  }
+  if ('all' in condition) {
+    return condition.all.every(item => evaluateCondition(item, scope));
+  }
+  if ('any' in condition) {
+    return condition.any.some(item => evaluateCondition(item, scope));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, scope);
+  }
+
+  const value = renderTemplate(condition.value, scope);
+  const checks: boolean[] = [];
+  if ('equals' in condition) checks.push(isEqual(value, renderTemplate(condition.equals, scope)));
+  if ('notEquals' in condition) checks.push(!isEqual(value, renderTemplate(condition.notEquals, scope)));
+  if (condition.in) checks.push((renderTemplate(condition.in, scope) as unknown[]).some(item => isEqual(value, item)));
+  if (condition.exists !== undefined) checks.push((value !== undefined && value !== null) === condition.exists);
+  return checks.length > 0 ? checks.every(Boolean) : Boolean(value);
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/**
+ * 检查模板引用的步骤：必须是之前已定义的步骤 (同一并行组内的步骤互不可见)
+ */
+function checkStepReferences(definition: PipelineDefinition): void {
+  const seen = new Set<string>();
+  const all = new Set<string>();
+
+  const collect = (steps: PipelineStep[]): void => {
+    for (const step of steps) {
+      if (all.has(step.id)) {
+        throw new PipelineError(`Duplicate step id "${step.id}"`, 'INVALID_DEFINITION', step.id);
+      }
+      all.add(step.id);
+      collect(step.parallel ?? []);
+    }
+  };
+
+  const check = (value: unknown, owner: string): void => {
+    for (const id of referencedSteps(value)) {
+      if (!seen.has(id)) {
+        throw new PipelineError(
+          all.has(id)
+            ? `Step "${owner}" references step "${id}" before it has run`
+            : `Step "${owner}" references unknown step "${id}"`,
+          'INVALID_DEFINITION',
+          owner
+        );
+      }
+    }
+  };
+
+  const visit = (steps: PipelineStep[], parallel: boolean): void => {
+    const added: string[] = [];
+    for (const step of steps) {
+      check([step.args, step.when, step.forEach], step.id);
+      if (step.parallel) {
+        visit(step.parallel, true);
+      }
+      if (parallel) {
+        added.push(step.id);
+      } else {
+        seen.add(step.id);
+      }
+    }
+    added.forEach(id => seen.add(id));
+  };
+
+  collect(definition.steps);
+  visit(definition.steps, false);
+  check(definition.output, 'output');
+}
+
+/** 模板中引用的步骤 ID (steps.<id>...) */
+function referencedSteps(value: unknown): string[] {
+  const text = JSON.stringify(value ?? null);
+  const ids: string[] = [];
+  for (const match of text.matchAll(TEMPLATE_PATTERN)) {
+    const [root, id] = match[1].split('.');
+    if (root === 'steps' && id) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PipelineError('Pipeline aborted', 'ABORTED'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PipelineError('Pipeline aborted', 'ABORTED'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function createPipelineRunner(registry: ToolRegistry): PipelineRunner {
+  return new PipelineRunner(registry);
+}
+
+export default PipelineRunner;
@@ -0,0 +1,270 @@
+/**
+ * Anthropic Messages 格式提供商
+ *
+ * 将 OpenAI 风格的 Message/ToolCall 转换为 Messages API 的内容块
+ */
+
+import type {
+  Message,
+  StreamChunk,
+  CompletionResult,
+  ToolCall,
+} from '../model-engine.js';
+import { ModelEngineError, postJSON, readLines } from './base.js';
+import type { ModelProvider, ProviderRequest } from './base.js';
+
+// Anthropic API Types
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  stop_reason?: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+/** stop_reason 映射为 OpenAI 风格的 finishReason */
+const STOP_REASONS: Record<string, 'stop' | 'length' | 'tool_calls'> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+};
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+
+  async complete(request: ProviderRequest): Promise<CompletionResult> {
+    const response = await postJSON(
+      'Anthropic',
+      this.resolveUrl(request),
+      this.buildBody(request, false),
+      this.buildHeaders(request),
+      request.signal
+    );
+
+    const data = await response.json() as AnthropicResponse;
+    const blocks = data.content || [];
+
+    const toolCalls: ToolCall[] = blocks
+      .filter((b): b is Extract<AnthropicContentBlock, { type: 'tool_use' }> => b.type === 'tool_use')
+      .map(b => ({
+        id: b.id,
+        type: 'function',
+        function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+      }));
+
+    const promptTokens = data.usage?.input_tokens || 0;
+    const completionTokens = data.usage?.output_tokens || 0;
+
+    return {
+      content: blocks
+        .filter((b): b is Extract<AnthropicContentBlock, { type: 'text' }> => b.type === 'text')
+        .map(b => b.text)
+        .join(''),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: STOP_REASONS[data.stop_reason || ''] || data.stop_reason || 'stop',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      latencyMs: 0,
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<StreamChunk> {
+    const response = await postJSON(
+      'Anthropic',
+      this.resolveUrl(request),
+      this.buildBody(request, true),
+      this.buildHeaders(request),
+      request.signal
+    );
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data: ')) continue;
+
+      let event: any;
+      try {
+        event = JSON.parse(line.slice(6));
+      } catch {
+        continue; // 忽略解析错误
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            yield {
+              toolCalls: [{
+                index: event.index,
+                id: event.content_block.id,
+                type: 'function',
+                function: { name: event.content_block.name, arguments: '' },
+              } as ToolCall],
+            };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            yield { content: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta') {
+            yield {
+              toolCalls: [{
+                index: event.index,
+                function: { arguments: event.delta.partial_json },
+              } as unknown as ToolCall],
+            };
+          }
+          break;
+
+        case 'message_delta':
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          yield {
+            finishReason: STOP_REASONS[event.delta?.stop_reason] || 'stop',
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            },
+          };
+          break;
+
+        case 'error':
+          throw new ModelEngineError(
+            `Anthropic stream error: ${event.error?.message || 'unknown'}`,
+            'API_ERROR'
+          );
+      }
+    }
+  }
+
+  private resolveUrl(request: ProviderRequest): string {
+    const baseUrl = (request.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    return `${baseUrl}/v1/messages`;
+  }
+
+  private buildHeaders(request: ProviderRequest): Record<string, string> {
+    const apiKey = request.config.apiKey;
+    if (!apiKey) {
+      throw new ModelEngineError('Anthropic API key is required', 'CONFIG_ERROR');
+    }
+    return {
+      'x-api-key': apiKey,
+      'anthropic-version': API_VERSION,
+    };
+  }
+
+  private buildBody(request: ProviderRequest, stream: boolean): Record<string, unknown> {
+    const { config, messages, tools } = request;
+
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: config.model,
+      messages: toAnthropicMessages(messages),
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      stream,
+    };
+
+    if (system) {
+      body.system = system;
+    }
+
+    if (tools && tools.length > 0) {
+      body.tools = tools.map(t => ({
+        name: t.function.name,
+        description: t.function.description,
+        input_schema: t.function.parameters,
+      }));
+    }
+
+    return body;
+  }
+}
+
+/**
+ * 转换消息格式：
+ * - system 消息提取到顶层 system 字段
+ * - assistant 的 tool_calls 转换为 tool_use 内容块
+ * - tool 消息合并为 user 消息中的 tool_result 内容块
+ */
+export function toAnthropicMessages(messages: Message[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block: AnthropicContentBlock = {
+        type: 'tool_result',
+        tool_use_id: message.tool_call_id || '',
+        content: message.content,
+      };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)
+        && last.content.every(b => b.type === 'tool_result')) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const blocks: AnthropicContentBlock[] = [];
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+      for (const call of message.tool_calls) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: safeParse(call.function.arguments),
+        });
+      }
+      result.push({ role: 'assistant', content: blocks });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return result;
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return value ? JSON.parse(value) : {};
+  } catch {
+    return {};
+  }
+}
+
+export default AnthropicProvider;
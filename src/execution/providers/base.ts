@@ -0,0 +1,129 @@
+/**
+ * 模型提供商接口 (Model Provider)
+ *
+ * ModelEngine 通过提供商注册表分派请求，新增后端只需实现此接口并注册
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import type {
+  ModelConfig,
+  Message,
+  ToolDefinition,
+  StreamChunk,
+  CompletionResult,
+  EmbeddingResult,
+} from '../model-engine.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export interface ProviderContext {
+  /** 当前引擎配置 (每次请求传入，支持运行时 updateConfig) */
+  config: ModelConfig;
+  /** 中断信号 */
+  signal?: AbortSignal;
+}
+
+export interface ProviderRequest extends ProviderContext {
+  messages: Message[];
+  tools?: ToolDefinition[];
+  /** 期望的响应格式，提供商不支持 JSON 模式时忽略 */
+  responseFormat?: 'text' | 'json';
+}
+
+export interface ModelProvider {
+  /** 提供商名称，对应 ModelConfig.provider */
+  readonly name: string;
+  /** 非流式完成 (latencyMs 由引擎计算) */
+  complete(request: ProviderRequest): Promise<CompletionResult>;
+  /** 流式完成 */
+  stream(request: ProviderRequest): AsyncGenerator<StreamChunk>;
+  /** 生成嵌入向量 (可选) */
+  embed?(text: string, context: ProviderContext): Promise<EmbeddingResult>;
+}
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class ModelEngineError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, code: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ModelEngineError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// ============================================================================
+// 共享工具函数
+// ============================================================================
+
+/**
+ * 发送 JSON POST 请求，非 2xx 响应转换为 ModelEngineError
+ */
+export async function postJSON(
+  label: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new ModelEngineError(
+      `${label} API error: ${response.status} - ${error}`,
+      'API_ERROR',
+      { status: response.status }
+    );
+  }
+
+  return response;
+}
+
+/**
+ * 按行读取响应体 (SSE / NDJSON)
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new ModelEngineError('Response body is null', 'STREAM_ERROR');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          yield line.trim();
+        }
+      }
+    }
+
+    if (buffer.trim()) {
+      yield buffer.trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * 内置模型提供商 (Built-in Model Providers)
+ *
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import type { ModelProvider } from './base.js';
+import { OpenAIProvider } from './openai.js';
+import { OllamaProvider } from './ollama.js';
+import { AnthropicProvider } from './anthropic.js';
+import { ScriptedProvider } from './scripted.js';
+
+/**
+ * 所有内置提供商
+ */
+export const builtInProviders: ModelProvider[] = [
+  new OpenAIProvider(),
+  // 任意 OpenAI 兼容服务 (llama.cpp server、vLLM 等)，需显式配置 baseUrl
+  new OpenAIProvider({
+    name: 'openai-compatible',
+    requireApiKey: false,
+    defaultBaseUrl: undefined,
+    streamUsage: false,
+    jsonMode: false,
+  }),
+  new OllamaProvider(),
+  new AnthropicProvider(),
+  // 无脚本时为纯回显
+  new ScriptedProvider(),
+];
+
+export * from './base.js';
+export { OpenAIProvider, OllamaProvider, AnthropicProvider, ScriptedProvider };
+export type { OpenAIProviderOptions } from './openai.js';
+export type { ScriptedResponse, ScriptedStep } from './scripted.js';
+
+export default builtInProviders;
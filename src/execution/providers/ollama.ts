@@ -0,0 +1,157 @@
+/**
+ * Ollama 提供商
+ */
+
+import type {
+  StreamChunk,
+  CompletionResult,
+  EmbeddingResult,
+  ToolCall,
+} from '../model-engine.js';
+import { postJSON, readLines } from './base.js';
+import type { ModelProvider, ProviderContext, ProviderRequest } from './base.js';
+
+// Ollama API Response Types
+interface OllamaCompletionResponse {
+  message?: {
+    content?: string;
+    tool_calls?: ToolCall[];
+  };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaEmbeddingResponse {
+  embedding?: number[];
+}
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+export class OllamaProvider implements ModelProvider {
+  readonly name = 'ollama';
+
+  async complete(request: ProviderRequest): Promise<CompletionResult> {
+    const response = await postJSON(
+      'Ollama',
+      `${request.config.baseUrl || DEFAULT_BASE_URL}/api/chat`,
+      this.buildBody(request, false),
+      {},
+      request.signal
+    );
+
+    const data = await response.json() as OllamaCompletionResponse;
+
+    return {
+      content: data.message?.content || '',
+      toolCalls: data.message?.tool_calls,
+      finishReason: data.done ? 'stop' : null,
+      usage: {
+        promptTokens: data.prompt_eval_count || 0,
+        completionTokens: data.eval_count || 0,
+        totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+      },
+      latencyMs: 0,
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<StreamChunk> {
+    const response = await postJSON(
+      'Ollama',
+      `${request.config.baseUrl || DEFAULT_BASE_URL}/api/chat`,
+      this.buildBody(request, true),
+      {},
+      request.signal
+    );
+
+    for await (const line of readLines(response)) {
+      try {
+        const parsed = JSON.parse(line);
+        const result: StreamChunk = {};
+
+        if (parsed.message?.content) {
+          result.content = parsed.message.content;
+        }
+
+        if (parsed.message?.tool_calls) {
+          result.toolCalls = parsed.message.tool_calls;
+        }
+
+        if (parsed.done) {
+          result.finishReason = 'stop';
+          result.usage = {
+            promptTokens: parsed.prompt_eval_count || 0,
+            completionTokens: parsed.eval_count || 0,
+            totalTokens: (parsed.prompt_eval_count || 0) + (parsed.eval_count || 0),
+          };
+        }
+
+        if (Object.keys(result).length > 0) {
+          yield result;
+        }
+      } catch (e) {
+        // 忽略解析错误
+      }
+    }
+  }
+
+  async embed(text: string, context: ProviderContext): Promise<EmbeddingResult> {
+    const { config } = context;
+
+    // 使用专门的嵌入模型
+    const embeddingModel = config.model.includes('embed')
+      ? config.model
+      : 'nomic-embed-text';
+
+    const response = await postJSON(
+      'Ollama',
+      `${config.baseUrl || DEFAULT_BASE_URL}/api/embeddings`,
+      { model: embeddingModel, prompt: text },
+      {},
+      context.signal
+    );
+
+    const data = await response.json() as OllamaEmbeddingResponse;
+
+    return {
+      embedding: data.embedding || [],
+      model: embeddingModel,
+      usage: {
+        promptTokens: 0, // Ollama 不提供 token 计数
+        totalTokens: 0,
+      },
+    };
+  }
+
+  private buildBody(request: ProviderRequest, stream: boolean): Record<string, unknown> {
+    const { config, messages, tools } = request;
+
+    const body: Record<string, unknown> = {
+      model: config.model,
+      messages: messages.map(m => ({
+        role: m.role,
+        content: m.content,
+      })),
+      stream,
+      options: {
+        temperature: config.temperature,
+        num_predict: config.maxTokens,
+      },
+    };
+
+    if (tools && tools.length > 0) {
+      body.tools = tools.map(t => ({
+        type: 'function',
+        function: t.function,
+      }));
+    }
+
+    if (request.responseFormat === 'json') {
+      body.format = 'json';
+    }
+
+    return body;
+  }
+}
+
+export default OllamaProvider;
@@ -0,0 +1,231 @@
+/**
+ * OpenAI 提供商
+ *
+ * 同时用于 OpenAI 官方 API 与任意 OpenAI 兼容服务 (llama.cpp server、vLLM 等)
+ */
+
+import type {
+  StreamChunk,
+  CompletionResult,
+  EmbeddingResult,
+  ToolCall,
+} from '../model-engine.js';
+import { ModelEngineError, postJSON, readLines } from './base.js';
+import type { ModelProvider, ProviderContext, ProviderRequest } from './base.js';
+
+// OpenAI API Response Types
+interface OpenAICompletionResponse {
+  choices: Array<{
+    message?: {
+      content?: string;
+      tool_calls?: ToolCall[];
+    };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: Array<{
+    embedding?: number[];
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+export interface OpenAIProviderOptions {
+  /** 注册名称 */
+  name?: string;
+  /** 是否强制要求 API Key (兼容服务通常不需要) */
+  requireApiKey?: boolean;
+  /** 未配置 baseUrl 时的默认地址，为空则要求显式配置 */
+  defaultBaseUrl?: string;
+  /** 流式请求是否附带 usage (stream_options，部分兼容服务不支持) */
+  streamUsage?: boolean;
+  /** 是否支持 response_format JSON 模式 */
+  jsonMode?: boolean;
+}
+
+export class OpenAIProvider implements ModelProvider {
+  readonly name: string;
+  private requireApiKey: boolean;
+  private defaultBaseUrl?: string;
+  private streamUsage: boolean;
+  private jsonMode: boolean;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.name = options.name ?? 'openai';
+    this.requireApiKey = options.requireApiKey ?? true;
+    this.defaultBaseUrl = 'defaultBaseUrl' in options
+      ? options.defaultBaseUrl
+      : 'https://api.openai.com/v1';
+    this.streamUsage = options.streamUsage ?? true;
+    this.jsonMode = options.jsonMode ?? true;
+  }
+
+  async complete(request: ProviderRequest): Promise<CompletionResult> {
+    const response = await postJSON(
+      'OpenAI',
+      `${this.resolveBaseUrl(request)}/chat/completions`,
+      this.buildBody(request, false),
+      this.buildHeaders(request),
+      request.signal
+    );
+
+    const data = await response.json() as OpenAICompletionResponse;
+    const choice = data.choices[0];
+
+    return {
+      content: choice.message?.content || '',
+      toolCalls: choice.message?.tool_calls,
+      finishReason: choice.finish_reason || 'stop',
+      usage: {
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+        totalTokens: data.usage?.total_tokens || 0,
+      },
+      latencyMs: 0, // 由外层计算
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<StreamChunk> {
+    const response = await postJSON(
+      'OpenAI',
+      `${this.resolveBaseUrl(request)}/chat/completions`,
+      this.buildBody(request, true),
+      this.buildHeaders(request),
+      request.signal
+    );
+
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data: ')) continue;
+
+      const data = line.slice(6);
+      if (data === '[DONE]') return;
+
+      try {
+        const parsed = JSON.parse(data);
+        const delta = parsed.choices?.[0]?.delta;
+        const finishReason = parsed.choices?.[0]?.finish_reason;
+
+        const chunk: StreamChunk = {};
+
+        if (delta?.content) {
+          chunk.content = delta.content;
+        }
+
+        if (delta?.tool_calls) {
+          chunk.toolCalls = delta.tool_calls;
+        }
+
+        if (finishReason) {
+          chunk.finishReason = finishReason;
+        }
+
+        if (parsed.usage) {
+          chunk.usage = {
+            promptTokens: parsed.usage.prompt_tokens || 0,
+            completionTokens: parsed.usage.completion_tokens || 0,
+            totalTokens: parsed.usage.total_tokens || 0,
+          };
+        }
+
+        if (Object.keys(chunk).length > 0) {
+          yield chunk;
+        }
+      } catch (e) {
+        // 忽略解析错误
+      }
+    }
+  }
+
+  async embed(text: string, context: ProviderContext): Promise<EmbeddingResult> {
+    const { config } = context;
+
+    // 使用专门的嵌入模型
+    const embeddingModel = config.model.includes('embed')
+      ? config.model
+      : 'text-embedding-3-small';
+
+    const response = await postJSON(
+      'OpenAI',
+      `${this.resolveBaseUrl(context)}/embeddings`,
+      { model: embeddingModel, input: text },
+      this.buildHeaders(context),
+      context.signal
+    );
+
+    const data = await response.json() as OpenAIEmbeddingResponse;
+
+    return {
+      embedding: data.data?.[0]?.embedding || [],
+      model: embeddingModel,
+      usage: {
+        promptTokens: data.usage?.prompt_tokens || 0,
+        totalTokens: data.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  private resolveBaseUrl(context: ProviderContext): string {
+    const baseUrl = context.config.baseUrl || this.defaultBaseUrl;
+    if (!baseUrl) {
+      throw new ModelEngineError(
+        `Provider "${this.name}" requires baseUrl`,
+        'CONFIG_ERROR'
+      );
+    }
+    return baseUrl.replace(/\/+$/, '');
+  }
+
+  private buildHeaders(context: ProviderContext): Record<string, string> {
+    const apiKey = context.config.apiKey;
+    if (!apiKey) {
+      if (this.requireApiKey) {
+        throw new ModelEngineError('OpenAI API key is required', 'CONFIG_ERROR');
+      }
+      return {};
+    }
+    return { 'Authorization': `Bearer ${apiKey}` };
+  }
+
+  private buildBody(request: ProviderRequest, stream: boolean): Record<string, unknown> {
+    const { config, messages, tools } = request;
+
+    const body: Record<string, unknown> = {
+      model: config.model,
+      messages: messages.map(m => ({
+        role: m.role,
+        content: m.content,
+        ...(m.tool_calls && { tool_calls: m.tool_calls }),
+        ...(m.tool_call_id && { tool_call_id: m.tool_call_id }),
+      })),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream,
+    };
+
+    if (stream && this.streamUsage) {
+      body.stream_options = { include_usage: true };
+    }
+
+    if (tools && tools.length > 0) {
+      body.tools = tools;
+      body.tool_choice = 'auto';
+    }
+
+    if (request.responseFormat === 'json' && this.jsonMode) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    return body;
+  }
+}
+
+export default OpenAIProvider;
@@ -0,0 +1,147 @@
+/**
+ * 脚本化提供商 (Echo / Scripted)
+ *
+ * 完全离线且确定性的提供商，用于测试：
+ * - 按顺序返回预设的响应 (可包含工具调用或抛出错误)
+ * - 脚本耗尽后回显最后一条用户消息
+ */
+
+import type {
+  Message,
+  StreamChunk,
+  CompletionResult,
+  EmbeddingResult,
+  ToolCall,
+} from '../model-engine.js';
+import type { ModelProvider, ProviderContext, ProviderRequest } from './base.js';
+
+/** 预设响应 (latencyMs/usage 可省略，自动估算) */
+export type ScriptedResponse = Partial<Omit<CompletionResult, 'latencyMs'>>;
+
+/** 脚本步骤：固定响应、错误或根据请求动态生成 */
+export type ScriptedStep =
+  | ScriptedResponse
+  | Error
+  | ((request: ProviderRequest) => ScriptedResponse | Promise<ScriptedResponse>);
+
+const EMBEDDING_DIMENSIONS = 16;
+const MAX_RECORDED_REQUESTS = 100;
+
+export class ScriptedProvider implements ModelProvider {
+  readonly name: string;
+  private script: ScriptedStep[];
+  private requests: ProviderRequest[] = [];
+
+  constructor(script: ScriptedStep[] = [], name = 'scripted') {
+    this.script = [...script];
+    this.name = name;
+  }
+
+  /**
+   * 追加脚本步骤
+   */
+  enqueue(...steps: ScriptedStep[]): void {
+    this.script.push(...steps);
+  }
+
+  /**
+   * 剩余脚本步骤数
+   */
+  remaining(): number {
+    return this.script.length;
+  }
+
+  /**
+   * 已收到的请求 (用于断言)
+   */
+  getRequests(): ProviderRequest[] {
+    return [...this.requests];
+  }
+
+  async complete(request: ProviderRequest): Promise<CompletionResult> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.shift();
+    }
+
+    const step = this.script.shift();
+    if (step instanceof Error) {
+      throw step;
+    }
+
+    const response = typeof step === 'function'
+      ? await step(request)
+      : step ?? { content: lastUserMessage(request.messages) };
+
+    const content = response.content ?? '';
+    const promptTokens = estimateTokens(request.messages.map(m => m.content).join(''));
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      toolCalls: response.toolCalls,
+      finishReason: response.finishReason
+        ?? (response.toolCalls?.length ? 'tool_calls' : 'stop'),
+      usage: response.usage ?? {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      latencyMs: 0,
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<StreamChunk> {
+    const result = await this.complete(request);
+
+    // 按词切分内容，模拟逐 token 输出
+    for (const piece of result.content.split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return;
+      if (piece) {
+        yield { content: piece };
+      }
+    }
+
+    if (result.toolCalls?.length) {
+      yield {
+        toolCalls: result.toolCalls.map((call, index) => ({ ...call, index }) as ToolCall),
+      };
+    }
+
+    yield {
+      finishReason: result.finishReason as StreamChunk['finishReason'],
+      usage: result.usage,
+    };
+  }
+
+  async embed(text: string, context: ProviderContext): Promise<EmbeddingResult> {
+    // 基于字符码的确定性向量
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (let i = 0; i < text.length; i++) {
+      vector[i % EMBEDDING_DIMENSIONS] += text.charCodeAt(i);
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    const tokens = estimateTokens(text);
+
+    return {
+      embedding: vector.map(v => v / norm),
+      model: context.config.model,
+      usage: { promptTokens: tokens, totalTokens: tokens },
+    };
+  }
+}
+
+function lastUserMessage(messages: Message[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      return messages[i].content;
+    }
+  }
+  return '';
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export default ScriptedProvider;
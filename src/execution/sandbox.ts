@@ -0,0 +1,591 @@
+/**
+ * Shell 沙箱 (Shell Sandbox)
+ *
+ * shell_exec / shell_spawn / shell_pipe 的受限执行层：
+ * - 工作目录 (cwd) 限制在 root 之内 (符号链接解析后判断)；这只约束命令从哪里启动，
+ *   命令参数中的路径 (如 cat /etc/passwd) 不做检查，root 不是文件系统隔离，
+ *   访问范围需要配合命令白名单与运行用户的权限来限制
+ * - 环境变量清洗：只继承白名单变量，屏蔽 LD_* 等加载器注入变量，调用方不能覆盖 PATH 等固定变量
+ * - 命令白名单/黑名单 (按管道、分号等拆分后的每个命令判断)
+ * - CPU / 内存 / 文件大小 / 进程数限制 (优先 prlimit，回退到 ulimit)
+ * - 可用时通过 unshare 隔离网络命名空间
+ * - 墙钟超时与输出大小上限
+ * 结果中的 limitsHit 报告触发了哪些限制
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 资源限制 */
+export interface SandboxLimits {
+  /** 墙钟超时 (毫秒)，同时是单次调用可请求的上限，默认 300000 */
+  timeoutMs?: number;
+  /** CPU 时间 (秒) */
+  cpuSeconds?: number;
+  /** 虚拟内存 (字节) */
+  memoryBytes?: number;
+  /** 单个文件最大写入 (字节) */
+  maxFileSizeBytes?: number;
+  /** 最大进程数 (root 用户下内核不强制) */
+  maxProcesses?: number;
+  /** stdout / stderr 各自的最大字节数，默认 1 MiB；超出时截断并终止进程 */
+  maxOutputBytes?: number;
+}
+
+/** 环境变量策略 */
+export interface SandboxEnvPolicy {
+  /** 从当前进程继承的变量，默认 DEFAULT_ENV_PASSTHROUGH */
+  passthrough?: string[];
+  /** 固定设置的变量 */
+  set?: Record<string, string>;
+}
+
+export interface ShellSandboxConfig {
+  /** 工作目录根，设置后 cwd 必须位于其中 (默认作为 cwd)；不限制命令参数中的路径 */
+  root?: string;
+  /** 命令白名单 (可执行文件名)，设置后只允许其中的命令 */
+  allowCommands?: string[];
+  /** 命令黑名单 (可执行文件名) */
+  denyCommands?: string[];
+  /** 拒绝匹配的完整命令，默认 DEFAULT_DENY_PATTERNS */
+  denyPatterns?: RegExp[];
+  env?: SandboxEnvPolicy;
+  limits?: SandboxLimits;
+  /** 网络隔离：true 时不可用即拒绝执行，'auto' 时可用才隔离，默认 false */
+  isolateNetwork?: boolean | 'auto';
+}
+
+/** 单次执行参数 */
+export interface SandboxRunOptions {
+  command: string;
+  /** 参数 (shell 模式下追加到命令后) */
+  args?: string[];
+  /** 以 /bin/sh -c 执行，默认 true */
+  shell?: boolean;
+  /** 工作目录 (相对路径基于 root) */
+  cwd?: string;
+  /** 额外的环境变量 (不能覆盖 PINNED_ENV_KEYS，屏蔽的注入变量被丢弃) */
+  env?: Record<string, string>;
+  /** 超时 (毫秒)，不超过 limits.timeoutMs */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export type SandboxLimit = 'timeout' | 'cpu' | 'memory' | 'file_size' | 'processes' | 'output';
+
+/** 执行结果 */
+export interface SandboxResult {
+  command: string;
+  cwd: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+  /** 触发的限制 */
+  limitsHit: SandboxLimit[];
+  truncated: { stdout: boolean; stderr: boolean };
+  /** 被取消信号终止 */
+  aborted: boolean;
+  networkIsolated: boolean;
+  /** 资源限制的施加方式 */
+  rlimits: 'prlimit' | 'ulimit' | 'none';
+}
+
+/** 运行环境支持的隔离能力 */
+export interface SandboxCapabilities {
+  prlimit: boolean;
+  /** unshare 网络隔离所需参数，不可用时为 null */
+  unshareArgs: string[] | null;
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 危险命令 */
+export const DEFAULT_DENY_PATTERNS: RegExp[] = [
+  /rm\s+-rf\s+\//,
+  />\s*\/dev\/null.*\bor\b.*rm/,
+  /:\(\)\{\s*:\|\:\&\s*\};/, // Fork bomb
+  /mkfs\./,
+  /dd\s+if=.*of=\/dev/,
+  /\bshutdown\b/,
+  /\breboot\b/,
+  /\binit\s+0\b/,
+  /chmod\s+-R\s+777\s+\//,
+  /\bcurl\b.*\|\s*\bsh\b/,
+  /\bwget\b.*\|\s*\bsh\b/,
+];
+
+/** 常用命令白名单 (可作为 allowCommands 使用) */
+export const DEFAULT_ALLOWED_COMMANDS = [
+  'ls', 'cat', 'echo', 'pwd', 'whoami', 'uname', 'date', 'which',
+  'head', 'tail', 'grep', 'find', 'wc', 'sort', 'uniq', 'diff',
+  'mkdir', 'touch', 'cp', 'mv', 'rm', 'rmdir',
+  'git', 'npm', 'yarn', 'node', 'python', 'python3',
+  'docker', 'docker-compose', 'kubectl',
+  'curl', 'wget', 'ping', 'traceroute', 'netstat', 'ss',
+  'ps', 'top', 'htop', 'free', 'df', 'du', 'uptime',
+  'tar', 'gzip', 'gunzip', 'zip', 'unzip',
+  'jq', 'awk', 'sed', 'cut', 'tr', 'xargs',
+  'ssh', 'scp', 'rsync',
+];
+
+/** 默认继承的环境变量 */
+export const DEFAULT_ENV_PASSTHROUGH = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TZ', 'TMPDIR',
+];
+
+/** 可改变命令行为的注入变量，任何来源都不传入 (另见 BLOCKED_ENV_PREFIXES) */
+const BLOCKED_ENV_KEYS = new Set([
+  'BASH_ENV', 'ENV', 'SHELLOPTS', 'BASHOPTS', 'PROMPT_COMMAND', 'PS4', 'IFS', 'CDPATH', 'GLOBIGNORE',
+  'NODE_OPTIONS', 'NODE_PATH', 'PYTHONSTARTUP', 'PYTHONPATH', 'PYTHONHOME', 'PERL5OPT', 'PERL5LIB',
+  'RUBYOPT', 'RUBYLIB', 'GCONV_PATH', 'HOSTALIASES', 'GIT_EXEC_PATH', 'GIT_SSH_COMMAND', 'GIT_CONFIG_GLOBAL',
+]);
+
+/** 动态加载器与导出的 shell 函数 */
+const BLOCKED_ENV_PREFIXES = ['LD_', 'DYLD_', 'BASH_FUNC_'];
+
+/** 只能由配置决定、调用方 (工具参数) 不能覆盖的变量 */
+const PINNED_ENV_KEYS = new Set(['PATH', 'HOME', 'SHELL', 'USER', 'LOGNAME', 'TMPDIR']);
+
+/** 拆分命令时跳过的 shell 关键字 */
+const SHELL_KEYWORDS = new Set([
+  'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'case', 'esac', '!', '{', '}',
+]);
+
+const DEFAULT_TIMEOUT_MS = 300000;
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+/** SIGTERM 后等待进程退出的时间 */
+const KILL_GRACE_MS = 2000;
+
+let capabilities: Promise<SandboxCapabilities> | null = null;
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class SandboxError extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'SandboxError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// 沙箱主类
+// ============================================================================
+
+export class ShellSandbox {
+  private config: ShellSandboxConfig;
+
+  constructor(config: ShellSandboxConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 获取配置
+   */
+  getConfig(): ShellSandboxConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 检查命令是否允许执行，不允许时抛出 SandboxError
+   */
+  checkCommand(command: string): void {
+    for (const pattern of this.config.denyPatterns ?? DEFAULT_DENY_PATTERNS) {
+      if (pattern.test(command)) {
+        throw new SandboxError(`Dangerous command detected: ${pattern}`, 'COMMAND_DENIED');
+      }
+    }
+
+    const deny = new Set(this.config.denyCommands ?? []);
+    const allow = this.config.allowCommands ? new Set(this.config.allowCommands) : null;
+    for (const name of extractCommands(command)) {
+      if (deny.has(name)) {
+        throw new SandboxError(`Command is denied: ${name}`, 'COMMAND_DENIED');
+      }
+      if (allow && !allow.has(name)) {
+        throw new SandboxError(`Command is not in the allow list: ${name}`, 'COMMAND_NOT_ALLOWED');
+      }
+    }
+  }
+
+  /**
+   * 解析工作目录，位于 root 之外时抛出 SandboxError
+   */
+  async resolveCwd(cwd?: string): Promise<string> {
+    const root = this.config.root;
+    const target = path.resolve(root ?? process.cwd(), cwd ?? '.');
+
+    let real: string;
+    try {
+      real = await fs.realpath(target);
+    } catch {
+      throw new SandboxError(`Working directory not found: ${target}`, 'CWD_NOT_FOUND');
+    }
+    if (!root) {
+      return real;
+    }
+
+    const realRoot = await fs.realpath(root);
+    if (real !== realRoot && !real.startsWith(realRoot + path.sep)) {
+      throw new SandboxError(`Working directory is outside the sandbox root: ${target}`, 'CWD_OUTSIDE_ROOT');
+    }
+    return real;
+  }
+
+  /**
+   * 构建清洗后的环境变量：继承白名单与配置的变量，再合并调用方提供的 extra
+   * (extra 不能覆盖 PINNED_ENV_KEYS)，最后丢弃所有注入变量
+   */
+  buildEnv(extra: Record<string, string> = {}): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const key of this.config.env?.passthrough ?? DEFAULT_ENV_PASSTHROUGH) {
+      if (process.env[key] !== undefined) {
+        env[key] = process.env[key]!;
+      }
+    }
+    Object.assign(env, this.config.env?.set);
+    for (const [key, value] of Object.entries(extra)) {
+      if (!PINNED_ENV_KEYS.has(key)) {
+        env[key] = value;
+      }
+    }
+
+    for (const key of Object.keys(env)) {
+      if (isBlockedEnvKey(key)) {
+        delete env[key];
+      }
+    }
+    return env;
+  }
+
+  /**
+   * 在沙箱中执行命令
+   */
+  async run(options: SandboxRunOptions): Promise<SandboxResult> {
+    const shell = options.shell !== false;
+    const display = [options.command, ...(options.args ?? [])].join(' ').trim();
+    this.checkCommand(shell ? display : options.command);
+
+    const cwd = await this.resolveCwd(options.cwd);
+    const env = { ...this.buildEnv(options.env), PWD: cwd };
+    const caps = await detectSandboxCapabilities();
+    const isolate = this.resolveNetworkIsolation(caps);
+    const { argv, rlimits } = this.buildArgv(options, shell, caps, isolate);
+
+    const limits = this.config.limits ?? {};
+    const maxTimeout = limits.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const timeoutMs = Math.min(options.timeoutMs ?? maxTimeout, maxTimeout);
+    const maxOutput = limits.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+    if (options.signal?.aborted) {
+      throw new SandboxError('Command aborted before start', 'ABORTED');
+    }
+
+    const startTime = Date.now();
+    const child = spawn(argv[0], argv.slice(1), {
+      cwd,
+      env,
+      // 独立进程组，超时时终止整个管道
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const limitsHit = new Set<SandboxLimit>();
+    const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+    const sizes = { stdout: 0, stderr: 0 };
+    const truncated = { stdout: false, stderr: false };
+    let killedBySandbox = false;
+    let aborted = false;
+    let graceTimer: NodeJS.Timeout | null = null;
+
+    const kill = (signal: NodeJS.Signals) => {
+      killedBySandbox = true;
+      killProcessGroup(child.pid, signal);
+      if (signal === 'SIGTERM' && !graceTimer) {
+        graceTimer = setTimeout(() => killProcessGroup(child.pid, 'SIGKILL'), KILL_GRACE_MS);
+      }
+    };
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const remaining = maxOutput - sizes[stream];
+      if (chunk.length <= remaining) {
+        output[stream].push(chunk);
+        sizes[stream] += chunk.length;
+        return;
+      }
+
+      if (remaining > 0) {
+        output[stream].push(chunk.subarray(0, remaining));
+        sizes[stream] = maxOutput;
+      }
+      if (!truncated[stream]) {
+        truncated[stream] = true;
+        limitsHit.add('output');
+        kill('SIGKILL');
+      }
+    };
+    child.stdout!.on('data', collect('stdout'));
+    child.stderr!.on('data', collect('stderr'));
+
+    const timer = setTimeout(() => {
+      limitsHit.add('timeout');
+      kill('SIGTERM');
+    }, timeoutMs);
+
+    const onAbort = () => {
+      aborted = true;
+      kill('SIGTERM');
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const { code, signal } = await new Promise<{ code: number | null; signal: NodeJS.Signals | null }>(
+      (resolve, reject) => {
+        child.once('error', error => reject(new SandboxError(
+          `Failed to start command: ${error.message}`,
+          'SPAWN_FAILED'
+        )));
+        child.once('close', (exitCode, exitSignal) => resolve({ code: exitCode, signal: exitSignal }));
+      }
+    ).finally(() => {
+      clearTimeout(timer);
+      if (graceTimer) clearTimeout(graceTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+    });
+
+    const stdout = Buffer.concat(output.stdout).toString('utf-8');
+    const stderr = Buffer.concat(output.stderr).toString('utf-8');
+    detectResourceLimits(limitsHit, limits, {
+      code,
+      signal,
+      stderr,
+      killedBySandbox,
+    });
+
+    return {
+      command: display,
+      cwd,
+      stdout,
+      stderr,
+      exitCode: code,
+      signal,
+      durationMs: Date.now() - startTime,
+      limitsHit: Array.from(limitsHit),
+      truncated,
+      aborted,
+      networkIsolated: isolate !== null,
+      rlimits,
+    };
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private resolveNetworkIsolation(caps: SandboxCapabilities): string[] | null {
+    const mode = this.config.isolateNetwork ?? false;
+    if (mode === false) {
+      return null;
+    }
+    if (!caps.unshareArgs && mode === true) {
+      throw new SandboxError(
+        'Network isolation requested but unshare is not available',
+        'ISOLATION_UNAVAILABLE'
+      );
+    }
+    return caps.unshareArgs;
+  }
+
+  private buildArgv(
+    options: SandboxRunOptions,
+    shell: boolean,
+    caps: SandboxCapabilities,
+    isolate: string[] | null
+  ): { argv: string[]; rlimits: SandboxResult['rlimits'] } {
+    const limits = this.config.limits ?? {};
+    const script = shell ? [options.command, ...(options.args ?? [])].join(' ') : null;
+    let argv = script !== null ? ['/bin/sh', '-c', script] : [options.command, ...(options.args ?? [])];
+    let rlimits: SandboxResult['rlimits'] = 'none';
+
+    const prlimitArgs = toPrlimitArgs(limits);
+    if (prlimitArgs.length > 0) {
+      if (caps.prlimit) {
+        argv = ['prlimit', ...prlimitArgs, '--', ...argv];
+        rlimits = 'prlimit';
+      } else {
+        const ulimits = toUlimitScript(limits);
+        argv = script !== null
+          ? ['/bin/sh', '-c', `${ulimits} ${script}`]
+          : ['/bin/sh', '-c', `${ulimits} exec "$@"`, 'sh', ...argv];
+        rlimits = 'ulimit';
+      }
+    }
+
+    if (isolate) {
+      argv = ['unshare', ...isolate, '--', ...argv];
+    }
+    return { argv, rlimits };
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+/** 是否为加载器、解释器或 shell 的注入变量 */
+function isBlockedEnvKey(key: string): boolean {
+  return BLOCKED_ENV_KEYS.has(key) || BLOCKED_ENV_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+/**
+ * 提取命令行中的可执行文件名 (按管道、分号、逻辑运算、命令替换拆分)
+ *
+ * 尽力而为的解析，用于白名单/黑名单判断；实际隔离依赖资源限制与命名空间
+ */
+export function extractCommands(command: string): string[] {
+  const names: string[] = [];
+  for (const segment of command.split(/\|\||&&|\$\(|[|;&\n()`]/)) {
+    const word = segment
+      .trim()
+      .split(/\s+/)
+      .find(w => w && !SHELL_KEYWORDS.has(w) && !/^[A-Za-z_]\w*=/.test(w));
+    if (word) {
+      names.push(path.basename(word.replace(/^['"]|['"]$/g, '')));
+    }
+  }
+  return names;
+}
+
+/**
+ * 检测 prlimit 与 unshare 是否可用 (结果缓存)
+ */
+export function detectSandboxCapabilities(): Promise<SandboxCapabilities> {
+  if (!capabilities) {
+    const unshareArgs = process.getuid?.() === 0 ? ['--net'] : ['--net', '--map-root-user'];
+    capabilities = Promise.all([
+      probe(['prlimit', '--version']),
+      process.platform === 'linux' ? probe(['unshare', ...unshareArgs, '--', 'true']) : Promise.resolve(false),
+    ]).then(([prlimit, unshare]) => ({
+      prlimit: prlimit && process.platform === 'linux',
+      unshareArgs: unshare ? unshareArgs : null,
+    }));
+  }
+  return capabilities;
+}
+
+function probe(argv: string[]): Promise<boolean> {
+  return new Promise(resolve => {
+    const child = spawn(argv[0], argv.slice(1), { stdio: 'ignore' });
+    const timer = setTimeout(() => child.kill('SIGKILL'), 5000);
+    child.once('error', () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    child.once('close', code => {
+      clearTimeout(timer);
+      resolve(code === 0);
+    });
+  });
+}
+
+function toPrlimitArgs(limits: SandboxLimits): string[] {
+  const args: string[] = [];
+  if (limits.cpuSeconds !== undefined) {
+    // 软限制发送 SIGXCPU，硬限制多留 1 秒后 SIGKILL
+    const cpu = Math.max(1, Math.ceil(limits.cpuSeconds));
+    args.push(`--cpu=${cpu}:${cpu + 1}`);
+  }
+  if (limits.memoryBytes !== undefined) {
+    args.push(`--as=${limits.memoryBytes}`);
+  }
+  if (limits.maxFileSizeBytes !== undefined) {
+    args.push(`--fsize=${limits.maxFileSizeBytes}`);
+  }
+  if (limits.maxProcesses !== undefined) {
+    args.push(`--nproc=${limits.maxProcesses}`);
+  }
+  return args;
+}
+
+/** 无 prlimit 时的 POSIX ulimit 回退 (不支持进程数限制) */
+function toUlimitScript(limits: SandboxLimits): string {
+  const parts: string[] = [];
+  if (limits.cpuSeconds !== undefined) {
+    parts.push(`ulimit -t ${Math.max(1, Math.ceil(limits.cpuSeconds))};`);
+  }
+  if (limits.memoryBytes !== undefined) {
+    parts.push(`ulimit -v ${Math.floor(limits.memoryBytes / 1024)};`);
+  }
+  if (limits.maxFileSizeBytes !== undefined) {
+    parts.push(`ulimit -f ${Math.floor(limits.maxFileSizeBytes / 512)};`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * 根据退出信号与错误输出判断触发的资源限制
+ */
+function detectResourceLimits(
+  hit: Set<SandboxLimit>,
+  limits: SandboxLimits,
+  exit: { code: number | null; signal: NodeJS.Signals | null; stderr: string; killedBySandbox: boolean }
+): void {
+  // shell 中被信号终止的子进程表现为 128 + 信号编号
+  const signal = exit.signal ?? signalFromExitCode(exit.code);
+
+  if (limits.cpuSeconds !== undefined
+    && (signal === 'SIGXCPU' || (signal === 'SIGKILL' && !exit.killedBySandbox))) {
+    hit.add('cpu');
+  }
+  if (limits.maxFileSizeBytes !== undefined
+    && (signal === 'SIGXFSZ' || /File too large/i.test(exit.stderr))) {
+    hit.add('file_size');
+  }
+  if (limits.memoryBytes !== undefined
+    && /cannot allocate memory|out of memory|MemoryError|bad_alloc|heap out of memory/i.test(exit.stderr)) {
+    hit.add('memory');
+  }
+  if (limits.maxProcesses !== undefined
+    && /fork.*(Resource temporarily unavailable|retry)/i.test(exit.stderr)) {
+    hit.add('processes');
+  }
+}
+
+function signalFromExitCode(code: number | null): NodeJS.Signals | null {
+  if (code === null || code <= 128) {
+    return null;
+  }
+  const entry = Object.entries(os.constants.signals).find(([, value]) => value === code - 128);
+  return entry ? (entry[0] as NodeJS.Signals) : null;
+}
+
+function killProcessGroup(pid: number | undefined, signal: NodeJS.Signals): void {
+  if (pid === undefined) {
+    return;
+  }
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // 进程组已退出
+  }
+}
+
+export function createShellSandbox(config?: ShellSandboxConfig): ShellSandbox {
+  return new ShellSandbox(config);
+}
+
+export default ShellSandbox;
@@ -0,0 +1,440 @@
+/**
+ * 会话存储 (Session Store)
+ *
+ * 将对话会话及其消息持久化到 SQLite (sessions / session_messages 表，见迁移 v5)：
+ * - 会话标题 (未设置时取首条用户消息)、归档、按用户列出
+ * - 消息历史按游标分页
+ * - 会话恢复时加载最近的对话轮次
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import type { SQLiteConnectionPool } from '../db/connection.js';
+import type { Message, ToolCall } from './model-engine.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type SessionStatus = 'active' | 'archived';
+
+/** 会话记录 */
+export interface SessionRecord {
+  id: string;
+  userId?: string;
+  agentId?: string;
+  title?: string;
+  status: SessionStatus;
+  context: Record<string, unknown>;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+}
+
+/** 创建会话参数 */
+export interface CreateSessionInput {
+  id?: string;
+  userId?: string;
+  agentId?: string;
+  title?: string;
+  context?: Record<string, unknown>;
+}
+
+/** 可更新的会话字段 */
+export interface SessionUpdate {
+  title?: string;
+  context?: Record<string, unknown>;
+}
+
+/** 会话列表查询 */
+export interface ListSessionsOptions {
+  /** 按所属用户过滤；null 表示仅列出无用户 (匿名) 的会话 */
+  userId?: string | null;
+  /** 默认仅列出 active；'all' 包含归档会话 */
+  status?: SessionStatus | 'all';
+  limit?: number;
+  offset?: number;
+}
+
+/** 持久化的消息 */
+export interface StoredMessage extends Message {
+  /** 自增编号，用作分页游标 */
+  id: number;
+  sessionId: string;
+  createdAt: string;
+}
+
+/** 消息分页查询 */
+export interface MessagePageOptions {
+  limit?: number;
+  /** 仅返回编号小于该值的消息 (向更早的历史翻页) */
+  before?: number;
+}
+
+/** 消息分页结果 (页内按时间正序) */
+export interface MessagePage {
+  messages: StoredMessage[];
+  hasMore: boolean;
+  /** 下一页 (更早消息) 的 before 游标 */
+  nextCursor?: number;
+}
+
+export interface SessionStoreConfig {
+  pool: SQLiteConnectionPool;
+  /** 自动标题的最大长度 */
+  maxTitleLength?: number;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string | null;
+  agent_id: string | null;
+  title: string | null;
+  status: SessionStatus;
+  context: string;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+  archived_at: string | null;
+}
+
+interface MessageRow {
+  id: number;
+  session_id: string;
+  role: Message['role'];
+  content: string;
+  tool_calls: string | null;
+  tool_call_id: string | null;
+  created_at: string;
+}
+
+const DEFAULT_MAX_TITLE_LENGTH = 80;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// ============================================================================
+// 错误类
+// ============================================================================
+
+export class SessionStoreError extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'SessionStoreError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// 会话存储主类
+// ============================================================================
+
+export class SessionStore extends EventEmitter {
+  private pool: SQLiteConnectionPool;
+  private maxTitleLength: number;
+
+  constructor(config: SessionStoreConfig) {
+    super();
+    this.pool = config.pool;
+    this.maxTitleLength = config.maxTitleLength ?? DEFAULT_MAX_TITLE_LENGTH;
+  }
+
+  // ============================================================================
+  // 会话
+  // ============================================================================
+
+  /**
+   * 创建会话
+   */
+  async createSession(input: CreateSessionInput = {}): Promise<SessionRecord> {
+    const now = new Date().toISOString();
+    const id = input.id ?? crypto.randomUUID();
+
+    if (await this.getSession(id)) {
+      throw new SessionStoreError(`Session already exists: ${id}`, 'SESSION_EXISTS');
+    }
+
+    await this.pool.run(
+      `INSERT INTO sessions (id, user_id, agent_id, title, status, context, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'active', ?, ?, ?)`,
+      [
+        id,
+        input.userId ?? null,
+        input.agentId ?? null,
+        input.title ?? null,
+        JSON.stringify(input.context ?? {}),
+        now,
+        now,
+      ]
+    );
+
+    const session = (await this.getSession(id))!;
+    this.emit('sessionCreated', session);
+    return session;
+  }
+
+  /**
+   * 获取会话，不存在时返回 null
+   */
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const row = await this.pool.get<SessionRow>('SELECT * FROM sessions WHERE id = ?', [id]);
+    return row ? rowToSession(row) : null;
+  }
+
+  /**
+   * 获取会话，不存在时创建 (用于首次对话)
+   */
+  async ensureSession(id: string, input: Omit<CreateSessionInput, 'id'> = {}): Promise<SessionRecord> {
+    return (await this.getSession(id)) ?? this.createSession({ ...input, id });
+  }
+
+  /**
+   * 列出会话 (按最近更新排序)
+   */
+  async listSessions(options: ListSessionsOptions = {}): Promise<{ sessions: SessionRecord[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.userId === null) {
+      conditions.push('user_id IS NULL');
+    } else if (options.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(options.userId);
+    }
+    const status = options.status ?? 'active';
+    if (status !== 'all') {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = clampPageSize(options.limit);
+    const offset = Math.max(0, options.offset ?? 0);
+
+    const count = await this.pool.get<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM sessions ${where}`,
+      params
+    );
+    const result = await this.pool.query<SessionRow>(
+      `SELECT * FROM sessions ${where} ORDER BY updated_at DESC, id LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return { sessions: result.rows.map(rowToSession), total: count?.total ?? 0 };
+  }
+
+  /**
+   * 更新标题或上下文
+   */
+  async updateSession(id: string, update: SessionUpdate): Promise<SessionRecord> {
+    const session = await this.requireSession(id);
+
+    await this.pool.run(
+      'UPDATE sessions SET title = ?, context = ?, updated_at = ? WHERE id = ?',
+      [
+        update.title ?? session.title ?? null,
+        JSON.stringify(update.context ?? session.context),
+        new Date().toISOString(),
+        id,
+      ]
+    );
+
+    return (await this.getSession(id))!;
+  }
+
+  /**
+   * 归档会话 (保留消息，默认不再出现在列表中，且不能继续追加消息)
+   */
+  async archiveSession(id: string): Promise<SessionRecord> {
+    await this.requireSession(id);
+    const now = new Date().toISOString();
+    await this.pool.run(
+      "UPDATE sessions SET status = 'archived', archived_at = ?, updated_at = ? WHERE id = ?",
+      [now, now, id]
+    );
+
+    const session = (await this.getSession(id))!;
+    this.emit('sessionArchived', session);
+    return session;
+  }
+
+  /**
+   * 取消归档
+   */
+  async restoreSession(id: string): Promise<SessionRecord> {
+    await this.requireSession(id);
+    await this.pool.run(
+      "UPDATE sessions SET status = 'active', archived_at = NULL, updated_at = ? WHERE id = ?",
+      [new Date().toISOString(), id]
+    );
+
+    return (await this.getSession(id))!;
+  }
+
+  /**
+   * 删除会话及其消息
+   */
+  async deleteSession(id: string): Promise<boolean> {
+    const result = await this.pool.run('DELETE FROM sessions WHERE id = ?', [id]);
+    if (result.changes > 0) {
+      this.emit('sessionDeleted', { id });
+      return true;
+    }
+    return false;
+  }
+
+  // ============================================================================
+  // 消息
+  // ============================================================================
+
+  /**
+   * 追加消息；会话不存在时自动创建，未设置标题时取首条用户消息
+   */
+  async appendMessages(sessionId: string, messages: Message[]): Promise<StoredMessage[]> {
+    const session = await this.ensureSession(sessionId);
+    if (session.status === 'archived') {
+      throw new SessionStoreError(`Session is archived: ${sessionId}`, 'SESSION_ARCHIVED');
+    }
+    if (messages.length === 0) {
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    const firstUser = messages.find(m => m.role === 'user' && m.content.trim());
+    const title = session.title
+      ?? (firstUser ? deriveTitle(firstUser.content, this.maxTitleLength) : null);
+
+    const ids = await this.pool.transaction(db => {
+      const insert = db.prepare(
+        `INSERT INTO session_messages (session_id, role, content, tool_calls, tool_call_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      const inserted = messages.map(message => Number(insert.run(
+        sessionId,
+        message.role,
+        message.content ?? '',
+        message.tool_calls ? JSON.stringify(message.tool_calls) : null,
+        message.tool_call_id ?? null,
+        now
+      ).lastInsertRowid));
+
+      db.prepare(
+        'UPDATE sessions SET message_count = message_count + ?, title = ?, updated_at = ? WHERE id = ?'
+      ).run(messages.length, title, now, sessionId);
+
+      return inserted;
+    });
+
+    const stored = messages.map((message, i) => ({ ...message, id: ids[i], sessionId, createdAt: now }));
+    this.emit('messagesAppended', { sessionId, count: stored.length });
+    return stored;
+  }
+
+  /**
+   * 分页读取消息历史 (从最新向更早翻页，页内按时间正序)
+   */
+  async getMessages(sessionId: string, options: MessagePageOptions = {}): Promise<MessagePage> {
+    const limit = clampPageSize(options.limit);
+    const params: unknown[] = [sessionId];
+    let where = 'session_id = ?';
+    if (options.before !== undefined) {
+      where += ' AND id < ?';
+      params.push(options.before);
+    }
+
+    const result = await this.pool.query<MessageRow>(
+      `SELECT * FROM session_messages WHERE ${where} ORDER BY id DESC LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const hasMore = result.rows.length > limit;
+    const messages = result.rows.slice(0, limit).reverse().map(rowToMessage);
+    return {
+      messages,
+      hasMore,
+      ...(hasMore && messages.length > 0 ? { nextCursor: messages[0].id } : {}),
+    };
+  }
+
+  /**
+   * 最近的消息 (用于恢复会话上下文)，不以孤立的工具结果开头
+   */
+  async getRecentMessages(sessionId: string, limit: number): Promise<Message[]> {
+    const { messages } = await this.getMessages(sessionId, { limit });
+    while (messages.length > 0 && messages[0].role === 'tool') {
+      messages.shift();
+    }
+    return messages.map(toMessage);
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  private async requireSession(id: string): Promise<SessionRecord> {
+    const session = await this.getSession(id);
+    if (!session) {
+      throw new SessionStoreError(`Session not found: ${id}`, 'SESSION_NOT_FOUND');
+    }
+    return session;
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+function rowToSession(row: SessionRow): SessionRecord {
+  return {
+    id: row.id,
+    ...(row.user_id !== null ? { userId: row.user_id } : {}),
+    ...(row.agent_id !== null ? { agentId: row.agent_id } : {}),
+    ...(row.title !== null ? { title: row.title } : {}),
+    status: row.status,
+    context: JSON.parse(row.context),
+    messageCount: row.message_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.archived_at !== null ? { archivedAt: row.archived_at } : {}),
+  };
+}
+
+function rowToMessage(row: MessageRow): StoredMessage {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    role: row.role,
+    content: row.content,
+    ...(row.tool_calls ? { tool_calls: JSON.parse(row.tool_calls) as ToolCall[] } : {}),
+    ...(row.tool_call_id ? { tool_call_id: row.tool_call_id } : {}),
+    createdAt: row.created_at,
+  };
+}
+
+/** 去掉存储字段，得到可直接发送给模型的消息 */
+function toMessage(stored: StoredMessage): Message {
+  const { id: _id, sessionId: _sessionId, createdAt: _createdAt, ...message } = stored;
+  return message;
+}
+
+function deriveTitle(content: string, maxLength: number): string {
+  const line = content.trim().split('\n')[0].trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+function clampPageSize(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) return DEFAULT_PAGE_SIZE;
+  return Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(limit)));
+}
+
+/**
+ * 创建会话存储
+ */
+export function createSessionStore(config: SessionStoreConfig): SessionStore {
+  return new SessionStore(config);
+}
+
+export default SessionStore;
@@ -0,0 +1,239 @@
+/**
+ * 结构化输出 (Structured Output)
+ *
+ * 让模型返回可被 zod 校验的 JSON：
+ * - 在提供商支持时启用 JSON 模式
+ * - 校验失败时携带错误信息重新提示，最多 N 次
+ * - 仍失败则抛出 ValidationError
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors.js';
+import type {
+  Message,
+  CompletionResult,
+  RequestOptions,
+} from './model-engine.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 可发起完成请求的模型 (ModelEngine / ModelRouter) */
+export interface StructuredCompletionModel {
+  complete(
+    messages: Message[],
+    tools?: undefined,
+    options?: RequestOptions
+  ): Promise<CompletionResult>;
+}
+
+/** 结构化请求选项 */
+export interface StructuredOptions extends RequestOptions {
+  /** 校验失败后的最大重新提示次数，默认 2 */
+  maxRetries?: number;
+  /** 附加在系统指令中的 JSON Schema，默认由 zod 模式推导 */
+  jsonSchema?: Record<string, unknown>;
+}
+
+/** 结构化结果 */
+export interface StructuredResult<T> {
+  data: T;
+  /** 总尝试次数 (含首次) */
+  attempts: number;
+  /** 所有尝试的累计用量 */
+  usage: CompletionResult['usage'];
+  /** 最后一次 (成功的) 完成结果 */
+  completion: CompletionResult;
+}
+
+/** 单个校验问题 */
+export interface StructuredIssue {
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const MAX_ECHOED_RESPONSE_LENGTH = 2000;
+
+// ============================================================================
+// 主流程
+// ============================================================================
+
+/**
+ * 请求结构化输出并用 zod 校验，失败时携带错误重新提示
+ */
+export async function completeStructured<T>(
+  model: StructuredCompletionModel,
+  messages: Message[],
+  schema: z.ZodType<T>,
+  options: StructuredOptions = {}
+): Promise<StructuredResult<T>> {
+  const { maxRetries = DEFAULT_MAX_RETRIES, jsonSchema, ...requestOptions } = options;
+  const conversation: Message[] = [
+    ...messages,
+    { role: 'system', content: buildInstruction(jsonSchema ?? describeSchema(schema)) },
+  ];
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let issues: StructuredIssue[] = [];
+  let lastContent = '';
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const completion = await model.complete([...conversation], undefined, {
+      ...requestOptions,
+      responseFormat: 'json',
+    });
+    usage.promptTokens += completion.usage.promptTokens;
+    usage.completionTokens += completion.usage.completionTokens;
+    usage.totalTokens += completion.usage.totalTokens;
+    lastContent = completion.content;
+
+    const outcome = parseStructured(completion.content, schema);
+    if ('data' in outcome) {
+      return { data: outcome.data, attempts: attempt, usage, completion };
+    }
+
+    issues = outcome.issues;
+    conversation.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: buildCorrection(issues) }
+    );
+  }
+
+  throw new ValidationError(
+    `Structured output failed validation after ${maxRetries + 1} attempts`,
+    issues,
+    {
+      metadata: {
+        attempts: maxRetries + 1,
+        lastResponse: lastContent.slice(0, MAX_ECHOED_RESPONSE_LENGTH),
+      },
+    }
+  );
+}
+
+/**
+ * 解析并校验模型输出
+ */
+export function parseStructured<T>(
+  content: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; issues: StructuredIssue[] } {
+  let value: unknown;
+  try {
+    value = extractJson(content);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [{ field: '$', message: `Response is not valid JSON: ${(error as Error).message}` }],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : '$',
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * 从模型输出中提取 JSON (容忍 Markdown 代码块与前后说明文字)
+ */
+export function extractJson(content: string): unknown {
+  const text = content.trim();
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1].trim() : text;
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    // 截取第一个完整的对象或数组
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+// ============================================================================
+// 提示词
+// ============================================================================
+
+function buildInstruction(jsonSchema: Record<string, unknown>): string {
+  return [
+    'Respond with a single JSON value only, with no surrounding prose or code fences.',
+    'The JSON must conform to this JSON Schema:',
+    JSON.stringify(jsonSchema),
+  ].join('\n');
+}
+
+function buildCorrection(issues: StructuredIssue[]): string {
+  const lines = issues.map(issue => `- ${issue.field}: ${issue.message}`);
+  return [
+    'Your previous response did not pass validation:',
+    ...lines,
+    'Reply again with only the corrected JSON.',
+  ].join('\n');
+}
+
+/**
+ * 将常用的 zod 模式转换为 JSON Schema (仅用于提示模型，不做校验)
+ */
+export function describeSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, field]) => !field.isOptional())
+      .map(([key]) => key);
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, field]) => [key, describeSchema(field)])
+      ),
+      ...(required.length > 0 ? { required } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: describeSchema(schema.element), ...description };
+  }
+  if (schema instanceof z.ZodString) return { type: 'string', ...description };
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number', ...description };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean', ...description };
+  if (schema instanceof z.ZodEnum) return { enum: schema.options, ...description };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value, ...description };
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(describeSchema), ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: describeSchema(schema.valueSchema), ...description };
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...describeSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...describeSchema(schema.removeDefault()), ...description };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...describeSchema(schema.innerType()), ...description };
+  }
+
+  return { ...description };
+}
+
+export default completeStructured;
@@ -0,0 +1,201 @@
+/**
+ * 工具结果缓存 (Tool Result Cache)
+ *
+ * 同一轮对话中重复调用的只读工具 (sys_info、http_get、data_hash、file_read、memory_query)
+ * 直接复用结果：
+ * - 只缓存标记 cacheable 的工具的成功结果
+ * - 键为工具名 + 调用者范围 + 规范化参数 (对象键排序、忽略 undefined)，
+ *   不同调用者 (来源、用户、流程) 的结果互不复用
+ * - 按条目 TTL 过期，超出容量时淘汰最久未使用的条目
+ * - 写类工具通过 invalidates 声明失效哪些缓存 (如 file_write 失效该路径的 file_read，
+ *   shell 命令失效全部缓存)
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export interface ToolCacheConfig {
+  /** 是否启用，默认 true */
+  enabled?: boolean;
+  /** 最大条目数，默认 500 */
+  maxEntries?: number;
+  /** 工具未声明 ttlMs 时的默认 TTL (毫秒)，默认 30000 */
+  defaultTtlMs?: number;
+}
+
+/** 缓存条目 */
+export interface CacheEntry {
+  tool: string;
+  /** 调用者范围，只对同一范围的调用命中 */
+  scope: string;
+  args: Record<string, unknown>;
+  data: unknown;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * 缓存失效声明
+ *
+ * 省略 args 与 match 时失效该工具的全部条目，同时省略 tool 时失效全部条目
+ */
+export interface CacheInvalidation {
+  /** 要失效的工具名 */
+  tool?: string;
+  /** 仅失效参数包含这些键值的条目 */
+  args?: Record<string, unknown>;
+  /** 自定义匹配 (缓存条目的参数与结果) */
+  match?: (args: Record<string, unknown>, data: unknown) => boolean;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 30000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// ============================================================================
+// 结果缓存
+// ============================================================================
+
+export class ToolResultCache extends EventEmitter {
+  private enabled: boolean;
+  private maxEntries: number;
+  private defaultTtlMs: number;
+  /** Map 保持插入顺序，命中时重新插入以实现 LRU */
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(config: ToolCacheConfig = {}) {
+    super();
+    this.enabled = config.enabled ?? true;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.defaultTtlMs = config.defaultTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * 查找同一调用者范围内未过期的条目
+   */
+  get(tool: string, args: Record<string, unknown>, scope = ''): CacheEntry | undefined {
+    if (!this.enabled) return undefined;
+
+    const key = cacheKey(tool, args, scope);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * 写入条目，ttlMs 省略时使用默认 TTL
+   */
+  set(tool: string, args: Record<string, unknown>, data: unknown, ttlMs?: number, scope = ''): void {
+    if (!this.enabled) return;
+
+    const ttl = ttlMs ?? this.defaultTtlMs;
+    if (ttl <= 0) return;
+
+    const key = cacheKey(tool, args, scope);
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { tool, scope, args, data, cachedAt: now, expiresAt: now + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.emit('evicted', { key: oldest });
+    }
+  }
+
+  /**
+   * 按失效声明删除条目，返回删除数量
+   */
+  invalidate(invalidation: CacheInvalidation): number {
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (invalidation.tool !== undefined && entry.tool !== invalidation.tool) continue;
+      if (invalidation.args && !Object.entries(invalidation.args).every(
+        ([name, value]) => canonicalize(entry.args[name]) === canonicalize(value)
+      )) continue;
+      if (invalidation.match && !invalidation.match(entry.args, entry.data)) continue;
+
+      this.entries.delete(key);
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.emit('invalidated', { ...invalidation, removed });
+    }
+    return removed;
+  }
+
+  /**
+   * 清空缓存 (指定工具时只清空该工具的条目)
+   */
+  clear(tool?: string): void {
+    if (tool) {
+      this.invalidate({ tool });
+    } else {
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * 当前条目数 (包括尚未清理的过期条目)
+   */
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+/**
+ * 规范化 JSON：对象键排序、忽略 undefined，用作缓存键
+ */
+export function canonicalize(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`).join(',')}}`;
+}
+
+/**
+ * 失效全部缓存，用于可能改动任意状态的工具 (如 shell 命令)
+ */
+export function invalidateAll(): CacheInvalidation[] {
+  return [{}];
+}
+
+function cacheKey(tool: string, args: Record<string, unknown>, scope: string): string {
+  return `${tool}:${scope}:${canonicalize(args)}`;
+}
+
+/**
+ * 创建工具结果缓存
+ */
+export function createToolResultCache(config?: ToolCacheConfig): ToolResultCache {
+  return new ToolResultCache(config);
+}
+
+export default ToolResultCache;
@@ -6,25 +6,34 @@
  */
 
 import { EventEmitter } from 'events';
+import { renderConfirmation } from './confirmation-broker.js';
+import type { ConfirmationBroker } from './confirmation-broker.js';
+import type { AccessControl } from './access-control.js';
+import { createPipelineTool } from './pipeline.js';
+import { validateSchema, formatSchemaErrors } from './json-schema.js';
+import type { JsonSchema, SchemaValidationError } from './json-schema.js';
+import { ToolResultCache, canonicalize } from './tool-cache.js';
+import type { CacheInvalidation } from './tool-cache.js';
+import type { PipelineDefinition } from './pipeline.js';
 
 export type Tool = ToolDefinition;
 export type ExecutionContext = ToolContext;
 
-export interface ParameterSchema {
+/**
+ * 参数 Schema：顶层为 object 的 JSON Schema，其余关键字见 json-schema.ts
+ */
+export interface ParameterSchema extends JsonSchema {
   type: 'object';
-  properties: Record<string, ParameterProperty>;
+  properties: Record<string, ParameterProperty | JsonSchema>;
   required?: string[];
 }
 
-export interface ParameterProperty {
-  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+export interface ParameterProperty extends JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
   description: string;
   enum?: (string | number)[];
-  items?: {
-    type: string;
-    description?: string;
-  };
-  properties?: Record<string, ParameterProperty>;
+  items?: JsonSchema;
+  properties?: Record<string, ParameterProperty | JsonSchema>;
 }
 
 /** 数组参数格式（用于简单工具定义） */
@@ -73,10 +82,12 @@ export interface ToolResult {
 export interface ToolExecutionOptions {
   /** 超时时间(ms) */
   timeoutMs?: number;
-  /** 是否重试 */
+  /** 是否重试 (仅对 idempotent 工具生效) */
   retry?: boolean;
-  /** 重试次数 */
+  /** 重试次数，默认 2 */
   maxRetries?: number;
+  /** 跳过缓存读取 (成功结果仍会写入缓存) */
+  bypassCache?: boolean;
   /** 上下文 */
   context?: Partial<ToolContext>;
 }
@@ -103,10 +114,20 @@ export interface ToolDefinition {
   tags?: string[];
   /** 是否启用 */
   enabled?: boolean;
-  /** 是否需要确认 */
-  requireConfirmation?: boolean;
-  /** 确认提示模板 */
+  /** 是否需要确认 (函数形式按参数判断，例如仅对写操作确认) */
+  requireConfirmation?: boolean | ((args: Record<string, unknown>) => boolean);
+  /** 确认提示模板，{{参数名}} 替换为参数值 */
   confirmationTemplate?: string;
+  /** 默认执行超时(ms)，调用时的 timeoutMs 优先 */
+  timeoutMs?: number;
+  /** 相同参数的成功结果可在 ttlMs 内复用 */
+  cacheable?: boolean;
+  /** 缓存有效期(ms)，默认使用缓存的 defaultTtlMs */
+  ttlMs?: number;
+  /** 重复调用不产生额外副作用，可安全重试 */
+  idempotent?: boolean;
+  /** 执行成功后失效的缓存 (例如 file_write 失效该路径的 file_read) */
+  invalidates?: (args: Record<string, unknown>, result: unknown) => CacheInvalidation[];
   /** 权限级别 */
   permissionLevel?: 'public' | 'user' | 'admin' | 'system';
   /** 创建时间 */
@@ -154,6 +175,8 @@ export interface ToolStats {
   successCalls: number;
   /** 失败次数 */
   failedCalls: number;
+  /** 缓存命中次数 (计入 totalCalls 与 successCalls，不计入平均耗时) */
+  cacheHits: number;
   /** 平均执行时间(ms) */
   avgDurationMs: number;
   /** 最后调用时间 */
@@ -171,6 +194,9 @@ export class ToolRegistry extends EventEmitter {
   private categories: Map<string, ToolCategory> = new Map();
   private stats: Map<string, ToolStats> = new Map();
   private defaultTimeoutMs = 30000;
+  private confirmationBroker: ConfirmationBroker | null = null;
+  private accessControl: AccessControl | null = null;
+  private cache: ToolResultCache | null = new ToolResultCache();
 
   constructor() {
     super();
@@ -184,6 +210,7 @@ export class ToolRegistry extends EventEmitter {
     const defaults: ToolCategory[] = [
       { id: 'system', name: '系统工具', description: '系统级操作工具', weight: 0 },
       { id: 'file', name: '文件工具', description: '文件读写操作', weight: 10 },
+      { id: 'vcs', name: '版本控制', description: 'Git 仓库查看与提交', weight: 15 },
       { id: 'network', name: '网络工具', description: '网络请求和通信', weight: 20 },
       { id: 'data', name: '数据处理', description: '数据处理和分析', weight: 30 },
       { id: 'utility', name: '实用工具', description: '通用实用工具', weight: 40 },
@@ -255,6 +282,15 @@ export class ToolRegistry extends EventEmitter {
     this.emit('toolRegistered', { name, tool: fullTool });
   }
 
+  /**
+   * 将声明式流水线注册为工具 (定义对象或 JSON / YAML 文本)
+   */
+  registerPipeline(pipeline: PipelineDefinition | string): ToolDefinition {
+    const tool = createPipelineTool(this, pipeline);
+    this.register(tool);
+    return this.tools.get(tool.name)!;
+  }
+
   /**
    * 批量注册工具
    */
@@ -273,6 +309,7 @@ export class ToolRegistry extends EventEmitter {
 
     this.tools.delete(name);
     this.stats.delete(name);
+    this.cache?.clear(name);
 
     this.emit('toolUnregistered', { name, tool });
     return true;
@@ -293,6 +330,7 @@ export class ToolRegistry extends EventEmitter {
     };
 
     this.tools.set(name, updated);
+    this.cache?.clear(name);
     this.emit('toolUpdated', { name, previous: tool, current: updated });
 
     return true;
@@ -392,8 +430,78 @@ export class ToolRegistry extends EventEmitter {
   // 工具执行
   // ============================================================================
 
+  /**
+   * 设置确认代理：需要确认的工具在执行前挂起等待批准
+   *
+   * 未设置时仅触发 confirmationRequired 事件并直接执行
+   */
+  setConfirmationBroker(broker: ConfirmationBroker | null): void {
+    this.confirmationBroker = broker;
+  }
+
+  /**
+   * 获取确认代理
+   */
+  getConfirmationBroker(): ConfirmationBroker | null {
+    return this.confirmationBroker;
+  }
+
+  /**
+   * 设置访问控制：执行前按调用者的角色检查工具权限级别
+   *
+   * 未设置时不做鉴权
+   */
+  setAccessControl(accessControl: AccessControl | null): void {
+    this.accessControl = accessControl;
+  }
+
+  /**
+   * 获取访问控制
+   */
+  getAccessControl(): AccessControl | null {
+    return this.accessControl;
+  }
+
+  /**
+   * 设置工具结果缓存 (null 表示禁用缓存)
+   */
+  setCache(cache: ToolResultCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * 获取工具结果缓存
+   */
+  getCache(): ToolResultCache | null {
+    return this.cache;
+  }
+
+  /**
+   * 手动失效缓存 (省略参数时清空全部缓存)
+   */
+  invalidateCache(invalidation?: CacheInvalidation): number {
+    if (!this.cache) return 0;
+    if (!invalidation) {
+      const size = this.cache.size();
+      this.cache.clear();
+      return size;
+    }
+    return this.cache.invalidate(invalidation);
+  }
+
+  /**
+   * 检查本次调用是否需要确认
+   */
+  requiresConfirmation(tool: ToolDefinition, args: Record<string, unknown> = {}): boolean {
+    return typeof tool.requireConfirmation === 'function'
+      ? tool.requireConfirmation(args)
+      : tool.requireConfirmation === true;
+  }
+
   /**
    * 执行工具
+   *
+   * 设置访问控制时，调用者权限不足会抛出 SecurityError
    */
   async execute(
     name: string,
@@ -413,9 +521,10 @@ export class ToolRegistry extends EventEmitter {
     // 参数验证
     const validation = this.validateArgs(args, tool.parameters);
     if (!validation.valid) {
-      return this.createErrorResult(
-        `Parameter validation failed: ${validation.error}`
-      );
+      return {
+        ...this.createErrorResult(`Parameter validation failed: ${validation.error}`),
+        metadata: { validationErrors: validation.errors },
+      };
     }
 
     // 构建上下文
@@ -426,28 +535,57 @@ export class ToolRegistry extends EventEmitter {
       ...options.context,
     };
 
-    // 检查是否需要确认
-    if (tool.requireConfirmation) {
-      this.emit('confirmationRequired', { tool, args, context });
+    // 鉴权：拒绝时抛出 SecurityError (已写入审计日志)
+    if (this.accessControl) {
+      try {
+        await this.accessControl.enforce(tool, context);
+      } catch (error) {
+        this.emit('toolDenied', { name, args, context, error });
+        throw error;
+      }
     }
 
-    // 执行
-    const startTime = Date.now();
-    const timeoutMs = options.timeoutMs || this.defaultTimeoutMs;
+    // 检查是否需要确认
+    if (this.requiresConfirmation(tool, args)) {
+      this.emit('confirmationRequired', { tool, args, context });
 
-    try {
-      const result = await this.runWithTimeout(
-        () => tool.execute(args, context),
-        timeoutMs
-      );
+      if (this.confirmationBroker) {
+        const resolution = await this.confirmationBroker.request({
+          toolName: name,
+          args,
+          message: renderConfirmation(tool.confirmationTemplate, tool.displayName || name, args),
+          callId: context.callId,
+          sessionId: context.sessionId,
+          userId: context.userId,
+          source: context.source,
+        }, context.cancelSignal);
+
+        if (resolution.decision !== 'approved') {
+          const toolResult: ToolResult = {
+            ...this.createErrorResult(
+              `Tool "${name}" was not confirmed (${resolution.decision}${resolution.reason ? `: ${resolution.reason}` : ''})`
+            ),
+            metadata: { confirmation: resolution },
+          };
+          this.emit('toolRejected', { name, args, context, resolution });
+          return toolResult;
+        }
+      }
+    }
 
-      const durationMs = Date.now() - startTime;
-      this.updateStats(name, true, durationMs);
+    // 缓存命中时直接返回 (鉴权与确认仍按每次调用执行)
+    // 缓存按调用者范围隔离，工具内部的检查 (如路径策略) 只对同一范围复用
+    const cache = tool.cacheable && this.cache?.isEnabled() ? this.cache : null;
+    const scope = cache ? this.cacheScope(context) : '';
+    const cached = cache && !options.bypassCache ? cache.get(name, args, scope) : undefined;
+    if (cached) {
+      this.recordCacheHit(name);
 
       const toolResult: ToolResult = {
         success: true,
-        data: result,
-        durationMs,
+        data: cached.data,
+        durationMs: 0,
+        metadata: { cached: true, cachedAt: new Date(cached.cachedAt) },
       };
 
       this.emit('toolExecuted', {
@@ -458,13 +596,48 @@ export class ToolRegistry extends EventEmitter {
       });
 
       return toolResult;
+    }
+
+    // 执行 (幂等工具可按 options.retry 重试)
+    const startTime = Date.now();
+    const timeoutMs = options.timeoutMs || tool.timeoutMs || this.defaultTimeoutMs;
+    const maxAttempts = options.retry && tool.idempotent ? (options.maxRetries ?? 2) + 1 : 1;
+
+    let toolResult: ToolResult;
+    try {
+      let result: unknown;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          result = await this.runWithTimeout(
+            () => tool.execute(args, context),
+            timeoutMs
+          );
+          break;
+        } catch (error) {
+          if (attempt >= maxAttempts || context.cancelSignal?.aborted) {
+            throw error;
+          }
+          this.emit('toolRetry', { name, args, context, attempt, error });
+        }
+      }
+
+      const durationMs = Date.now() - startTime;
+      this.updateStats(name, true, durationMs);
+
+      cache?.set(name, args, result, tool.ttlMs, scope);
+
+      toolResult = {
+        success: true,
+        data: result,
+        durationMs,
+      };
     } catch (error) {
       const durationMs = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       this.updateStats(name, false, durationMs, errorMessage);
 
-      const toolResult: ToolResult = {
+      const failed: ToolResult = {
         success: false,
         error: errorMessage,
         durationMs,
@@ -474,11 +647,27 @@ export class ToolRegistry extends EventEmitter {
         name,
         args,
         context,
-        error: toolResult,
+        error: failed,
       });
 
-      return toolResult;
+      return failed;
+    }
+
+    // 工具已成功执行，失效钩子的错误不改变其结果，单独上报
+    const invalidationError = this.applyInvalidations(tool, args, toolResult.data);
+    if (invalidationError) {
+      toolResult.metadata = { invalidationError };
+      this.emit('invalidationFailed', { name, args, context, error: invalidationError });
     }
+
+    this.emit('toolExecuted', {
+      name,
+      args,
+      context,
+      result: toolResult,
+    });
+
+    return toolResult;
   }
 
   /**
@@ -514,6 +703,8 @@ export class ToolRegistry extends EventEmitter {
 
   /**
    * 串行执行工具 (前一个结果作为后一个输入)
+   *
+   * 需要条件、重试或并行时使用声明式流水线 (registerPipeline)
    */
   async executeChain(
     chain: Array<{
@@ -663,11 +854,11 @@ export class ToolRegistry extends EventEmitter {
    */
   toJSONSchema(tool: ToolDefinition): Record<string, unknown> {
     return {
-      $schema: 'http://json-schema.org/draft-07/schema#',
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
       title: tool.displayName || tool.name,
       description: tool.description,
+      ...tool.parameters,
       type: 'object',
-      properties: tool.parameters.properties,
       required: tool.parameters.required || [],
     };
   }
@@ -681,10 +872,46 @@ export class ToolRegistry extends EventEmitter {
       totalCalls: 0,
       successCalls: 0,
       failedCalls: 0,
+      cacheHits: 0,
       avgDurationMs: 0,
     });
   }
 
+  /**
+   * 缓存的调用者范围：来源、用户或流程不同的调用互不复用结果，
+   * 例如硬自指流程读取的自身源码不会返回给普通调用者
+   */
+  private cacheScope(context: ToolContext): string {
+    return canonicalize({ source: context.source, userId: context.userId, flow: context.metadata?.flow });
+  }
+
+  /**
+   * 执行工具声明的缓存失效；钩子抛出时无法确定受影响的条目，清空整个缓存并返回错误信息
+   */
+  private applyInvalidations(tool: ToolDefinition, args: Record<string, unknown>, result: unknown): string | null {
+    if (!tool.invalidates || !this.cache) return null;
+
+    try {
+      for (const invalidation of tool.invalidates(args, result)) {
+        this.cache.invalidate(invalidation);
+      }
+      return null;
+    } catch (error) {
+      this.cache.clear();
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private recordCacheHit(name: string): void {
+    const stats = this.stats.get(name);
+    if (!stats) return;
+
+    stats.totalCalls++;
+    stats.successCalls++;
+    stats.cacheHits++;
+    stats.lastCalledAt = new Date();
+  }
+
   private updateStats(
     name: string,
     success: boolean,
@@ -702,42 +929,43 @@ export class ToolRegistry extends EventEmitter {
       stats.lastError = lastError;
     }
 
-    // 更新平均耗时
+    // 更新平均耗时 (仅统计实际执行的调用)
+    const executedCalls = stats.totalCalls - stats.cacheHits;
     stats.avgDurationMs =
-      (stats.avgDurationMs * (stats.totalCalls - 1) + durationMs) /
-      stats.totalCalls;
+      (stats.avgDurationMs * (executedCalls - 1) + durationMs) /
+      executedCalls;
 
     stats.lastCalledAt = new Date();
   }
 
+  /**
+   * 按 JSON Schema 校验参数 (内置、MCP 与动态注册的工具共用同一校验器)
+   */
   private validateArgs(
     args: Record<string, unknown>,
     schema: ParameterSchema
-  ): { valid: boolean; error?: string } {
-    const required = schema.required || [];
-
-    for (const key of required) {
-      if (!(key in args)) {
-        return { valid: false, error: `Missing required parameter: ${key}` };
-      }
+  ): { valid: boolean; error?: string; errors?: SchemaValidationError[] } {
+    const result = validateSchema(schema, args);
+    if (result.valid) {
+      return { valid: true };
     }
-
-    return { valid: true };
+    return { valid: false, error: formatSchemaErrors(result.errors), errors: result.errors };
   }
 
   private async runWithTimeout<T>(
     fn: () => Promise<T>,
     timeoutMs: number
   ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
     return Promise.race([
       fn(),
       new Promise<never>((_, reject) => {
-        setTimeout(
+        timer = setTimeout(
           () => reject(new Error(`Tool execution timeout after ${timeoutMs}ms`)),
           timeoutMs
         );
       }),
-    ]);
+    ]).finally(() => clearTimeout(timer));
   }
 
   private generateCallId(): string {
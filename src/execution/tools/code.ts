@@ -0,0 +1,75 @@
+/**
+ * 代码工具 (Code Tools)
+ *
+ * 在隔离环境中执行 JavaScript 进行通用计算
+ */
+
+import type { ToolContext, ToolDefinition } from '../tool-registry.js';
+import { CodeRunner } from '../code-runner.js';
+
+/**
+ * 创建代码工具集，code_eval 在独立 worker 的 vm 上下文中执行
+ */
+export function createCodeTools(runner: CodeRunner = new CodeRunner()): ToolDefinition[] {
+  return [
+    // ============================================================================
+    // 执行 JavaScript
+    // ============================================================================
+    {
+      name: 'code_eval',
+      displayName: 'Evaluate JavaScript',
+      description: '在隔离环境中执行 JavaScript 代码并返回结果。没有 require、文件与网络访问；' +
+        '最后一个表达式的值 (或 return 的值) 作为结果，可使用 await，数据通过全局变量 input 传入，console 输出会被捕获',
+      category: 'data',
+      tags: ['code', 'javascript', 'eval', 'compute'],
+      permissionLevel: 'user',
+      requireConfirmation: true,
+      confirmationTemplate: '执行 JavaScript 代码:\n{{code}}',
+      parameters: {
+        type: 'object',
+        properties: {
+          code: {
+            type: 'string',
+            description: '要执行的 JavaScript 代码',
+            minLength: 1,
+          },
+          input: {
+            description: '传给代码的数据 (全局变量 input)',
+          },
+          timeout: {
+            type: 'number',
+            description: '超时时间(秒)，默认10秒',
+            exclusiveMinimum: 0,
+          },
+        },
+        required: ['code'],
+      },
+      execute: async (args: {
+        code: string;
+        input?: unknown;
+        timeout?: number;
+      }, context?: ToolContext) => {
+        const result = await runner.run({
+          code: args.code,
+          input: args.input,
+          timeoutMs: args.timeout !== undefined ? args.timeout * 1000 : undefined,
+          signal: context?.cancelSignal,
+        });
+
+        // 触发限制时返回结果以报告触发了哪些限制，代码抛出的异常作为工具失败
+        if (result.success || result.limitsHit.length > 0) {
+          return result;
+        }
+        const error = new Error(`${result.error?.name ?? 'Error'}: ${result.error?.message ?? 'Code execution failed'}`);
+        if (result.error?.stack) {
+          error.stack = result.error.stack;
+        }
+        throw error;
+      },
+    },
+  ];
+}
+
+export const codeTools: ToolDefinition[] = createCodeTools();
+
+export default codeTools;
@@ -282,6 +282,9 @@ export const dataTools: ToolDefinition[] = [
     category: 'data',
     tags: ['data', 'hash', 'crypto'],
     permissionLevel: 'public',
+    cacheable: true,
+    idempotent: true,
+    ttlMs: 60 * 60 * 1000,
     parameters: {
       type: 'object',
       properties: {
@@ -0,0 +1,324 @@
+/**
+ * Git 工具 (Git Tools)
+ *
+ * 仓库状态、历史查看，以及把修改提交到独立分支以供审查
+ */
+
+import type { ToolDefinition, ToolContext } from '../tool-registry.js';
+import { GitClient } from '../git-client.js';
+import type { GitFileChange } from '../git-client.js';
+import { isSelfModificationContext } from '../path-policy.js';
+import type { PathCheckOptions } from '../path-policy.js';
+import { invalidateAll } from '../tool-cache.js';
+
+const repoParameter = {
+  type: 'string' as const,
+  description: '仓库路径 (仓库内任意目录)，默认当前目录',
+};
+
+/**
+ * 创建 Git 工具集，所有路径经路径策略检查
+ */
+export function createGitTools(client: GitClient = new GitClient()): ToolDefinition[] {
+  return [
+    // ============================================================================
+    // 仓库状态
+    // ============================================================================
+    {
+      name: 'git_status',
+      displayName: 'Git Status',
+      description: '查看 Git 仓库的当前分支、上游差距与已修改/未跟踪的文件',
+      category: 'vcs',
+      tags: ['git', 'status', 'vcs'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+        },
+      },
+      execute: async (args: { repo?: string }, context?: ToolContext) => {
+        return client.status(args.repo, scopeOf(context));
+      },
+    },
+
+    // ============================================================================
+    // 差异
+    // ============================================================================
+    {
+      name: 'git_diff',
+      displayName: 'Git Diff',
+      description: '查看差异：默认工作区与暂存区，staged 为暂存区与 HEAD，指定 base/target 时比较两个提交',
+      category: 'vcs',
+      tags: ['git', 'diff', 'vcs'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+          paths: {
+            type: 'array',
+            description: '限定的文件或目录',
+            items: { type: 'string' },
+          },
+          staged: {
+            type: 'boolean',
+            description: '比较暂存区与 HEAD',
+          },
+          base: {
+            type: 'string',
+            description: '起始提交/分支',
+          },
+          target: {
+            type: 'string',
+            description: '目标提交/分支 (需要 base)',
+          },
+          contextLines: {
+            type: 'integer',
+            description: '上下文行数',
+            minimum: 0,
+          },
+        },
+      },
+      execute: async (args: {
+        repo?: string;
+        paths?: string[];
+        staged?: boolean;
+        base?: string;
+        target?: string;
+        contextLines?: number;
+      }, context?: ToolContext) => {
+        return client.diff(args.repo, args, scopeOf(context));
+      },
+    },
+
+    // ============================================================================
+    // 提交历史
+    // ============================================================================
+    {
+      name: 'git_log',
+      displayName: 'Git Log',
+      description: '查看提交历史，可按分支、路径、时间、作者与提交信息过滤',
+      category: 'vcs',
+      tags: ['git', 'log', 'history', 'vcs'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+          ref: {
+            type: 'string',
+            description: '起始提交/分支，默认 HEAD',
+          },
+          path: {
+            type: 'string',
+            description: '只显示修改了该路径的提交',
+          },
+          limit: {
+            type: 'integer',
+            description: '最大条数，默认20',
+            minimum: 1,
+            maximum: 200,
+          },
+          since: {
+            type: 'string',
+            description: '起始时间，如 "2 weeks ago" 或 ISO 日期',
+          },
+          author: {
+            type: 'string',
+            description: '作者过滤',
+          },
+          grep: {
+            type: 'string',
+            description: '提交信息过滤',
+          },
+        },
+      },
+      execute: async (args: {
+        repo?: string;
+        ref?: string;
+        path?: string;
+        limit?: number;
+        since?: string;
+        author?: string;
+        grep?: string;
+      }, context?: ToolContext) => {
+        const commits = await client.log(args.repo, args, scopeOf(context));
+        return { commits, count: commits.length };
+      },
+    },
+
+    // ============================================================================
+    // 查看提交
+    // ============================================================================
+    {
+      name: 'git_show',
+      displayName: 'Git Show',
+      description: '查看提交的信息与差异；指定 path 时返回该文件在此版本的内容',
+      category: 'vcs',
+      tags: ['git', 'show', 'vcs'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+          ref: {
+            type: 'string',
+            description: '提交/分支/标签',
+          },
+          path: {
+            type: 'string',
+            description: '文件路径',
+          },
+        },
+        required: ['ref'],
+      },
+      execute: async (args: { repo?: string; ref: string; path?: string }, context?: ToolContext) => {
+        return client.show(args.repo, args.ref, args.path, scopeOf(context));
+      },
+    },
+
+    // ============================================================================
+    // 逐行追溯
+    // ============================================================================
+    {
+      name: 'git_blame',
+      displayName: 'Git Blame',
+      description: '查看文件每一行最后一次修改的提交与作者',
+      category: 'vcs',
+      tags: ['git', 'blame', 'history', 'vcs'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+          path: {
+            type: 'string',
+            description: '文件路径',
+          },
+          ref: {
+            type: 'string',
+            description: '提交/分支，默认工作区',
+          },
+          startLine: {
+            type: 'integer',
+            description: '起始行',
+            minimum: 1,
+          },
+          endLine: {
+            type: 'integer',
+            description: '结束行',
+            minimum: 1,
+          },
+        },
+        required: ['path'],
+      },
+      execute: async (args: {
+        repo?: string;
+        path: string;
+        ref?: string;
+        startLine?: number;
+        endLine?: number;
+      }, context?: ToolContext) => {
+        const lines = await client.blame(args.repo, args.path, args, scopeOf(context));
+        return { path: args.path, lines };
+      },
+    },
+
+    // ============================================================================
+    // 创建分支
+    // ============================================================================
+    {
+      name: 'git_branch_create',
+      displayName: 'Create Git Branch',
+      description: '基于指定提交创建分支 (不检出)，分支名需使用配置的前缀 (默认 agent/)',
+      category: 'vcs',
+      tags: ['git', 'branch', 'vcs'],
+      permissionLevel: 'user',
+      invalidates: invalidateAll,
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+          name: {
+            type: 'string',
+            description: '分支名，如 agent/fix-typo',
+          },
+          base: {
+            type: 'string',
+            description: '起始提交/分支，默认 HEAD',
+          },
+        },
+        required: ['name'],
+      },
+      execute: async (args: { repo?: string; name: string; base?: string }, context?: ToolContext) => {
+        return client.createBranch(args.repo, args.name, args.base, scopeOf(context));
+      },
+    },
+
+    // ============================================================================
+    // 在分支上提交
+    // ============================================================================
+    {
+      name: 'git_commit',
+      displayName: 'Commit to Git Branch',
+      description: '把文件修改作为一个提交写入分支 (不检出、不改动工作区)，用于提交可审查的修改而不是直接写文件',
+      category: 'vcs',
+      tags: ['git', 'commit', 'vcs', 'write'],
+      permissionLevel: 'user',
+      requireConfirmation: true,
+      confirmationTemplate: '确认在分支 "{{branch}}" 上提交: {{message}}',
+      invalidates: invalidateAll,
+      parameters: {
+        type: 'object',
+        properties: {
+          repo: repoParameter,
+          branch: {
+            type: 'string',
+            description: '目标分支 (需已存在且未检出)',
+          },
+          message: {
+            type: 'string',
+            description: '提交信息',
+            minLength: 1,
+          },
+          changes: {
+            type: 'array',
+            description: '文件修改列表',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                path: { type: 'string', description: '文件路径' },
+                content: { type: 'string', description: '新的完整内容 (UTF-8)' },
+                delete: { type: 'boolean', description: '删除该文件' },
+              },
+              required: ['path'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['branch', 'message', 'changes'],
+      },
+      execute: async (args: {
+        repo?: string;
+        branch: string;
+        message: string;
+        changes: GitFileChange[];
+      }, context?: ToolContext) => {
+        return client.commit(args.repo, args, scopeOf(context));
+      },
+    },
+  ];
+}
+
+// 辅助函数
+
+/** 硬自指流程的调用可以访问 Agent 自身源码 */
+function scopeOf(context?: ToolContext): PathCheckOptions {
+  return { allowSelfSource: isSelfModificationContext(context) };
+}
+
+export const gitTools: ToolDefinition[] = createGitTools();
+
+export default gitTools;
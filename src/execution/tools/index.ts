@@ -9,11 +9,15 @@ import type { ToolDefinition, ToolRegistry } from '../tool-registry.js';
 
 // 导入各分类工具
 import { systemTools } from './system.js';
-import { fileTools } from './file.js';
-import { shellTools } from './shell.js';
-import { httpTools } from './http.js';
+import { fileTools, createFileTools } from './file.js';
+import { shellTools, createShellTools } from './shell.js';
+import { httpTools, createHttpTools } from './http.js';
 import { dataTools } from './data.js';
 import { utilityTools } from './utility.js';
+import { codeTools, createCodeTools } from './code.js';
+import { gitTools, createGitTools } from './git.js';
+import { createMCPResourceTools } from './mcp.js';
+import { createSelfTools } from './self.js';
 
 /**
  * 所有内置工具
@@ -25,6 +29,8 @@ export const builtInTools: ToolDefinition[] = [
   ...httpTools,
   ...dataTools,
   ...utilityTools,
+  ...codeTools,
+  ...gitTools,
 ];
 
 /**
@@ -54,6 +60,8 @@ export const toolCategories = {
   http: httpTools,
   data: dataTools,
   utility: utilityTools,
+  code: codeTools,
+  git: gitTools,
 };
 
 export {
@@ -63,6 +71,15 @@ export {
   httpTools,
   dataTools,
   utilityTools,
+  codeTools,
+  gitTools,
+  createFileTools,
+  createShellTools,
+  createHttpTools,
+  createCodeTools,
+  createGitTools,
+  createMCPResourceTools,
+  createSelfTools,
 };
 
 export default builtInTools;
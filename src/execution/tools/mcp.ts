@@ -0,0 +1,116 @@
+/**
+ * MCP 资源工具 (MCP Resource Tools)
+ *
+ * 让模型按需列出和读取 MCP 服务器提供的资源，作为对话的上下文
+ */
+
+import type { ToolDefinition } from '../tool-registry.js';
+import type { MCPToolManager } from '../mcp-tool-manager.js';
+
+/** 单个资源默认返回的最大字符数 */
+const DEFAULT_MAX_CHARS = 20000;
+
+/**
+ * 创建 MCP 资源工具集，需要已连接服务器的管理器
+ */
+export function createMCPResourceTools(manager: MCPToolManager): ToolDefinition[] {
+  return [
+    // ============================================================================
+    // 资源列表
+    // ============================================================================
+    {
+      name: 'mcp_resource_list',
+      displayName: 'List MCP Resources',
+      description: '列出已连接的 MCP 服务器提供的资源 (文件、文档、数据表结构等)，可用 mcp_resource_read 读取',
+      category: 'external',
+      tags: ['mcp', 'resource', 'context'],
+      permissionLevel: 'user',
+      cacheable: true,
+      idempotent: true,
+      ttlMs: 10000,
+      parameters: {
+        type: 'object',
+        properties: {
+          server: {
+            type: 'string',
+            description: '只列出该服务器的资源',
+          },
+          query: {
+            type: 'string',
+            description: '按名称、URI 或描述过滤 (不区分大小写)',
+          },
+        },
+      },
+      execute: async (args: { server?: string; query?: string }) => {
+        const query = args.query?.toLowerCase();
+        const resources = manager.getAllResources().filter(resource =>
+          (!args.server || resource.server === args.server)
+          && (!query || [resource.name, resource.uri, resource.description ?? '']
+            .some(field => field.toLowerCase().includes(query)))
+        );
+        return { resources, total: resources.length };
+      },
+    },
+
+    // ============================================================================
+    // 读取资源
+    // ============================================================================
+    {
+      name: 'mcp_resource_read',
+      displayName: 'Read MCP Resource',
+      description: '读取 MCP 资源的内容；文本资源返回文本，二进制资源只返回类型与大小',
+      category: 'external',
+      tags: ['mcp', 'resource', 'context', 'read'],
+      permissionLevel: 'user',
+      cacheable: true,
+      idempotent: true,
+      ttlMs: 10000,
+      parameters: {
+        type: 'object',
+        properties: {
+          server: {
+            type: 'string',
+            description: '服务器名称',
+          },
+          uri: {
+            type: 'string',
+            description: '资源 URI',
+          },
+          maxChars: {
+            type: 'integer',
+            description: `每个内容块返回的最大字符数，默认${DEFAULT_MAX_CHARS}`,
+            minimum: 1,
+          },
+        },
+        required: ['server', 'uri'],
+      },
+      execute: async (args: { server: string; uri: string; maxChars?: number }) => {
+        const maxChars = args.maxChars ?? DEFAULT_MAX_CHARS;
+        const contents = await manager.readResource(args.server, args.uri);
+
+        return {
+          server: args.server,
+          uri: args.uri,
+          contents: contents.map(content => {
+            if (content.text === undefined) {
+              return {
+                uri: content.uri,
+                mimeType: content.mimeType,
+                binary: true,
+                size: content.blob ? Buffer.byteLength(content.blob, 'base64') : 0,
+              };
+            }
+            return {
+              uri: content.uri,
+              mimeType: content.mimeType,
+              text: content.text.slice(0, maxChars),
+              truncated: content.text.length > maxChars,
+            };
+          }),
+        };
+      },
+    },
+  ];
+}
+
+export default createMCPResourceTools;
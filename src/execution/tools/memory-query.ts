@@ -87,6 +87,9 @@ const definition: ToolDefinition = {
   execute: async () => ({}),
   category: 'memory',
   tags: ['memory', 'search', 'query', 'retrieval'],
+  cacheable: true,
+  idempotent: true,
+  ttlMs: 10000,
   version: '1.0.0'
 };
 
@@ -0,0 +1,106 @@
+/**
+ * 自身状态工具 (Self Tools)
+ *
+ * 查询本体的记忆与身体状态，数据来自运行中的 UnifiedAgent
+ */
+
+import type { ToolDefinition } from '../tool-registry.js';
+import type { UnifiedAgent, MemoryEntry } from '../../unified-agent.js';
+
+const MEMORY_TYPES: Array<MemoryEntry['type']> = ['working', 'episodic', 'semantic', 'procedural', 'reflective'];
+
+/**
+ * 创建 memory_query 与 body_status 工具
+ */
+export function createSelfTools(agent: UnifiedAgent): ToolDefinition[] {
+  return [
+    // ============================================================================
+    // 记忆查询
+    // ============================================================================
+    {
+      name: 'memory_query',
+      displayName: 'Memory Query',
+      description: '在 Ouroboros 的分层记忆中按关键词、类型与标签检索记忆',
+      category: 'system',
+      tags: ['memory', 'self', 'read'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: '关键词，匹配记忆内容或标签；为空时返回全部',
+          },
+          type: {
+            type: 'string',
+            description: '记忆类型',
+            enum: MEMORY_TYPES,
+          },
+          tags: {
+            type: 'array',
+            description: '只返回包含任一标签的记忆',
+            items: { type: 'string' },
+          },
+          limit: {
+            type: 'integer',
+            description: '返回的最大条数，默认10',
+            minimum: 1,
+          },
+        },
+        required: ['query'],
+      },
+      execute: async (args: { query: string; type?: MemoryEntry['type']; tags?: string[]; limit?: number }) => {
+        const memories = await agent.memory.search(args.query, {
+          type: args.type,
+          tags: args.tags,
+          limit: args.limit ?? 10,
+        });
+        return {
+          query: args.query,
+          total: memories.length,
+          memories: memories.map(m => ({
+            id: m.id,
+            content: m.content,
+            type: m.type,
+            timestamp: new Date(m.timestamp).toISOString(),
+            importance: m.importance,
+            tags: m.tags,
+          })),
+        };
+      },
+    },
+
+    // ============================================================================
+    // 身体状态
+    // ============================================================================
+    {
+      name: 'body_status',
+      displayName: 'Body Status',
+      description: '获取 Ouroboros 的身体图式 (进程、资源、环境)、调度器与记忆统计',
+      category: 'system',
+      tags: ['body', 'self', 'status', 'read'],
+      permissionLevel: 'user',
+      parameters: {
+        type: 'object',
+        properties: {
+          includeCapabilities: {
+            type: 'boolean',
+            description: '是否包含各工具能力的贝叶斯置信度',
+          },
+        },
+      },
+      execute: async (args: { includeCapabilities?: boolean }) => {
+        const status = agent.getStatus();
+        return {
+          body: status.body,
+          scheduler: status.scheduler,
+          memory: status.memory,
+          tools: agent.toolRegistry.count(),
+          ...(args.includeCapabilities ? { capabilities: status.capabilities } : {}),
+        };
+      },
+    },
+  ];
+}
+
+export default createSelfTools;
@@ -4,424 +4,359 @@
  * 命令执行和进程管理
  */
 
-import { spawn, exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
-import type { ToolDefinition } from '../tool-registry.js';
+import type { ToolContext, ToolDefinition } from '../tool-registry.js';
+import { ShellSandbox } from '../sandbox.js';
+import type { SandboxResult } from '../sandbox.js';
+import { invalidateAll } from '../tool-cache.js';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
-// 危险命令黑名单
-const DANGEROUS_PATTERNS = [
-  /rm\s+-rf\s+\//,
-  />\s*\/dev\/null.*\bor\b.*rm/,
-  /:\(\)\{\s*:\|\:\&\s*\};/, // Fork bomb
-  /mkfs\./,
-  /dd\s+if=.*of=\/dev/,
-  /\bshutdown\b/,
-  /\breboot\b/,
-  /\binit\s+0\b/,
-  /chmod\s+-R\s+777\s+\//,
-  /\bcurl\b.*\|\s*\bsh\b/,
-  /\bwget\b.*\|\s*\bsh\b/,
-];
+/** shell_which 接受的命令名 (不含路径与 shell 元字符) */
+const COMMAND_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.+-]*$/;
 
-// 允许的命令白名单 (可选使用)
-const ALLOWED_COMMANDS = [
-  'ls', 'cat', 'echo', 'pwd', 'whoami', 'uname', 'date', 'which',
-  'head', 'tail', 'grep', 'find', 'wc', 'sort', 'uniq', 'diff',
-  'mkdir', 'touch', 'cp', 'mv', 'rm', 'rmdir',
-  'git', 'npm', 'yarn', 'node', 'python', 'python3',
-  'docker', 'docker-compose', 'kubectl',
-  'curl', 'wget', 'ping', 'traceroute', 'netstat', 'ss',
-  'ps', 'top', 'htop', 'free', 'df', 'du', 'uptime',
-  'tar', 'gzip', 'gunzip', 'zip', 'unzip',
-  'jq', 'awk', 'sed', 'cut', 'tr', 'xargs',
-  'ssh', 'scp', 'rsync',
-];
-
-export const shellTools: ToolDefinition[] = [
-  // ============================================================================
-  // 执行命令
-  // ============================================================================
-  {
-    name: 'shell_exec',
-    displayName: 'Execute Shell Command',
-    description: '执行 shell 命令，返回输出',
-    category: 'system',
-    tags: ['shell', 'exec', 'command'],
-    permissionLevel: 'user',
-    requireConfirmation: true,
-    confirmationTemplate: '执行命令: {{command}}',
-    parameters: {
-      type: 'object',
-      properties: {
-        command: {
-          type: 'string',
-          description: '要执行的命令',
-        },
-        timeout: {
-          type: 'number',
-          description: '超时时间(秒)，默认30秒',
-        },
-        cwd: {
-          type: 'string',
-          description: '工作目录',
-        },
-        env: {
-          type: 'object',
-          description: '环境变量',
-        },
-        ignoreError: {
-          type: 'boolean',
-          description: '是否忽略错误',
+/**
+ * 创建 Shell 工具集，shell_exec / shell_spawn / shell_pipe 在沙箱中执行
+ */
+export function createShellTools(sandbox: ShellSandbox = new ShellSandbox()): ToolDefinition[] {
+  return [
+    // ============================================================================
+    // 执行命令
+    // ============================================================================
+    {
+      name: 'shell_exec',
+      displayName: 'Execute Shell Command',
+      description: '执行 shell 命令，返回输出',
+      category: 'system',
+      tags: ['shell', 'exec', 'command'],
+      permissionLevel: 'user',
+      requireConfirmation: true,
+      confirmationTemplate: '执行命令: {{command}}',
+      invalidates: invalidateAll,
+      parameters: {
+        type: 'object',
+        properties: {
+          command: {
+            type: 'string',
+            description: '要执行的命令',
+          },
+          timeout: {
+            type: 'number',
+            description: '超时时间(秒)，默认30秒',
+          },
+          cwd: {
+            type: 'string',
+            description: '工作目录',
+          },
+          env: {
+            type: 'object',
+            description: '额外的环境变量 (不能覆盖 PATH、HOME 等，加载器注入变量会被丢弃)',
+          },
+          ignoreError: {
+            type: 'boolean',
+            description: '是否忽略错误',
+          },
         },
+        required: ['command'],
       },
-      required: ['command'],
-    },
-    execute: async (args: {
-      command: string;
-      timeout?: number;
-      cwd?: string;
-      env?: Record<string, string>;
-      ignoreError?: boolean;
-    }) => {
-      // 安全检查
-      const command = args.command.trim();
-      for (const pattern of DANGEROUS_PATTERNS) {
-        if (pattern.test(command)) {
-          throw new Error(`Dangerous command detected: ${pattern}`);
-        }
-      }
-
-      const timeout = (args.timeout || 30) * 1000;
-
-      try {
-        const { stdout, stderr } = await execAsync(command, {
-          timeout,
+      execute: async (args: {
+        command: string;
+        timeout?: number;
+        cwd?: string;
+        env?: Record<string, string>;
+        ignoreError?: boolean;
+      }, context?: ToolContext) => {
+        const command = args.command.trim();
+        const result = await sandbox.run({
+          command,
           cwd: args.cwd,
-          env: { ...process.env, ...args.env },
-          maxBuffer: 10 * 1024 * 1024, // 10MB
+          env: args.env,
+          timeoutMs: (args.timeout || 30) * 1000,
+          signal: context?.cancelSignal,
         });
-
-        return {
+        const output = {
           command,
-          stdout: stdout.trim(),
-          stderr: stderr.trim(),
-          exitCode: 0,
-          success: true,
+          ...summarize(result),
+          exitCode: result.exitCode ?? 1,
         };
-      } catch (error: any) {
+
+        // 触发限制时返回结果以报告触发了哪些限制
+        if (output.success || result.limitsHit.length > 0) {
+          return output;
+        }
         if (args.ignoreError) {
-          return {
-            command,
-            stdout: error.stdout?.trim() || '',
-            stderr: error.stderr?.trim() || '',
-            exitCode: error.code || 1,
-            success: false,
-            ignored: true,
-          };
+          return { ...output, ignored: true };
         }
-        throw error;
-      }
+        throw commandFailed(command, result);
+      },
     },
-  },
 
-  // ============================================================================
-  // 执行命令 (流式)
-  // ============================================================================
-  {
-    name: 'shell_spawn',
-    displayName: 'Spawn Process',
-    description: '启动进程并获取实时输出',
-    category: 'system',
-    tags: ['shell', 'spawn', 'process', 'streaming'],
-    permissionLevel: 'user',
-    requireConfirmation: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        command: {
-          type: 'string',
-          description: '命令',
-        },
-        args: {
-          type: 'array',
-          items: { type: 'string' },
-          description: '命令参数',
-        },
-        cwd: {
-          type: 'string',
-          description: '工作目录',
-        },
-        timeout: {
-          type: 'number',
-          description: '超时时间(秒)',
+    // ============================================================================
+    // 执行命令 (流式)
+    // ============================================================================
+    {
+      name: 'shell_spawn',
+      displayName: 'Spawn Process',
+      description: '启动进程并获取实时输出',
+      category: 'system',
+      tags: ['shell', 'spawn', 'process', 'streaming'],
+      permissionLevel: 'user',
+      requireConfirmation: true,
+      invalidates: invalidateAll,
+      parameters: {
+        type: 'object',
+        properties: {
+          command: {
+            type: 'string',
+            description: '命令',
+          },
+          args: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '命令参数',
+          },
+          cwd: {
+            type: 'string',
+            description: '工作目录',
+          },
+          timeout: {
+            type: 'number',
+            description: '超时时间(秒)',
+          },
         },
+        required: ['command'],
       },
-      required: ['command'],
-    },
-    execute: async (args: {
-      command: string;
-      args?: string[];
-      cwd?: string;
-      timeout?: number;
-    }) => {
-      return new Promise((resolve, reject) => {
-        const command = args.command;
-        const commandArgs = args.args || [];
-
-        // 安全检查
-        for (const pattern of DANGEROUS_PATTERNS) {
-          if (pattern.test(command)) {
-            reject(new Error(`Dangerous command detected`));
-            return;
-          }
-        }
-
-        const child = spawn(command, commandArgs, {
+      execute: async (args: {
+        command: string;
+        args?: string[];
+        cwd?: string;
+        timeout?: number;
+      }, context?: ToolContext) => {
+        const result = await sandbox.run({
+          command: args.command,
+          args: args.args,
           cwd: args.cwd,
-          shell: true,
-        });
-
-        let stdout = '';
-        let stderr = '';
-        let killed = false;
-
-        // 收集输出
-        child.stdout?.on('data', (data) => {
-          stdout += data.toString();
+          timeoutMs: args.timeout ? args.timeout * 1000 : undefined,
+          signal: context?.cancelSignal,
         });
 
-        child.stderr?.on('data', (data) => {
-          stderr += data.toString();
-        });
-
-        // 超时处理
-        const timeoutId = args.timeout
-          ? setTimeout(() => {
-              killed = true;
-              child.kill('SIGTERM');
-              setTimeout(() => child.kill('SIGKILL'), 5000);
-            }, args.timeout * 1000)
-          : null;
-
-        // 进程结束
-        child.on('close', (code) => {
-          if (timeoutId) clearTimeout(timeoutId);
-
-          resolve({
-            command: `${command} ${commandArgs.join(' ')}`.trim(),
-            stdout: stdout.trim(),
-            stderr: stderr.trim(),
-            exitCode: code,
-            killed,
-            success: code === 0,
-          });
-        });
-
-        child.on('error', (error) => {
-          if (timeoutId) clearTimeout(timeoutId);
-          reject(error);
-        });
-      });
+        return {
+          command: result.command,
+          ...summarize(result),
+          exitCode: result.exitCode,
+          killed: result.limitsHit.includes('timeout') || result.aborted,
+        };
+      },
     },
-  },
 
-  // ============================================================================
-  // 管道命令
-  // ============================================================================
-  {
-    name: 'shell_pipe',
-    displayName: 'Pipe Commands',
-    description: '执行管道命令 (cmd1 | cmd2 | cmd3)',
-    category: 'system',
-    tags: ['shell', 'pipe'],
-    permissionLevel: 'user',
-    requireConfirmation: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        commands: {
-          type: 'array',
-          items: { type: 'string' },
-          description: '命令列表',
-        },
-        timeout: {
-          type: 'number',
-          description: '超时时间(秒)',
+    // ============================================================================
+    // 管道命令
+    // ============================================================================
+    {
+      name: 'shell_pipe',
+      displayName: 'Pipe Commands',
+      description: '执行管道命令 (cmd1 | cmd2 | cmd3)',
+      category: 'system',
+      tags: ['shell', 'pipe'],
+      permissionLevel: 'user',
+      requireConfirmation: true,
+      invalidates: invalidateAll,
+      parameters: {
+        type: 'object',
+        properties: {
+          commands: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '命令列表',
+          },
+          timeout: {
+            type: 'number',
+            description: '超时时间(秒)',
+          },
         },
+        required: ['commands'],
       },
-      required: ['commands'],
-    },
-    execute: async (args: {
-      commands: string[];
-      timeout?: number;
-    }) => {
-      const pipeline = args.commands.join(' | ');
+      execute: async (args: {
+        commands: string[];
+        timeout?: number;
+      }, context?: ToolContext) => {
+        const pipeline = args.commands.join(' | ');
+        const result = await sandbox.run({
+          command: pipeline,
+          timeoutMs: (args.timeout || 30) * 1000,
+          signal: context?.cancelSignal,
+        });
 
-      // 安全检查
-      for (const cmd of args.commands) {
-        for (const pattern of DANGEROUS_PATTERNS) {
-          if (pattern.test(cmd)) {
-            throw new Error(`Dangerous command detected in pipeline`);
-          }
+        if (result.exitCode !== 0 && result.limitsHit.length === 0) {
+          throw commandFailed(pipeline, result);
         }
-      }
-
-      const timeout = (args.timeout || 30) * 1000;
 
-      const { stdout, stderr } = await execAsync(pipeline, {
-        timeout,
-        maxBuffer: 10 * 1024 * 1024,
-      });
-
-      return {
-        pipeline,
-        commands: args.commands,
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-        success: true,
-      };
-    },
-  },
-
-  // ============================================================================
-  // 检查命令是否存在
-  // ============================================================================
-  {
-    name: 'shell_which',
-    displayName: 'Which Command',
-    description: '检查命令是否存在并获取路径',
-    category: 'system',
-    tags: ['shell', 'which', 'check'],
-    permissionLevel: 'public',
-    parameters: {
-      type: 'object',
-      properties: {
-        command: {
-          type: 'string',
-          description: '命令名称',
-        },
-      },
-      required: ['command'],
-    },
-    execute: async (args: { command: string }) => {
-      try {
-        const { stdout } = await execAsync(`which ${args.command}`);
         return {
-          command: args.command,
-          exists: true,
-          path: stdout.trim(),
-        };
-      } catch {
-        return {
-          command: args.command,
-          exists: false,
-          path: null,
+          pipeline,
+          commands: args.commands,
+          ...summarize(result),
         };
-      }
+      },
     },
-  },
 
-  // ============================================================================
-  // 列出进程
-  // ============================================================================
-  {
-    name: 'shell_ps',
-    displayName: 'Process List',
-    description: '列出系统进程',
-    category: 'system',
-    tags: ['shell', 'process', 'ps'],
-    permissionLevel: 'public',
-    parameters: {
-      type: 'object',
-      properties: {
-        filter: {
-          type: 'string',
-          description: '进程名过滤',
+    // ============================================================================
+    // 检查命令是否存在
+    // ============================================================================
+    {
+      name: 'shell_which',
+      displayName: 'Which Command',
+      description: '检查命令是否存在并获取路径',
+      category: 'system',
+      tags: ['shell', 'which', 'check'],
+      permissionLevel: 'public',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: {
+            type: 'string',
+            description: '命令名称',
+            pattern: COMMAND_NAME.source,
+          },
         },
+        required: ['command'],
       },
-      required: [],
-    },
-    execute: async (args: { filter?: string }) => {
-      let command: string;
-
-      if (process.platform === 'darwin' || process.platform === 'linux') {
-        command = 'ps aux';
-        if (args.filter) {
-          command += ` | grep ${args.filter}`;
+      execute: async (args: { command: string }) => {
+        if (!COMMAND_NAME.test(args.command)) {
+          throw new Error(`Invalid command name: ${args.command}`);
         }
-      } else {
-        command = 'tasklist';
-        if (args.filter) {
-          command += ` /FI "IMAGENAME eq ${args.filter}"`;
+        try {
+          const { stdout } = await execFileAsync('which', [args.command], { timeout: 10000 });
+          return {
+            command: args.command,
+            exists: true,
+            path: stdout.trim(),
+          };
+        } catch {
+          return {
+            command: args.command,
+            exists: false,
+            path: null,
+          };
         }
-      }
+      },
+    },
 
-      const { stdout } = await execAsync(command, { timeout: 10000 });
+    // ============================================================================
+    // 列出进程
+    // ============================================================================
+    {
+      name: 'shell_ps',
+      displayName: 'Process List',
+      description: '列出系统进程',
+      category: 'system',
+      tags: ['shell', 'process', 'ps'],
+      permissionLevel: 'public',
+      parameters: {
+        type: 'object',
+        properties: {
+          filter: {
+            type: 'string',
+            description: '进程名过滤',
+          },
+        },
+        required: [],
+      },
+      execute: async (args: { filter?: string }) => {
+        // 不经过 shell，过滤在进程内完成 (保留表头)
+        const [file, argv] = process.platform === 'win32' ? ['tasklist', []] : ['ps', ['aux']];
+        const { stdout } = await execFileAsync(file, argv, { timeout: 10000, maxBuffer: 10 * 1024 * 1024 });
+        const filter = args.filter?.toLowerCase();
+        const output = filter
+          ? stdout.split('\n').filter((line, index) => index === 0 || line.toLowerCase().includes(filter)).join('\n')
+          : stdout;
 
-      return {
-        output: stdout,
-        filtered: !!args.filter,
-        platform: process.platform,
-      };
+        return {
+          output,
+          filtered: !!args.filter,
+          platform: process.platform,
+        };
+      },
     },
-  },
 
-  // ============================================================================
-  // 工作目录操作
-  // ============================================================================
-  {
-    name: 'shell_pwd',
-    displayName: 'Print Working Directory',
-    description: '获取当前工作目录',
-    category: 'system',
-    tags: ['shell', 'pwd', 'directory'],
-    permissionLevel: 'public',
-    parameters: {
-      type: 'object',
-      properties: {},
-      required: [],
-    },
-    execute: async () => {
-      return {
-        cwd: process.cwd(),
-        home: process.env.HOME,
-        temp: process.env.TMPDIR || '/tmp',
-      };
+    // ============================================================================
+    // 工作目录操作
+    // ============================================================================
+    {
+      name: 'shell_pwd',
+      displayName: 'Print Working Directory',
+      description: '获取当前工作目录',
+      category: 'system',
+      tags: ['shell', 'pwd', 'directory'],
+      permissionLevel: 'public',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+      execute: async () => {
+        return {
+          cwd: process.cwd(),
+          home: process.env.HOME,
+          temp: process.env.TMPDIR || '/tmp',
+        };
+      },
     },
-  },
 
-  // ============================================================================
-  // 切换目录
-  // ============================================================================
-  {
-    name: 'shell_cd',
-    displayName: 'Change Directory',
-    description: '切换工作目录',
-    category: 'system',
-    tags: ['shell', 'cd', 'directory'],
-    permissionLevel: 'user',
-    parameters: {
-      type: 'object',
-      properties: {
-        path: {
-          type: 'string',
-          description: '目标目录路径',
+    // ============================================================================
+    // 切换目录
+    // ============================================================================
+    {
+      name: 'shell_cd',
+      displayName: 'Change Directory',
+      description: '切换工作目录',
+      category: 'system',
+      tags: ['shell', 'cd', 'directory'],
+      permissionLevel: 'user',
+      invalidates: invalidateAll,
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: '目标目录路径',
+          },
         },
+        required: ['path'],
       },
-      required: ['path'],
-    },
-    execute: async (args: { path: string }) => {
-      const previous = process.cwd();
-      process.chdir(args.path);
+      execute: async (args: { path: string }) => {
+        const previous = process.cwd();
+        process.chdir(args.path);
 
-      return {
-        previous,
-        current: process.cwd(),
-      };
+        return {
+          previous,
+          current: process.cwd(),
+        };
+      },
     },
-  },
-];
+  ];
+}
+
+/** 沙箱结果中返回给调用者的公共字段 */
+function summarize(result: SandboxResult) {
+  return {
+    stdout: result.stdout.trim(),
+    stderr: result.stderr.trim(),
+    success: result.exitCode === 0 && result.limitsHit.length === 0,
+    limitsHit: result.limitsHit,
+    truncated: result.truncated.stdout || result.truncated.stderr,
+    networkIsolated: result.networkIsolated,
+  };
+}
+
+function commandFailed(command: string, result: SandboxResult): Error {
+  const detail = result.stderr.trim() || result.stdout.trim();
+  return new Error(
+    `Command failed with exit code ${result.exitCode}: ${command}${detail ? `\n${detail}` : ''}`
+  );
+}
+
+/** 使用默认沙箱配置的 Shell 工具 */
+export const shellTools: ToolDefinition[] = createShellTools();
 
 export default shellTools;
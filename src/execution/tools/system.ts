@@ -20,6 +20,9 @@ export const systemTools: ToolDefinition[] = [
     category: 'system',
     tags: ['system', 'info', 'os'],
     permissionLevel: 'public',
+    cacheable: true,
+    idempotent: true,
+    ttlMs: 10000,
     parameters: {
       type: 'object',
       properties: {
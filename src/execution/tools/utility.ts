@@ -497,17 +497,7 @@ export const utilityTools: ToolDefinition[] = [
       path: string;
       default?: unknown;
     }) => {
-      const keys = args.path.split('.');
-      let value: unknown = args.object;
-
-      for (const key of keys) {
-        if (value && typeof value === 'object') {
-          value = (value as Record<string, unknown>)[key];
-        } else {
-          value = undefined;
-          break;
-        }
-      }
+      const value = getPath(args.object, args.path);
 
       return {
         path: args.path,
@@ -519,6 +509,24 @@ export const utilityTools: ToolDefinition[] = [
 ];
 
 // 辅助函数
+
+/**
+ * 按点路径取值 (如 a.b.0.c)，路径不存在时返回 undefined
+ */
+export function getPath(object: unknown, path: string): unknown {
+  let value: unknown = object;
+
+  for (const key of path.split('.')) {
+    if (value && typeof value === 'object') {
+      value = (value as Record<string, unknown>)[key];
+    } else {
+      return undefined;
+    }
+  }
+
+  return value;
+}
+
 function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
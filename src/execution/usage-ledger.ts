@@ -0,0 +1,417 @@
+/**
+ * 用量账本 (Usage Ledger)
+ *
+ * 汇总每次模型调用的 token 用量与估算成本：
+ * - 按模型、会话、工具循环 (一轮对话) 记录
+ * - 可选持久化到 SQLite (usage_ledger 表，见迁移 v4)
+ * - 每日 / 每会话预算，超出时拒绝或降级
+ * 位置: 执行层 (Execution Layer)
+ */
+
+import { EventEmitter } from 'events';
+import type { SQLiteConnectionPool } from '../db/connection.js';
+import type { ModelConfig, CompletionResult } from './model-engine.js';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 模型单价 (美元 / 百万 token) */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** 预算配置 */
+export interface UsageBudget {
+  dailyTokens?: number;
+  dailyCostUsd?: number;
+  sessionTokens?: number;
+  sessionCostUsd?: number;
+  /** 超出预算时的处理方式，默认 refuse */
+  onExceeded?: 'refuse' | 'downgrade';
+  /** 降级使用的模型 (覆盖引擎配置中的字段) */
+  downgradeTo?: Partial<ModelConfig>;
+}
+
+/** 账本配置 */
+export interface UsageLedgerConfig {
+  /** 持久化连接池，未提供时仅保存在内存中 */
+  pool?: SQLiteConnectionPool;
+  budget?: UsageBudget;
+  /** 覆盖或补充内置单价表 (按模型名前缀匹配) */
+  pricing?: Record<string, ModelPricing>;
+  /** 内存中保留的最大记录数 */
+  maxEntries?: number;
+}
+
+/** 单条用量记录 */
+export interface UsageEntry {
+  provider: string;
+  model: string;
+  sessionId?: string;
+  /** 工具循环标识 (同一轮对话中的多次模型调用共享) */
+  loopId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  recordedAt: string;
+}
+
+/** 用量合计 */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/** 用量汇总 */
+export interface UsageSummary {
+  total: UsageTotals;
+  today: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+}
+
+/** 预算检查结果 */
+export interface BudgetCheck {
+  exceeded: boolean;
+  action: 'allow' | 'refuse' | 'downgrade';
+  scope?: 'daily' | 'session';
+  reason?: string;
+}
+
+/** 记录用量时的上下文 */
+export interface UsageContext {
+  sessionId?: string;
+  loopId?: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+
+const TOTALS_SELECT = `SELECT COUNT(*) AS requests,
+  COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+  COALESCE(SUM(total_tokens), 0) AS total_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd`;
+
+/** 本地或自托管提供商不计费 */
+const FREE_PROVIDERS = new Set(['ollama', 'scripted', 'openai-compatible']);
+
+/**
+ * 内置单价表 (美元 / 百万 token)，按最长前缀匹配
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'claude-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+};
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): void {
+  totals.requests++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.totalTokens;
+  totals.costUsd += entry.costUsd;
+}
+
+/** UTC 日期 (YYYY-MM-DD) */
+function dayOf(isoTime: string): string {
+  return isoTime.slice(0, 10);
+}
+
+// ============================================================================
+// 用量账本主类
+// ============================================================================
+
+export class UsageLedger extends EventEmitter {
+  private pool: SQLiteConnectionPool | null;
+  private budget: UsageBudget;
+  private pricing: Record<string, ModelPricing>;
+  private maxEntries: number;
+  private entries: UsageEntry[] = [];
+  private day: string = dayOf(new Date().toISOString());
+  private dailyTotals: UsageTotals = emptyTotals();
+  private sessionTotals: Map<string, UsageTotals> = new Map();
+
+  constructor(config: UsageLedgerConfig = {}) {
+    super();
+    this.pool = config.pool ?? null;
+    this.budget = { onExceeded: 'refuse', ...config.budget };
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...config.pricing };
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * 从数据库恢复当日合计 (需要已执行迁移 v4)
+   */
+  async initialize(): Promise<void> {
+    if (!this.pool) return;
+
+    this.rollDay();
+    const row = await this.pool.get<Record<string, number>>(
+      `${TOTALS_SELECT} FROM usage_ledger WHERE recorded_at >= ?`,
+      [this.day]
+    );
+    this.dailyTotals = rowToTotals(row);
+  }
+
+  /**
+   * 更新预算配置
+   */
+  setBudget(budget: UsageBudget): void {
+    this.budget = { onExceeded: 'refuse', ...budget };
+  }
+
+  /**
+   * 获取预算配置
+   */
+  getBudget(): UsageBudget {
+    return { ...this.budget };
+  }
+
+  /**
+   * 估算成本 (美元)
+   */
+  estimateCost(provider: string, model: string, usage: CompletionResult['usage']): number {
+    if (FREE_PROVIDERS.has(provider) && !this.pricing[model]) {
+      return 0;
+    }
+
+    const key = Object.keys(this.pricing)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!key) {
+      return 0;
+    }
+
+    const price = this.pricing[key];
+    return (usage.promptTokens * price.inputPerMillion
+      + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+  }
+
+  /**
+   * 记录一次模型调用的用量
+   */
+  async record(
+    config: Pick<ModelConfig, 'provider' | 'model'>,
+    usage: CompletionResult['usage'],
+    context: UsageContext = {}
+  ): Promise<UsageEntry> {
+    const entry: UsageEntry = {
+      provider: config.provider,
+      model: config.model,
+      sessionId: context.sessionId,
+      loopId: context.loopId,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      costUsd: this.estimateCost(config.provider, config.model, usage),
+      recordedAt: new Date().toISOString(),
+    };
+
+    this.rollDay();
+    addToTotals(this.dailyTotals, entry);
+    if (entry.sessionId) {
+      const session = await this.loadSessionTotals(entry.sessionId);
+      addToTotals(session, entry);
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+
+    if (this.pool) {
+      await this.pool.run(
+        `INSERT INTO usage_ledger
+           (provider, model, session_id, loop_id, prompt_tokens, completion_tokens, total_tokens, cost_usd, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.provider,
+          entry.model,
+          entry.sessionId ?? null,
+          entry.loopId ?? null,
+          entry.promptTokens,
+          entry.completionTokens,
+          entry.totalTokens,
+          entry.costUsd,
+          entry.recordedAt,
+        ]
+      );
+    }
+
+    this.emit('recorded', entry);
+    return entry;
+  }
+
+  /**
+   * 检查预算 (在发起模型调用之前)
+   */
+  async checkBudget(sessionId?: string): Promise<BudgetCheck> {
+    const { dailyTokens, dailyCostUsd, sessionTokens, sessionCostUsd } = this.budget;
+    const action = this.budget.onExceeded === 'downgrade' && this.budget.downgradeTo
+      ? 'downgrade'
+      : 'refuse';
+
+    this.rollDay();
+    const daily = this.dailyTotals;
+    if (dailyTokens !== undefined && daily.totalTokens >= dailyTokens) {
+      return { exceeded: true, action, scope: 'daily', reason: `daily token budget ${dailyTokens} reached` };
+    }
+    if (dailyCostUsd !== undefined && daily.costUsd >= dailyCostUsd) {
+      return { exceeded: true, action, scope: 'daily', reason: `daily cost budget $${dailyCostUsd} reached` };
+    }
+
+    if (sessionId && (sessionTokens !== undefined || sessionCostUsd !== undefined)) {
+      const session = await this.loadSessionTotals(sessionId);
+      if (sessionTokens !== undefined && session.totalTokens >= sessionTokens) {
+        return { exceeded: true, action, scope: 'session', reason: `session token budget ${sessionTokens} reached` };
+      }
+      if (sessionCostUsd !== undefined && session.costUsd >= sessionCostUsd) {
+        return { exceeded: true, action, scope: 'session', reason: `session cost budget $${sessionCostUsd} reached` };
+      }
+    }
+
+    return { exceeded: false, action: 'allow' };
+  }
+
+  /**
+   * 当日与已加载会话的合计 (同步，用于状态展示)
+   */
+  getSnapshot(): { today: UsageTotals; sessions: number; budget: UsageBudget } {
+    this.rollDay();
+    return {
+      today: { ...this.dailyTotals },
+      sessions: this.sessionTotals.size,
+      budget: this.getBudget(),
+    };
+  }
+
+  /**
+   * 用量汇总 (有连接池时查询数据库，否则基于内存中保留的记录)
+   */
+  async getSummary(filter: { sessionId?: string; since?: string } = {}): Promise<UsageSummary> {
+    if (this.pool) {
+      return this.querySummary(filter);
+    }
+
+    const today = dayOf(new Date().toISOString());
+    const summary: UsageSummary = { total: emptyTotals(), today: emptyTotals(), byModel: {}, bySession: {} };
+
+    for (const entry of this.entries) {
+      if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+      if (filter.since && entry.recordedAt < filter.since) continue;
+
+      addToTotals(summary.total, entry);
+      if (dayOf(entry.recordedAt) === today) {
+        addToTotals(summary.today, entry);
+      }
+      addToTotals(summary.byModel[entry.model] ??= emptyTotals(), entry);
+      if (entry.sessionId) {
+        addToTotals(summary.bySession[entry.sessionId] ??= emptyTotals(), entry);
+      }
+    }
+
+    return summary;
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  /** 跨天时重置当日合计 */
+  private rollDay(): void {
+    const today = dayOf(new Date().toISOString());
+    if (today !== this.day) {
+      this.day = today;
+      this.dailyTotals = emptyTotals();
+    }
+  }
+
+  private async loadSessionTotals(sessionId: string): Promise<UsageTotals> {
+    let totals = this.sessionTotals.get(sessionId);
+    if (!totals) {
+      totals = this.pool
+        ? rowToTotals(await this.pool.get<Record<string, number>>(
+          `${TOTALS_SELECT} FROM usage_ledger WHERE session_id = ?`,
+          [sessionId]
+        ))
+        : emptyTotals();
+      this.sessionTotals.set(sessionId, totals);
+    }
+    return totals;
+  }
+
+  private async querySummary(filter: { sessionId?: string; since?: string }): Promise<UsageSummary> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    if (filter.since) {
+      conditions.push('recorded_at >= ?');
+      params.push(filter.since);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const and = conditions.length > 0 ? `${where} AND` : 'WHERE';
+
+    const total = await this.pool!.get<Record<string, number>>(
+      `${TOTALS_SELECT} FROM usage_ledger ${where}`, params
+    );
+    const today = await this.pool!.get<Record<string, number>>(
+      `${TOTALS_SELECT} FROM usage_ledger ${and} recorded_at >= ?`,
+      [...params, dayOf(new Date().toISOString())]
+    );
+    const byModel = await this.pool!.query<Record<string, number> & { model: string }>(
+      `${TOTALS_SELECT}, model FROM usage_ledger ${where} GROUP BY model`, params
+    );
+    const bySession = await this.pool!.query<Record<string, number> & { session_id: string }>(
+      `${TOTALS_SELECT}, session_id FROM usage_ledger ${and} session_id IS NOT NULL GROUP BY session_id`,
+      params
+    );
+
+    return {
+      total: rowToTotals(total),
+      today: rowToTotals(today),
+      byModel: Object.fromEntries(byModel.rows.map(row => [row.model, rowToTotals(row)])),
+      bySession: Object.fromEntries(bySession.rows.map(row => [row.session_id, rowToTotals(row)])),
+    };
+  }
+}
+
+function rowToTotals(row?: Record<string, number>): UsageTotals {
+  return {
+    requests: row?.requests ?? 0,
+    promptTokens: row?.prompt_tokens ?? 0,
+    completionTokens: row?.completion_tokens ?? 0,
+    totalTokens: row?.total_tokens ?? 0,
+    costUsd: row?.cost_usd ?? 0,
+  };
+}
+
+// ============================================================================
+// 工厂函数
+// ============================================================================
+
+export function createUsageLedger(config?: UsageLedgerConfig): UsageLedger {
+  return new UsageLedger(config);
+}
+
+export default UsageLedger;
@@ -2559,6 +2559,114 @@ export interface GlobalConfig {
   monitoring: MonitoringConfig;
   /** 适配器配置 */
   adapters: AdapterConfigs;
+  /** 工具配置 */
+  tools: ToolsConfig;
+}
+
+/**
+ * 工具配置
+ */
+export interface ToolsConfig {
+  /** 文件工具的路径范围 */
+  fileScope: FileScopeConfig;
+  /** HTTP 工具的出站策略 */
+  network: NetworkEgressConfig;
+  /** Shell 工具的执行沙箱 */
+  sandbox: SandboxConfig;
+  /** 工具结果缓存 */
+  cache: ToolResultCacheConfig;
+  /** 流水线定义目录 (*.json / *.yaml)，其中的流水线注册为工具 */
+  pipelineDir?: string;
+}
+
+/**
+ * 文件工具路径范围
+ */
+export interface FileScopeConfig {
+  /** 是否启用 */
+  enabled: boolean;
+  /** 可读写的根目录 */
+  allowedRoots: string[];
+  /** 只读根目录 */
+  readOnlyRoots: string[];
+  /** 禁止访问的 glob */
+  deniedGlobs: string[];
+  /** 是否保护 Agent 自身源码 (仅硬自指流程可访问) */
+  protectSelfSource: boolean;
+  /** Agent 源码目录 */
+  selfSourceRoot?: string;
+}
+
+/**
+ * HTTP 工具出站策略
+ */
+export interface NetworkEgressConfig {
+  /** 是否启用 */
+  enabled: boolean;
+  /** 主机白名单 (为空时不限制) */
+  allowedHosts: string[];
+  /** 主机黑名单 (主机名、*.domain、IP 或 CIDR) */
+  deniedHosts: string[];
+  /** 是否拒绝私有/保留地址 (SSRF 防护) */
+  blockPrivateNetworks: boolean;
+  /** 允许访问私有地址的主机 */
+  allowPrivateHosts: string[];
+  /** 响应体最大字节数 */
+  maxResponseBytes: number;
+  /** 最大重定向次数 */
+  maxRedirects: number;
+  /** 按主机的速率限制 (null 表示不限制) */
+  rateLimit: { maxRequests: number; windowMs: number } | null;
+  /** 请求超时 (毫秒) */
+  timeoutMs: number;
+}
+
+/**
+ * Shell 工具执行沙箱
+ */
+export interface SandboxConfig {
+  /** 工作目录必须位于其下的根目录 */
+  root: string;
+  /** 命令白名单 (未设置时不限制) */
+  allowCommands?: string[];
+  /** 命令黑名单 */
+  denyCommands: string[];
+  /** 子进程环境变量 */
+  env: {
+    /** 从当前进程继承的变量名 (未设置时使用默认列表) */
+    passthrough?: string[];
+    /** 额外设置的变量 */
+    set: Record<string, string>;
+  };
+  /** 资源限制 */
+  limits: {
+    /** 墙钟超时 (毫秒) */
+    timeoutMs: number;
+    /** CPU 时间 (秒) */
+    cpuSeconds: number;
+    /** 虚拟内存 (字节) */
+    memoryBytes: number;
+    /** 单个文件大小 (字节) */
+    maxFileSizeBytes: number;
+    /** 最大进程数 */
+    maxProcesses?: number;
+    /** stdout/stderr 各自的最大字节数 */
+    maxOutputBytes: number;
+  };
+  /** 是否隔离网络命名空间 ('auto' 表示可用时隔离) */
+  isolateNetwork: boolean | 'auto';
+}
+
+/**
+ * 工具结果缓存 (仅作用于标记 cacheable 的工具)
+ */
+export interface ToolResultCacheConfig {
+  /** 是否启用 */
+  enabled: boolean;
+  /** 最大条目数 */
+  maxEntries: number;
+  /** 工具未声明 ttlMs 时的默认有效期 (毫秒) */
+  defaultTtlMs: number;
 }
 
 /**
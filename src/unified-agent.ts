@@ -17,6 +17,26 @@ import * as os from 'os';
 import * as crypto from 'crypto';
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import { ModelEngine } from './execution/model-engine.js';
+import type { ModelConfig, Message, ToolCall, CompletionResult } from './execution/model-engine.js';
+import { ModelRouter } from './execution/model-router.js';
+import type { RoutingDecision } from './execution/model-router.js';
+import type { UsageLedger } from './execution/usage-ledger.js';
+import type { Cassette } from './execution/cassette.js';
+import type { SessionStore } from './execution/session-store.js';
+import type { ConfirmationBroker } from './execution/confirmation-broker.js';
+import type { AccessControl, PermissionLevel } from './execution/access-control.js';
+import type { MCPToolManager } from './execution/mcp-tool-manager.js';
+import { createMCPResourceTools } from './execution/tools/mcp.js';
+import { ToolRegistry } from './execution/tool-registry.js';
+import type { ParameterSchema, ToolResult } from './execution/tool-registry.js';
+import { validateSchema, formatSchemaErrors } from './execution/json-schema.js';
+import type { JsonSchema } from './execution/json-schema.js';
+import { PromptAssembler, PromptType } from './cognitive/soft-self-reference.js';
+import { formatTranscript } from './cognitive/conversation-summary.js';
+import type { ConversationMessage } from './cognitive/conversation-summary.js';
+import { resolveModelProfile } from './cognitive/tokenizer.js';
+import { SecurityError } from './utils/errors.js';
 
 // ============================================================================
 // 类型定义 (根据DESIGN文档)
@@ -145,6 +165,8 @@ export interface ToolSkill {
   name: string;
   description: string;
   parameters: Record<string, unknown>;
+  /** 调用所需的权限级别，未指定时沿用工具注册表的默认值 (user) */
+  permissionLevel?: PermissionLevel;
   execute: (args: unknown) => Promise<unknown>;
 }
 
@@ -196,12 +218,83 @@ export interface UnifiedAgentConfig {
     intervalMs: number;
   };
   tools?: ToolSkill[];
+  /** 模型引擎 (实例、配置或路由器)，未配置时 chat 不可用 */
+  model?: ModelEngine | ModelConfig | ModelRouter;
+  /** 工具注册表，未提供时创建独立实例 */
+  toolRegistry?: ToolRegistry;
+  /** 用量账本，提供时记录模型用量并执行预算 */
+  usageLedger?: UsageLedger;
+  /** 模型交互录制/回放磁带 */
+  cassette?: Cassette;
+  /** 会话存储，提供时对话历史持久化到 SQLite 并在重启后恢复 */
+  sessionStore?: SessionStore;
+  /** 工具确认代理，提供时需要确认的工具调用挂起等待批准 */
+  confirmationBroker?: ConfirmationBroker;
+  /** 访问控制，提供时按会话用户的角色检查工具权限 */
+  accessControl?: AccessControl;
+  /** MCP 管理器，提供时 MCP 工具注册到 toolRegistry，模型可读取 MCP 资源，用户可通过 mcp 命令调用提示词模板 */
+  mcp?: MCPToolManager;
+  conversation?: ConversationConfig;
+}
+
+/** 对话循环配置 */
+export interface ConversationConfig {
+  /** 单轮对话中最多的工具调用迭代次数 */
+  maxToolIterations?: number;
+  /** 每个会话保留的历史消息数 */
+  maxHistoryMessages?: number;
+  /** 上下文窗口大小 (tokens)，默认取当前模型的上下文窗口 */
+  maxContextWindow?: number;
+  /** 自我提示词持久化路径，默认与记忆文件同目录 */
+  selfConfigPath?: string;
+  /** 无提示词组装器时使用的系统提示词 */
+  systemPrompt?: string;
+  /** 历史超出上下文预算时由模型摘要较早的轮次 (需要提示词组装器)，默认 true */
+  summarize?: boolean;
+}
+
+/** 对话中执行的工具调用记录 */
+export interface ChatToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result: ToolResult;
+}
+
+/** 对话选项 */
+export interface ChatOptions {
+  /** 调用者的已认证用户 ID：会话尚不存在时以该用户创建，已属于其他用户时拒绝 */
+  userId?: string;
+}
+
+/** 流式对话事件 */
+export type ChatStreamEvent =
+  | { type: 'token'; sessionId: string; content: string }
+  | { type: 'tool_start'; sessionId: string; id: string; name: string; args: Record<string, unknown> }
+  | { type: 'tool_end'; sessionId: string; id: string; name: string; result: ToolResult }
+  | { type: 'final'; sessionId: string; result: ChatResult };
+
+/** 对话结果 */
+export interface ChatResult {
+  sessionId: string;
+  content: string;
+  toolCalls: ChatToolCallRecord[];
+  iterations: number;
+  /** 'stop' | 'length' | 'max_iterations' 等 */
+  finishReason: string;
+  usage: CompletionResult['usage'];
+  latencyMs: number;
+  /** 经模型路由器时，每次模型调用的路由决策 */
+  routing?: RoutingDecision[];
 }
 
 // ============================================================================
 // 贝叶斯认知核心
 // ============================================================================
 
+/** 给出路由建议所需的最少观测次数 */
+const MIN_SAMPLES_FOR_RECOMMENDATION = 3;
+
 export class BayesianCore {
   private beliefs: Map<string, BayesianBelief> = new Map();
 
@@ -265,6 +358,22 @@ export class BayesianCore {
     };
   }
 
+  /**
+   * 路由建议：样本不足时为 learn，否则按置信度给出 proceed / caution / avoid
+   * (与 predictPerformance 的分级一致，不创建新的信念)
+   */
+  recommend(capability: string): 'proceed' | 'caution' | 'avoid' | 'learn' {
+    const belief = this.beliefs.get(capability);
+    // 扣除先验的 1 次成功与 1 次失败
+    if (!belief || belief.alpha + belief.beta - 2 < MIN_SAMPLES_FOR_RECOMMENDATION) {
+      return 'learn';
+    }
+    if (belief.confidence > 0.8) {
+      return 'proceed';
+    }
+    return belief.confidence > 0.5 ? 'caution' : 'avoid';
+  }
+
   /** 获取所有能力 */
   getAllCapabilities(): BayesianBelief[] {
     return Array.from(this.beliefs.values());
@@ -584,6 +693,15 @@ export class LayeredMemory extends EventEmitter {
     return limited;
   }
 
+  /** 按时间倒序列出最近的记忆 (只读，不增加访问计数) */
+  getRecent(options: { type?: MemoryEntry['type']; limit?: number } = {}): MemoryEntry[] {
+    return Array.from(this.memories.values())
+      .filter(m => !options.type || m.type === options.type)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, options.limit ?? 10)
+      .map(m => ({ ...m, tags: [...m.tags] }));
+  }
+
   /** 计算记忆相关性分数 (艾宾浩斯遗忘曲线 + 重要性) */
   private calculateRelevanceScore(entry: MemoryEntry): number {
     const timeDecay = Math.exp(
@@ -977,6 +1095,57 @@ export class Scheduler extends EventEmitter {
 // UnifiedAgent - 核心协调器
 // ============================================================================
 
+const DEFAULT_MAX_TOOL_ITERATIONS = 8;
+const DEFAULT_MAX_HISTORY_MESSAGES = 40;
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_SYSTEM_PROMPT =
+  'You are Ouroboros, an embodied self-referential agent. Use the available tools when they help answer the user.';
+const CONVERSATION_SUMMARY_PROMPT =
+  'Summarize the conversation below for your own future reference. Keep facts, decisions, names, '
+  + 'open questions and tool results that may matter later. Be concise and write plain prose.';
+/** 会话上下文中保存对话摘要的键 */
+const SESSION_SUMMARY_KEY = 'conversationSummary';
+/** 对话本身对应的能力 (模型路由的贝叶斯信号) */
+const CONVERSATION_CAPABILITY = 'conversation';
+
+/** 持久化在会话上下文中的对话摘要 */
+interface PersistedConversationSummary {
+  summary: string;
+  /** 摘要覆盖的最早消息数，恢复时只重放之后的消息 */
+  summarizedMessages: number;
+}
+
+/** 单轮对话的内部状态 */
+interface ChatTurnState {
+  sessionId: string;
+  /** 本轮工具循环标识 (用量记录) */
+  loopId: string;
+  userMessage: string;
+  startTime: number;
+  maxIterations: number;
+  messages: Message[];
+  turn: Message[];
+  tools: ReturnType<ToolRegistry['toOpenAIFormat']>;
+  toolCalls: ChatToolCallRecord[];
+  usage: CompletionResult['usage'];
+  content: string;
+  finishReason: string;
+  iterations: number;
+  routing: RoutingDecision[];
+  /** 下一次模型调用对应的能力：初始为对话，调用工具后为最后调用的工具 */
+  capability: string;
+}
+
+export class UnifiedAgentError extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'UnifiedAgentError';
+    this.code = code;
+  }
+}
+
 export class UnifiedAgent extends EventEmitter {
   // 子系统
   public scheduler: Scheduler;
@@ -985,10 +1154,20 @@ export class UnifiedAgent extends EventEmitter {
   public memory: LayeredMemory;
   public bayesian: BayesianCore;
   public safety: SafetyEngine;
+  public modelEngine: ModelEngine | ModelRouter | null;
+  public toolRegistry: ToolRegistry;
+  public promptAssembler: PromptAssembler | null;
+  public usageLedger: UsageLedger | null;
+  public sessionStore: SessionStore | null;
+  public confirmationBroker: ConfirmationBroker | null;
+  public accessControl: AccessControl | null;
+  public mcpManager: MCPToolManager | null;
 
   // 配置
   private config: UnifiedAgentConfig;
   private tools: Map<string, ToolSkill> = new Map();
+  private sessions: Map<string, Message[]> = new Map();
+  private activeStreams: Map<string, AbortController> = new Map();
   private reflectionInterval: NodeJS.Timeout | null = null;
 
   constructor(config: UnifiedAgentConfig = {}) {
@@ -1003,6 +1182,41 @@ export class UnifiedAgent extends EventEmitter {
     this.bayesian = new BayesianCore();
     this.safety = new SafetyEngine(config.safety);
 
+    // 初始化对话子系统
+    this.toolRegistry = config.toolRegistry ?? new ToolRegistry();
+    this.usageLedger = config.usageLedger ?? null;
+    this.sessionStore = config.sessionStore ?? null;
+    this.confirmationBroker = config.confirmationBroker ?? null;
+    if (this.confirmationBroker) {
+      this.toolRegistry.setConfirmationBroker(this.confirmationBroker);
+    }
+    this.accessControl = config.accessControl ?? null;
+    if (this.accessControl) {
+      this.toolRegistry.setAccessControl(this.accessControl);
+    }
+    this.mcpManager = config.mcp ?? null;
+    if (this.mcpManager) {
+      // MCP 工具以 {server}__{tool} 注册，与内置工具共用鉴权、确认与统计
+      this.mcpManager.bindRegistry(this.toolRegistry);
+      this.toolRegistry.registerMany(createMCPResourceTools(this.mcpManager));
+    }
+    this.modelEngine = this.createModelEngine(config.model);
+    // 最近的对话轮次作为历史消息重放 (loadHistory)，不再放入记忆提示词
+    this.promptAssembler = this.createPromptAssembler();
+    if (this.promptAssembler && this.modelEngine && this.config.conversation?.summarize !== false) {
+      this.promptAssembler.setSummarizer(
+        (messages, previous, sessionId) => this.summarizeConversation(sessionId, messages, previous),
+        {
+          onSummary: async event => {
+            await this.memory.store(event.summary, 'episodic', {
+              importance: 0.7,
+              tags: ['conversation', 'summary', event.sessionId],
+            });
+          },
+        }
+      );
+    }
+
     // 注册工具
     if (config.tools) {
       for (const tool of config.tools) {
@@ -1022,6 +1236,83 @@ export class UnifiedAgent extends EventEmitter {
     this.setupEventListeners();
   }
 
+  /** 创建模型引擎；路由器未指定信号来源时使用本体的激素、稳态与贝叶斯状态 */
+  private createModelEngine(model: UnifiedAgentConfig['model']): ModelEngine | ModelRouter | null {
+    if (!model) {
+      return null;
+    }
+
+    let engine: ModelEngine | ModelRouter;
+    if (model instanceof ModelRouter) {
+      model.setSources({
+        hormones: this.hormoneSystem,
+        homeostasis: {
+          getCurrentStatus: () => this.scheduler.checkHomeostasis().healthy ? 'healthy' : 'stressed',
+        },
+        bayesian: {
+          predictPerformance: capability => ({ recommendation: this.bayesian.recommend(capability) }),
+        },
+        ...model.getSources(),
+      });
+      engine = model;
+    } else {
+      engine = model instanceof ModelEngine ? model : new ModelEngine(model);
+    }
+
+    if (this.usageLedger) {
+      engine.setUsageLedger(this.usageLedger);
+    }
+    if (this.config.cassette) {
+      engine.setCassette(this.config.cassette);
+    }
+    return engine;
+  }
+
+  /** 创建提示词组装器 (需要可持久化的自我提示词路径) */
+  private createPromptAssembler(): PromptAssembler | null {
+    const selfConfigPath = this.config.conversation?.selfConfigPath
+      ?? (this.config.memory?.persistPath
+        ? path.join(path.dirname(this.config.memory.persistPath), 'self-prompt.json')
+        : undefined);
+    if (!selfConfigPath) {
+      return null;
+    }
+
+    // 预算按当前模型的分词器与上下文窗口分配
+    const model = this.currentModel() ?? undefined;
+    const maxContextWindow = this.config.conversation?.maxContextWindow
+      ?? (model ? resolveModelProfile(model).contextWindow : DEFAULT_CONTEXT_WINDOW);
+
+    return new PromptAssembler(
+      {
+        nodeVersion: process.version,
+        platform: os.platform(),
+        arch: os.arch(),
+        safetyRules: [
+          '- Verify tool arguments before calling tools',
+          '- Never expose credentials or secrets',
+        ],
+        forbiddenActions: [
+          '- Modifying the agent core without verification',
+          '- Destructive operations without explicit user confirmation',
+        ],
+      },
+      selfConfigPath,
+      maxContextWindow,
+      model
+    );
+  }
+
+  /** 当前将要使用的模型名称 (路由器取本轮路由决策的模型) */
+  private currentModel(): string | null {
+    if (!this.modelEngine) {
+      return null;
+    }
+    return this.modelEngine instanceof ModelRouter
+      ? this.modelEngine.decide().model
+      : this.modelEngine.getConfig().model;
+  }
+
   /** 设置任务执行器 */
   private setupTaskExecutor(): void {
     // 使用事件监听而不是直接修改 executeTask
@@ -1091,6 +1382,7 @@ export class UnifiedAgent extends EventEmitter {
     // 记忆存储
     this.memory.on('memoryStored', (entry) => {
       this.hormoneSystem.adjustHormone(HormoneType.DOPAMINE, 0.05, 'learning');
+      this.toolRegistry.invalidateCache({ tool: 'memory_query' });
     });
   }
 
@@ -1141,11 +1433,75 @@ export class UnifiedAgent extends EventEmitter {
       case 'consolidate':
         return this.memory.performSleepConsolidation();
       
+      case 'chat':
+        if (!args[0] || args.length < 2) {
+          return { error: 'Usage: chat <sessionId> <message>' };
+        }
+        return this.chat(args[0], args.slice(1).join(' '));
+
+      case 'mcp':
+        return this.handleMCPCommand(args);
+      
       default:
         return { error: `Unknown command: ${command}` };
     }
   }
 
+  /**
+   * MCP 命令：查看服务器、资源与提示词模板，填充模板或以模板发起对话
+   *
+   * 模板参数以 name=value 形式传入
+   */
+  private async handleMCPCommand(args: string[]): Promise<unknown> {
+    if (!this.mcpManager) {
+      return { error: 'MCP is not configured' };
+    }
+
+    const [subcommand = 'servers', ...rest] = args;
+    const parsePromptArgs = (pairs: string[]): Record<string, string> => Object.fromEntries(
+      pairs.map(pair => {
+        const separator = pair.indexOf('=');
+        return separator === -1 ? [pair, ''] : [pair.slice(0, separator), pair.slice(separator + 1)];
+      })
+    );
+
+    switch (subcommand) {
+      case 'servers':
+        return this.mcpManager.getStatus();
+
+      case 'resources':
+        return this.mcpManager.getAllResources().filter(r => !rest[0] || r.server === rest[0]);
+
+      case 'read':
+        if (rest.length < 2) {
+          return { error: 'Usage: mcp read <server> <uri>' };
+        }
+        return this.mcpManager.readResource(rest[0], rest[1]);
+
+      case 'prompts':
+        return this.mcpManager.getAllPrompts();
+
+      case 'prompt': {
+        if (!rest[0]) {
+          return { error: 'Usage: mcp prompt <server.prompt> [name=value ...]' };
+        }
+        const result = await this.mcpManager.getPrompt(rest[0], parsePromptArgs(rest.slice(1)));
+        return { prompt: rest[0], ...result };
+      }
+
+      case 'use': {
+        if (rest.length < 2) {
+          return { error: 'Usage: mcp use <sessionId> <server.prompt> [name=value ...]' };
+        }
+        const message = await this.mcpManager.renderPrompt(rest[1], parsePromptArgs(rest.slice(2)));
+        return this.chat(rest[0], message);
+      }
+
+      default:
+        return { error: `Unknown mcp subcommand: ${subcommand}` };
+    }
+  }
+
   /** 执行工具 */
   async executeTool(name: string, args: unknown): Promise<unknown> {
     const tool = this.tools.get(name);
@@ -1153,6 +1509,12 @@ export class UnifiedAgent extends EventEmitter {
       throw new Error(`Tool not found: ${name}`);
     }
 
+    // 参数校验 (与 ToolRegistry 使用同一 JSON Schema 校验器)
+    const validation = validateSchema(tool.parameters as JsonSchema, args ?? {});
+    if (!validation.valid) {
+      throw new Error(`Invalid arguments for tool "${name}": ${formatSchemaErrors(validation.errors)}`);
+    }
+
     // 预测表现
     const prediction = this.bayesian.predictPerformance(name);
     
@@ -1181,6 +1543,20 @@ export class UnifiedAgent extends EventEmitter {
   /** 注册工具 */
   registerTool(tool: ToolSkill): void {
     this.tools.set(tool.name, tool);
+
+    // 同步到工具注册表，供模型调用
+    this.toolRegistry.register({
+      name: tool.name,
+      description: tool.description,
+      parameters: {
+        type: 'object',
+        properties: {},
+        ...tool.parameters,
+      } as ParameterSchema,
+      execute: (args) => tool.execute(args),
+      category: 'skill',
+      ...(tool.permissionLevel ? { permissionLevel: tool.permissionLevel } : {}),
+    });
     
     // 初始化贝叶斯信念
     this.bayesian.getOrCreateCapability(tool.name);
@@ -1193,6 +1569,533 @@ export class UnifiedAgent extends EventEmitter {
     return Array.from(this.tools.values());
   }
 
+  // ==========================================================================
+  // 对话循环
+  // ==========================================================================
+
+  /**
+   * 对话 - 组装提示词，调用模型，执行工具调用并回填结果，
+   * 直到模型给出最终回答或达到最大迭代次数
+   */
+  async chat(sessionId: string, message: string, options: ChatOptions = {}): Promise<ChatResult> {
+    const state = await this.beginTurn(sessionId, message, options);
+    const control = new AbortController();
+    this.activeStreams.set(sessionId, control);
+
+    try {
+      while (state.iterations < state.maxIterations) {
+        state.iterations++;
+        const completion = await this.modelEngine!.complete(
+          [...state.messages],
+          state.tools.length > 0 ? state.tools : undefined,
+          { sessionId, loopId: state.loopId, capability: state.capability, signal: control.signal }
+        );
+        this.addUsage(state.usage, completion.usage);
+        state.content = completion.content;
+        if (completion.metadata?.routing) {
+          state.routing.push(completion.metadata.routing);
+        }
+
+        if (!completion.toolCalls || completion.toolCalls.length === 0) {
+          this.pushMessage(state, { role: 'assistant', content: completion.content });
+          state.finishReason = completion.finishReason;
+          break;
+        }
+
+        this.pushMessage(state, {
+          role: 'assistant',
+          content: completion.content,
+          tool_calls: completion.toolCalls,
+        });
+
+        for (const call of completion.toolCalls) {
+          const record = await this.executeToolCall(sessionId, call);
+          this.pushToolResult(state, record);
+        }
+      }
+    } finally {
+      if (this.activeStreams.get(sessionId) === control) {
+        this.activeStreams.delete(sessionId);
+      }
+    }
+
+    return this.finishTurn(state);
+  }
+
+  /**
+   * 流式对话 - 与 chat 相同的工具调用循环，但逐步产出 token、
+   * 工具开始/结束事件以及最终结果，可通过 cancelChat 中断
+   */
+  async *chatStream(
+    sessionId: string,
+    message: string,
+    options: ChatOptions = {}
+  ): AsyncGenerator<ChatStreamEvent, ChatResult, unknown> {
+    const state = await this.beginTurn(sessionId, message, options);
+    const control = new AbortController();
+    this.activeStreams.set(sessionId, control);
+
+    try {
+      while (state.iterations < state.maxIterations && !control.signal.aborted) {
+        state.iterations++;
+        const pending = new Map<number, ToolCall>();
+        let content = '';
+        let finishReason: string | null = null;
+
+        try {
+          for await (const chunk of this.modelEngine!.stream(
+            [...state.messages],
+            state.tools.length > 0 ? state.tools : undefined,
+            { sessionId, loopId: state.loopId, capability: state.capability, signal: control.signal }
+          )) {
+            if (control.signal.aborted) {
+              break;
+            }
+            if (chunk.content) {
+              content += chunk.content;
+              yield { type: 'token', sessionId, content: chunk.content };
+            }
+            if (chunk.toolCalls) {
+              this.mergeToolCallDeltas(pending, chunk.toolCalls, state.iterations);
+            }
+            if (chunk.usage) {
+              this.addUsage(state.usage, chunk.usage);
+            }
+            if (chunk.finishReason) {
+              finishReason = chunk.finishReason;
+            }
+            if (chunk.metadata?.routing) {
+              state.routing.push(chunk.metadata.routing);
+            }
+          }
+        } catch (error) {
+          if (!control.signal.aborted) {
+            throw error;
+          }
+        }
+
+        state.content = content;
+        const toolCalls = Array.from(pending.values());
+
+        if (control.signal.aborted || toolCalls.length === 0) {
+          if (content) {
+            this.pushMessage(state, { role: 'assistant', content });
+          }
+          state.finishReason = control.signal.aborted ? 'aborted' : finishReason ?? 'stop';
+          break;
+        }
+
+        this.pushMessage(state, { role: 'assistant', content, tool_calls: toolCalls });
+
+        for (const call of toolCalls) {
+          yield {
+            type: 'tool_start',
+            sessionId,
+            id: call.id,
+            name: call.function.name,
+            args: this.parseToolArguments(call) ?? {},
+          };
+          const record = await this.executeToolCall(sessionId, call);
+          this.pushToolResult(state, record);
+          yield { type: 'tool_end', sessionId, id: record.id, name: record.name, result: record.result };
+        }
+      }
+    } finally {
+      if (this.activeStreams.get(sessionId) === control) {
+        this.activeStreams.delete(sessionId);
+      }
+    }
+
+    const result = await this.finishTurn(state);
+    yield { type: 'final', sessionId, result };
+    return result;
+  }
+
+  /** 取消会话中正在进行的对话 (只中止该会话的模型请求) */
+  cancelChat(sessionId: string): boolean {
+    const control = this.activeStreams.get(sessionId);
+    if (!control) {
+      return false;
+    }
+
+    control.abort();
+    this.confirmationBroker?.cancelSession(sessionId, 'Chat cancelled');
+    this.emit('chatCancelled', { sessionId });
+    return true;
+  }
+
+  /** 获取会话历史 */
+  getChatHistory(sessionId: string): Message[] {
+    return [...(this.sessions.get(sessionId) ?? [])];
+  }
+
+  /** 清除会话历史 (配置会话存储时同时删除持久化的会话) */
+  clearChatSession(sessionId: string): boolean {
+    if (this.sessionStore) {
+      this.sessionStore.deleteSession(sessionId)
+        .catch(error => this.emit('sessionPersistFailed', { sessionId, error }));
+    }
+    this.promptAssembler?.clearConversation(sessionId);
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * 加载会话历史：优先使用内存缓存，会话恢复时从会话存储读取摘要与摘要之后的最近消息
+   */
+  private async loadHistory(sessionId: string): Promise<Message[]> {
+    const cached = this.sessions.get(sessionId);
+    if (cached || !this.sessionStore) {
+      return cached ?? [];
+    }
+
+    const session = await this.sessionStore.getSession(sessionId);
+    if (!session) {
+      return [];
+    }
+    if (session.status === 'archived') {
+      throw new UnifiedAgentError(`Session is archived: ${sessionId}`, 'SESSION_ARCHIVED');
+    }
+
+    let limit = this.config.conversation?.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
+    const persisted = session.context[SESSION_SUMMARY_KEY] as PersistedConversationSummary | undefined;
+    if (persisted && this.promptAssembler) {
+      this.promptAssembler.restoreConversation(sessionId, persisted.summary);
+      limit = Math.min(limit, session.messageCount - persisted.summarizedMessages);
+    }
+
+    const history = limit > 0 ? await this.sessionStore.getRecentMessages(sessionId, limit) : [];
+    this.sessions.set(sessionId, history);
+    this.emit('sessionResumed', { sessionId, messages: history.length, summarized: persisted !== undefined });
+    return history;
+  }
+
+  /**
+   * 构建系统上下文 (系统/自我/记忆提示词) 并将对话历史放入剩余预算
+   *
+   * 有提示词组装器时，超出预算的较早轮次被摘要进记忆段，最近轮次原样保留
+   */
+  private async buildContext(
+    sessionId: string,
+    message: string,
+    history: Message[]
+  ): Promise<{ context: Message[]; history: Message[] }> {
+    if (!this.promptAssembler) {
+      return {
+        context: [{
+          role: 'system',
+          content: this.config.conversation?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+        }],
+        history,
+      };
+    }
+
+    // 模型变化时 (updateConfig 或路由切换) 重新计算分词与各段预算
+    const model = this.currentModel();
+    if (model) {
+      this.promptAssembler.setModel(model, this.config.conversation?.maxContextWindow);
+    }
+
+    // 记忆提示词在切换会话时从会话存储加载最近轮次
+    await this.promptAssembler.getMemoryManager().updateContext({ sessionId });
+    const recent = await this.memory.search('', { type: 'episodic', limit: 5 });
+    const retrieved = await this.memory.search(message, { limit: 5 });
+
+    const assembled = await this.promptAssembler.assembleConversation({
+      sessionId,
+      history,
+      userMessage: message,
+      recentMemories: recent.map(m => ({
+        timestamp: m.timestamp,
+        type: m.type,
+        content: m.content,
+        importance: m.importance,
+      })),
+      retrievedMemories: retrieved.map(m => ({
+        relevance: m.importance,
+        memory: m.content,
+        source: m.type,
+      })),
+    });
+
+    // 用户消息作为独立的 user 消息发送，不放入系统提示词
+    const content = assembled.prompt.segments
+      .filter(s => s.type !== PromptType.MEMORY || s.mutable)
+      .map(s => s.content)
+      .join('\n\n');
+
+    return { context: [{ role: 'system', content }], history: assembled.history };
+  }
+
+  /** 以模型压缩较早的对话轮次 (用量计入所属会话) */
+  private async summarizeConversation(
+    sessionId: string,
+    messages: ConversationMessage[],
+    previous?: string
+  ): Promise<string> {
+    if (!this.modelEngine) {
+      throw new UnifiedAgentError('Model engine is not configured', 'MODEL_NOT_CONFIGURED');
+    }
+
+    const transcript = formatTranscript(messages);
+    const result = await this.modelEngine.complete([
+      { role: 'system', content: CONVERSATION_SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: previous
+          ? `Summary so far:\n${previous}\n\nNew messages:\n${transcript}`
+          : transcript,
+      },
+    ], undefined, { sessionId });
+    return result.content.trim();
+  }
+
+  /** 开始一轮对话：校验输入并准备消息上下文 */
+  private async beginTurn(sessionId: string, message: string, options: ChatOptions): Promise<ChatTurnState> {
+    if (!this.modelEngine) {
+      throw new UnifiedAgentError('Model engine is not configured', 'MODEL_NOT_CONFIGURED');
+    }
+
+    const safety = this.safety.verifyInput(message);
+    if (!safety.approved) {
+      throw new UnifiedAgentError(safety.reason || 'Input rejected', 'INPUT_REJECTED');
+    }
+
+    if (options.userId && this.sessionStore) {
+      // 会话归属决定工具调用的身份，须在本轮消息写入 (隐式建会话) 之前确定
+      const session = await this.sessionStore.getSession(sessionId);
+      if (!session) {
+        await this.sessionStore.createSession({ id: sessionId, userId: options.userId });
+      } else if (session.userId !== options.userId) {
+        throw new UnifiedAgentError(`Session belongs to another user: ${sessionId}`, 'SESSION_FORBIDDEN');
+      }
+    }
+
+    const turn: Message[] = [{ role: 'user', content: message }];
+    // 当前用户消息参与预算计算，并始终原样保留
+    const { context, history } = await this.buildContext(
+      sessionId,
+      message,
+      [...(await this.loadHistory(sessionId)), ...turn]
+    );
+    this.sessions.set(sessionId, history.slice(0, -turn.length));
+
+    return {
+      sessionId,
+      loopId: crypto.randomUUID(),
+      userMessage: message,
+      startTime: Date.now(),
+      maxIterations: this.config.conversation?.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS,
+      messages: [...context, ...history],
+      turn,
+      tools: this.toolRegistry.toOpenAIFormat(),
+      toolCalls: [],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      content: '',
+      finishReason: 'max_iterations',
+      iterations: 0,
+      routing: [],
+      capability: CONVERSATION_CAPABILITY,
+    };
+  }
+
+  /** 结束一轮对话：写入历史与记忆 */
+  private async finishTurn(state: ChatTurnState): Promise<ChatResult> {
+    const { sessionId } = state;
+
+    if (state.finishReason === 'max_iterations') {
+      this.emit('chatIterationLimit', { sessionId, iterations: state.iterations });
+    }
+    // 未在迭代上限内得到回答视为对话失败；主动取消不计入
+    if (state.finishReason !== 'aborted') {
+      this.bayesian.updateConfidence(CONVERSATION_CAPABILITY, state.finishReason !== 'max_iterations');
+    }
+
+    this.appendHistory(sessionId, state.turn);
+    await this.persistTurn(sessionId, state.turn);
+
+    await this.memory.store(
+      `User: ${state.userMessage}\nAssistant: ${state.content}`,
+      'episodic',
+      { importance: 0.6, tags: ['conversation', sessionId] }
+    );
+
+    const result: ChatResult = {
+      sessionId,
+      content: state.content,
+      toolCalls: state.toolCalls,
+      iterations: state.iterations,
+      finishReason: state.finishReason,
+      usage: state.usage,
+      latencyMs: Date.now() - state.startTime,
+      routing: state.routing.length > 0 ? state.routing : undefined,
+    };
+
+    this.emit('chatCompleted', result);
+    return result;
+  }
+
+  private pushMessage(state: ChatTurnState, message: Message): void {
+    state.messages.push(message);
+    state.turn.push(message);
+  }
+
+  private pushToolResult(state: ChatTurnState, record: ChatToolCallRecord): void {
+    state.toolCalls.push(record);
+    state.capability = record.name;
+    this.pushMessage(state, {
+      role: 'tool',
+      tool_call_id: record.id,
+      content: JSON.stringify(
+        record.result.success ? record.result.data ?? null : { error: record.result.error }
+      ),
+    });
+  }
+
+  private addUsage(total: CompletionResult['usage'], usage: CompletionResult['usage']): void {
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.totalTokens += usage.totalTokens;
+  }
+
+  /** 合并流式返回的工具调用片段 (OpenAI 按 index 分片返回 arguments) */
+  private mergeToolCallDeltas(
+    pending: Map<number, ToolCall>,
+    deltas: ToolCall[],
+    iteration: number
+  ): void {
+    deltas.forEach((delta, position) => {
+      const index = (delta as ToolCall & { index?: number }).index ?? position;
+      const rawArgs = delta.function?.arguments;
+      const args = typeof rawArgs === 'string' ? rawArgs : rawArgs ? JSON.stringify(rawArgs) : '';
+      const existing = pending.get(index);
+
+      if (!existing) {
+        pending.set(index, {
+          id: delta.id || `call_${iteration}_${index}`,
+          type: 'function',
+          function: { name: delta.function?.name || '', arguments: args },
+        });
+        return;
+      }
+
+      if (delta.id) existing.id = delta.id;
+      if (delta.function?.name) existing.function.name = delta.function.name;
+      existing.function.arguments += args;
+    });
+  }
+
+  /** 解析工具调用参数，无法解析时返回 null */
+  private parseToolArguments(call: ToolCall): Record<string, unknown> | null {
+    const raw = call.function.arguments as unknown;
+    if (!raw) {
+      return {};
+    }
+    if (typeof raw === 'object') {
+      return raw as Record<string, unknown>;
+    }
+
+    try {
+      return JSON.parse(raw as string);
+    } catch {
+      return null;
+    }
+  }
+
+  /** 执行模型返回的单个工具调用 */
+  private async executeToolCall(sessionId: string, call: ToolCall): Promise<ChatToolCallRecord> {
+    const name = call.function.name;
+    const args = this.parseToolArguments(call);
+
+    if (!args) {
+      return {
+        id: call.id,
+        name,
+        args: {},
+        result: {
+          success: false,
+          error: `Invalid JSON arguments for tool "${name}"`,
+          durationMs: 0,
+        },
+      };
+    }
+
+    // 工具以会话所属用户的身份调用，无用户时视为匿名
+    const session = this.sessionStore ? await this.sessionStore.getSession(sessionId) : null;
+    let result: ToolResult;
+    try {
+      result = await this.toolRegistry.execute(name, args, {
+        context: { sessionId, userId: session?.userId, source: 'agent' },
+      });
+    } catch (error) {
+      if (!(error instanceof SecurityError)) {
+        throw error;
+      }
+      result = {
+        success: false,
+        error: `Permission denied: ${error.message}`,
+        durationMs: 0,
+        metadata: { code: error.code },
+      };
+    }
+
+    this.bayesian.updateConfidence(name, result.success);
+    if (result.success) {
+      this.hormoneSystem.adjustHormone(HormoneType.DOPAMINE, 0.1, 'tool_success');
+    }
+
+    const record: ChatToolCallRecord = { id: call.id, name, args, result };
+    this.emit('chatToolCall', { sessionId, ...record });
+    return record;
+  }
+
+  /** 持久化本轮消息；写入失败不影响已得到的回复 */
+  private async persistTurn(sessionId: string, turn: Message[]): Promise<void> {
+    if (!this.sessionStore) return;
+
+    try {
+      await this.sessionStore.appendMessages(sessionId, turn);
+      await this.persistSummary(sessionId);
+    } catch (error) {
+      this.emit('sessionPersistFailed', { sessionId, error });
+    }
+  }
+
+  /**
+   * 将对话摘要写入会话上下文：内存中保留的历史之前的消息都已并入摘要
+   */
+  private async persistSummary(sessionId: string): Promise<void> {
+    const summary = this.promptAssembler?.getConversationSummary(sessionId);
+    const session = summary ? await this.sessionStore!.getSession(sessionId) : null;
+    if (!summary || !session) return;
+
+    const retained = this.sessions.get(sessionId)?.length ?? 0;
+    const next: PersistedConversationSummary = {
+      summary,
+      summarizedMessages: Math.max(0, session.messageCount - retained),
+    };
+    const current = session.context[SESSION_SUMMARY_KEY] as PersistedConversationSummary | undefined;
+    if (current?.summary === next.summary && current.summarizedMessages === next.summarizedMessages) {
+      return;
+    }
+
+    await this.sessionStore!.updateSession(sessionId, {
+      context: { ...session.context, [SESSION_SUMMARY_KEY]: next },
+    });
+  }
+
+  /** 追加会话历史并裁剪 */
+  private appendHistory(sessionId: string, turn: Message[]): void {
+    const limit = this.config.conversation?.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
+    const history = [...(this.sessions.get(sessionId) ?? []), ...turn].slice(-limit);
+
+    // 避免以孤立的工具结果开头
+    while (history.length > 0 && history[0].role === 'tool') {
+      history.shift();
+    }
+
+    this.sessions.set(sessionId, history);
+  }
+
   /** 提交人类交互 */
   submitHumanInteraction(task: Omit<Task, 'id' | 'createdAt' | 'source' | 'priority'>): Task {
     return this.scheduler.submitHumanInteraction(task);
@@ -1268,6 +2171,7 @@ export class UnifiedAgent extends EventEmitter {
     body: BodySchema;
     memory: ReturnType<LayeredMemory['getStats']>;
     capabilities: BayesianBelief[];
+    usage: ReturnType<UsageLedger['getSnapshot']> | null;
   } {
     return {
       scheduler: this.scheduler.getStatus(),
@@ -1275,6 +2179,7 @@ export class UnifiedAgent extends EventEmitter {
       body: this.bodySchema.getSchema(),
       memory: this.memory.getStats(),
       capabilities: this.bayesian.getAllCapabilities(),
+      usage: this.usageLedger?.getSnapshot() ?? null,
     };
   }
 
@@ -1301,6 +2206,9 @@ export class UnifiedAgent extends EventEmitter {
 
     this.scheduler.stop();
     this.bodySchema.stopAutoUpdate();
+    this.modelEngine?.abort();
+    this.confirmationBroker?.cancelAll('Agent stopped');
+    await this.mcpManager?.disconnectAll();
 
     // 记录停止事件
     await this.memory.store(
@@ -0,0 +1,381 @@
+/**
+ * Conversation Loop Integration Tests
+ * 对话循环集成测试 - 验证模型调用、工具执行与结果回填
+ */
+
+import { jest, describe, beforeEach, afterEach, it, expect } from '@jest/globals';
+import { WebSocket } from 'ws';
+import { UnifiedAgent, UnifiedAgentError } from '../../src/unified-agent';
+import type { ChatStreamEvent } from '../../src/unified-agent';
+import { ModelEngine, createScriptedEngine } from '../../src/execution/model-engine';
+import type { CompletionResult, Message, StreamChunk } from '../../src/execution/model-engine';
+import { WebSocketManager } from '../../src/adapters/websocket';
+
+const completion = (overrides: Partial<CompletionResult> = {}): CompletionResult => ({
+  content: '',
+  finishReason: 'stop',
+  usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  latencyMs: 1,
+  ...overrides,
+});
+
+const toolCallCompletion = (id: string, name: string, args: unknown): CompletionResult =>
+  completion({
+    finishReason: 'tool_calls',
+    toolCalls: [{
+      id,
+      type: 'function',
+      function: { name, arguments: JSON.stringify(args) },
+    }],
+  });
+
+async function* chunks(items: StreamChunk[]): AsyncGenerator<StreamChunk> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe('Conversation Loop Integration', () => {
+  let agent: UnifiedAgent;
+  let engine: ModelEngine;
+  let complete: jest.SpiedFunction<ModelEngine['complete']>;
+  const addExecute = jest.fn(async (args: unknown) => {
+    const { a, b } = args as { a: number; b: number };
+    return { sum: a + b };
+  });
+
+  beforeEach(() => {
+    engine = new ModelEngine({ provider: 'ollama', model: 'test-model' });
+    complete = jest.spyOn(engine, 'complete');
+
+    agent = new UnifiedAgent({
+      scheduler: { homeostasisEnable: false },
+      reflection: { enabled: false, intervalMs: 60000 },
+      model: engine,
+      conversation: { maxToolIterations: 3 },
+      tools: [{
+        name: 'add',
+        description: 'Add two numbers',
+        parameters: {
+          type: 'object',
+          properties: {
+            a: { type: 'number', description: 'First operand' },
+            b: { type: 'number', description: 'Second operand' },
+          },
+          required: ['a', 'b'],
+        },
+        execute: addExecute,
+      }],
+    });
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+  });
+
+  it('should return the final answer when no tools are called', async () => {
+    complete.mockResolvedValueOnce(completion({ content: 'Hello!' }));
+
+    const result = await agent.chat('s1', 'Hi there');
+
+    expect(result.content).toBe('Hello!');
+    expect(result.iterations).toBe(1);
+    expect(result.finishReason).toBe('stop');
+    expect(result.toolCalls).toHaveLength(0);
+
+    const [messages, tools] = complete.mock.calls[0];
+    expect(messages[0].role).toBe('system');
+    expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'Hi there' });
+    expect(tools?.map(t => t.function.name)).toContain('add');
+  });
+
+  it('should execute tool calls and feed results back to the model', async () => {
+    complete
+      .mockResolvedValueOnce(toolCallCompletion('call_1', 'add', { a: 2, b: 3 }))
+      .mockResolvedValueOnce(completion({ content: 'The sum is 5' }));
+
+    const result = await agent.chat('s1', 'What is 2 + 3?');
+
+    expect(addExecute).toHaveBeenCalledWith({ a: 2, b: 3 });
+    expect(result.content).toBe('The sum is 5');
+    expect(result.iterations).toBe(2);
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0].result.success).toBe(true);
+    expect(result.usage.totalTokens).toBe(30);
+
+    const secondCall = complete.mock.calls[1][0] as Message[];
+    const toolMessage = secondCall.find(m => m.role === 'tool');
+    expect(toolMessage?.tool_call_id).toBe('call_1');
+    expect(JSON.parse(toolMessage!.content)).toEqual({ sum: 5 });
+  });
+
+  it('should report tool failures to the model instead of throwing', async () => {
+    complete
+      .mockResolvedValueOnce(toolCallCompletion('call_1', 'missing_tool', {}))
+      .mockResolvedValueOnce(completion({ content: 'That tool is unavailable' }));
+
+    const result = await agent.chat('s1', 'Use a missing tool');
+
+    expect(result.toolCalls[0].result.success).toBe(false);
+    const toolMessage = (complete.mock.calls[1][0] as Message[]).find(m => m.role === 'tool');
+    expect(JSON.parse(toolMessage!.content).error).toContain('not found');
+  });
+
+  it('should stop at the max iteration guard', async () => {
+    complete.mockResolvedValue(toolCallCompletion('call_x', 'add', { a: 1, b: 1 }));
+    const limitHandler = jest.fn();
+    agent.on('chatIterationLimit', limitHandler);
+
+    const result = await agent.chat('s1', 'Loop forever');
+
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(result.iterations).toBe(3);
+    expect(result.finishReason).toBe('max_iterations');
+    expect(limitHandler).toHaveBeenCalledWith({ sessionId: 's1', iterations: 3 });
+  });
+
+  it('should keep history per session', async () => {
+    complete
+      .mockResolvedValueOnce(completion({ content: 'First answer' }))
+      .mockResolvedValueOnce(completion({ content: 'Second answer' }));
+
+    await agent.chat('s1', 'First question');
+    await agent.chat('s1', 'Second question');
+
+    const secondCall = complete.mock.calls[1][0] as Message[];
+    expect(secondCall.map(m => m.content)).toEqual(
+      expect.arrayContaining(['First question', 'First answer', 'Second question'])
+    );
+    expect(agent.getChatHistory('s1')).toHaveLength(4);
+    expect(agent.getChatHistory('s2')).toHaveLength(0);
+  });
+
+  it('should route the chat command through handleCommand', async () => {
+    complete.mockResolvedValueOnce(completion({ content: 'pong' }));
+
+    const result = await agent.handleCommand('chat', ['s1', 'ping', 'please']);
+
+    expect((result as { content: string }).content).toBe('pong');
+    expect(complete.mock.calls[0][0].at(-1)?.content).toBe('ping please');
+  });
+
+  it('should run the tool loop offline with the scripted provider', async () => {
+    const scripted = new UnifiedAgent({
+      scheduler: { homeostasisEnable: false },
+      model: createScriptedEngine([
+        { toolCalls: [{ id: 'c1', type: 'function', function: { name: 'add', arguments: '{"a":4,"b":5}' } }] },
+        (request) => ({ content: `Result: ${request.messages[request.messages.length - 1].content}` }),
+      ]),
+      tools: [{
+        name: 'add',
+        description: 'Add two numbers',
+        parameters: { type: 'object', properties: {} },
+        execute: addExecute,
+      }],
+    });
+
+    const result = await scripted.chat('offline', 'Add 4 and 5');
+
+    expect(result.content).toBe('Result: {"sum":9}');
+    expect(result.iterations).toBe(2);
+    await scripted.stop();
+  });
+
+  it('should throw when no model is configured', async () => {
+    const bare = new UnifiedAgent({ scheduler: { homeostasisEnable: false } });
+
+    await expect(bare.chat('s1', 'hello')).rejects.toThrow(UnifiedAgentError);
+    await bare.stop();
+  });
+
+  // ============================================================================
+  // 流式对话
+  // ============================================================================
+
+  describe('Streaming', () => {
+    let stream: jest.SpiedFunction<ModelEngine['stream']>;
+
+    beforeEach(() => {
+      stream = jest.spyOn(engine, 'stream');
+    });
+
+    const collect = async (iterable: AsyncIterable<ChatStreamEvent>): Promise<ChatStreamEvent[]> => {
+      const events: ChatStreamEvent[] = [];
+      for await (const event of iterable) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    it('should stream tokens, tool events and a final message', async () => {
+      stream
+        .mockImplementationOnce(() => chunks([
+          { toolCalls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'add', arguments: '{"a":2,' } } as never] },
+          { toolCalls: [{ index: 0, function: { arguments: '"b":3}' } } as never] },
+          { finishReason: 'tool_calls' },
+        ]))
+        .mockImplementationOnce(() => chunks([
+          { content: 'The sum ' },
+          { content: 'is 5' },
+          { finishReason: 'stop' },
+        ]));
+
+      const events = await collect(agent.chatStream('s1', 'What is 2 + 3?'));
+
+      expect(events.map(e => e.type)).toEqual(['tool_start', 'tool_end', 'token', 'token', 'final']);
+      expect(events[0]).toMatchObject({ type: 'tool_start', name: 'add', args: { a: 2, b: 3 } });
+      expect(addExecute).toHaveBeenCalledWith({ a: 2, b: 3 });
+
+      const final = events[4] as Extract<ChatStreamEvent, { type: 'final' }>;
+      expect(final.result.content).toBe('The sum is 5');
+      expect(final.result.finishReason).toBe('stop');
+      expect(agent.getChatHistory('s1').map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    });
+
+    it('should cancel only the in-flight stream of the given session', async () => {
+      const abort = jest.spyOn(engine, 'abort');
+      const signals: Record<string, AbortSignal | undefined> = {};
+      stream.mockImplementation((_messages, _tools, options) => {
+        signals[options!.sessionId!] = options!.signal;
+        return chunks([{ content: 'Hel' }, { content: 'lo' }, { content: ' world' }]);
+      });
+
+      const other = agent.chatStream('s2', 'Say hello');
+      expect((await other.next()).value).toMatchObject({ type: 'token', content: 'Hel' });
+
+      const events: ChatStreamEvent[] = [];
+      for await (const event of agent.chatStream('s1', 'Say hello')) {
+        events.push(event);
+        if (event.type === 'token') {
+          expect(agent.cancelChat('s1')).toBe(true);
+        }
+      }
+
+      expect(abort).not.toHaveBeenCalled();
+      expect(signals.s1?.aborted).toBe(true);
+      expect(signals.s2?.aborted).toBe(false);
+      expect(events.filter(e => e.type === 'token')).toHaveLength(1);
+      const final = events[events.length - 1] as Extract<ChatStreamEvent, { type: 'final' }>;
+      expect(final.result.finishReason).toBe('aborted');
+      expect(final.result.content).toBe('Hel');
+      expect(agent.cancelChat('s1')).toBe(false);
+
+      const rest = await collect(other);
+      const otherFinal = rest[rest.length - 1] as Extract<ChatStreamEvent, { type: 'final' }>;
+      expect(otherFinal.result.content).toBe('Hello world');
+    });
+
+    it('should abort a non-streaming turn through its own signal', async () => {
+      complete.mockImplementationOnce(async (_messages, _tools, options) => {
+        agent.cancelChat('s1');
+        expect(options?.signal?.aborted).toBe(true);
+        throw new Error('Model request aborted');
+      });
+
+      await expect(agent.chat('s1', 'Hi')).rejects.toThrow('Model request aborted');
+      expect(agent.cancelChat('s1')).toBe(false);
+    });
+
+    it('should deliver events over the per-session WebSocket channel', async () => {
+      stream.mockImplementationOnce(() => chunks([{ content: 'Hi' }, { finishReason: 'stop' }]));
+
+      const wsManager = new WebSocketManager();
+      wsManager.enableChatStreaming(agent);
+
+      const sent: Array<{ type: string; payload: any }> = [];
+      const done = new Promise<void>((resolve) => {
+        const socket = {
+          readyState: WebSocket.OPEN,
+          send: (data: string) => {
+            const message = JSON.parse(data);
+            sent.push(message);
+            if (message.type === 'chat_final') resolve();
+          },
+        };
+        const connection = {
+          id: 'conn_1',
+          socket,
+          connectedAt: Date.now(),
+          lastPing: Date.now(),
+          isAlive: true,
+          metadata: {},
+          subscriptions: new Set<string>(),
+          userId: null,
+        };
+        // 直接注入连接，避免真实握手 (crypto 在测试环境中被 mock)
+        (wsManager as any).connections.set(connection.id, connection);
+        (wsManager as any).handleMessage(
+          Buffer.from(JSON.stringify({ type: 'chat', payload: { sessionId: 'ws1', message: 'Hello' } })),
+          connection
+        );
+      });
+
+      await done;
+
+      expect(sent.map(m => m.type)).toEqual(['chat_token', 'chat_final']);
+      expect(sent[0].payload).toEqual({ type: 'token', sessionId: 'ws1', content: 'Hi' });
+      expect(sent[1].payload.result.content).toBe('Hi');
+      expect(wsManager.getStats().channels).toEqual({ 'chat:ws1': 1 });
+    });
+
+    it('should only let a connection use sessions it owns', async () => {
+      const wsManager = new WebSocketManager();
+      wsManager.enableChatStreaming(agent, {
+        getSession: async (id: string) => (id === 'alice-session' ? { userId: 'alice' } : id === 'stored' ? {} : null),
+      });
+
+      const received = new Map<string, Array<{ type: string; payload: any }>>();
+      const connect = (id: string, userId: string | null) => {
+        received.set(id, []);
+        const connection = {
+          id,
+          socket: { readyState: WebSocket.OPEN, send: (data: string) => received.get(id)!.push(JSON.parse(data)) },
+          connectedAt: Date.now(),
+          lastPing: Date.now(),
+          isAlive: true,
+          metadata: {},
+          subscriptions: new Set<string>(),
+          userId,
+        };
+        (wsManager as any).connections.set(id, connection);
+        return (type: string, payload: unknown) =>
+          (wsManager as any).handleMessage(Buffer.from(JSON.stringify({ type, payload })), connection);
+      };
+      const nextMessage = async (id: string, type: string) => {
+        for (let i = 0; i < 100; i++) {
+          const found = received.get(id)!.find(m => m.type === type);
+          if (found) return found;
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        throw new Error(`No ${type} for ${id}`);
+      };
+
+      const first = connect('conn_1', null);
+      const second = connect('conn_2', null);
+      const alice = connect('conn_3', 'alice');
+
+      first('subscribe', ['chat:mine']);
+      expect((await nextMessage('conn_1', 'subscribed')).payload.channels).toEqual(['chat:mine']);
+
+      second('subscribe', ['chat:mine', 'chat:stored', 'chat:alice-session', 'status']);
+      expect((await nextMessage('conn_2', 'subscribed')).payload).toEqual({
+        channels: ['status'],
+        denied: ['chat:mine', 'chat:stored', 'chat:alice-session'],
+      });
+      second('chat', { sessionId: 'mine', message: 'Hello' });
+      expect((await nextMessage('conn_2', 'chat_error')).payload.message).toContain('not accessible');
+      second('chat_cancel', { sessionId: 'mine' });
+      expect((await nextMessage('conn_2', 'chat_cancelled')).payload.cancelled).toBe(false);
+
+      alice('subscribe', ['chat:alice-session']);
+      expect((await nextMessage('conn_3', 'subscribed')).payload.channels).toEqual(['chat:alice-session']);
+
+      // 断开后释放占用的新会话
+      (wsManager as any).handleDisconnect('conn_1', 1000, Buffer.from(''));
+      second('subscribe', ['chat:mine']);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(wsManager.getConnectionInfo('conn_2')!.subscriptions.has('chat:mine')).toBe(true);
+      expect(stream).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * 滚动对话摘要 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptAssembler } from '../../../src/cognitive/soft-self-reference';
+import {
+  ConversationSummarizer,
+  countMessageTokens,
+} from '../../../src/cognitive/conversation-summary';
+import type {
+  ConversationMessage,
+  SummarizeFunction,
+} from '../../../src/cognitive/conversation-summary';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import type { ScriptedProvider } from '../../../src/execution/providers/index';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+function createAssembler(maxTokens: number): PromptAssembler {
+  return new PromptAssembler(
+    {
+      nodeVersion: 'v18.0.0',
+      platform: 'linux',
+      arch: 'x64',
+      safetyRules: [],
+      forbiddenActions: [],
+    },
+    path.join(os.tmpdir(), `ouroboros-summary-${Date.now()}.json`),
+    maxTokens
+  );
+}
+
+/** 生成一轮合成对话 (长度随轮次变化) */
+function syntheticTurn(i: number): ConversationMessage[] {
+  return [
+    { role: 'user', content: `Question ${i}: ${'details '.repeat(5 + (i % 17) * 4)}` },
+    { role: 'assistant', content: `Answer ${i}: ${'reasoning '.repeat(10 + (i % 11) * 6)}` },
+  ];
+}
+
+describe('ConversationSummarizer', () => {
+  it('未超出预算时应该原样返回历史', async () => {
+    const summarize = jest.fn<SummarizeFunction>();
+    const summarizer = new ConversationSummarizer({ summarize, countTokens });
+    const messages = syntheticTurn(1);
+
+    const result = await summarizer.compact('s1', messages, 10_000);
+
+    expect(result.messages).toBe(messages);
+    expect(result.summarizedCount).toBe(0);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('应该摘要较早的消息并保留最近消息原文', async () => {
+    const summarize = jest.fn<SummarizeFunction>(async messages => `summary of ${messages.length}`);
+    const onSummary = jest.fn();
+    const summarizer = new ConversationSummarizer({ summarize, countTokens, onSummary });
+    const messages = Array.from({ length: 10 }, (_, i) => syntheticTurn(i)).flat();
+
+    const result = await summarizer.compact('s1', messages, 300);
+
+    expect(result.summarizedCount).toBeGreaterThan(0);
+    expect(result.messages).toEqual(messages.slice(result.summarizedCount));
+    expect(result.summary).toBe(`summary of ${result.summarizedCount}`);
+    expect(result.tokens).toBeLessThanOrEqual(300);
+    expect(onSummary).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 's1',
+      summarizedCount: result.summarizedCount,
+    }));
+
+    // 下一次摘要应该带上上一次的摘要
+    await summarizer.compact('s1', [...result.messages, ...syntheticTurn(10), ...syntheticTurn(11)], 300);
+    expect(summarize.mock.calls[1][1]).toBe(result.summary);
+    expect(summarize.mock.calls[1][2]).toBe('s1');
+  });
+
+  it('应该截断超出摘要预算的摘要', async () => {
+    const summarizer = new ConversationSummarizer({
+      summarize: async () => 'x'.repeat(10_000),
+      countTokens,
+      summaryShare: 0.25,
+    });
+    const messages = Array.from({ length: 20 }, (_, i) => syntheticTurn(i)).flat();
+
+    const result = await summarizer.compact('s1', messages, 400);
+
+    expect(countTokens(result.summary ?? '')).toBeLessThanOrEqual(100);
+    expect(result.tokens).toBeLessThanOrEqual(400);
+  });
+
+  it('保留的最近消息不应该以工具结果开头', async () => {
+    const summarizer = new ConversationSummarizer({ summarize: async () => 'summary', countTokens });
+    const messages: ConversationMessage[] = [
+      { role: 'user', content: 'a'.repeat(400) },
+      {
+        role: 'assistant',
+        content: 'b'.repeat(400),
+        tool_calls: [{ id: 'c1', type: 'function', function: { name: 'echo', arguments: '{}' } }],
+      },
+      { role: 'tool', content: 'ok', tool_call_id: 'c1' },
+      { role: 'assistant', content: 'done' },
+    ];
+
+    const result = await summarizer.compact('s1', messages, 60);
+
+    expect(result.messages.map(m => m.role)).toEqual(['assistant']);
+    expect(result.messages[0].content).toBe('done');
+  });
+});
+
+describe('PromptAssembler.assembleConversation', () => {
+  it('长对话中组装的提示词始终不超出预算', async () => {
+    const assembler = createAssembler(2048);
+    const summarize = jest.fn<SummarizeFunction>(async (messages, previous) =>
+      `${previous ?? ''} ${messages.map(m => m.content.slice(0, 40)).join(' | ')}`.trim()
+    );
+    assembler.setSummarizer(summarize);
+    const budget = assembler.getBudgetManager().getBudget();
+    const limit = budget.maxTotal - budget.reserve;
+
+    let history: ConversationMessage[] = [];
+    for (let i = 0; i < 200; i++) {
+      const [question, answer] = syntheticTurn(i);
+      const result = await assembler.assembleConversation({
+        sessionId: 's1',
+        history: [...history, question],
+        userMessage: question.content,
+        recentMemories: [],
+        retrievedMemories: [],
+      });
+
+      expect(result.prompt.totalTokens + result.historyTokens).toBeLessThanOrEqual(limit);
+      expect(result.historyTokens).toBe(
+        countMessageTokens(result.history, text => assembler.getBudgetManager().countTokens(text))
+      );
+      // 当前用户消息始终原样保留
+      expect(result.history[result.history.length - 1]).toEqual(question);
+
+      history = [...result.history, answer];
+    }
+
+    expect(summarize).toHaveBeenCalled();
+  });
+
+  it('摘要应该作为记忆段加入提示词', async () => {
+    const assembler = createAssembler(2048);
+    assembler.setSummarizer(async () => 'The user prefers PostgreSQL.');
+    const summarized = jest.fn();
+    assembler.on('conversationSummarized', summarized);
+
+    const result = await assembler.assembleConversation({
+      sessionId: 's1',
+      history: Array.from({ length: 40 }, (_, i) => syntheticTurn(i)).flat(),
+      userMessage: 'continue',
+      recentMemories: [],
+      retrievedMemories: [],
+    });
+
+    expect(result.summary).toBe('The user prefers PostgreSQL.');
+    expect(result.prompt.fullPrompt).toContain('### Earlier Conversation (summary)\nThe user prefers PostgreSQL.');
+    expect(result.prompt.optimizations).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^Summarized \d+ earlier messages$/)])
+    );
+    expect(summarized).toHaveBeenCalledTimes(1);
+  });
+
+  it('未启用摘要时应该丢弃最早的消息', async () => {
+    const assembler = createAssembler(2048);
+    const history = Array.from({ length: 40 }, (_, i) => syntheticTurn(i)).flat();
+    const budget = assembler.getBudgetManager().getBudget();
+
+    const result = await assembler.assembleConversation({
+      sessionId: 's1',
+      history,
+      userMessage: 'continue',
+      recentMemories: [],
+      retrievedMemories: [],
+    });
+
+    expect(result.summary).toBeUndefined();
+    expect(result.history).toEqual(history.slice(history.length - result.history.length));
+    expect(result.prompt.totalTokens + result.historyTokens).toBeLessThanOrEqual(budget.maxTotal - budget.reserve);
+  });
+});
+
+describe('UnifiedAgent rolling summary', () => {
+  it('应该将较早轮次摘要为情景记忆', async () => {
+    const script = Array.from({ length: 12 }, (_, i) => ({
+      content: `Answer ${i}: ${'reasoning '.repeat(60)}`,
+    }));
+    const engine = createScriptedEngine([
+      ...script.slice(0, 8),
+      { content: 'Earlier the user asked eight long questions.' },
+      ...script.slice(8),
+    ]);
+    const agent = new UnifiedAgent({
+      model: engine,
+      conversation: {
+        selfConfigPath: path.join(os.tmpdir(), `ouroboros-agent-summary-${Date.now()}.json`),
+        maxContextWindow: 2048,
+      },
+      scheduler: { homeostasisEnable: false },
+    });
+    const summarized = jest.fn();
+    agent.promptAssembler?.on('conversationSummarized', summarized);
+    const complete = jest.spyOn(engine, 'complete');
+
+    try {
+      for (let i = 0; i < 10; i++) {
+        await agent.chat('s1', `Question ${i}: ${'details '.repeat(40)}`);
+      }
+
+      expect(summarized).toHaveBeenCalled();
+      const requests = (engine.getProvider() as ScriptedProvider).getRequests();
+      const summaryRequest = requests.find(r => r.messages[0].content.startsWith('Summarize the conversation'));
+      expect(summaryRequest?.messages[1].content).toContain('user: Question 0');
+      // 摘要调用计入会话用量与预算
+      const summaryCall = complete.mock.calls.find(([messages]) => messages[0].content.startsWith('Summarize the conversation'));
+      expect(summaryCall?.[2]).toEqual({ sessionId: 's1' });
+
+      const memories = await agent.memory.search('', { type: 'episodic', limit: 100 });
+      expect(memories.some(m => m.tags?.includes('summary'))).toBe(true);
+    } finally {
+      await agent.stop();
+    }
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * 模型分词器 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createModelTokenCounter,
+  estimateTokens,
+  getTokenCounter,
+  resolveModelProfile,
+} from '../../../src/cognitive/tokenizer';
+import {
+  PROMPT_TEMPLATES,
+  PromptAssembler,
+  TokenBudgetManager,
+} from '../../../src/cognitive/soft-self-reference';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+function createAssembler(maxTokens: number, model?: string): PromptAssembler {
+  return new PromptAssembler(
+    {
+      nodeVersion: 'v18.0.0',
+      platform: 'linux',
+      arch: 'x64',
+      safetyRules: [],
+      forbiddenActions: [],
+    },
+    path.join(os.tmpdir(), `ouroboros-tokenizer-${Date.now()}.json`),
+    maxTokens,
+    model
+  );
+}
+
+describe('Tokenizer', () => {
+  // ============================================================================
+  // 模型解析
+  // ============================================================================
+  describe('resolveModelProfile', () => {
+    it('应该按模型家族选择编码与上下文窗口', () => {
+      expect(resolveModelProfile('gpt-4o-mini')).toMatchObject({
+        family: 'gpt-4o',
+        encoding: 'o200k_base',
+        contextWindow: 128000,
+        exact: true,
+      });
+      expect(resolveModelProfile('gpt-4')).toMatchObject({ encoding: 'cl100k_base', contextWindow: 8192 });
+      expect(resolveModelProfile('gpt-4-turbo')).toMatchObject({ encoding: 'cl100k_base', contextWindow: 128000 });
+      expect(resolveModelProfile('o3-mini').encoding).toBe('o200k_base');
+    });
+
+    it('应该忽略前缀与 Ollama 标签，并对开源模型标记为近似', () => {
+      expect(resolveModelProfile('openai/GPT-4.1-mini').family).toBe('gpt-4.1');
+      expect(resolveModelProfile('llama3.1:8b')).toMatchObject({
+        family: 'llama-3.1',
+        encoding: 'cl100k_base',
+        contextWindow: 131072,
+        exact: false,
+      });
+      expect(resolveModelProfile('my-local-model')).toMatchObject({
+        family: 'unknown',
+        encoding: 'cl100k_base',
+        contextWindow: 8192,
+        exact: false,
+      });
+    });
+  });
+
+  // ============================================================================
+  // 计数
+  // ============================================================================
+  describe('Counting', () => {
+    it('应该使用离线 BPE 词表计数', () => {
+      expect(getTokenCounter('cl100k_base')('hello world')).toBe(2);
+      expect(getTokenCounter('cl100k_base')('你好，世界')).toBe(6);
+      expect(createModelTokenCounter('gpt-4o')('你好，世界')).toBe(3);
+      expect(createModelTokenCounter('gpt-4o')('')).toBe(0);
+    });
+
+    it('特殊标记应该按普通文本计数', () => {
+      expect(() => getTokenCounter('o200k_base')('<|endoftext|>')).not.toThrow();
+      expect(getTokenCounter('o200k_base')('<|endoftext|>')).toBeGreaterThan(1);
+    });
+
+    it('估算应该按字计数 CJK 文本', () => {
+      expect(estimateTokens('Hello World')).toBe(3);
+      expect(estimateTokens('你好世界')).toBe(4);
+      expect(estimateTokens('你好 world')).toBe(2 + 2);
+    });
+  });
+
+  // ============================================================================
+  // 按模型分配预算
+  // ============================================================================
+  describe('Per-model budgets', () => {
+    it('TokenBudgetManager.forModel 应该使用模型的窗口与分词器', () => {
+      const manager = TokenBudgetManager.forModel('gpt-4o');
+
+      expect(manager.getBudget().maxTotal).toBe(128000);
+      expect(manager.getModelProfile()?.encoding).toBe('o200k_base');
+      expect(manager.countTokens(PROMPT_TEMPLATES.self)).toBe(
+        createModelTokenCounter('gpt-4o')(PROMPT_TEMPLATES.self)
+      );
+      expect(TokenBudgetManager.forModel('gpt-4o', 4096).getBudget().maxTotal).toBe(4096);
+    });
+
+    it('切换模型时应该重新分配各段预算', () => {
+      const assembler = createAssembler(8192, 'gpt-4');
+      const changed = jest.fn();
+      assembler.on('modelChanged', changed);
+      const before = assembler.assemble({ userMessage: '你好', recentMemories: [], retrievedMemories: [] });
+
+      expect(assembler.setModel('gpt-4o')).toBe(true);
+      expect(assembler.setModel('gpt-4o')).toBe(false);
+
+      const budget = assembler.getBudgetManager().getBudget();
+      expect(budget.maxTotal).toBe(128000);
+      expect(changed).toHaveBeenCalledTimes(1);
+      expect(changed).toHaveBeenCalledWith(expect.objectContaining({
+        profile: expect.objectContaining({ model: 'gpt-4o', encoding: 'o200k_base' }),
+        budget,
+      }));
+
+      const after = assembler.assemble({ userMessage: '你好', recentMemories: [], retrievedMemories: [] });
+      expect(after.totalTokens).toBeLessThan(before.totalTokens);
+      expect(after.budgetUsed).toBeLessThan(before.budgetUsed);
+    });
+
+    it('UnifiedAgent 应该在模型变化后重新计算预算', async () => {
+      const engine = createScriptedEngine([{ content: 'one' }, { content: 'two' }], { model: 'gpt-4' });
+      const agent = new UnifiedAgent({
+        model: engine,
+        conversation: { selfConfigPath: path.join(os.tmpdir(), `ouroboros-agent-tokenizer-${Date.now()}.json`) },
+        scheduler: { homeostasisEnable: false },
+      });
+
+      try {
+        await agent.chat('s1', 'hi');
+        expect(agent.promptAssembler?.getBudgetManager().getBudget().maxTotal).toBe(8192);
+
+        engine.updateConfig({ model: 'gpt-4o' });
+        await agent.chat('s1', 'hi again');
+        expect(agent.promptAssembler?.getBudgetManager().getModelProfile()?.encoding).toBe('o200k_base');
+        expect(agent.promptAssembler?.getBudgetManager().getBudget().maxTotal).toBe(128000);
+      } finally {
+        await agent.stop();
+      }
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * 访问控制 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import { SQLiteConnectionPool } from '../../../src/db/connection';
+import { MigrationManager, BUILT_IN_MIGRATIONS } from '../../../src/db/migrations';
+import { AccessControl, AccessControlError } from '../../../src/execution/access-control';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import type { ToolDefinition } from '../../../src/execution/tool-registry';
+import { shellTools } from '../../../src/execution/tools/shell';
+import { SessionStore } from '../../../src/execution/session-store';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import { AuditLogger } from '../../../src/utils/logger';
+import { ErrorCode, SecurityError } from '../../../src/utils/errors';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+/** shell_exec 的定义，执行函数替换为 mock */
+function shellExec(execute = jest.fn(async () => ({ stdout: 'ok' }))): ToolDefinition {
+  const definition = shellTools.find(t => t.name === 'shell_exec')!;
+  return { ...definition, requireConfirmation: false, execute };
+}
+
+describe('AccessControl', () => {
+  let pool: SQLiteConnectionPool;
+  let access: AccessControl;
+  let audit: { access: jest.Mock };
+  let registry: ToolRegistry;
+
+  beforeEach(async () => {
+    pool = new SQLiteConnectionPool({ dbPath: ':memory:', maxConnections: 1 });
+    const migrations = new MigrationManager(pool);
+    migrations.registerMany(BUILT_IN_MIGRATIONS);
+    await migrations.migrate();
+
+    audit = { access: jest.fn() };
+    access = new AccessControl({ pool, auditLogger: audit as unknown as AuditLogger });
+    registry = new ToolRegistry();
+    registry.setAccessControl(access);
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  // ============================================================================
+  // 存储
+  // ============================================================================
+  describe('Store', () => {
+    it('迁移应该预置内置角色', async () => {
+      expect((await access.listRoles()).map(r => [r.name, r.level])).toEqual([
+        ['public', 'public'],
+        ['user', 'user'],
+        ['admin', 'admin'],
+        ['system', 'system'],
+      ]);
+    });
+
+    it('应该管理用户与角色分配', async () => {
+      expect((await access.createUser({ id: 'alice' })).roles).toEqual(['user']);
+      expect((await access.assignRole('alice', 'admin')).roles).toEqual(['admin', 'user']);
+      expect(await access.revokeRole('alice', 'user')).toBe(true);
+      expect((await access.getUser('alice'))?.roles).toEqual(['admin']);
+
+      await expect(access.createUser({ id: 'alice' })).rejects.toMatchObject({ code: 'USER_EXISTS' });
+      await expect(access.assignRole('alice', 'ghost')).rejects.toMatchObject({ code: 'ROLE_NOT_FOUND' });
+      await expect(access.deleteRole('admin')).rejects.toBeInstanceOf(AccessControlError);
+
+      expect(await access.deleteUser('alice')).toBe(true);
+      expect(await access.getUser('alice')).toBeNull();
+    });
+  });
+
+  // ============================================================================
+  // 鉴权
+  // ============================================================================
+  describe('ToolRegistry', () => {
+    it('匿名 Web 调用者不能调用 shell_exec', async () => {
+      const execute = jest.fn(async () => ({ stdout: 'ok' }));
+      registry.register(shellExec(execute));
+      const denied = jest.fn();
+      registry.on('toolDenied', denied);
+
+      const error = await registry
+        .execute('shell_exec', { command: 'id' }, { context: { source: 'user', sessionId: 'web-1' } })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(SecurityError);
+      expect(error.code).toBe(ErrorCode.SEC_FORBIDDEN);
+      expect(error.message).toContain('requires "user" permission');
+      expect(execute).not.toHaveBeenCalled();
+      expect(denied).toHaveBeenCalledTimes(1);
+      expect(audit.access).toHaveBeenCalledWith(
+        'tool.execute',
+        'shell_exec',
+        'anonymous',
+        false,
+        expect.objectContaining({ source: 'user', sessionId: 'web-1', level: 'public', required: 'user' })
+      );
+    });
+
+    it('system 调用 (反思循环) 可以调用 shell_exec', async () => {
+      const execute = jest.fn(async () => ({ stdout: 'ok' }));
+      registry.register(shellExec(execute));
+
+      const result = await registry.execute('shell_exec', { command: 'uptime' }, { context: { source: 'system' } });
+
+      expect(result.success).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(audit.access).not.toHaveBeenCalled();
+    });
+
+    it('应该按用户角色判断，未注册用户视为匿名', async () => {
+      registry.register(shellExec());
+      await access.createUser({ id: 'bob' });
+
+      const bob = await registry.execute('shell_exec', { command: 'ls' }, { context: { source: 'agent', userId: 'bob' } });
+      expect(bob.success).toBe(true);
+
+      await expect(
+        registry.execute('shell_exec', { command: 'ls' }, { context: { source: 'agent', userId: 'mallory' } })
+      ).rejects.toBeInstanceOf(SecurityError);
+    });
+
+    it('deny 授权应该优先于角色级别与 allow 授权', async () => {
+      registry.register(shellExec());
+      await access.createUser({ id: 'carol', roles: ['admin'] });
+      await access.deny('admin', 'shell_exec');
+      await access.grant('admin', '*');
+
+      await expect(
+        registry.execute('shell_exec', { command: 'ls' }, { context: { source: 'user', userId: 'carol' } })
+      ).rejects.toThrow('Role "admin" is denied tool "shell_exec"');
+
+      expect(await access.revokeGrant('admin', 'shell_exec')).toBe(true);
+      expect((await registry.execute('shell_exec', { command: 'ls' }, {
+        context: { source: 'user', userId: 'carol' },
+      })).success).toBe(true);
+    });
+
+    it('allow 授权可以向低级别角色开放单个工具', async () => {
+      registry.register(shellExec());
+      await access.grant('public', 'shell_exec');
+
+      const decision = await access.authorize(registry.get('shell_exec')!, { source: 'user' });
+      expect(decision).toMatchObject({ allowed: true, grant: { role: 'public', effect: 'allow' } });
+      expect((await registry.execute('shell_exec', { command: 'ls' }, { context: { source: 'user' } })).success).toBe(true);
+    });
+
+    it('public 工具对匿名调用者开放', async () => {
+      const execute = jest.fn(async () => 'now');
+      registry.register({
+        name: 'clock',
+        description: 'Current time',
+        permissionLevel: 'public',
+        parameters: { type: 'object', properties: {} },
+        execute,
+      });
+
+      expect((await registry.execute('clock', {}, { context: { source: 'user' } })).success).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // UnifiedAgent
+  // ============================================================================
+  describe('UnifiedAgent', () => {
+    it('应该以会话用户的身份调用工具，拒绝时回填错误结果', async () => {
+      const execute = jest.fn(async () => ({ stdout: 'ok' }));
+      registry.register(shellExec(execute));
+      const sessionStore = new SessionStore({ pool });
+      await access.createUser({ id: 'dave' });
+      await sessionStore.createSession({ id: 'owned', userId: 'dave' });
+
+      const call = { id: 'c1', type: 'function' as const, function: { name: 'shell_exec', arguments: '{"command":"id"}' } };
+      const agent = new UnifiedAgent({
+        model: createScriptedEngine([
+          { toolCalls: [call] },
+          { content: 'Not allowed.' },
+          { toolCalls: [call] },
+          { content: 'Done.' },
+        ]),
+        toolRegistry: registry,
+        sessionStore,
+        accessControl: access,
+        scheduler: { homeostasisEnable: false },
+      });
+
+      try {
+        const anonymous = await agent.chat('anon', 'run id');
+        expect(anonymous.toolCalls[0].result).toMatchObject({
+          success: false,
+          error: expect.stringContaining('Permission denied'),
+          metadata: { code: ErrorCode.SEC_FORBIDDEN },
+        });
+        expect(anonymous.content).toBe('Not allowed.');
+        expect(execute).not.toHaveBeenCalled();
+
+        const owned = await agent.chat('owned', 'run id');
+        expect(owned.toolCalls[0].result.success).toBe(true);
+        expect(execute).toHaveBeenCalledTimes(1);
+      } finally {
+        await agent.stop();
+      }
+    });
+
+    it('带 userId 的对话应该创建归属该用户的会话，不能进入他人的会话', async () => {
+      const execute = jest.fn(async () => ({ stdout: 'ok' }));
+      registry.register(shellExec(execute));
+      const sessionStore = new SessionStore({ pool });
+      await access.createUser({ id: 'erin' });
+      await sessionStore.createSession({ id: 'theirs', userId: 'dave' });
+
+      const call = { id: 'c1', type: 'function' as const, function: { name: 'shell_exec', arguments: '{"command":"id"}' } };
+      const agent = new UnifiedAgent({
+        model: createScriptedEngine([{ toolCalls: [call] }, { content: 'Done.' }]),
+        toolRegistry: registry,
+        sessionStore,
+        accessControl: access,
+        scheduler: { homeostasisEnable: false },
+      });
+
+      try {
+        await expect(agent.chat('theirs', 'run id', { userId: 'erin' })).rejects.toMatchObject({ code: 'SESSION_FORBIDDEN' });
+
+        const created = await agent.chat('fresh', 'run id', { userId: 'erin' });
+        expect(created.toolCalls[0].result.success).toBe(true);
+        expect((await sessionStore.getSession('fresh'))?.userId).toBe('erin');
+      } finally {
+        await agent.stop();
+      }
+    });
+
+    it('匿名 Web 对话应该能调用 public 技能，shell_exec 仍被拒绝', async () => {
+      const shell = jest.fn(async () => ({ stdout: 'ok' }));
+      registry.register(shellExec(shell));
+      const info = jest.fn(async () => ({ platform: 'linux' }));
+
+      const agent = new UnifiedAgent({
+        model: createScriptedEngine([
+          {
+            toolCalls: [
+              { id: 'c1', type: 'function', function: { name: 'system_info', arguments: '{}' } },
+              { id: 'c2', type: 'function', function: { name: 'shell_exec', arguments: '{"command":"id"}' } },
+            ],
+          },
+          { content: 'linux' },
+        ]),
+        tools: [{ name: 'system_info', description: 'Get system information', parameters: {}, permissionLevel: 'public', execute: info }],
+        toolRegistry: registry,
+        sessionStore: new SessionStore({ pool }),
+        accessControl: access,
+        scheduler: { homeostasisEnable: false },
+      });
+
+      try {
+        const response = await agent.chat('web-session', 'what system is this?');
+        const [systemInfo, shellCall] = response.toolCalls;
+        expect(systemInfo.result).toMatchObject({ success: true, data: { platform: 'linux' } });
+        expect(shellCall.result).toMatchObject({ success: false, metadata: { code: ErrorCode.SEC_FORBIDDEN } });
+        expect(info).toHaveBeenCalledTimes(1);
+        expect(shell).not.toHaveBeenCalled();
+      } finally {
+        await agent.stop();
+      }
+    });
+  });
+});
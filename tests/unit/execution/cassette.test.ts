@@ -0,0 +1,188 @@
+/**
+ * 模型交互录制/回放 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ModelEngine,
+  ModelEngineError,
+  createScriptedEngine,
+} from '../../../src/execution/model-engine';
+import type { ModelProvider, StreamChunk } from '../../../src/execution/model-engine';
+import { Cassette, createCassette } from '../../../src/execution/cassette';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+// 回放依赖稳定的请求哈希，使用真实的 createHash
+const actualCrypto = jest.requireActual('crypto') as typeof import('crypto');
+
+/** 任何调用都会失败的提供商，用于确认回放不访问真实后端 */
+const offlineProvider: ModelProvider = {
+  name: 'offline',
+  complete: async () => {
+    throw new Error('live provider must not be called during replay');
+  },
+  async *stream() {
+    throw new Error('live provider must not be called during replay');
+  },
+};
+
+function offlineEngine(): ModelEngine {
+  return new ModelEngine({ provider: 'scripted', model: 'scripted' }, offlineProvider);
+}
+
+describe('Cassette', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    (crypto.createHash as jest.Mock).mockImplementation(
+      ((algorithm: string) => actualCrypto.createHash(algorithm)) as never
+    );
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(jest.requireActual<typeof import('os')>('os').tmpdir(), 'cassette-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // ============================================================================
+  // 录制与回放
+  // ============================================================================
+  describe('Record and replay', () => {
+    it('应该录制到文件，并在回放模式下按请求哈希返回', async () => {
+      const file = path.join(dir, 'complete.json');
+      const recorder = createScriptedEngine([{ content: 'first' }, { content: 'second' }]);
+      recorder.setCassette(new Cassette({ path: file, mode: 'record' }));
+
+      await recorder.complete([{ role: 'user', content: 'a' }]);
+      await recorder.complete([{ role: 'user', content: 'b' }]);
+
+      const player = offlineEngine();
+      player.setCassette(await createCassette({ path: file, mode: 'replay' }));
+
+      expect((await player.complete([{ role: 'user', content: 'b' }])).content).toBe('second');
+      expect((await player.complete([{ role: 'user', content: 'a' }])).content).toBe('first');
+      await expect(player.complete([{ role: 'user', content: 'c' }])).rejects.toMatchObject({
+        code: 'CASSETTE_MISS',
+      });
+    });
+
+    it('应该录制并回放流式分块与工具调用', async () => {
+      const cassette = new Cassette({ mode: 'auto' });
+      const recorder = createScriptedEngine([{
+        content: 'calling',
+        toolCalls: [{ id: 'c1', type: 'function', function: { name: 'echo', arguments: '{"x":1}' } }],
+      }]);
+      recorder.setCassette(cassette);
+
+      const recorded: StreamChunk[] = [];
+      for await (const chunk of recorder.stream([{ role: 'user', content: 'go' }])) {
+        recorded.push(chunk);
+      }
+
+      const player = offlineEngine();
+      player.setCassette(cassette);
+      const replayed: StreamChunk[] = [];
+      for await (const chunk of player.stream([{ role: 'user', content: 'go' }])) {
+        replayed.push(chunk);
+      }
+
+      expect(replayed).toEqual(recorded);
+      expect(replayed.some(c => c.toolCalls?.[0]?.function.name === 'echo')).toBe(true);
+    });
+
+    it('相同请求多次出现时应该按录制顺序返回', async () => {
+      const cassette = new Cassette({ mode: 'record' });
+      const recorder = createScriptedEngine([{ content: 'one' }, { content: 'two' }]);
+      recorder.setCassette(cassette);
+      await recorder.complete([{ role: 'user', content: 'same' }]);
+      await recorder.complete([{ role: 'user', content: 'same' }]);
+
+      cassette.setMode('replay');
+      const player = offlineEngine();
+      player.setCassette(cassette);
+
+      const contents = [];
+      for (let i = 0; i < 3; i++) {
+        contents.push((await player.complete([{ role: 'user', content: 'same' }])).content);
+      }
+      expect(contents).toEqual(['one', 'two', 'two']);
+    });
+
+    it('应该录制并回放提供商错误', async () => {
+      const cassette = new Cassette({ mode: 'auto' });
+      const recorder = createScriptedEngine([new ModelEngineError('rate limited', 'API_ERROR')]);
+      recorder.setCassette(cassette);
+      await expect(recorder.complete([{ role: 'user', content: 'x' }])).rejects.toThrow('rate limited');
+
+      const player = offlineEngine();
+      player.setCassette(cassette);
+
+      await expect(player.complete([{ role: 'user', content: 'x' }])).rejects.toMatchObject({
+        code: 'API_ERROR',
+        details: { replayed: true },
+      });
+    });
+
+    it('关闭 matchSystemPrompt 时应该忽略 system 消息', async () => {
+      const cassette = new Cassette({ mode: 'auto', matchSystemPrompt: false });
+      const recorder = createScriptedEngine([{ content: 'stable' }]);
+      recorder.setCassette(cassette);
+      await recorder.complete([{ role: 'system', content: 'now: 10:00' }, { role: 'user', content: 'hi' }]);
+
+      const player = offlineEngine();
+      player.setCassette(cassette);
+      const result = await player.complete([{ role: 'system', content: 'now: 10:05' }, { role: 'user', content: 'hi' }]);
+
+      expect(result.content).toBe('stable');
+    });
+  });
+
+  // ============================================================================
+  // UnifiedAgent 集成
+  // ============================================================================
+  describe('UnifiedAgent integration', () => {
+    it('应该无需真实后端即可复现包含工具调用的对话', async () => {
+      const file = path.join(dir, 'agent.json');
+      const script = [
+        { toolCalls: [{ id: 'c1', type: 'function' as const, function: { name: 'echo', arguments: '{"text":"hi"}' } }] },
+        { content: 'echoed hi' },
+      ];
+      const makeAgent = (model: ModelEngine, cassette: Cassette) => {
+        const agent = new UnifiedAgent({ model, cassette, scheduler: { homeostasisEnable: false } });
+        agent.registerTool({
+          name: 'echo',
+          description: 'Echo text',
+          parameters: { text: { type: 'string' } },
+          execute: async (params: { text: string }) => params.text,
+        });
+        return agent;
+      };
+
+      const recording = makeAgent(createScriptedEngine(script), new Cassette({ path: file, mode: 'record' }));
+      let original;
+      try {
+        original = await recording.chat('s1', 'say hi');
+      } finally {
+        await recording.stop();
+      }
+
+      const replaying = makeAgent(offlineEngine(), await createCassette({ path: file, mode: 'replay' }));
+      try {
+        const replayed = await replaying.chat('s1', 'say hi');
+
+        expect(replayed.content).toBe('echoed hi');
+        expect(replayed.content).toBe(original.content);
+        expect(replayed.toolCalls.map(c => c.name)).toEqual(['echo']);
+      } finally {
+        await replaying.stop();
+      }
+    });
+  });
+});
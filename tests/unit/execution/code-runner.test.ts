@@ -0,0 +1,157 @@
+/**
+ * 代码执行器 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import { CodeRunner, CodeRunnerError } from '../../../src/execution/code-runner';
+import { createCodeTools } from '../../../src/execution/tools/code';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { ConfirmationBroker } from '../../../src/execution/confirmation-broker';
+
+describe('CodeRunner', () => {
+  const runner = new CodeRunner({ timeoutMs: 2000, memoryLimitMb: 32 });
+
+  // ============================================================================
+  // 执行与结果
+  // ============================================================================
+  describe('Execution', () => {
+    it('应该返回最后一个表达式的值并捕获 console 输出', async () => {
+      const result = await runner.run({
+        code: 'const doubled = input.values.map(v => v * 2);\nconsole.log("sum", doubled.reduce((a, b) => a + b, 0));\nconsole.warn({ n: doubled.length });\n({ doubled, at: new Map([["k", 1]]) })',
+        input: { values: [1, 2, 3] },
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        result: { doubled: [2, 4, 6], at: { k: 1 } },
+        resultType: 'object',
+        console: [{ level: 'log', message: 'sum 12' }, { level: 'warn', message: '{"n":3}' }],
+        limitsHit: [],
+      });
+    });
+
+    it('应该支持 return 与 await', async () => {
+      const result = await runner.run({ code: 'const v = await Promise.resolve(21);\nreturn v * 2;' });
+      expect(result).toMatchObject({ success: true, result: 42, resultType: 'number' });
+
+      expect((await runner.run({ code: '[1, "a", null]' })).resultType).toBe('array');
+      expect((await runner.run({ code: 'undefined' })).result).toBeUndefined();
+    });
+
+    it('异常与语法错误应该返回结构化错误', async () => {
+      const thrown = await runner.run({ code: 'console.log("before");\nthrow new TypeError("bad input")' });
+      expect(thrown).toMatchObject({
+        success: false,
+        error: { name: 'TypeError', message: 'bad input' },
+        console: [{ level: 'log', message: 'before' }],
+      });
+
+      const rejected = await runner.run({ code: 'await Promise.reject(new RangeError("nope"))' });
+      expect(rejected.error).toMatchObject({ name: 'RangeError', message: 'nope' });
+
+      expect((await runner.run({ code: 'let = ;' })).error?.name).toBe('SyntaxError');
+    });
+  });
+
+  // ============================================================================
+  // 隔离与限制
+  // ============================================================================
+  describe('Isolation', () => {
+    it('代码不能访问 require、process 或宿主函数', async () => {
+      const globals = await runner.run({
+        code: '[typeof require, typeof process, typeof module, typeof setTimeout, typeof globalThis.__bridge]',
+      });
+      expect(globals.result).toEqual(['undefined', 'undefined', 'undefined', 'undefined', 'undefined']);
+
+      for (const code of [
+        'this.constructor.constructor("return process")()',
+        'console.log.constructor("return process")()',
+        'eval("1 + 1")',
+      ]) {
+        const result = await runner.run({ code });
+        expect({ code, success: result.success }).toEqual({ code, success: false });
+        expect(result.error?.name).toBe('EvalError');
+      }
+    });
+
+    it('改写内置对象不影响结果回传', async () => {
+      const result = await runner.run({
+        code: 'JSON.stringify = () => "hacked";\nPromise.prototype.then = function () { return this; };\n({ ok: true })',
+      });
+      expect(result).toMatchObject({ success: true, result: { ok: true } });
+    });
+
+    it('同步与异步死循环都应该超时', async () => {
+      for (const code of ['while (true) {}', 'for (;;) { await null; }']) {
+        const result = await runner.run({ code, timeoutMs: 200 });
+        expect(result).toMatchObject({
+          success: false,
+          limitsHit: ['timeout'],
+          error: { name: 'TimeoutError', message: 'Code execution timed out after 200ms' },
+        });
+      }
+    });
+
+    it('超出内存上限时应该终止', async () => {
+      const result = await runner.run({ code: 'const chunks = [];\nwhile (true) chunks.push(new Array(1e6).fill(chunks.length));' });
+      expect(result).toMatchObject({ success: false, limitsHit: ['memory'] });
+    });
+
+    it('console 输出超出上限时应该截断', async () => {
+      const small = new CodeRunner({ maxOutputBytes: 100 });
+      const result = await small.run({ code: 'for (let i = 0; i < 50; i++) console.log("line " + i);\n"done"' });
+
+      expect(result).toMatchObject({ success: true, result: 'done', truncated: true, limitsHit: ['output'] });
+      expect(result.console.length).toBeLessThan(50);
+    });
+
+    it('应该拒绝无效输入并响应取消', async () => {
+      await expect(runner.run({ code: '  ' })).rejects.toMatchObject({ code: 'INVALID_CODE' });
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      await expect(runner.run({ code: '1', input: circular })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+
+      const controller = new AbortController();
+      const pending = runner.run({ code: 'while (true) {}', signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+      const error = await pending.catch(e => e);
+      expect(error).toBeInstanceOf(CodeRunnerError);
+      expect(error.code).toBe('ABORTED');
+    });
+  });
+
+  // ============================================================================
+  // code_eval 工具
+  // ============================================================================
+  describe('code_eval', () => {
+    it('应该经过确认流程并计入工具统计', async () => {
+      const registry = new ToolRegistry();
+      const broker = new ConfirmationBroker();
+      registry.setConfirmationBroker(broker);
+      registry.registerMany(createCodeTools(runner));
+      const requested = jest.fn((request: { id: string; message: string }) => {
+        if (request.message.includes('input.a')) {
+          broker.approve(request.id);
+        } else {
+          broker.deny(request.id);
+        }
+      });
+      broker.on('requested', requested);
+
+      const ok = await registry.execute('code_eval', { code: 'input.a + 1', input: { a: 1 } });
+      expect(ok.data).toMatchObject({ success: true, result: 2 });
+      expect(requested.mock.calls[0][0].message).toBe('执行 JavaScript 代码:\ninput.a + 1');
+
+      const denied = await registry.execute('code_eval', { code: '1' });
+      expect(denied.error).toContain('was not confirmed (denied)');
+
+      const failed = await registry.execute('code_eval', { code: 'input.a.b.c', input: { a: 1 } });
+      expect(failed.error).toMatch(/^TypeError: Cannot read properties of undefined/);
+
+      const timedOut = await registry.execute('code_eval', { code: 'input.a; while (true) {}', input: { a: 1 }, timeout: 0.1 });
+      expect(timedOut.data).toMatchObject({ success: false, limitsHit: ['timeout'] });
+
+      expect(registry.getStats('code_eval')).toMatchObject({ totalCalls: 3, successCalls: 2, failedCalls: 1 });
+    });
+  });
+});
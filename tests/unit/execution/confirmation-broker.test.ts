@@ -0,0 +1,311 @@
+/**
+ * 工具确认代理 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import {
+  ConfirmationBroker,
+  renderConfirmation,
+} from '../../../src/execution/confirmation-broker';
+import type { ConfirmationRequest } from '../../../src/execution/confirmation-broker';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import type { ToolDefinition } from '../../../src/execution/tool-registry';
+import { httpTools } from '../../../src/execution/tools/http';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import { WebSocketManager } from '../../../src/adapters/websocket';
+import { AgentApi } from '../../../src/adapters/agent-api';
+import { UnifiedAgent } from '../../../src/unified-agent';
+import { mockFetchResponse } from '../../setup';
+
+function dangerousTool(execute = jest.fn(async () => ({ deleted: true }))): ToolDefinition {
+  return {
+    name: 'danger',
+    description: 'Deletes things',
+    requireConfirmation: true,
+    confirmationTemplate: 'Delete {{path}}?',
+    parameters: {
+      type: 'object',
+      properties: { path: { type: 'string', description: 'Target' } },
+      required: ['path'],
+    },
+    execute,
+  };
+}
+
+/** 等待下一个确认请求 */
+function nextRequest(broker: ConfirmationBroker): Promise<ConfirmationRequest> {
+  return new Promise(resolve => broker.once('requested', resolve));
+}
+
+describe('ConfirmationBroker', () => {
+  let broker: ConfirmationBroker;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    broker = new ConfirmationBroker({ timeoutMs: 5000 });
+    registry = new ToolRegistry();
+    registry.setConfirmationBroker(broker);
+  });
+
+  afterEach(() => {
+    broker.cancelAll();
+  });
+
+  // ============================================================================
+  // 工具注册表集成
+  // ============================================================================
+  describe('ToolRegistry', () => {
+    it('批准后应该继续执行', async () => {
+      const execute = jest.fn(async () => ({ deleted: true }));
+      registry.register(dangerousTool(execute));
+
+      const requested = nextRequest(broker);
+      const pending = registry.execute('danger', { path: '/tmp/x' }, { context: { sessionId: 's1' } });
+      const request = await requested;
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(broker.getPending({ sessionId: 's1' })).toEqual([
+        expect.objectContaining({ id: request.id, toolName: 'danger', message: 'Delete /tmp/x?' }),
+      ]);
+
+      expect(broker.approve(request.id, { by: 'tester' })).toBe(true);
+      const result = await pending;
+
+      expect(result).toMatchObject({ success: true, data: { deleted: true } });
+      expect(broker.getPending()).toHaveLength(0);
+    });
+
+    it('拒绝时应该中止且不执行工具', async () => {
+      const execute = jest.fn(async () => ({ deleted: true }));
+      registry.register(dangerousTool(execute));
+      broker.on('requested', (request: ConfirmationRequest) => broker.deny(request.id, { reason: 'nope' }));
+
+      const result = await registry.execute('danger', { path: '/tmp/x' });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('denied: nope');
+      expect(result.metadata?.confirmation).toMatchObject({ decision: 'denied' });
+    });
+
+    it('超时时应该中止', async () => {
+      const execute = jest.fn(async () => ({ deleted: true }));
+      registry.setConfirmationBroker(new ConfirmationBroker({ timeoutMs: 20 }));
+      registry.register(dangerousTool(execute));
+
+      const result = await registry.execute('danger', { path: '/tmp/x' });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.metadata?.confirmation).toMatchObject({ decision: 'timeout' });
+    });
+
+    it('取消信号应该中止等待中的确认', async () => {
+      registry.register(dangerousTool());
+      const controller = new AbortController();
+
+      const requested = nextRequest(broker);
+      const pending = registry.execute('danger', { path: '/tmp/x' }, {
+        context: { cancelSignal: controller.signal },
+      });
+      await requested;
+      controller.abort();
+
+      expect((await pending).metadata?.confirmation).toMatchObject({ decision: 'cancelled' });
+    });
+
+    it('未设置确认代理时应该直接执行', async () => {
+      const plain = new ToolRegistry();
+      const execute = jest.fn(async () => ({ deleted: true }));
+      plain.register(dangerousTool(execute));
+      const required = jest.fn();
+      plain.on('confirmationRequired', required);
+
+      expect((await plain.execute('danger', { path: '/tmp/x' })).success).toBe(true);
+      expect(required).toHaveBeenCalled();
+    });
+
+    it('http_post 与 http_request 的写方法要求确认', async () => {
+      registry.registerMany(httpTools);
+      const requested = jest.fn();
+      broker.on('requested', requested);
+      mockFetchResponse({ ok: true });
+
+      expect(registry.requiresConfirmation(registry.get('http_request')!, { method: 'get', url: 'x' })).toBe(false);
+      expect(registry.requiresConfirmation(registry.get('http_request')!, { method: 'DELETE', url: 'x' })).toBe(true);
+      expect(registry.requiresConfirmation(registry.get('http_post')!, { url: 'x', data: {} })).toBe(true);
+
+      await registry.execute('http_request', { method: 'GET', url: 'http://localhost/a' });
+      expect(requested).not.toHaveBeenCalled();
+
+      const pending = registry.execute('http_request', { method: 'POST', url: 'http://localhost/a' });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(broker.getPending()[0].message).toBe('确认发送 POST 请求到 http://localhost/a?');
+      broker.cancelAll();
+      expect((await pending).success).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // 模板
+  // ============================================================================
+  describe('renderConfirmation', () => {
+    it('应该替换参数占位符', () => {
+      expect(renderConfirmation('Run {{ command }} in {{opts.cwd}}', 'shell', {
+        command: 'ls',
+        opts: { cwd: '/tmp' },
+      })).toBe('Run ls in /tmp');
+      expect(renderConfirmation(undefined, 'shell', { command: 'ls' })).toContain('"command":"ls"');
+    });
+  });
+
+  // ============================================================================
+  // 适配器
+  // ============================================================================
+  describe('Adapters', () => {
+    it('REST 应该只向发起用户列出待确认请求并接受其批准', async () => {
+      registry.register(dangerousTool());
+      const api = new AgentApi({ confirmationBroker: broker }, {
+        authenticate: req => (req.headers['x-test-user'] as string | undefined) ?? null,
+      });
+      const server = http.createServer((req, res) => {
+        void api.handle(req, res, new URL(req.url ?? '/', 'http://127.0.0.1'));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/confirmations`;
+
+      try {
+        const requested = nextRequest(broker);
+        const pending = registry.execute('danger', { path: '/tmp/x' }, { context: { sessionId: 's1', userId: 'alice' } });
+        const request = await requested;
+        const resolved = new Promise<{ resolution: { decidedBy?: string } }>(resolve => broker.once('resolved', resolve));
+
+        const listed = await fetchJson('GET', `${base}?sessionId=s1`, 'alice');
+        expect(listed.body.map((r: ConfirmationRequest) => r.id)).toEqual([request.id]);
+        expect((await fetchJson('GET', base, 'bob')).body).toEqual([]);
+        expect((await fetchJson('GET', base)).status).toBe(401);
+
+        expect((await fetchJson('POST', `${base}/${request.id}/approve`)).status).toBe(401);
+        expect((await fetchJson('POST', `${base}/${request.id}/approve`, 'bob')).status).toBe(404);
+        expect((await fetchJson('POST', `${base}/missing/deny`, 'alice')).status).toBe(404);
+        expect((await fetchJson('POST', `${base}/${request.id}/approve`, 'alice')).status).toBe(200);
+        expect((await pending).success).toBe(true);
+        expect((await resolved).resolution.decidedBy).toBe('rest:alice');
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('WebSocket 应该推送到会话频道并接受回复', async () => {
+      // WebSocket 握手需要真实的 SHA-1
+      const crypto = await import('crypto');
+      (crypto.createHash as jest.Mock).mockImplementation(
+        (alg: unknown) => (jest.requireActual('crypto') as typeof crypto).createHash(alg as string)
+      );
+      registry.register(dangerousTool());
+      const server = http.createServer();
+      const ws = new WebSocketManager({ heartbeatInterval: 60000 });
+      ws.initialize(server);
+      ws.enableConfirmations(broker);
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      const connect = () => {
+        const socket = new WebSocket(`ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`);
+        const messages: Array<{ type: string; payload: any }> = [];
+        socket.on('message', data => messages.push(JSON.parse(data.toString())));
+        const waitFor = (type: string) => new Promise<{ type: string; payload: any }>(resolve => {
+          const check = () => {
+            const found = messages.find(m => m.type === type);
+            if (found) resolve(found); else setTimeout(check, 5);
+          };
+          check();
+        });
+        return { socket, messages, waitFor };
+      };
+      const client = connect();
+      const intruder = connect();
+
+      try {
+        await Promise.all([client.waitFor('connected'), intruder.waitFor('connected')]);
+        client.socket.send(JSON.stringify({ type: 'subscribe', payload: ['chat:s1'] }));
+        await client.waitFor('subscribed');
+
+        const pending = registry.execute('danger', { path: '/tmp/x' }, { context: { sessionId: 's1' } });
+        const required = await client.waitFor('confirmation_required');
+        expect(required.payload).toMatchObject({ toolName: 'danger', message: 'Delete /tmp/x?' });
+
+        // 其他连接不能决定该会话的确认请求
+        intruder.socket.send(JSON.stringify({
+          type: 'confirmation_response',
+          payload: { id: required.payload.id, approved: true },
+        }));
+        expect((await intruder.waitFor('error')).payload.message).toContain('No pending confirmation');
+        expect(broker.get(required.payload.id)).toBeDefined();
+
+        client.socket.send(JSON.stringify({
+          type: 'confirmation_response',
+          payload: { id: required.payload.id, approved: true },
+        }));
+
+        expect((await pending).success).toBe(true);
+        expect((await client.waitFor('confirmation_resolved')).payload).toMatchObject({
+          decision: 'approved',
+          decidedBy: expect.stringMatching(/^websocket:/),
+        });
+        expect(intruder.messages.map(m => m.type)).not.toContain('confirmation_required');
+      } finally {
+        client.socket.close();
+        intruder.socket.close();
+        await ws.close();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
+  // ============================================================================
+  // UnifiedAgent
+  // ============================================================================
+  describe('UnifiedAgent', () => {
+    it('对话中的工具调用应该等待确认', async () => {
+      const execute = jest.fn(async () => ({ deleted: true }));
+      registry.register(dangerousTool(execute));
+      const agent = new UnifiedAgent({
+        model: createScriptedEngine([
+          { toolCalls: [{ id: 'c1', type: 'function', function: { name: 'danger', arguments: '{"path":"/tmp/x"}' } }] },
+          { content: 'Deleted.' },
+        ]),
+        toolRegistry: registry,
+        confirmationBroker: broker,
+        scheduler: { homeostasisEnable: false },
+      });
+      broker.on('requested', (request: ConfirmationRequest) => {
+        expect(request.sessionId).toBe('s1');
+        broker.approve(request.id);
+      });
+
+      try {
+        const result = await agent.chat('s1', 'delete /tmp/x');
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(result.toolCalls[0].result.success).toBe(true);
+        expect(result.content).toBe('Deleted.');
+      } finally {
+        await agent.stop();
+      }
+    });
+  });
+});
+
+function fetchJson(method: string, url: string, user?: string): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const headers = { 'Content-Type': 'application/json', ...(user ? { 'x-test-user': user } : {}) };
+    const req = http.request(url, { method, headers }, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
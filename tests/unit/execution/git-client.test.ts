@@ -0,0 +1,257 @@
+/**
+ * Git 客户端与工具 - 单元测试
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GitClient, GitError } from '../../../src/execution/git-client';
+import { PathPolicy, PathPolicyError, SELF_MODIFICATION_FLOW } from '../../../src/execution/path-policy';
+import { createGitTools } from '../../../src/execution/tools/git';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+
+describe('GitClient', () => {
+  let repo: string;
+  let client: GitClient;
+
+  const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Tester', '-c', 'user.email=tester@example.com', ...args], {
+    cwd: repo,
+    encoding: 'utf-8',
+  }).trim();
+  const write = (file: string, content: string) => fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true })
+    .then(() => fs.writeFile(path.join(repo, file), content));
+  const selfModification = { allowSelfSource: true };
+
+  async function expectError(promise: Promise<unknown>, type: typeof GitError | typeof PathPolicyError, code: string): Promise<void> {
+    const error = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(type);
+    expect(error.code).toBe(code);
+  }
+
+  beforeEach(async () => {
+    repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-git-test-')));
+    git('init', '-q', '-b', 'main');
+    await write('README.md', 'line one\nline two\n');
+    await write('lib/util.ts', 'export const one = 1;\n');
+    await write('src/agent.ts', 'export const agent = true;\n');
+    await write('.env', 'SECRET=1\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial commit');
+
+    client = new GitClient({ policy: new PathPolicy({ baseDir: repo, allowedRoots: [repo] }) });
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  // ============================================================================
+  // 查看
+  // ============================================================================
+  describe('Inspection', () => {
+    it('status 应该隐藏自身源码与禁止的文件', async () => {
+      await write('README.md', 'changed\n');
+      await write('lib/new.ts', 'new\n');
+      await write('src/agent.ts', 'changed\n');
+      await write('.env', 'SECRET=2\n');
+
+      const status = await client.status(repo);
+      expect(status).toMatchObject({ root: repo, branch: 'main', detached: false, clean: false });
+      expect(status.entries).toEqual([
+        { index: ' ', worktree: 'M', path: 'README.md' },
+        { index: '?', worktree: '?', path: 'lib/new.ts' },
+      ]);
+
+      const privileged = await client.status(path.join(repo, 'lib'), selfModification);
+      expect(privileged.entries.map(e => e.path)).toContain('src/agent.ts');
+      expect(privileged.entries.map(e => e.path)).not.toContain('.env');
+    });
+
+    it('diff 应该按路径策略过滤并支持提交之间的比较', async () => {
+      await write('README.md', 'line one\nline 2\n');
+      await write('src/agent.ts', 'changed\n');
+
+      const worktree = await client.diff(repo);
+      expect(worktree.diff).toContain('+line 2');
+      expect(worktree.diff).not.toContain('src/agent.ts');
+      expect(worktree.files).toEqual([{ path: 'README.md', additions: 1, deletions: 1, binary: false }]);
+
+      await expectError(client.diff(repo, { paths: ['src/agent.ts'] }), PathPolicyError, 'SELF_SOURCE_PROTECTED');
+      await expectError(client.diff(repo, { paths: ['../outside'] }), PathPolicyError, 'OUTSIDE_ALLOWED_ROOTS');
+      await expectError(client.diff(repo, { base: '--output=/tmp/pwned' }), GitError, 'INVALID_REVISION');
+
+      git('commit', '-q', '-am', 'Second commit');
+      const between = await client.diff(repo, { base: 'HEAD~1', target: 'HEAD', paths: ['README.md'] });
+      expect(between.files).toEqual([{ path: 'README.md', additions: 1, deletions: 1, binary: false }]);
+    });
+
+    it('log、show 与 blame 应该返回结构化结果', async () => {
+      await write('README.md', 'line one\nline 2\n');
+      git('commit', '-q', '-am', 'Update readme', '-m', 'With a body');
+
+      const commits = await client.log(repo);
+      expect(commits.map(c => c.subject)).toEqual(['Update readme', 'Initial commit']);
+      expect(commits[0]).toMatchObject({ author: 'Tester', email: 'tester@example.com', body: 'With a body' });
+      expect(commits[0].parents).toEqual([commits[1].hash]);
+      expect(await client.log(repo, { path: 'lib/util.ts' })).toHaveLength(1);
+      expect(await client.log(repo, { limit: 1 })).toHaveLength(1);
+
+      const show = await client.show(repo, 'HEAD');
+      expect(show.commit?.subject).toBe('Update readme');
+      expect(show.diff).toContain('+line 2');
+
+      const initial = await client.show(repo, 'HEAD~1');
+      expect(initial.diff).toContain('lib/util.ts');
+      expect(initial.diff).not.toContain('src/agent.ts');
+      expect(initial.diff).not.toContain('SECRET');
+
+      expect((await client.show(repo, 'HEAD~1', 'README.md')).content).toBe('line one\nline two\n');
+      await expectError(client.show(repo, 'HEAD', '.env'), PathPolicyError, 'DENIED_PATH');
+
+      const blame = await client.blame(repo, 'README.md');
+      expect(blame).toEqual([
+        expect.objectContaining({ line: 1, content: 'line one', summary: 'Initial commit', author: 'Tester' }),
+        expect.objectContaining({ line: 2, content: 'line 2', summary: 'Update readme', commit: commits[0].hash }),
+      ]);
+      expect(await client.blame(repo, 'README.md', { startLine: 2, endLine: 2 })).toHaveLength(1);
+    });
+
+    it('修订只能解析为提交，不能以 rev:path 或树对象绕过路径策略', async () => {
+      for (const ref of ['HEAD:.env', 'HEAD:src/agent.ts', ':.env']) {
+        await expectError(client.show(repo, ref), GitError, 'INVALID_REVISION');
+        await expectError(client.diff(repo, { base: ref }), GitError, 'INVALID_REVISION');
+        await expectError(client.log(repo, { ref }), GitError, 'INVALID_REVISION');
+        await expectError(client.blame(repo, 'README.md', { ref }), GitError, 'INVALID_REVISION');
+      }
+
+      const tree = git('rev-parse', 'HEAD^{tree}');
+      const blob = git('hash-object', '.env');
+      for (const ref of ['HEAD^{tree}', tree, blob, 'no-such-branch']) {
+        await expectError(client.show(repo, ref), GitError, 'UNKNOWN_REVISION');
+        await expectError(client.diff(repo, { base: 'HEAD', target: ref }), GitError, 'UNKNOWN_REVISION');
+      }
+
+      const head = git('rev-parse', 'HEAD');
+      expect((await client.show(repo, 'main')).commit?.hash).toBe(head);
+      expect((await client.log(repo, { ref: 'main' }))[0].hash).toBe(head);
+    });
+
+    it('不应该执行仓库配置中的 textconv、fsmonitor 与钩子命令', async () => {
+      const marker = path.join(repo, 'executed');
+      git('config', 'core.fsmonitor', `touch ${marker}`);
+      git('config', 'diff.pwn.textconv', `touch ${marker}; cat`);
+      await write('.gitattributes', 'README.md diff=pwn\n');
+      await write('.git/hooks/post-index-change', `#!/bin/sh\ntouch ${marker}\n`);
+      await fs.chmod(path.join(repo, '.git/hooks/post-index-change'), 0o755);
+
+      await client.status(repo);
+      await client.blame(repo, 'README.md');
+      await client.diff(repo);
+      await client.createBranch(repo, 'agent/hooks');
+      await client.commit(repo, { branch: 'agent/hooks', message: 'x', changes: [{ path: 'a.md', content: 'a' }] });
+      await expect(fs.access(marker)).rejects.toThrow();
+
+      await expectError(client.show(repo, 'HEAD', '.git/config'), PathPolicyError, 'DENIED_PATH');
+    });
+  });
+
+  // ============================================================================
+  // 分支与提交
+  // ============================================================================
+  describe('Commits', () => {
+    it('应该在分支上提交而不改动工作区与当前分支', async () => {
+      await write('README.md', 'local edit\n');
+      const head = git('rev-parse', 'HEAD');
+
+      const branch = await client.createBranch(repo, 'agent/docs');
+      expect(branch).toMatchObject({ branch: 'agent/docs', commit: head });
+
+      const result = await client.commit(repo, {
+        branch: 'agent/docs',
+        message: 'Document the project',
+        changes: [
+          { path: 'README.md', content: '# Project\n' },
+          { path: 'docs/guide.md', content: 'Guide\n' },
+          { path: 'lib/util.ts', delete: true },
+        ],
+      });
+
+      expect(result).toMatchObject({ branch: 'agent/docs', parent: head });
+      expect(result.files).toEqual([
+        { path: 'README.md', action: 'modified' },
+        { path: 'docs/guide.md', action: 'added' },
+        { path: 'lib/util.ts', action: 'deleted' },
+      ]);
+      expect(git('rev-parse', 'agent/docs')).toBe(result.commit);
+      expect(git('show', 'agent/docs:README.md')).toBe('# Project');
+      expect(git('log', '-1', '--format=%an <%ae>|%s', 'agent/docs')).toBe('Ouroboros Agent <agent@ouroboros.local>|Document the project');
+
+      // 工作区、索引与当前分支保持不变
+      expect(git('rev-parse', 'HEAD')).toBe(head);
+      expect(git('symbolic-ref', '--short', 'HEAD')).toBe('main');
+      expect(await fs.readFile(path.join(repo, 'README.md'), 'utf-8')).toBe('local edit\n');
+      expect(git('status', '--porcelain')).toBe('M README.md');
+    });
+
+    it('应该拒绝不允许的分支与路径', async () => {
+      await expectError(client.createBranch(repo, 'feature/x'), GitError, 'BRANCH_NOT_ALLOWED');
+      await expectError(client.createBranch(repo, 'agent/bad..name'), GitError, 'INVALID_BRANCH');
+      await client.createBranch(repo, 'agent/work');
+      await expectError(client.createBranch(repo, 'agent/work'), GitError, 'BRANCH_EXISTS');
+
+      const commit = (changes: Array<{ path: string; content?: string; delete?: boolean }>, branch = 'agent/work') =>
+        client.commit(repo, { branch, message: 'Change', changes });
+      await expectError(commit([{ path: 'a.md', content: 'a' }], 'agent/missing'), GitError, 'BRANCH_NOT_FOUND');
+      await expectError(commit([{ path: 'src/agent.ts', content: 'x' }]), PathPolicyError, 'SELF_SOURCE_PROTECTED');
+      await expectError(commit([{ path: '.env', content: 'x' }]), PathPolicyError, 'DENIED_PATH');
+      await expectError(commit([{ path: '.git/config', content: 'x' }]), PathPolicyError, 'DENIED_PATH');
+      await expectError(commit([{ path: 'README.md', content: 'line one\nline two\n' }]), GitError, 'NO_CHANGES');
+      await expectError(commit([{ path: 'nope.md', delete: true }]), GitError, 'PATH_NOT_FOUND');
+
+      const unrestricted = new GitClient({ policy: new PathPolicy({ baseDir: repo, allowedRoots: [repo] }), branchPrefix: '' });
+      await expectError(
+        unrestricted.commit(repo, { branch: 'main', message: 'x', changes: [{ path: 'a.md', content: 'a' }] }),
+        GitError,
+        'BRANCH_CHECKED_OUT'
+      );
+      expect(git('rev-parse', 'agent/work')).toBe(git('rev-parse', 'main'));
+    });
+  });
+
+  // ============================================================================
+  // Git 工具
+  // ============================================================================
+  describe('Tools', () => {
+    it('git_commit 需要确认，且只有硬自指流程可以提交自身源码', async () => {
+      const registry = new ToolRegistry();
+      const tools = createGitTools(client);
+      registry.registerMany(tools.map(tool => ({ ...tool, requireConfirmation: false })));
+      expect(tools.find(t => t.name === 'git_commit')?.requireConfirmation).toBe(true);
+
+      expect((await registry.execute('git_branch_create', { repo, name: 'agent/self' })).success).toBe(true);
+      const args = {
+        repo,
+        branch: 'agent/self',
+        message: 'Propose a change to the agent',
+        changes: [{ path: 'src/agent.ts', content: 'export const agent = false;\n' }],
+      };
+
+      const denied = await registry.execute('git_commit', args, { context: { source: 'agent' } });
+      expect(denied.error).toContain('self-modification flow');
+
+      const proposed = await registry.execute('git_commit', args, {
+        context: { source: 'system', metadata: { flow: SELF_MODIFICATION_FLOW } },
+      });
+      expect(proposed.data).toMatchObject({ files: [{ path: 'src/agent.ts', action: 'modified' }] });
+
+      const diff = await registry.execute('git_diff', { repo, base: 'main', target: 'agent/self' }, {
+        context: { source: 'system', metadata: { flow: SELF_MODIFICATION_FLOW } },
+      });
+      expect((diff.data as { diff: string }).diff).toContain('+export const agent = false;');
+
+      const log = await registry.execute('git_log', { repo, ref: 'agent/self', limit: 1 });
+      expect(log.data).toMatchObject({ count: 1, commits: [{ subject: 'Propose a change to the agent' }] });
+    });
+  });
+});
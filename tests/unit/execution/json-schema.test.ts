@@ -0,0 +1,192 @@
+/**
+ * JSON Schema 校验 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import { validateSchema, formatSchemaErrors } from '../../../src/execution/json-schema';
+import type { JsonSchema } from '../../../src/execution/json-schema';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { MCPToolManager } from '../../../src/execution/mcp-tool-manager';
+
+/** 返回所有错误的 "路径: 信息" 形式，便于断言 */
+function errorsOf(schema: JsonSchema | boolean, value: unknown): string[] {
+  return validateSchema(schema, value).errors.map(e => `${e.path || '(root)'}: ${e.message}`);
+}
+
+describe('JSON Schema', () => {
+  // ============================================================================
+  // 结构
+  // ============================================================================
+  describe('Structure', () => {
+    const order: JsonSchema = {
+      type: 'object',
+      properties: {
+        customer: {
+          type: 'object',
+          properties: { name: { type: 'string', minLength: 1 }, email: { type: 'string', format: 'email' } },
+          required: ['name'],
+          additionalProperties: false,
+        },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: { sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' }, qty: { type: 'integer', minimum: 1 } },
+            required: ['sku', 'qty'],
+          },
+        },
+      },
+      required: ['customer', 'items'],
+    };
+
+    it('有效值应该通过', () => {
+      expect(validateSchema(order, {
+        customer: { name: 'Ada', email: 'ada@example.com' },
+        items: [{ sku: 'ABC-1', qty: 2 }],
+      })).toEqual({ valid: true, errors: [] });
+    });
+
+    it('嵌套对象与对象数组应该报告精确的错误路径', () => {
+      expect(errorsOf(order, {
+        customer: { email: 'not-an-email', phone: '1' },
+        items: [{ sku: 'ABC-1', qty: 1 }, { sku: 'abc', qty: 1.5 }, { qty: 0 }],
+      })).toEqual([
+        '/customer/name: is required',
+        '/customer/email: must match format "email"',
+        '/customer/phone: must NOT have additional property "phone"',
+        '/items/1/sku: must match pattern "^[A-Z]{3}-\\d+$"',
+        '/items/1/qty: must be integer',
+        '/items/2/sku: is required',
+        '/items/2/qty: must be >= 1',
+      ]);
+      expect(errorsOf(order, { customer: 'Ada', items: [] })).toEqual([
+        '/customer: must be object',
+        '/items: must NOT have fewer than 1 items',
+      ]);
+    });
+
+    it('属性名中的特殊字符应该按 JSON Pointer 转义', () => {
+      const schema: JsonSchema = { type: 'object', properties: { 'a/b': { type: 'number' }, 'c~d': { type: 'number' } } };
+      expect(errorsOf(schema, { 'a/b': 'x', 'c~d': 'y' })).toEqual(['/a~1b: must be number', '/c~0d: must be number']);
+    });
+  });
+
+  // ============================================================================
+  // 关键字
+  // ============================================================================
+  describe('Keywords', () => {
+    it('应该支持 enum、const 与数值范围', () => {
+      expect(errorsOf({ enum: ['GET', 'POST'] }, 'PUT')).toEqual(['(root): must be one of: "GET", "POST"']);
+      expect(validateSchema({ const: { a: [1] } }, { a: [1] }).valid).toBe(true);
+      expect(validateSchema({ type: 'number', minimum: 0, maximum: 10 }, 10).valid).toBe(true);
+      expect(validateSchema({ type: 'number', exclusiveMaximum: 10 }, 10).valid).toBe(false);
+      expect(validateSchema({ type: 'number', multipleOf: 0.1 }, 0.3).valid).toBe(true);
+      expect(validateSchema({ type: 'string', maxLength: 2 }, '😀😀').valid).toBe(true);
+      expect(validateSchema({ type: ['string', 'null'] }, null).valid).toBe(true);
+    });
+
+    it('应该校验常见 format，未知 format 忽略', () => {
+      const valid: Array<[string, string]> = [
+        ['date-time', '2024-01-31T12:00:00Z'], ['date', '2024-02-29'], ['uri', 'https://example.com/a'],
+        ['uuid', '123e4567-e89b-12d3-a456-426614174000'], ['ipv4', '10.0.0.1'], ['ipv6', '::1'],
+        ['hostname', 'api.example.com'], ['custom-format', 'anything'],
+      ];
+      for (const [format, value] of valid) {
+        expect({ format, valid: validateSchema({ type: 'string', format }, value).valid }).toEqual({ format, valid: true });
+      }
+      for (const [format, value] of [['date', '2023-02-29'], ['ipv4', '256.0.0.1'], ['uri', 'not a uri'], ['regex', '(']]) {
+        expect({ format, valid: validateSchema({ type: 'string', format }, value).valid }).toEqual({ format, valid: false });
+      }
+    });
+
+    it('oneOf / anyOf 应该报告匹配情况', () => {
+      const target: JsonSchema = {
+        oneOf: [
+          { type: 'object', properties: { url: { type: 'string', format: 'uri' } }, required: ['url'] },
+          { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+        ],
+      };
+      expect(validateSchema(target, { path: '/tmp' }).valid).toBe(true);
+      expect(errorsOf(target, { url: 'https://a.example', path: '/tmp' })).toEqual(['(root): must match exactly one schema in oneOf (matched 2)']);
+      // 全部失败时报告最接近的分支的错误
+      expect(errorsOf(target, { url: 'nope' })).toContain('/url: must match format "uri"');
+
+      const id: JsonSchema = { anyOf: [{ type: 'integer' }, { type: 'string', format: 'uuid' }] };
+      expect(validateSchema(id, 3).valid).toBe(true);
+      expect(validateSchema(id, 'x').valid).toBe(false);
+    });
+
+    it('应该解析本地 $ref', () => {
+      const schema: JsonSchema = {
+        $defs: { node: { type: 'object', properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#/$defs/node' } } } } },
+        $ref: '#/$defs/node',
+      };
+      expect(errorsOf(schema, { value: 1, children: [{ value: 2, children: [{ value: 'x' }] }] }))
+        .toEqual(['/children/0/children/0/value: must be number']);
+    });
+
+    it('formatSchemaErrors 应该合并为单行', () => {
+      const result = validateSchema({ type: 'object', properties: { a: { type: 'string' } }, required: ['a', 'b'] }, { a: 1 });
+      expect(formatSchemaErrors(result.errors)).toBe('/b: is required; /a: must be string');
+    });
+  });
+
+  // ============================================================================
+  // 工具集成
+  // ============================================================================
+  describe('Tool integration', () => {
+    it('ToolRegistry 应该拒绝不合法的参数并返回结构化错误', async () => {
+      const registry = new ToolRegistry();
+      const execute = jest.fn(async () => 'ok');
+      registry.register({
+        name: 'send',
+        description: 'Send messages',
+        parameters: {
+          type: 'object',
+          properties: {
+            messages: {
+              type: 'array',
+              description: 'Messages',
+              items: { type: 'object', properties: { to: { type: 'string', format: 'email' } }, required: ['to'] },
+            },
+          },
+          required: ['messages'],
+        },
+        execute,
+      });
+
+      const result = await registry.execute('send', { messages: [{ to: 'a@example.com' }, { to: 'bad' }] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Parameter validation failed: /messages/1/to: must match format "email"');
+      expect(result.metadata?.validationErrors).toEqual([
+        { path: '/messages/1/to', keyword: 'format', message: 'must match format "email"' },
+      ]);
+      expect(execute).not.toHaveBeenCalled();
+      expect((await registry.execute('send', { messages: [] })).success).toBe(true);
+    });
+
+    it('MCP 工具调用前应该按 inputSchema 校验参数', async () => {
+      const manager = new MCPToolManager('/nonexistent/mcp-servers.json');
+      const callTool = jest.fn(async () => ({ content: [] }));
+      const client = {
+        getTools: () => [{
+          name: 'search',
+          description: 'Search',
+          inputSchema: { type: 'object', properties: { query: { type: 'string', minLength: 1 } }, required: ['query'] },
+        }],
+        callTool,
+      };
+      (manager as unknown as { clients: Map<string, unknown> }).clients.set('docs', client);
+
+      await expect(manager.callTool('docs.search', { query: '' }))
+        .rejects.toThrow('Invalid arguments for MCP tool "docs.search": /query: must NOT have fewer than 1 characters');
+      await expect(manager.getAllTools()[0].execute({})).rejects.toThrow('/query: is required');
+      expect(callTool).not.toHaveBeenCalled();
+
+      await manager.callTool('docs.search', { query: 'x' });
+      expect(callTool).toHaveBeenCalledWith('search', { query: 'x' });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * MCP 工具桥接到 ToolRegistry - 单元测试
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPToolManager, toRegistryToolName } from '../../../src/execution/mcp-tool-manager';
+import type { MCPTrustLevel } from '../../../src/execution/mcp-tool-manager';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+
+/**
+ * stdio MCP 服务器脚本：read 声明只读，write 未声明，fail 返回 isError，grow 增加工具并通知
+ */
+const SERVER_SCRIPT = `
+const tools = [
+  { name: 'read', description: 'Read a note', annotations: { readOnlyHint: true },
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } },
+  { name: 'write', description: 'Write a note', inputSchema: { type: 'object', properties: {} } },
+  { name: 'fail', description: 'Always fails', inputSchema: { type: 'object', properties: {} } },
+  { name: 'grow', description: 'Add a tool', inputSchema: { type: 'object', properties: {} } },
+];
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+require('readline').createInterface({ input: process.stdin }).on('line', line => {
+  const { id, method, params } = JSON.parse(line);
+  if (id === undefined) return;
+  if (method === 'initialize') {
+    send({ id, result: { protocolVersion: '2024-11-05', capabilities: { tools: { listChanged: true } } } });
+  } else if (method === 'tools/list') {
+    send({ id, result: { tools } });
+  } else if (params.name === 'fail') {
+    send({ id, result: { content: [{ type: 'text', text: 'disk full' }], isError: true } });
+  } else if (params.name === 'grow') {
+    tools.splice(2, 1, { name: 'extra.tool', description: '', inputSchema: { type: 'object' } });
+    send({ id, result: { content: [] } });
+    send({ method: 'notifications/tools/list_changed' });
+  } else {
+    send({ id, result: { content: [{ type: 'text', text: params.name + ':' + JSON.stringify(params.arguments) }] } });
+  }
+});
+`;
+
+describe('MCP tool bridging', () => {
+  let dir: string;
+  let manager: MCPToolManager;
+  let registry: ToolRegistry;
+
+  async function connect(name: string, trust?: MCPTrustLevel): Promise<void> {
+    await manager.connectServer({ name, command: process.execPath, args: [path.join(dir, 'server.js')], trust, enabled: true });
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-mcp-bridge-'));
+    await fs.writeFile(path.join(dir, 'server.js'), SERVER_SCRIPT);
+    manager = new MCPToolManager(path.join(dir, 'mcp-servers.json'));
+    registry = new ToolRegistry();
+  });
+
+  afterEach(async () => {
+    await manager.disconnectAll();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('信任级别应该决定权限与确认策略，调用经过注册表的验证与统计', async () => {
+    await connect('notes');
+    // 已连接的服务器在绑定时注册
+    manager.bindRegistry(registry);
+    await connect('vault', 'trusted');
+    await connect('web', 'untrusted');
+
+    const policy = (name: string) => {
+      const tool = registry.get(name)!;
+      return { permissionLevel: tool.permissionLevel, confirm: registry.requiresConfirmation(tool) };
+    };
+    expect(policy('notes__read')).toEqual({ permissionLevel: 'user', confirm: false });
+    expect(policy('notes__write')).toEqual({ permissionLevel: 'user', confirm: true });
+    expect(policy('vault__write')).toEqual({ permissionLevel: 'user', confirm: false });
+    expect(policy('web__read')).toEqual({ permissionLevel: 'admin', confirm: true });
+    expect(registry.get('vault__read')).toMatchObject({ category: 'external', tags: ['mcp', 'vault'], description: '[vault] Read a note' });
+    expect(registry.toOpenAIFormat().map(t => t.function.name)).toContain('notes__read');
+
+    const ok = await registry.execute('notes__read', { text: 'hi' });
+    expect(ok.data).toEqual({ content: [{ type: 'text', text: 'read:{"text":"hi"}' }] });
+    expect((await registry.execute('notes__read', {})).error).toContain('Parameter validation failed');
+
+    const failed = await registry.execute('vault__fail', {});
+    expect(failed).toMatchObject({ success: false, error: 'disk full' });
+    expect(registry.getStats('vault__fail')).toMatchObject({ totalCalls: 1, failedCalls: 1, lastError: 'disk full' });
+  });
+
+  it('工具列表变化时同步注册表并保留统计，断开后注销', async () => {
+    manager.bindRegistry(registry);
+    await connect('notes', 'trusted');
+    await registry.execute('notes__read', { text: 'x' });
+
+    const changed = new Promise(resolve => manager.once('toolsChanged', resolve));
+    await registry.execute('notes__grow', {});
+    await changed;
+
+    const bridged = registry.getAll().map(t => t.name).filter(name => name.startsWith('notes__'));
+    expect(bridged).toEqual(['notes__read', 'notes__write', 'notes__grow', toRegistryToolName('notes', 'extra.tool')]);
+    expect(toRegistryToolName('notes', 'extra.tool')).toBe('notes__extra_tool');
+    expect(registry.get('notes__extra_tool')?.description).toBe('[notes] extra.tool');
+    expect(registry.getStats('notes__read')?.totalCalls).toBe(1);
+
+    await manager.disconnectServer('notes');
+    expect(registry.getAll().filter(t => t.name.startsWith('notes__'))).toEqual([]);
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * HTTP MCP 客户端 - 单元测试
+ *
+ * 使用本地 http 服务器模拟 Streamable HTTP 与旧版 SSE 两种 MCP 服务器
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  HttpMCPClient,
+  MCPConnectionStatus,
+  MCPToolManager,
+  MCPTransportError,
+} from '../../../src/execution/mcp-tool-manager';
+import type { MCPServerConfig } from '../../../src/execution/mcp-tool-manager';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: unknown;
+  error?: unknown;
+}
+
+const TOOLS = [{
+  name: 'echo',
+  description: 'Echo the text',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+}];
+
+/**
+ * 按方法生成响应
+ */
+function answer(message: JsonRpcMessage): JsonRpcMessage {
+  switch (message.method) {
+    case 'initialize':
+      return { jsonrpc: '2.0', id: message.id, result: { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} } } };
+    case 'tools/list':
+      return { jsonrpc: '2.0', id: message.id, result: { tools: TOOLS } };
+    case 'tools/call':
+      return { jsonrpc: '2.0', id: message.id, result: { content: [{ type: 'text', text: message.params.arguments.text }] } };
+    default:
+      return { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } };
+  }
+}
+
+function readJson(req: http.IncomingMessage): Promise<JsonRpcMessage> {
+  return new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(JSON.parse(body)));
+  });
+}
+
+function sse(res: http.ServerResponse, event: string | null, data: unknown, id?: string): void {
+  res.write(`${id ? `id: ${id}\n` : ''}${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streamable HTTP 服务器：tools/list 以 SSE 响应，其余以 JSON 响应
+ */
+function createStreamableServer() {
+  const sessions = new Set<string>();
+  const received: Array<{ method: string; message: JsonRpcMessage; headers: http.IncomingHttpHeaders }> = [];
+  const streams: http.ServerResponse[] = [];
+  const clientAnswers: JsonRpcMessage[] = [];
+  let sessionCount = 0;
+
+  const server = http.createServer(async (req, res) => {
+    if (req.headers.authorization !== 'Bearer secret') {
+      res.writeHead(401).end('missing token');
+      return;
+    }
+    const session = req.headers['mcp-session-id'] as string | undefined;
+
+    if (req.method === 'GET') {
+      received.push({ method: 'GET', message: { jsonrpc: '2.0' }, headers: req.headers });
+      if (!session || !sessions.has(session)) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(': keep-alive\n\n');
+      streams.push(res);
+      return;
+    }
+    if (req.method === 'DELETE') {
+      received.push({ method: 'DELETE', message: { jsonrpc: '2.0' }, headers: req.headers });
+      sessions.delete(session!);
+      res.writeHead(200).end();
+      return;
+    }
+
+    const message = await readJson(req);
+    received.push({ method: message.method ?? 'response', message, headers: req.headers });
+
+    if (message.method === 'initialize') {
+      const id = `session-${++sessionCount}`;
+      sessions.add(id);
+      res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': id });
+      res.end(JSON.stringify(answer(message)));
+      return;
+    }
+    if (!session || !sessions.has(session)) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (message.id === undefined || message.method === undefined) {
+      if (message.method === undefined) {
+        clientAnswers.push(message);
+      }
+      res.writeHead(202).end();
+      return;
+    }
+    if (message.method === 'tools/list') {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      sse(res, null, { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'listing' } });
+      sse(res, 'message', answer(message), 'e1');
+      res.end();
+      return;
+    }
+    if (message.method === 'tools/call' && message.params.arguments.text === 'silent') {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(answer(message)));
+  });
+
+  return { server, sessions, received, streams, clientAnswers };
+}
+
+/**
+ * 旧版 SSE 服务器：GET /sse 建立事件流，POST /messages 的响应经事件流返回
+ */
+function createLegacyServer(endpoint = '/messages') {
+  const streams = new Map<string, http.ServerResponse>();
+  let connections = 0;
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const id = `legacy-${++connections}`;
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      sse(res, 'endpoint', `${endpoint}?sessionId=${id}`);
+      streams.set(id, res);
+      return;
+    }
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const stream = streams.get(url.searchParams.get('sessionId') ?? '');
+      if (!stream) {
+        res.writeHead(404).end();
+        return;
+      }
+      const message = await readJson(req);
+      res.writeHead(202).end();
+      if (message.id !== undefined && message.method) {
+        sse(stream, 'message', answer(message));
+      }
+      return;
+    }
+    res.writeHead(405).end();
+  });
+
+  return { server, streams, connections: () => connections };
+}
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function once<T>(emitter: NodeJS.EventEmitter, event: string): Promise<T> {
+  return new Promise(resolve => emitter.once(event, resolve));
+}
+
+describe('HttpMCPClient', () => {
+  const servers: http.Server[] = [];
+  const clients: HttpMCPClient[] = [];
+
+  async function start(server: http.Server): Promise<string> {
+    servers.push(server);
+    return listen(server);
+  }
+
+  function connectClient(config: Partial<MCPServerConfig> & { url: string }): HttpMCPClient {
+    const client = new HttpMCPClient({ name: 'remote', enabled: true, timeout: 2000, ...config });
+    clients.push(client);
+    return client;
+  }
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.disconnect()));
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(resolve);
+    })));
+  });
+
+  // ============================================================================
+  // Streamable HTTP
+  // ============================================================================
+  describe('Streamable HTTP', () => {
+    it('应该建立会话、携带认证头并处理 JSON 与 SSE 响应', async () => {
+      const stub = createStreamableServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url, headers: { Authorization: 'Bearer secret' } });
+      const notifications: Array<{ method: string }> = [];
+      client.on('notification', notification => notifications.push(notification));
+
+      await client.connect();
+
+      expect(client.getStatus()).toBe(MCPConnectionStatus.CONNECTED);
+      expect(client.getTransport()).toBe('streamable-http');
+      expect(client.getSessionId()).toBe('session-1');
+      expect(client.getTools().map(t => t.name)).toEqual(['echo']);
+      expect(notifications).toEqual([
+        { server: 'remote', method: 'notifications/message', params: { level: 'info', data: 'listing' } },
+      ]);
+      expect(stub.received.map(r => r.method)).toEqual(['initialize', 'notifications/initialized', 'tools/list', 'GET']);
+      expect(stub.received[0].message.params.protocolVersion).toBe('2025-03-26');
+      expect(stub.received[0].headers['mcp-session-id']).toBeUndefined();
+      expect(stub.received[2].headers).toMatchObject({ 'mcp-session-id': 'session-1', 'mcp-protocol-version': '2025-03-26' });
+      expect(stub.received[2].headers.accept).toBe('application/json, text/event-stream');
+
+      expect(await client.callTool('echo', { text: 'hi' })).toEqual({ content: [{ type: 'text', text: 'hi' }] });
+    });
+
+    it('应该通过 GET 事件流接收服务器消息并应答 ping', async () => {
+      const stub = createStreamableServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url, headers: { Authorization: 'Bearer secret' } });
+      await client.connect();
+      expect(stub.streams).toHaveLength(1);
+
+      const notified = once(client, 'notification');
+      sse(stub.streams[0], null, { jsonrpc: '2.0', method: 'notifications/tools/list_changed' }, 'g1');
+      expect(await notified).toEqual({ server: 'remote', method: 'notifications/tools/list_changed', params: undefined });
+
+      sse(stub.streams[0], null, { jsonrpc: '2.0', id: 'srv-1', method: 'ping' });
+      sse(stub.streams[0], null, { jsonrpc: '2.0', id: 'srv-2', method: 'sampling/createMessage' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(stub.clientAnswers).toEqual([
+        { jsonrpc: '2.0', id: 'srv-1', result: {} },
+        { jsonrpc: '2.0', id: 'srv-2', error: { code: -32601, message: 'Method not found: sampling/createMessage' } },
+      ]);
+    });
+
+    it('GET 事件流断开后应该带 Last-Event-ID 重连', async () => {
+      const stub = createStreamableServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url, headers: { Authorization: 'Bearer secret' }, reconnect: { delayMs: 10 } });
+      await client.connect();
+
+      sse(stub.streams[0], null, { jsonrpc: '2.0', method: 'notifications/progress' }, 'g7');
+      await once(client, 'notification');
+      const reconnected = once(client, 'reconnected');
+      stub.streams[0].end();
+      await reconnected;
+
+      const gets = stub.received.filter(r => r.method === 'GET');
+      expect(gets).toHaveLength(2);
+      expect(gets[0].headers['last-event-id']).toBeUndefined();
+      expect(gets[1].headers).toMatchObject({ 'mcp-session-id': 'session-1', 'last-event-id': 'g7' });
+      expect(client.getStatus()).toBe(MCPConnectionStatus.CONNECTED);
+    });
+
+    it('会话过期时应该重新初始化并重试请求', async () => {
+      const stub = createStreamableServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url, headers: { Authorization: 'Bearer secret' } });
+      await client.connect();
+
+      stub.sessions.clear();
+      const restored = once(client, 'sessionRestored');
+      expect(await client.callTool('echo', { text: 'again' })).toEqual({ content: [{ type: 'text', text: 'again' }] });
+      expect(await restored).toEqual({ server: 'remote', sessionId: 'session-2' });
+      expect(client.getSessionId()).toBe('session-2');
+    });
+
+    it('响应流未包含响应时请求应该失败，断开时应该结束会话', async () => {
+      const stub = createStreamableServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url, headers: { Authorization: 'Bearer secret' } });
+      await client.connect();
+
+      const error = await client.callTool('echo', { text: 'silent' }).catch(e => e);
+      expect(error).toBeInstanceOf(MCPTransportError);
+      expect(error.code).toBe('STREAM_CLOSED');
+
+      await client.disconnect();
+      expect(stub.received.at(-1)).toMatchObject({ method: 'DELETE', headers: { 'mcp-session-id': 'session-1' } });
+      expect(stub.sessions.size).toBe(0);
+      expect(client.getStatus()).toBe(MCPConnectionStatus.DISCONNECTED);
+      await expect(client.callTool('echo', { text: 'x' })).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+    });
+
+    it('认证失败时连接应该失败', async () => {
+      const url = await start(createStreamableServer().server);
+      const client = connectClient({ url, headers: { Authorization: 'Bearer wrong' } });
+
+      const error = await client.connect().catch(e => e);
+      expect(error).toBeInstanceOf(MCPTransportError);
+      expect(error).toMatchObject({ code: 'UNAUTHORIZED', status: 401 });
+      expect(error.message).toBe('MCP server "remote" responded with HTTP 401: missing token');
+      expect(client.getStatus()).toBe(MCPConnectionStatus.ERROR);
+    });
+  });
+
+  // ============================================================================
+  // 旧版 SSE
+  // ============================================================================
+  describe('Legacy SSE', () => {
+    it('auto 模式应该回退到 SSE 并在事件流断开后重连', async () => {
+      const stub = createLegacyServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url: `${url}/sse`, reconnect: { delayMs: 10 } });
+
+      await client.connect();
+      expect(client.getTransport()).toBe('sse');
+      expect(client.getTools().map(t => t.name)).toEqual(['echo']);
+      expect(await client.callTool('echo', { text: 'legacy' })).toEqual({ content: [{ type: 'text', text: 'legacy' }] });
+
+      const statuses: MCPConnectionStatus[] = [];
+      client.on('statusChange', ({ status }) => statuses.push(status));
+      const reconnected = once(client, 'reconnected');
+      stub.streams.get('legacy-1')!.end();
+      await reconnected;
+
+      expect(statuses).toEqual([MCPConnectionStatus.CONNECTING, MCPConnectionStatus.CONNECTED]);
+      expect(stub.connections()).toBe(2);
+      expect(await client.callTool('echo', { text: 'back' })).toEqual({ content: [{ type: 'text', text: 'back' }] });
+    });
+
+    it('重连次数用尽时应该进入错误状态', async () => {
+      const stub = createLegacyServer();
+      const url = await start(stub.server);
+      const client = connectClient({ url: `${url}/sse`, transport: 'sse', reconnect: { maxAttempts: 2, delayMs: 10 } });
+      await client.connect();
+
+      const attempts: number[] = [];
+      client.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+      const failed = once<{ error: Error }>(client, 'reconnectFailed');
+      stub.server.close();
+      stub.server.closeAllConnections();
+
+      expect((await failed).error).toBeInstanceOf(MCPTransportError);
+      expect(attempts).toEqual([1, 2]);
+      expect(client.getStatus()).toBe(MCPConnectionStatus.ERROR);
+    });
+
+    it('应该拒绝跨域的 endpoint 与强制 Streamable HTTP 时的 405', async () => {
+      const url = await start(createLegacyServer('http://evil.example/messages').server);
+
+      const crossOrigin = await connectClient({ url: `${url}/sse` }).connect().catch(e => e);
+      expect(crossOrigin).toMatchObject({ code: 'INVALID_ENDPOINT' });
+
+      const forced = await connectClient({ url: `${url}/sse`, transport: 'streamable-http' }).connect().catch(e => e);
+      expect(forced).toMatchObject({ code: 'HTTP_ERROR', status: 405 });
+    });
+  });
+
+  // ============================================================================
+  // 工具管理器
+  // ============================================================================
+  describe('MCPToolManager', () => {
+    it('应该通过 url 连接 HTTP 服务器', async () => {
+      const url = await start(createStreamableServer().server);
+      const manager = new MCPToolManager('/nonexistent/mcp-servers.json');
+
+      const client = await manager.connectServer({ name: 'remote', url, headers: { Authorization: 'Bearer secret' }, enabled: true });
+      clients.push(client as HttpMCPClient);
+
+      expect(client).toBeInstanceOf(HttpMCPClient);
+      expect(manager.getStatus()).toEqual([{
+        name: 'remote',
+        status: MCPConnectionStatus.CONNECTED,
+        tools: 1,
+        resources: 0,
+        prompts: 0,
+        health: { healthy: true, restarting: false, restarts: 0, connectedAt: expect.any(String) },
+      }]);
+      expect(await manager.callTool('remote.echo', { text: 'via manager' })).toEqual({ content: [{ type: 'text', text: 'via manager' }] });
+    });
+
+    it('应该拒绝不支持的 URL', () => {
+      expect(() => new HttpMCPClient({ name: 'x', url: 'ftp://example.com', enabled: true })).toThrow(MCPTransportError);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * MCP 资源与提示词 - 单元测试
+ */
+
+import {
+  MCPClient,
+  MCPConnectionStatus,
+  MCPToolManager,
+  formatPromptMessages,
+} from '../../../src/execution/mcp-tool-manager';
+import type { MCPMessage, MCPServerCapabilities } from '../../../src/execution/mcp-tool-manager';
+import { createMCPResourceTools } from '../../../src/execution/tools/mcp';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import type { ScriptedProvider } from '../../../src/execution/providers/scripted';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+const NOTES = '# Notes\n' + 'x'.repeat(100);
+
+/**
+ * 内存中的 MCP 服务器：按方法同步生成响应
+ */
+class FakeMCPClient extends MCPClient {
+  public sent: MCPMessage[] = [];
+
+  constructor(name: string, private serverCapabilities: MCPServerCapabilities | undefined) {
+    super(name);
+  }
+
+  async connect(): Promise<void> {
+    await this.initialize();
+    this.setStatus(MCPConnectionStatus.CONNECTED);
+  }
+
+  async disconnect(): Promise<void> {
+    this.setStatus(MCPConnectionStatus.DISCONNECTED);
+  }
+
+  /** 模拟服务器推送的通知 */
+  notify(method: string, params?: unknown): void {
+    this.handleMessage({ jsonrpc: '2.0', method, params });
+  }
+
+  protected async send(message: MCPMessage): Promise<void> {
+    this.sent.push(message);
+    if (!('method' in message) || !('id' in message)) {
+      return;
+    }
+    const result = this.respond(message.method, message.params as any);
+    queueMicrotask(() => this.handleMessage({ jsonrpc: '2.0', id: message.id, result }));
+  }
+
+  private respond(method: string, params: any): unknown {
+    switch (method) {
+      case 'initialize':
+        return { protocolVersion: '2024-11-05', capabilities: this.serverCapabilities };
+      case 'tools/list':
+        return { tools: [{ name: 'search', description: 'Search', inputSchema: { type: 'object' } }] };
+      case 'resources/list':
+        return params?.cursor === 'page-2'
+          ? { resources: [{ uri: 'file:///logo.png', name: 'logo', mimeType: 'image/png' }] }
+          : { resources: [{ uri: 'file:///notes.md', name: 'notes', description: 'Team notes' }], nextCursor: 'page-2' };
+      case 'resources/read':
+        return params.uri === 'file:///logo.png'
+          ? { contents: [{ uri: params.uri, mimeType: 'image/png', blob: Buffer.from('png-bytes').toString('base64') }] }
+          : { contents: [{ uri: params.uri, mimeType: 'text/markdown', text: NOTES }] };
+      case 'prompts/list':
+        return {
+          prompts: [
+            { name: 'review', description: 'Review code', arguments: [{ name: 'code', required: true }, { name: 'style' }] },
+            { name: 'pair' },
+          ],
+        };
+      case 'prompts/get':
+        return params.name === 'review'
+          ? { description: 'Review code', messages: [{ role: 'user', content: { type: 'text', text: `Review ${params.arguments.code} (${params.arguments.style ?? 'any'})` } }] }
+          : {
+              messages: [
+                { role: 'user', content: { type: 'text', text: 'Read this' } },
+                { role: 'user', content: { type: 'resource', resource: { uri: 'file:///notes.md', text: 'the notes' } } },
+                { role: 'assistant', content: { type: 'image', data: 'AA==', mimeType: 'image/png' } },
+              ],
+            };
+      default:
+        return {};
+    }
+  }
+}
+
+const FULL_CAPABILITIES = { tools: {}, resources: { subscribe: true, listChanged: true }, prompts: {} };
+
+function methods(client: FakeMCPClient): string[] {
+  return client.sent.map(m => ('method' in m ? m.method : 'response'));
+}
+
+async function createManager(): Promise<{ manager: MCPToolManager; client: FakeMCPClient }> {
+  const manager = new MCPToolManager('/nonexistent/mcp-servers.json');
+  const client = new FakeMCPClient('docs', FULL_CAPABILITIES);
+  await client.connect();
+  (manager as unknown as { clients: Map<string, MCPClient> }).clients.set('docs', client);
+  return { manager, client };
+}
+
+describe('MCP resources and prompts', () => {
+  // ============================================================================
+  // 客户端
+  // ============================================================================
+  describe('MCPClient', () => {
+    it('初始化时应该按能力翻页获取工具、资源与提示词', async () => {
+      const client = new FakeMCPClient('docs', FULL_CAPABILITIES);
+      await client.connect();
+
+      expect(methods(client)).toEqual([
+        'initialize', 'notifications/initialized', 'tools/list', 'resources/list', 'resources/list', 'prompts/list',
+      ]);
+      expect(client.getResources().map(r => r.uri)).toEqual(['file:///notes.md', 'file:///logo.png']);
+      expect(client.getPrompts().map(p => p.name)).toEqual(['review', 'pair']);
+
+      const toolsOnly = new FakeMCPClient('tools', { tools: {} });
+      await toolsOnly.connect();
+      expect(methods(toolsOnly)).toEqual(['initialize', 'notifications/initialized', 'tools/list']);
+      await expect(toolsOnly.readResource('file:///x')).rejects.toThrow('MCP server "tools" does not provide resources');
+
+      // 未声明能力的旧服务器仍然获取工具列表
+      const legacy = new FakeMCPClient('legacy', undefined);
+      await legacy.connect();
+      expect(legacy.getTools()).toHaveLength(1);
+    });
+
+    it('应该读取资源并填充提示词，缺少必填参数时不发送请求', async () => {
+      const client = new FakeMCPClient('docs', FULL_CAPABILITIES);
+      await client.connect();
+
+      expect(await client.readResource('file:///notes.md')).toEqual([
+        { uri: 'file:///notes.md', mimeType: 'text/markdown', text: NOTES },
+      ]);
+
+      const sentBefore = client.sent.length;
+      await expect(client.getPromptMessages('review')).rejects.toThrow('Missing required argument for prompt "review": code');
+      await expect(client.getPromptMessages('unknown')).rejects.toThrow('Prompt not found: unknown');
+      expect(client.sent).toHaveLength(sentBefore);
+
+      const result = await client.getPromptMessages('review', { code: 'a.ts' });
+      expect(result).toEqual({
+        description: 'Review code',
+        messages: [{ role: 'user', content: { type: 'text', text: 'Review a.ts (any)' } }],
+      });
+      expect(client.sent.at(-1)).toMatchObject({ method: 'prompts/get', params: { name: 'review', arguments: { code: 'a.ts' } } });
+    });
+
+    it('应该订阅资源更新，列表变化时刷新，重新初始化后恢复订阅', async () => {
+      const client = new FakeMCPClient('docs', FULL_CAPABILITIES);
+      await client.connect();
+      const updates: Array<{ server: string; uri: string }> = [];
+      client.on('resourceUpdated', update => updates.push(update));
+
+      await client.subscribeResource('file:///notes.md');
+      client.notify('notifications/resources/updated', { uri: 'file:///notes.md' });
+      expect(updates).toEqual([{ server: 'docs', uri: 'file:///notes.md' }]);
+      expect(client.getSubscriptions()).toEqual(['file:///notes.md']);
+
+      const changed = new Promise(resolve => client.once('resourcesChanged', resolve));
+      client.notify('notifications/resources/list_changed');
+      await changed;
+
+      client.sent = [];
+      await client.initialize();
+      expect(client.sent).toContainEqual(expect.objectContaining({ method: 'resources/subscribe', params: { uri: 'file:///notes.md' } }));
+
+      await client.unsubscribeResource('file:///notes.md');
+      expect(client.getSubscriptions()).toEqual([]);
+
+      const noSubscribe = new FakeMCPClient('static', { resources: {} });
+      await noSubscribe.connect();
+      await expect(noSubscribe.subscribeResource('file:///x')).rejects.toThrow('does not support resource subscriptions');
+    });
+
+    it('formatPromptMessages 应该把多条消息按角色渲染', () => {
+      expect(formatPromptMessages([{ role: 'user', content: { type: 'text', text: 'only' } }])).toBe('only');
+      expect(formatPromptMessages([
+        { role: 'user', content: { type: 'text', text: 'Read this' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a', blob: 'AA==' } } },
+        { role: 'assistant', content: { type: 'image', data: 'AA==', mimeType: 'image/png' } },
+      ])).toBe('User: Read this\n\nUser: [resource: file:///a]\n\nAssistant: [image: image/png]');
+    });
+  });
+
+  // ============================================================================
+  // 资源工具
+  // ============================================================================
+  describe('Resource tools', () => {
+    it('模型可以列出与读取资源，长文本截断，二进制只返回大小', async () => {
+      const { manager } = await createManager();
+      const registry = new ToolRegistry();
+      registry.registerMany(createMCPResourceTools(manager));
+
+      const listed = await registry.execute('mcp_resource_list', { query: 'TEAM' });
+      expect(listed.data).toEqual({
+        resources: [{ uri: 'file:///notes.md', name: 'notes', description: 'Team notes', server: 'docs' }],
+        total: 1,
+      });
+
+      const text = await registry.execute('mcp_resource_read', { server: 'docs', uri: 'file:///notes.md', maxChars: 10 });
+      expect(text.data).toEqual({
+        server: 'docs',
+        uri: 'file:///notes.md',
+        contents: [{ uri: 'file:///notes.md', mimeType: 'text/markdown', text: NOTES.slice(0, 10), truncated: true }],
+      });
+
+      const binary = await registry.execute('mcp_resource_read', { server: 'docs', uri: 'file:///logo.png' });
+      expect((binary.data as { contents: unknown[] }).contents).toEqual([
+        { uri: 'file:///logo.png', mimeType: 'image/png', binary: true, size: 9 },
+      ]);
+
+      const missing = await registry.execute('mcp_resource_read', { server: 'nope', uri: 'file:///x' });
+      expect(missing.error).toBe('Server not found: nope');
+    });
+  });
+
+  // ============================================================================
+  // mcp 命令
+  // ============================================================================
+  describe('mcp command', () => {
+    it('用户可以列出、填充提示词模板并以模板发起对话', async () => {
+      const { manager } = await createManager();
+      const engine = createScriptedEngine([{ content: 'Looks good' }]);
+      const agent = new UnifiedAgent({ model: engine, mcp: manager, scheduler: { homeostasisEnable: false } });
+
+      try {
+        expect(agent.toolRegistry.has('mcp_resource_read')).toBe(true);
+        expect(await agent.handleCommand('mcp', ['prompts'])).toEqual([
+          expect.objectContaining({ name: 'review', server: 'docs', fullName: 'docs.review' }),
+          expect.objectContaining({ name: 'pair', server: 'docs', fullName: 'docs.pair' }),
+        ]);
+        expect(await agent.handleCommand('mcp', ['prompt', 'docs.review', 'code=a.ts', 'style=strict'])).toMatchObject({
+          prompt: 'docs.review',
+          messages: [{ role: 'user', content: { type: 'text', text: 'Review a.ts (strict)' } }],
+        });
+        expect(await agent.handleCommand('mcp', ['prompt'])).toEqual({ error: 'Usage: mcp prompt <server.prompt> [name=value ...]' });
+
+        const chat = await agent.handleCommand('mcp', ['use', 's1', 'docs.review', 'code=b.ts']);
+        expect(chat).toMatchObject({ content: 'Looks good' });
+        const [request] = (engine.getProvider() as ScriptedProvider).getRequests();
+        expect(request.messages.at(-1)).toEqual({ role: 'user', content: 'Review b.ts (any)' });
+      } finally {
+        await agent.stop();
+      }
+
+      const unconfigured = new UnifiedAgent({ scheduler: { homeostasisEnable: false } });
+      expect(await unconfigured.handleCommand('mcp', [])).toEqual({ error: 'MCP is not configured' });
+      await unconfigured.stop();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * MCP 服务器 - 单元测试
+ */
+
+import { PassThrough } from 'stream';
+import * as readline from 'readline';
+import { MCPServer, MCP_ERROR_CODES, createSelfResources } from '../../../src/execution/mcp-server';
+import { MCPClient, MCPConnectionStatus } from '../../../src/execution/mcp-tool-manager';
+import type { MCPMessage } from '../../../src/execution/mcp-tool-manager';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { createSelfTools } from '../../../src/execution/tools/self';
+import { UnifiedSelfDescription } from '../../../src/cognitive/unified-self-description';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+/**
+ * 通过内存管道连接到 MCPServer 的客户端
+ */
+class PipeMCPClient extends MCPClient {
+  constructor(private toServer: PassThrough, fromServer: PassThrough) {
+    super('ouroboros');
+    readline.createInterface({ input: fromServer }).on('line', line => this.handleMessage(JSON.parse(line)));
+  }
+
+  async connect(): Promise<void> {
+    await this.initialize();
+    this.setStatus(MCPConnectionStatus.CONNECTED);
+  }
+
+  async disconnect(): Promise<void> {
+    this.toServer.end();
+    this.setStatus(MCPConnectionStatus.DISCONNECTED);
+  }
+
+  protected async send(message: MCPMessage): Promise<void> {
+    this.toServer.write(JSON.stringify(message) + '\n');
+  }
+}
+
+function createRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.registerMany([
+    {
+      name: 'echo',
+      description: 'Echo the text',
+      parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+      execute: async (args: { text: string }) => ({ echoed: args.text }),
+    },
+    {
+      name: 'fail',
+      description: 'Always fails',
+      parameters: { type: 'object', properties: {} },
+      execute: async () => { throw new Error('Boom'); },
+    },
+    {
+      name: 'file_delete',
+      description: 'Delete a file',
+      parameters: { type: 'object', properties: { path: { type: 'string' } } },
+      requireConfirmation: true,
+      execute: async () => ({ deleted: true }),
+    },
+    {
+      name: 'file_write',
+      description: 'Write a file',
+      parameters: { type: 'object', properties: { path: { type: 'string' }, overwrite: { type: 'boolean' } } },
+      requireConfirmation: (args: Record<string, unknown>) => args.overwrite === true,
+      execute: async () => ({ written: true }),
+    },
+  ]);
+  return registry;
+}
+
+function createPipes(registry: ToolRegistry, options: Partial<ConstructorParameters<typeof MCPServer>[0]> = {}) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const server = new MCPServer({ registry, input, output, name: 'ouroboros', version: '1.0.0', ...options });
+  const listening = server.listen();
+  const client = new PipeMCPClient(input, output);
+  return { server, client, input, output, listening };
+}
+
+/** 直接向服务器写入原始行，读取下一行输出 */
+async function exchange(input: PassThrough, output: PassThrough, line: string): Promise<any> {
+  const reply = new Promise<string>(resolve => output.once('data', chunk => resolve(chunk.toString())));
+  input.write(line + '\n');
+  return JSON.parse(await reply);
+}
+
+describe('MCPServer', () => {
+  // ============================================================================
+  // 工具
+  // ============================================================================
+  describe('Tools', () => {
+    it('客户端可以初始化、列出并调用注册表中的工具', async () => {
+      const registry = createRegistry();
+      const { server, client, listening } = createPipes(registry);
+      const initialized = new Promise(resolve => server.once('initialized', resolve));
+
+      await client.connect();
+      expect(await initialized).toEqual({ name: 'OuroborosAgent', version: '1.0.0' });
+      expect(client.getCapabilities()).toEqual({ tools: { listChanged: true }, resources: { listChanged: true } });
+      // 需要人工确认的工具无法在 MCP 中确认，不提供
+      expect(client.getTools().map(t => t.name)).toEqual(['echo', 'fail', 'file_write']);
+
+      expect(await client.callTool('echo', { text: 'hi' })).toEqual({
+        content: [{ type: 'text', text: JSON.stringify({ echoed: 'hi' }, null, 2) }],
+        isError: false,
+      });
+      expect(await client.callTool('fail', {})).toEqual({ content: [{ type: 'text', text: 'Boom' }], isError: true });
+      expect(await client.callTool('file_write', { path: 'a', overwrite: true })).toMatchObject({
+        isError: true,
+        content: [{ text: 'Tool "file_write" requires confirmation, which is not available over MCP' }],
+      });
+      expect(await client.callTool('file_write', { path: 'a' })).toMatchObject({ isError: false });
+      expect(registry.getStats('echo')?.totalCalls).toBe(1);
+
+      await client.disconnect();
+      await listening;
+    });
+
+    it('注册表变化时通知客户端刷新工具列表', async () => {
+      const registry = createRegistry();
+      const { client, listening } = createPipes(registry);
+      await client.connect();
+
+      const refreshed = new Promise<void>(resolve => {
+        client.on('notification', (notification: { method: string }) => {
+          if (notification.method === 'notifications/tools/list_changed') {
+            resolve();
+          }
+        });
+      });
+      registry.register({
+        name: 'late',
+        description: 'Registered later',
+        parameters: { type: 'object', properties: {} },
+        execute: async () => 'ok',
+      });
+      await refreshed;
+
+      await client.disconnect();
+      await listening;
+      // 断开后不再监听注册表
+      expect(registry.listenerCount('toolRegistered')).toBe(0);
+    });
+  });
+
+  // ============================================================================
+  // 协议
+  // ============================================================================
+  describe('Protocol', () => {
+    it('应该返回 JSON-RPC 错误并支持批量请求', async () => {
+      const { input, output, listening } = createPipes(createRegistry());
+
+      expect(await exchange(input, output, '{not json')).toEqual({
+        jsonrpc: '2.0', id: null, error: { code: MCP_ERROR_CODES.PARSE_ERROR, message: 'Parse error' },
+      });
+      expect(await exchange(input, output, JSON.stringify({ jsonrpc: '2.0', id: 'a', method: 'sampling/createMessage' }))).toEqual({
+        jsonrpc: '2.0', id: 'a', error: { code: MCP_ERROR_CODES.METHOD_NOT_FOUND, message: 'Method not found: sampling/createMessage' },
+      });
+      expect(await exchange(input, output, JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'file_delete' } }))).toEqual({
+        jsonrpc: '2.0', id: 2, error: { code: MCP_ERROR_CODES.INVALID_PARAMS, message: 'Unknown tool: file_delete' },
+      });
+      expect(await exchange(input, output, JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'resources/read', params: { uri: 'ouroboros://x' } }))).toMatchObject({
+        id: 3, error: { code: MCP_ERROR_CODES.RESOURCE_NOT_FOUND },
+      });
+
+      const batch = await exchange(input, output, JSON.stringify([
+        { jsonrpc: '2.0', id: 4, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 5, method: 'initialize', params: { protocolVersion: '1999-01-01' } },
+      ]));
+      expect(batch).toEqual([
+        { jsonrpc: '2.0', id: 4, result: {} },
+        { jsonrpc: '2.0', id: 5, result: expect.objectContaining({ protocolVersion: '2024-11-05', serverInfo: { name: 'ouroboros', version: '1.0.0' } }) },
+      ]);
+
+      input.end();
+      await listening;
+    });
+
+    it('客户端取消请求时中止工具调用且不返回响应', async () => {
+      const registry = new ToolRegistry();
+      let aborted = false;
+      registry.register({
+        name: 'wait',
+        description: 'Wait until cancelled',
+        parameters: { type: 'object', properties: {} },
+        execute: (_args, context) => new Promise((_resolve, reject) => {
+          context.cancelSignal?.addEventListener('abort', () => {
+            aborted = true;
+            reject(new Error('Cancelled'));
+          });
+        }),
+      });
+      const { input, output, listening } = createPipes(registry);
+      const replies: string[] = [];
+      output.on('data', chunk => replies.push(chunk.toString()));
+
+      input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'wait' } }) + '\n');
+      await new Promise(resolve => setImmediate(resolve));
+      input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } }) + '\n');
+      input.write(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }) + '\n');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(aborted).toBe(true);
+      expect(replies.map(r => JSON.parse(r).id)).toEqual([2]);
+
+      input.end();
+      await listening;
+    });
+  });
+
+  // ============================================================================
+  // 自身状态
+  // ============================================================================
+  describe('Self state', () => {
+    it('应该提供 memory_query、body_status 与只读的自身状态资源', async () => {
+      const agent = new UnifiedAgent({ scheduler: { homeostasisEnable: false } });
+      try {
+        await agent.memory.store('Reflection performed. Insights: none', 'reflective', { tags: ['reflection'] });
+        await agent.memory.store('User prefers short answers', 'semantic', { tags: ['preference'] });
+        agent.toolRegistry.registerMany(createSelfTools(agent));
+
+        const selfDescription = new UnifiedSelfDescription('/nonexistent/self-description');
+        const { client, listening } = createPipes(agent.toolRegistry, {
+          resources: createSelfResources(agent, selfDescription),
+        });
+        await client.connect();
+
+        expect(client.getTools().map(t => t.name)).toEqual(expect.arrayContaining(['memory_query', 'body_status']));
+        const query = await client.callTool('memory_query', { query: 'short', limit: 5 }) as { content: Array<{ text: string }> };
+        expect(JSON.parse(query.content[0].text)).toMatchObject({
+          total: 1,
+          memories: [{ content: 'User prefers short answers', type: 'semantic', tags: ['preference'] }],
+        });
+        const body = await client.callTool('body_status', {}) as { content: Array<{ text: string }> };
+        expect(JSON.parse(body.content[0].text)).toMatchObject({ memory: { total: 2 }, tools: agent.toolRegistry.count() });
+
+        expect(client.getResources().map(r => r.uri)).toEqual([
+          'ouroboros://self/description',
+          'ouroboros://self/hormones',
+          'ouroboros://self/reflections',
+        ]);
+
+        const [description] = await client.readResource('ouroboros://self/description');
+        expect(description.mimeType).toBe('application/json');
+        expect(JSON.parse(description.text!)).toMatchObject({
+          identity: { name: 'Ouroboros' },
+          cognitiveState: { hormoneLevels: agent.hormoneSystem.getState() },
+        });
+
+        const [hormones] = await client.readResource('ouroboros://self/hormones');
+        expect(JSON.parse(hormones.text!).state).toEqual(agent.hormoneSystem.getState());
+
+        const [reflections] = await client.readResource('ouroboros://self/reflections');
+        expect(JSON.parse(reflections.text!)).toEqual([
+          expect.objectContaining({ content: 'Reflection performed. Insights: none', tags: ['reflection'] }),
+        ]);
+        // 读取资源不计入记忆的访问次数
+        expect(agent.memory.getRecent({ type: 'reflective' })[0].accessCount).toBe(0);
+
+        await client.disconnect();
+        await listening;
+      } finally {
+        await agent.stop();
+      }
+    });
+  });
+});
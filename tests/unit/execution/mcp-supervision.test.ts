@@ -0,0 +1,139 @@
+/**
+ * MCP 服务器监督 - 单元测试
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPToolManager } from '../../../src/execution/mcp-tool-manager';
+import type { MCPServerConfig, MCPServerState } from '../../../src/execution/mcp-tool-manager';
+import { UnifiedSelfDescription } from '../../../src/cognitive/unified-self-description';
+
+/**
+ * stdio MCP 服务器脚本：
+ * - crash 工具使进程退出 (code 1)
+ * - grow 工具增加一个工具并发送 tools/list_changed
+ * - 启动次数超过 MAX_STARTS 时立即退出 (code 3)，用于模拟无法恢复的服务器
+ */
+const SERVER_SCRIPT = `
+const fs = require('fs');
+const counter = process.env.START_COUNTER;
+const starts = (fs.existsSync(counter) ? Number(fs.readFileSync(counter, 'utf-8')) : 0) + 1;
+fs.writeFileSync(counter, String(starts));
+if (starts > Number(process.env.MAX_STARTS)) process.exit(3);
+
+const tools = [{ name: 'crash', inputSchema: { type: 'object' } }, { name: 'grow', inputSchema: { type: 'object' } }];
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+require('readline').createInterface({ input: process.stdin }).on('line', line => {
+  const { id, method, params } = JSON.parse(line);
+  if (id === undefined) return;
+  if (method === 'initialize') {
+    send({ id, result: { protocolVersion: '2024-11-05', capabilities: { tools: { listChanged: true } } } });
+  } else if (method === 'tools/list') {
+    send({ id, result: { tools } });
+  } else if (method === 'tools/call' && params.name === 'crash') {
+    process.exit(1);
+  } else if (method === 'tools/call' && params.name === 'grow') {
+    tools.push({ name: 'tool_' + tools.length, inputSchema: { type: 'object' } });
+    send({ id, result: { content: [] } });
+    send({ method: 'notifications/tools/list_changed' });
+  } else {
+    send({ id, error: { code: -32601, message: 'Method not found' } });
+  }
+});
+`;
+
+function once<T>(manager: MCPToolManager, event: string): Promise<T> {
+  return new Promise(resolve => manager.once(event, resolve));
+}
+
+describe('MCPToolManager supervision', () => {
+  let dir: string;
+  let manager: MCPToolManager;
+  let states: MCPServerState[];
+  let selfDescription: UnifiedSelfDescription;
+
+  async function connect(maxStarts: number, restart: MCPServerConfig['restart']): Promise<void> {
+    await manager.connectServer({
+      name: 'local',
+      command: process.execPath,
+      args: [path.join(dir, 'server.js')],
+      env: { START_COUNTER: path.join(dir, 'starts'), MAX_STARTS: String(maxStarts) },
+      restart,
+      enabled: true,
+    });
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-mcp-supervision-'));
+    await fs.writeFile(path.join(dir, 'server.js'), SERVER_SCRIPT);
+    manager = new MCPToolManager(path.join(dir, 'mcp-servers.json'));
+    states = [];
+    selfDescription = new UnifiedSelfDescription(dir);
+    manager.on('serverStateChanged', (state: MCPServerState) => {
+      states.push(state);
+      selfDescription.updateMCPServer(state);
+    });
+  });
+
+  afterEach(async () => {
+    await manager.disconnectAll();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('子进程崩溃后应该重启并恢复工具，自我描述保持同步', async () => {
+    await connect(5, { maxAttempts: 3, delayMs: 10 });
+    expect(selfDescription.getPart('toolSet').mcpServers).toEqual([
+      { name: 'local', enabled: true, tools: ['crash', 'grow'], status: 'connected' },
+    ]);
+
+    const exited = once<{ server: string; code: number }>(manager, 'serverExited');
+    const restarted = once<{ server: string; attempt: number }>(manager, 'serverRestarted');
+    await expect(manager.callTool('local.crash', {})).rejects.toThrow('MCP server exited with code 1');
+    expect(await exited).toMatchObject({ server: 'local', code: 1 });
+    expect(states.at(-1)).toMatchObject({ status: 'disconnected' });
+
+    expect(await restarted).toEqual({ server: 'local', attempt: 1 });
+    expect(manager.getAllTools().map(t => t.name)).toEqual(['local.crash', 'local.grow']);
+    const [status] = manager.getStatus();
+    expect(status.health).toMatchObject({ healthy: true, restarting: false, restarts: 1, lastExit: { code: 1, signal: null } });
+    expect(selfDescription.getPart('toolSet').mcpServers).toEqual([
+      { name: 'local', enabled: true, tools: ['crash', 'grow'], status: 'connected' },
+    ]);
+  });
+
+  it('收到 tools/list_changed 时应该刷新工具列表', async () => {
+    await connect(5, { maxAttempts: 0 });
+
+    const changed = once<{ server: string; tools: Array<{ name: string }> }>(manager, 'toolsChanged');
+    await manager.callTool('local.grow', {});
+    expect((await changed).tools.map(t => t.name)).toEqual(['crash', 'grow', 'tool_2']);
+    expect(manager.getAllTools().map(t => t.name)).toContain('local.tool_2');
+    expect(selfDescription.getPart('toolSet').mcpServers[0].tools).toEqual(['crash', 'grow', 'tool_2']);
+  });
+
+  it('重启全部失败后应该报告错误，断开后不再重启', async () => {
+    await connect(1, { maxAttempts: 2, delayMs: 10 });
+    const restarting: number[] = [];
+    manager.on('serverRestarting', ({ attempt }) => restarting.push(attempt));
+
+    const failed = once<{ server: string; attempts: number; error: Error }>(manager, 'serverRestartFailed');
+    await expect(manager.callTool('local.crash', {})).rejects.toThrow();
+    const failure = await failed;
+
+    expect(failure).toMatchObject({ server: 'local', attempts: 2 });
+    expect(failure.error.message).toBe('MCP server exited with code 3');
+    expect(restarting).toEqual([1, 2]);
+    expect(manager.getStatus()[0].health).toMatchObject({
+      healthy: false,
+      restarting: false,
+      restarts: 0,
+      lastError: 'MCP server exited with code 3',
+    });
+    expect(selfDescription.getPart('toolSet').mcpServers[0].status).toBe('error');
+
+    await manager.disconnectServer('local');
+    expect(manager.getStatus()).toEqual([]);
+    expect(states.at(-1)).toMatchObject({ enabled: false, status: 'disconnected' });
+  });
+});
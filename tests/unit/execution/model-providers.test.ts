@@ -0,0 +1,218 @@
+/**
+ * 模型提供商 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import {
+  ModelEngine,
+  ModelEngineError,
+  registerModelProvider,
+  unregisterModelProvider,
+  listModelProviders,
+  createScriptedEngine,
+  createOpenAICompatibleEngine,
+  createAnthropicEngine,
+} from '../../../src/execution/model-engine';
+import type { ModelProvider, StreamChunk } from '../../../src/execution/model-engine';
+import { toAnthropicMessages } from '../../../src/execution/providers/anthropic';
+import { mockFetchResponse } from '../../setup';
+
+const fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+
+describe('Model Providers', () => {
+  // ============================================================================
+  // 注册表
+  // ============================================================================
+  describe('Provider Registry', () => {
+    it('应该注册所有内置提供商', () => {
+      expect(listModelProviders()).toEqual(
+        expect.arrayContaining(['openai', 'openai-compatible', 'ollama', 'anthropic', 'scripted'])
+      );
+    });
+
+    it('应该无需修改引擎即可注册自定义提供商', async () => {
+      const provider: ModelProvider = {
+        name: 'custom-test',
+        complete: async ({ config }) => ({
+          content: `from ${config.model}`,
+          finishReason: 'stop',
+          usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+          latencyMs: 0,
+        }),
+        async *stream() {
+          yield { content: 'x' };
+        },
+      };
+
+      registerModelProvider(provider);
+      try {
+        const engine = new ModelEngine({ provider: 'custom-test', model: 'm1' });
+        const result = await engine.complete([{ role: 'user', content: 'hi' }]);
+        expect(result.content).toBe('from m1');
+      } finally {
+        unregisterModelProvider('custom-test');
+      }
+    });
+
+    it('应该在未知提供商时抛出配置错误', async () => {
+      const engine = new ModelEngine({ provider: 'does-not-exist', model: 'm' });
+
+      await expect(engine.complete([])).rejects.toMatchObject({
+        name: 'ModelEngineError',
+        code: 'CONFIG_ERROR',
+      });
+    });
+  });
+
+  // ============================================================================
+  // 脚本化提供商
+  // ============================================================================
+  describe('ScriptedProvider', () => {
+    it('应该按顺序返回预设响应，耗尽后回显', async () => {
+      const engine = createScriptedEngine([
+        { content: 'first' },
+        { toolCalls: [{ id: 'c1', type: 'function', function: { name: 'add', arguments: '{}' } }] },
+      ]);
+
+      const first = await engine.complete([{ role: 'user', content: 'a' }]);
+      const second = await engine.complete([{ role: 'user', content: 'b' }]);
+      const echo = await engine.complete([{ role: 'user', content: 'echo me' }]);
+
+      expect(first.content).toBe('first');
+      expect(second.finishReason).toBe('tool_calls');
+      expect(second.toolCalls?.[0].function.name).toBe('add');
+      expect(echo.content).toBe('echo me');
+    });
+
+    it('应该抛出脚本中的错误', async () => {
+      const engine = createScriptedEngine([new ModelEngineError('boom', 'API_ERROR')]);
+
+      await expect(engine.complete([])).rejects.toThrow('boom');
+    });
+
+    it('应该以确定性的分块进行流式输出', async () => {
+      const engine = createScriptedEngine([{ content: 'hello brave world' }]);
+      const chunks: StreamChunk[] = [];
+
+      for await (const chunk of engine.stream([{ role: 'user', content: 'x' }])) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.filter(c => c.content).map(c => c.content)).toEqual(['hello ', 'brave ', 'world']);
+      expect(chunks[chunks.length - 1].finishReason).toBe('stop');
+    });
+
+    it('应该生成确定性的嵌入向量', async () => {
+      const engine = createScriptedEngine();
+      const a = await engine.embed('same text');
+      const b = await engine.embed('same text');
+
+      expect(a.embedding).toEqual(b.embedding);
+      expect(a.embedding).toHaveLength(16);
+    });
+  });
+
+  // ============================================================================
+  // OpenAI 兼容提供商
+  // ============================================================================
+  describe('OpenAI-compatible provider', () => {
+    it('应该使用自定义 baseUrl 且不要求 API Key', async () => {
+      mockFetchResponse({
+        choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+      });
+
+      const engine = createOpenAICompatibleEngine('http://localhost:8000/v1/', 'qwen');
+      const result = await engine.complete([{ role: 'user', content: 'hi' }]);
+
+      expect(result.content).toBe('ok');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:8000/v1/chat/completions');
+      expect((init?.headers as Record<string, string>).Authorization).toBeUndefined();
+    });
+
+    it('应该在缺少 baseUrl 时报错', async () => {
+      const engine = new ModelEngine({ provider: 'openai-compatible', model: 'qwen' });
+
+      await expect(engine.complete([])).rejects.toMatchObject({ code: 'CONFIG_ERROR' });
+    });
+  });
+
+  // ============================================================================
+  // Anthropic 提供商
+  // ============================================================================
+  describe('Anthropic provider', () => {
+    it('应该转换工具调用与工具结果消息', () => {
+      const converted = toAnthropicMessages([
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'add 1 and 2' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { id: 't1', type: 'function', function: { name: 'add', arguments: '{"a":1,"b":2}' } },
+            { id: 't2', type: 'function', function: { name: 'noop', arguments: '' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 't1', content: '3' },
+        { role: 'tool', tool_call_id: 't2', content: 'null' },
+      ]);
+
+      expect(converted).toEqual([
+        { role: 'user', content: 'add 1 and 2' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 't1', name: 'add', input: { a: 1, b: 2 } },
+            { type: 'tool_use', id: 't2', name: 'noop', input: {} },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 't1', content: '3' },
+            { type: 'tool_result', tool_use_id: 't2', content: 'null' },
+          ],
+        },
+      ]);
+    });
+
+    it('应该解析 Messages API 响应', async () => {
+      mockFetchResponse({
+        content: [
+          { type: 'text', text: 'Let me add.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'add', input: { a: 1, b: 2 } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 12, output_tokens: 8 },
+      });
+
+      const engine = createAnthropicEngine('sk-test', 'claude-test');
+      const result = await engine.complete(
+        [{ role: 'system', content: 'be brief' }, { role: 'user', content: 'add' }],
+        [{
+          type: 'function',
+          function: { name: 'add', description: 'Add', parameters: { type: 'object', properties: {} } },
+        }]
+      );
+
+      expect(result.content).toBe('Let me add.');
+      expect(result.finishReason).toBe('tool_calls');
+      expect(result.toolCalls).toEqual([
+        { id: 'toolu_1', type: 'function', function: { name: 'add', arguments: '{"a":1,"b":2}' } },
+      ]);
+      expect(result.usage.totalTokens).toBe(20);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      const body = JSON.parse(init?.body as string);
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect((init?.headers as Record<string, string>)['x-api-key']).toBe('sk-test');
+      expect(body.system).toBe('be brief');
+      expect(body.tools[0]).toEqual({
+        name: 'add',
+        description: 'Add',
+        input_schema: { type: 'object', properties: {} },
+      });
+    });
+  });
+});
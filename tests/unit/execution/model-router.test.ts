@@ -0,0 +1,218 @@
+/**
+ * 模型路由器 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import {
+  ModelEngineError,
+  createScriptedEngine,
+} from '../../../src/execution/model-engine';
+import type { StreamChunk } from '../../../src/execution/model-engine';
+import { ModelRouter } from '../../../src/execution/model-router';
+import type { RoutingSignalSources } from '../../../src/execution/model-router';
+import { UnifiedAgent, HormoneType } from '../../../src/unified-agent';
+
+function createRouter(
+  scripts: { fast?: any[]; standard?: any[]; strong?: any[] } = {},
+  sources: RoutingSignalSources = {}
+): ModelRouter {
+  return new ModelRouter({
+    routes: [
+      { name: 'standard', tier: 'standard', engine: createScriptedEngine(scripts.standard, { model: 'std-model' }) },
+      { name: 'fast', tier: 'fast', engine: createScriptedEngine(scripts.fast, { model: 'fast-model' }) },
+      { name: 'strong', tier: 'strong', engine: createScriptedEngine(scripts.strong, { model: 'strong-model' }) },
+    ],
+    sources,
+  });
+}
+
+describe('ModelRouter', () => {
+  // ============================================================================
+  // 路由决策
+  // ============================================================================
+  describe('Routing decisions', () => {
+    it('无信号时应该使用默认路由', async () => {
+      const router = createRouter({ standard: [{ content: 'hi' }] });
+
+      const result = await router.complete([{ role: 'user', content: 'x' }]);
+
+      expect(result.content).toBe('hi');
+      expect(result.metadata?.routing).toMatchObject({
+        route: 'standard',
+        model: 'std-model',
+        reasons: ['default'],
+        fallback: false,
+      });
+    });
+
+    it('疲劳度超过阈值时应该选用快速模型', () => {
+      const router = createRouter({}, { hormones: { getState: () => ({ cortisol: 0.9 }) } });
+
+      const decision = router.decide();
+
+      expect(decision.route).toBe('fast');
+      expect(decision.reasons).toEqual(['fatigue']);
+      expect(decision.signals.fatigue).toBe(0.9);
+    });
+
+    it('稳态为 stressed 时应该选用快速模型', () => {
+      const router = createRouter({}, { homeostasis: { getCurrentStatus: () => 'stressed' } });
+
+      expect(router.decide().route).toBe('fast');
+      expect(router.decide().reasons).toEqual(['homeostasis']);
+    });
+
+    it('贝叶斯预测为 caution/avoid 时应该选用强模型，且优先于疲劳', () => {
+      const predictPerformance = jest.fn((capability: string) => ({
+        recommendation: capability === 'refactor' ? 'avoid' : 'proceed',
+      }));
+      const router = createRouter({}, {
+        hormones: { getState: () => ({ cortisol: 0.95 }) },
+        bayesian: { predictPerformance },
+      });
+
+      const decision = router.decide({ capability: 'refactor' });
+
+      expect(decision.route).toBe('strong');
+      expect(decision.reasons).toEqual(['low_confidence', 'fatigue']);
+      expect(predictPerformance).toHaveBeenCalledWith('refactor');
+      expect(router.decide({ capability: 'chat' }).route).toBe('fast');
+    });
+  });
+
+  // ============================================================================
+  // 回退
+  // ============================================================================
+  describe('Fallback', () => {
+    it('应该在 ModelEngineError 时回退到下一个模型并记录尝试', async () => {
+      const router = createRouter({
+        standard: [new ModelEngineError('rate limited', 'API_ERROR')],
+        fast: [{ content: 'from fast' }],
+      });
+      const fallbacks: unknown[] = [];
+      router.on('fallback', event => fallbacks.push(event));
+
+      const result = await router.complete([{ role: 'user', content: 'x' }]);
+
+      expect(result.content).toBe('from fast');
+      expect(result.metadata?.routing).toMatchObject({
+        selected: 'standard',
+        route: 'fast',
+        model: 'fast-model',
+        fallback: true,
+        attempts: [
+          { route: 'standard', success: false, code: 'API_ERROR', error: 'rate limited' },
+          { route: 'fast', success: true },
+        ],
+      });
+      expect(fallbacks).toHaveLength(1);
+    });
+
+    it('应该在超时时回退，并中止超时的请求', async () => {
+      let slowSignal: AbortSignal | undefined;
+      const router = new ModelRouter({
+        routes: [
+          {
+            name: 'slow',
+            tier: 'standard',
+            timeoutMs: 20,
+            engine: createScriptedEngine([request => {
+              slowSignal = request.signal;
+              return new Promise(resolve => setTimeout(() => resolve({ content: 'late' }), 200));
+            }]),
+          },
+          { name: 'backup', tier: 'fast', engine: createScriptedEngine([{ content: 'backup' }]) },
+        ],
+      });
+
+      const result = await router.complete([{ role: 'user', content: 'x' }]);
+
+      expect(result.content).toBe('backup');
+      expect(result.metadata?.routing?.attempts[0]).toMatchObject({ route: 'slow', code: 'TIMEOUT' });
+      expect(slowSignal?.aborted).toBe(true);
+    });
+
+    it('所有模型失败时应该抛出 ROUTING_FAILED', async () => {
+      const error = () => new ModelEngineError('down', 'API_ERROR');
+      const router = createRouter({ standard: [error()], fast: [error()], strong: [error()] });
+
+      await expect(router.complete([])).rejects.toMatchObject({
+        code: 'ROUTING_FAILED',
+        details: { routing: { attempts: expect.arrayContaining([expect.objectContaining({ route: 'strong' })]) } },
+      });
+    });
+
+    it('非模型错误不应该回退', async () => {
+      const router = createRouter({ standard: [new TypeError('bug')], fast: [{ content: 'unused' }] });
+
+      await expect(router.complete([])).rejects.toThrow(TypeError);
+    });
+
+    it('流式请求应该在首个分块前回退，并以路由元数据结束', async () => {
+      const router = createRouter({
+        standard: [new ModelEngineError('down', 'API_ERROR')],
+        fast: [{ content: 'streamed reply' }],
+      });
+      const chunks: StreamChunk[] = [];
+
+      for await (const chunk of router.stream([{ role: 'user', content: 'x' }])) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.filter(c => c.content).map(c => c.content).join('')).toBe('streamed reply');
+      expect(chunks[chunks.length - 1].metadata?.routing).toMatchObject({ route: 'fast', fallback: true });
+    });
+  });
+
+  // ============================================================================
+  // UnifiedAgent 集成
+  // ============================================================================
+  describe('UnifiedAgent integration', () => {
+    it('应该在对话结果中暴露路由决策，并默认使用本体的激素状态', async () => {
+      const router = createRouter({
+        fast: [{ content: 'tired answer' }],
+      });
+      const agent = new UnifiedAgent({ model: router });
+      agent.hormoneSystem.adjustHormone(HormoneType.CORTISOL, 0.9);
+
+      try {
+        const result = await agent.chat('s1', 'hello');
+
+        expect(result.content).toBe('tired answer');
+        expect(result.routing).toHaveLength(1);
+        expect(result.routing?.[0]).toMatchObject({ route: 'fast', reasons: expect.arrayContaining(['fatigue']) });
+      } finally {
+        await agent.stop();
+      }
+    });
+
+    it('工具调用后按该工具的贝叶斯置信度路由，低置信度时选用强模型', async () => {
+      const router = createRouter({
+        standard: [{ toolCalls: [{ id: 'c1', type: 'function', function: { name: 'flaky', arguments: '{}' } }] }],
+        strong: [{ content: 'careful answer' }],
+      });
+      const agent = new UnifiedAgent({
+        model: router,
+        tools: [{ name: 'flaky', description: 'Often fails', execute: async () => 'ok' }],
+      });
+      for (let i = 0; i < 3; i++) {
+        agent.bayesian.updateConfidence('flaky', false);
+      }
+
+      try {
+        const result = await agent.chat('s1', 'use the flaky tool');
+
+        expect(result.content).toBe('careful answer');
+        expect(result.routing?.map(r => [r.route, r.signals.capability, r.signals.recommendation])).toEqual([
+          ['standard', 'conversation', 'learn'],
+          ['strong', 'flaky', 'avoid'],
+        ]);
+        expect(result.routing?.[1].reasons).toEqual(['low_confidence']);
+        // 完成的对话计入对话能力的信念
+        expect(agent.bayesian.getAllCapabilities().find(b => b.capability === 'conversation')?.alpha).toBe(2);
+      } finally {
+        await agent.stop();
+      }
+    });
+  });
+});
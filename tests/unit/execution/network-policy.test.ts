@@ -0,0 +1,326 @@
+/**
+ * 网络策略 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import {
+  NetworkPolicy,
+  NetworkPolicyError,
+  isPrivateAddress,
+  matchesHost,
+} from '../../../src/execution/network-policy';
+import type { NetworkPolicyConfig } from '../../../src/execution/network-policy';
+import { createHttpTools } from '../../../src/execution/tools/http';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { PathPolicy } from '../../../src/execution/path-policy';
+import { getDefaultConfig } from '../../../src/config/index';
+
+describe('NetworkPolicy', () => {
+  let server: http.Server;
+  let port: number;
+  let base: string;
+
+  /** 允许访问本地测试服务器 (127.0.0.1) 的策略 */
+  function localPolicy(config: NetworkPolicyConfig = {}): NetworkPolicy {
+    return new NetworkPolicy({ allowPrivateHosts: ['127.0.0.1'], ...config });
+  }
+
+  async function expectBlocked(promise: Promise<unknown>, code: string): Promise<void> {
+    const error = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(NetworkPolicyError);
+    expect(error.code).toBe(code);
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      switch (url.pathname) {
+        case '/json':
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ hello: 'world' }));
+          break;
+        case '/headers':
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(req.headers));
+          break;
+        case '/redirect':
+          // /redirect?to=<url> 或 /redirect?n=<剩余次数>
+          res.writeHead(302, {
+            Location: url.searchParams.get('to')
+              ?? (Number(url.searchParams.get('n')) > 1 ? `/redirect?n=${Number(url.searchParams.get('n')) - 1}` : '/json'),
+          });
+          res.end();
+          break;
+        case '/big':
+          res.writeHead(200, { 'Content-Length': '4096' });
+          res.end(Buffer.alloc(4096, 'a'));
+          break;
+        case '/stream':
+          // 无 Content-Length 的分块响应
+          res.writeHead(200);
+          for (let i = 0; i < 8; i++) {
+            res.write(Buffer.alloc(512, 'b'));
+          }
+          res.end();
+          break;
+        case '/slow': {
+          const timer = setTimeout(() => res.end('late'), 2000);
+          res.on('close', () => clearTimeout(timer));
+          break;
+        }
+        default:
+          res.writeHead(404);
+          res.end('not found');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    base = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // ============================================================================
+  // SSRF 防护
+  // ============================================================================
+  describe('SSRF', () => {
+    it('应该识别私有与保留地址', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254',
+        '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+        '64:ff9b::7f00:1', '64:ff9b::a9fe:a9fe', '2002:7f00:1::1', '2002:c0a8:101::']) {
+        expect({ address, private: isPrivateAddress(address) }).toEqual({ address, private: true });
+      }
+      for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+        expect({ address, private: isPrivateAddress(address) }).toEqual({ address, private: false });
+      }
+    });
+
+    it('默认策略应该拒绝私有地址 (包括 DNS 解析后与 IPv4 映射形式)', async () => {
+      const policy = new NetworkPolicy();
+
+      await expectBlocked(policy.request(`${base}/json`), 'PRIVATE_ADDRESS');
+      await expectBlocked(policy.request(`http://localhost:${port}/json`), 'PRIVATE_ADDRESS');
+      await expectBlocked(policy.request(`http://[::ffff:127.0.0.1]:${port}/json`), 'PRIVATE_ADDRESS');
+      await expectBlocked(policy.request(`http://2130706433:${port}/json`), 'PRIVATE_ADDRESS');
+      await expectBlocked(policy.request('http://169.254.169.254/latest/meta-data/'), 'HOST_DENIED');
+      await expectBlocked(policy.request('file:///etc/passwd'), 'PROTOCOL_NOT_ALLOWED');
+    });
+
+    it('关闭私有地址检查时仍然拒绝元数据服务', async () => {
+      const policy = new NetworkPolicy({ blockPrivateNetworks: false });
+
+      expect((await policy.request(`${base}/json`)).status).toBe(200);
+      await expectBlocked(policy.request('http://169.254.169.254/'), 'HOST_DENIED');
+      await expectBlocked(policy.request('http://metadata.google.internal/'), 'HOST_DENIED');
+    });
+
+    it('重定向到私有地址应该被拒绝', async () => {
+      const policy = localPolicy();
+
+      await expectBlocked(
+        policy.request(`${base}/redirect?to=${encodeURIComponent(`http://localhost:${port}/json`)}`),
+        'PRIVATE_ADDRESS'
+      );
+      await expectBlocked(
+        policy.request(`${base}/redirect?to=${encodeURIComponent('http://169.254.169.254/')}`),
+        'HOST_DENIED'
+      );
+    });
+  });
+
+  // ============================================================================
+  // 主机名单
+  // ============================================================================
+  describe('Host lists', () => {
+    it('应该支持通配、IP 与 CIDR 模式', () => {
+      expect(matchesHost('api.example.com', '*.example.com')).toBe(true);
+      expect(matchesHost('example.com', '*.example.com')).toBe(false);
+      expect(matchesHost('10.1.2.3', '10.0.0.0/8')).toBe(true);
+      expect(matchesHost('11.1.2.3', '10.0.0.0/8')).toBe(false);
+    });
+
+    it('应该执行白名单与黑名单', () => {
+      const policy = new NetworkPolicy({
+        allowedHosts: ['*.example.com', 'example.org'],
+        deniedHosts: ['admin.example.com'],
+      });
+
+      expect(policy.checkUrl('https://api.example.com/v1').hostname).toBe('api.example.com');
+      expect(policy.checkUrl('https://EXAMPLE.org/').hostname).toBe('example.org');
+      expect(() => policy.checkUrl('https://admin.example.com/')).toThrow('Host is denied');
+      expect(() => policy.checkUrl('https://example.net/')).toThrow('not in the allow list');
+    });
+  });
+
+  // ============================================================================
+  // 重定向、大小、速率与超时
+  // ============================================================================
+  describe('Limits', () => {
+    it('应该限制重定向次数，0 表示不跟随', async () => {
+      const policy = localPolicy({ maxRedirects: 3 });
+
+      const followed = await policy.request(`${base}/redirect?n=3`);
+      expect(followed.status).toBe(200);
+      expect(followed.url).toBe(`${base}/json`);
+      expect(followed.redirects).toHaveLength(3);
+
+      await expectBlocked(policy.request(`${base}/redirect?n=4`), 'TOO_MANY_REDIRECTS');
+      // 单次请求不能超过配置的上限
+      await expectBlocked(policy.request(`${base}/redirect?n=4`, { maxRedirects: 10 }), 'TOO_MANY_REDIRECTS');
+
+      const manual = await policy.request(`${base}/redirect?n=1`, { maxRedirects: 0 });
+      expect(manual.status).toBe(302);
+      expect(manual.headers.location).toBe('/json');
+    });
+
+    it('跨源重定向应该移除凭据请求头', async () => {
+      const policy = localPolicy({ allowPrivateHosts: ['127.0.0.1', 'localhost'] });
+      const headers = { Authorization: 'Bearer secret', 'X-Trace': '1' };
+
+      const same = await policy.request(`${base}/redirect?to=/headers`, { headers });
+      expect(JSON.parse(same.body.toString())).toMatchObject({ authorization: 'Bearer secret' });
+
+      const cross = await policy.request(
+        `${base}/redirect?to=${encodeURIComponent(`http://localhost:${port}/headers`)}`,
+        { headers }
+      );
+      const received = JSON.parse(cross.body.toString());
+      expect(received.authorization).toBeUndefined();
+      expect(received['x-trace']).toBe('1');
+    });
+
+    it('响应超出大小上限时应该中断', async () => {
+      const policy = localPolicy({ maxResponseBytes: 1024 });
+
+      await expectBlocked(policy.request(`${base}/big`), 'RESPONSE_TOO_LARGE');
+      await expectBlocked(policy.request(`${base}/stream`), 'RESPONSE_TOO_LARGE');
+      await expectBlocked(localPolicy().request(`${base}/stream`, { maxBytes: 100 }), 'RESPONSE_TOO_LARGE');
+      expect((await localPolicy().request(`${base}/stream`)).body.length).toBe(4096);
+    });
+
+    it('应该按主机限制请求速率', async () => {
+      const policy = localPolicy({
+        allowPrivateHosts: ['127.0.0.1', 'localhost'],
+        rateLimit: { maxRequests: 2, windowMs: 60000 },
+      });
+
+      await policy.request(`${base}/json`);
+      await policy.request(`${base}/json`);
+      await expectBlocked(policy.request(`${base}/json`), 'RATE_LIMITED');
+      // 其他主机不受影响
+      expect((await policy.request(`http://localhost:${port}/json`)).status).toBe(200);
+    });
+
+    it('速率限制应该淘汰窗口外与超出上限的主机记录', () => {
+      jest.useFakeTimers();
+      try {
+        const policy = new NetworkPolicy({ rateLimit: { maxRequests: 1, windowMs: 1000 } });
+        const tracked = () => (policy as unknown as { requestLog: Map<string, number[]> }).requestLog;
+
+        policy.acquire('a.test');
+        policy.acquire('b.test');
+        expect(() => policy.acquire('a.test')).toThrow('Rate limit exceeded');
+        jest.advanceTimersByTime(1000);
+        policy.acquire('c.test');
+        expect(Array.from(tracked().keys())).toEqual(['c.test']);
+
+        for (let i = 0; i < 1500; i++) {
+          policy.acquire(`host-${i}.test`);
+        }
+        expect(tracked().size).toBe(1000);
+        expect(tracked().has('host-1499.test')).toBe(true);
+        expect(tracked().has('c.test')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('应该在超时后中断请求', async () => {
+      const policy = localPolicy({ timeoutMs: 200 });
+
+      await expectBlocked(policy.request(`${base}/slow`, { timeoutMs: 10_000 }), 'TIMEOUT');
+
+      const controller = new AbortController();
+      const pending = localPolicy().request(`${base}/slow`, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+      await expectBlocked(pending, 'ABORTED');
+    });
+  });
+
+  // ============================================================================
+  // HTTP 工具
+  // ============================================================================
+  describe('HTTP tools', () => {
+    it('所有请求类工具都应该执行网络策略', async () => {
+      const registry = new ToolRegistry();
+      registry.registerMany(createHttpTools(new NetworkPolicy()).map(tool => ({ ...tool, requireConfirmation: false })));
+
+      for (const [name, args] of [
+        ['http_get', { url: `${base}/json` }],
+        ['http_post', { url: `http://localhost:${port}/json`, data: {} }],
+        ['http_request', { method: 'DELETE', url: 'http://169.254.169.254/' }],
+        ['http_download', { url: `${base}/big`, path: '/tmp/never-written.bin' }],
+      ] as Array<[string, Record<string, unknown>]>) {
+        const result = await registry.execute(name, args);
+        expect({ name, success: result.success }).toEqual({ name, success: false });
+      }
+
+      const check = await registry.execute('http_check', { url: `${base}/json` });
+      expect(check.data).toMatchObject({ healthy: false, error: expect.stringContaining('private') });
+    });
+
+    it('允许的请求应该返回解析后的响应', async () => {
+      const registry = new ToolRegistry();
+      registry.registerMany(createHttpTools(localPolicy({ maxResponseBytes: 1024 })));
+
+      const ok = await registry.execute('http_get', { url: `${base}/redirect?n=1` });
+      expect(ok.data).toMatchObject({ url: `${base}/json`, status: 200, data: { hello: 'world' } });
+
+      const big = await registry.execute('http_get', { url: `${base}/big` });
+      expect(big.error).toContain('Response exceeds 1024 bytes');
+    });
+
+    it('http_download 的保存路径应该受路径策略约束', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-download-'));
+      const registry = new ToolRegistry();
+      registry.registerMany(createHttpTools(localPolicy(), new PathPolicy({ allowedRoots: [dir] })));
+
+      try {
+        const saved = await registry.execute('http_download', { url: `${base}/json`, path: path.join(dir, 'a.json') });
+        expect(saved.success).toBe(true);
+        expect(JSON.parse(await fs.readFile(path.join(dir, 'a.json'), 'utf-8'))).toEqual({ hello: 'world' });
+
+        const outside = await registry.execute('http_download', { url: `${base}/json`, path: '/etc/ouroboros.json' });
+        expect(outside.error).toContain('outside the allowed roots');
+        const denied = await registry.execute('http_download', { url: `${base}/json`, path: path.join(dir, '.env') });
+        expect(denied.error).toContain('denied pattern');
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  // ============================================================================
+  // 配置
+  // ============================================================================
+  describe('GlobalConfigSchema', () => {
+    it('应该提供默认的出站策略配置', () => {
+      const network = getDefaultConfig().tools.network;
+      expect(network).toMatchObject({
+        enabled: true,
+        blockPrivateNetworks: true,
+        maxRedirects: 5,
+        rateLimit: { maxRequests: 60, windowMs: 60000 },
+      });
+      expect(new NetworkPolicy(network).getConfig().deniedHosts).toContain('169.254.169.254');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * 路径策略 - 单元测试
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PathPolicy,
+  PathPolicyError,
+  SELF_MODIFICATION_FLOW,
+  globToRegExp,
+} from '../../../src/execution/path-policy';
+import { createFileTools } from '../../../src/execution/tools/file';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { getDefaultConfig, validateConfig } from '../../../src/config/index';
+
+describe('PathPolicy', () => {
+  let sandbox: string;
+  let workspace: string;
+  let outside: string;
+  let policy: PathPolicy;
+
+  /** 期望 resolve 以指定错误码拒绝 */
+  async function expectDenied(target: string, access: 'read' | 'write', code: string): Promise<void> {
+    const error = await policy.resolve(target, access).catch(e => e);
+    expect(error).toBeInstanceOf(PathPolicyError);
+    expect(error.code).toBe(code);
+  }
+
+  beforeEach(async () => {
+    sandbox = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-scope-')));
+    workspace = path.join(sandbox, 'workspace');
+    outside = path.join(sandbox, 'outside');
+    await fs.mkdir(path.join(workspace, 'src'), { recursive: true });
+    await fs.mkdir(path.join(workspace, 'docs'), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(workspace, 'notes.txt'), 'notes');
+    await fs.writeFile(path.join(workspace, 'docs', 'guide.md'), 'guide');
+    await fs.writeFile(path.join(workspace, 'src', 'agent.ts'), 'export {}');
+    await fs.writeFile(path.join(workspace, '.env'), 'SECRET=1');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+
+    policy = new PathPolicy({
+      baseDir: workspace,
+      allowedRoots: ['.'],
+      readOnlyRoots: ['docs'],
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  });
+
+  // ============================================================================
+  // 逃逸尝试
+  // ============================================================================
+  describe('Escapes', () => {
+    it('应该解析允许范围内的路径 (包括尚不存在的文件)', async () => {
+      expect(await policy.resolve('notes.txt', 'read')).toBe(path.join(workspace, 'notes.txt'));
+      expect(await policy.resolve('new/dir/file.txt', 'write')).toBe(path.join(workspace, 'new/dir/file.txt'));
+    });
+
+    it('应该拒绝 .. 遍历与绝对路径', async () => {
+      await expectDenied('../outside/secret.txt', 'read', 'OUTSIDE_ALLOWED_ROOTS');
+      await expectDenied('src/../../outside/secret.txt', 'read', 'OUTSIDE_ALLOWED_ROOTS');
+      await expectDenied(path.join(outside, 'secret.txt'), 'read', 'OUTSIDE_ALLOWED_ROOTS');
+      await expectDenied('/etc/passwd', 'read', 'OUTSIDE_ALLOWED_ROOTS');
+    });
+
+    it('应该拒绝指向外部的符号链接', async () => {
+      await fs.symlink(path.join(outside, 'secret.txt'), path.join(workspace, 'link.txt'));
+      await fs.symlink(outside, path.join(workspace, 'linkdir'));
+
+      await expectDenied('link.txt', 'read', 'OUTSIDE_ALLOWED_ROOTS');
+      await expectDenied('linkdir/secret.txt', 'read', 'OUTSIDE_ALLOWED_ROOTS');
+      // 经由链接目录创建新文件
+      await expectDenied('linkdir/new.txt', 'write', 'OUTSIDE_ALLOWED_ROOTS');
+    });
+
+    it('应该拒绝经由符号链接访问禁止的文件', async () => {
+      await fs.symlink(path.join(workspace, '.env'), path.join(workspace, 'config.txt'));
+
+      await expectDenied('.env', 'read', 'DENIED_PATH');
+      await expectDenied('config.txt', 'read', 'DENIED_PATH');
+      await expectDenied('deploy/server.pem', 'write', 'DENIED_PATH');
+      await expectDenied('.env.local', 'write', 'DENIED_PATH');
+    });
+
+    it('只读根目录应该可读不可写', async () => {
+      expect(await policy.resolve('docs/guide.md', 'read')).toBe(path.join(workspace, 'docs', 'guide.md'));
+      await expectDenied('docs/guide.md', 'write', 'READ_ONLY');
+      await expectDenied('notes.txt/../docs/new.md', 'write', 'READ_ONLY');
+    });
+
+    it('Agent 源码只能由硬自指流程访问', async () => {
+      await fs.symlink(path.join(workspace, 'src'), path.join(sandbox, 'workspace', 'code'));
+
+      await expectDenied('src/agent.ts', 'read', 'SELF_SOURCE_PROTECTED');
+      await expectDenied('code/agent.ts', 'write', 'SELF_SOURCE_PROTECTED');
+      expect(await policy.resolve('src/agent.ts', 'write', { allowSelfSource: true }))
+        .toBe(path.join(workspace, 'src', 'agent.ts'));
+    });
+  });
+
+  // ============================================================================
+  // glob
+  // ============================================================================
+  describe('globToRegExp', () => {
+    it('应该支持 *、? 与 **', () => {
+      expect(globToRegExp('*.pem').test('server.pem')).toBe(true);
+      expect(globToRegExp('*.pem').test('a/server.pem')).toBe(false);
+      expect(globToRegExp('secrets/**').test('secrets/a/b.txt')).toBe(true);
+      expect(globToRegExp('**/id_?sa').test('home/.ssh/id_rsa')).toBe(true);
+      expect(globToRegExp('**/id_?sa').test('id_rsa')).toBe(true);
+    });
+
+    it('含 / 的模式应该匹配相对基准目录的路径', async () => {
+      const scoped = new PathPolicy({ baseDir: workspace, allowedRoots: ['.'], deniedGlobs: ['private/**'] });
+
+      await expect(scoped.resolve('private/a/b.txt', 'read')).rejects.toMatchObject({ code: 'DENIED_PATH' });
+      expect(await scoped.resolve('public/private/b.txt', 'write')).toBe(path.join(workspace, 'public/private/b.txt'));
+    });
+  });
+
+  // ============================================================================
+  // 文件工具
+  // ============================================================================
+  describe('File tools', () => {
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+      registry = new ToolRegistry();
+      registry.registerMany(createFileTools(policy).map(tool => ({ ...tool, requireConfirmation: false })));
+    });
+
+    it('所有文件工具都应该执行路径策略', async () => {
+      const attempts: Array<[string, Record<string, unknown>]> = [
+        ['file_read', { path: '../outside/secret.txt' }],
+        ['file_write', { path: '../outside/pwned.txt', content: 'x' }],
+        ['file_delete', { path: '../outside/secret.txt' }],
+        ['file_move', { source: 'notes.txt', destination: '../outside/notes.txt' }],
+        ['file_copy', { source: '../outside/secret.txt', destination: 'stolen.txt' }],
+        ['file_copy', { source: '.env', destination: 'env.txt' }],
+        ['file_grep', { path: '.env', pattern: 'SECRET' }],
+        ['file_info', { path: '/etc/passwd' }],
+        ['file_write', { path: 'src/agent.ts', content: 'x' }],
+      ];
+
+      for (const [name, args] of attempts) {
+        const result = await registry.execute(name, args, { context: { source: 'agent' } });
+        expect({ name, success: result.success }).toEqual({ name, success: false });
+      }
+
+      await expect(fs.readFile(path.join(outside, 'secret.txt'), 'utf-8')).resolves.toBe('secret');
+      await expect(fs.access(path.join(outside, 'pwned.txt'))).rejects.toThrow();
+      await expect(fs.access(path.join(workspace, 'stolen.txt'))).rejects.toThrow();
+      await expect(fs.readFile(path.join(workspace, 'src', 'agent.ts'), 'utf-8')).resolves.toBe('export {}');
+    });
+
+    it('允许范围内的操作应该正常执行，列表中隐藏禁止的文件', async () => {
+      const write = await registry.execute('file_write', { path: 'out/result.txt', content: 'done' });
+      expect(write.success).toBe(true);
+
+      const copy = await registry.execute('file_copy', { source: 'docs/guide.md', destination: 'guide-copy.md' });
+      expect(copy.success).toBe(true);
+
+      const list = await registry.execute('file_list', { path: '.' });
+      const names = (list.data as { entries: Array<{ name: string }> }).entries.map(e => e.name);
+      expect(names).toContain('notes.txt');
+      expect(names).not.toContain('.env');
+    });
+
+    it('递归删除与移动目录时应该检查整个子树', async () => {
+      await fs.mkdir(path.join(workspace, 'project', 'keys'), { recursive: true });
+      await fs.writeFile(path.join(workspace, 'project', 'keys', 'server.pem'), 'key');
+      await fs.mkdir(path.join(workspace, 'clean'));
+      await fs.writeFile(path.join(workspace, 'clean', 'a.txt'), 'a');
+
+      await expect(policy.resolveTree('project', 'write')).rejects.toMatchObject({ code: 'DENIED_PATH' });
+      await expect(policy.resolveTree('.', 'write')).rejects.toMatchObject({ code: 'READ_ONLY' });
+      await expect(new PathPolicy({ baseDir: workspace, allowedRoots: ['.'] }).resolveTree('.', 'write'))
+        .rejects.toMatchObject({ code: 'SELF_SOURCE_PROTECTED' });
+
+      expect((await registry.execute('file_delete', { path: 'project', recursive: true })).success).toBe(false);
+      expect((await registry.execute('file_move', { source: 'project', destination: 'moved' })).success).toBe(false);
+      expect((await registry.execute('file_delete', { path: '.', recursive: true })).success).toBe(false);
+      await expect(fs.readFile(path.join(workspace, 'project', 'keys', 'server.pem'), 'utf-8')).resolves.toBe('key');
+
+      expect((await registry.execute('file_move', { source: 'clean', destination: 'tidy' })).success).toBe(true);
+      expect((await registry.execute('file_delete', { path: 'tidy', recursive: true })).success).toBe(true);
+    });
+
+    it('硬自指流程的 system 调用可以修改自身源码', async () => {
+      const denied = await registry.execute('file_write', { path: 'src/agent.ts', content: 'x' }, {
+        context: { source: 'agent', metadata: { flow: SELF_MODIFICATION_FLOW } },
+      });
+      expect(denied.success).toBe(false);
+
+      const allowed = await registry.execute('file_write', { path: 'src/agent.ts', content: 'export const v = 2;' }, {
+        context: { source: 'system', metadata: { flow: SELF_MODIFICATION_FLOW } },
+      });
+      expect(allowed.success).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // 配置
+  // ============================================================================
+  describe('GlobalConfigSchema', () => {
+    it('应该提供默认的文件范围配置并校验', () => {
+      const fileScope = getDefaultConfig().tools.fileScope;
+      expect(fileScope).toMatchObject({
+        enabled: true,
+        allowedRoots: ['.', os.tmpdir()],
+        protectSelfSource: true,
+      });
+      expect(fileScope.deniedGlobs).toEqual(expect.arrayContaining(['.env', '*.pem']));
+
+      expect(validateConfig({ tools: { fileScope: { allowedRoots: 'not-an-array' } } }).success).toBe(false);
+      const custom = validateConfig({ tools: { fileScope: { readOnlyRoots: ['/srv/data'] } } });
+      expect(custom.success && custom.data.tools.fileScope.readOnlyRoots).toEqual(['/srv/data']);
+    });
+  });
+});
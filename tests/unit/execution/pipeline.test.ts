@@ -0,0 +1,313 @@
+/**
+ * 工具流水线 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PipelineRunner,
+  PipelineError,
+  parsePipeline,
+  loadPipelines,
+  renderTemplate,
+  evaluateCondition,
+} from '../../../src/execution/pipeline';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import type { ToolContext, ToolDefinition } from '../../../src/execution/tool-registry';
+import { utilityTools } from '../../../src/execution/tools/utility';
+
+type ToolFn = (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+
+function tool(name: string, execute: ToolFn): ToolDefinition {
+  return {
+    name,
+    description: `${name} tool`,
+    parameters: { type: 'object', properties: {} },
+    execute,
+  };
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Pipeline', () => {
+  let registry: ToolRegistry;
+  let runner: PipelineRunner;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    registry.registerMany(utilityTools);
+    registry.register(tool('echo', async args => args));
+    registry.register(tool('double', async args => ({ value: Number(args.value) * 2 })));
+    runner = new PipelineRunner(registry);
+  });
+
+  // ============================================================================
+  // 模板与条件
+  // ============================================================================
+  describe('Templates', () => {
+    it('单个模板保留原始类型，其余做字符串插值', () => {
+      const scope = { input: { n: 3, tags: ['a', 'b'] }, steps: { s: { items: [{ name: 'x' }] } } };
+
+      expect(renderTemplate('{{ input.n }}', scope)).toBe(3);
+      expect(renderTemplate({ list: '{{input.tags}}', label: 'n={{ input.n }}' }, scope)).toEqual({
+        list: ['a', 'b'],
+        label: 'n=3',
+      });
+      expect(renderTemplate(['{{ steps.s.items.0.name }}', '{{ missing.path }}-'], scope)).toEqual(['x', '-']);
+    });
+
+    it('应该支持比较与组合条件', () => {
+      const scope = { input: { status: 200, role: 'admin' }, steps: {} };
+
+      expect(evaluateCondition('{{ input.status }}', scope)).toBe(true);
+      expect(evaluateCondition({ value: '{{ input.status }}', equals: 200 }, scope)).toBe(true);
+      expect(evaluateCondition({ value: '{{ input.role }}', in: ['user', 'guest'] }, scope)).toBe(false);
+      expect(evaluateCondition({ value: '{{ input.missing }}', exists: false }, scope)).toBe(true);
+      expect(evaluateCondition({
+        all: ['{{ input.status }}', { not: { value: '{{ input.role }}', equals: 'guest' } }],
+      }, scope)).toBe(true);
+      expect(evaluateCondition({ any: [{ value: '{{ input.status }}', notEquals: 200 }] }, scope)).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // 执行
+  // ============================================================================
+  describe('Runner', () => {
+    it('应该按顺序执行 YAML 定义的步骤并传递输出', async () => {
+      const definition = parsePipeline(`
+name: double_twice
+description: Double a number twice
+steps:
+  - id: first
+    tool: double
+    args:
+      value: "{{ input.value }}"
+  - id: second
+    tool: double
+    args:
+      value: "{{ steps.first.value }}"
+  - id: lookup
+    tool: util_get_path
+    args:
+      object: "{{ steps.second }}"
+      path: value
+output:
+  result: "{{ steps.lookup.value }}"
+  summary: "{{ input.value }} -> {{ steps.second.value }}"
+`);
+
+      const result = await runner.run(definition, { value: 5 });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toEqual({ result: 20, summary: '5 -> 20' });
+      expect(Object.keys(result.steps)).toEqual(['first', 'second', 'lookup']);
+    });
+
+    it('条件不满足的步骤应该跳过', async () => {
+      const definition = parsePipeline({
+        name: 'conditional',
+        description: 'Conditional steps',
+        steps: [
+          { id: 'check', tool: 'echo', args: { big: '{{ input.big }}' } },
+          { id: 'large', tool: 'echo', args: { size: 'large' }, when: '{{ steps.check.big }}' },
+          { id: 'small', tool: 'echo', args: { size: 'small' }, when: { not: '{{ steps.check.big }}' } },
+        ],
+      });
+
+      const result = await runner.run(definition, { big: false });
+
+      expect(result.steps.large.status).toBe('skipped');
+      expect(result.steps.small.status).toBe('success');
+      expect(result.output).toEqual({ size: 'small' });
+    });
+
+    it('应该按配置重试失败的步骤', async () => {
+      let calls = 0;
+      registry.register(tool('flaky', async () => {
+        calls++;
+        if (calls < 3) throw new Error(`attempt ${calls} failed`);
+        return { ok: true };
+      }));
+      const retried = jest.fn();
+      runner.on('stepRetry', retried);
+
+      const result = await runner.run(parsePipeline({
+        name: 'retrying',
+        description: 'Retry',
+        steps: [{ id: 'call', tool: 'flaky', retry: { attempts: 3, delayMs: 10, backoff: 2 } }],
+      }));
+
+      expect(result.steps.call).toMatchObject({ status: 'success', attempts: 3, output: { ok: true } });
+      expect(retried).toHaveBeenCalledTimes(2);
+    });
+
+    it('超时与失败应该终止流水线，continueOnError 时继续', async () => {
+      registry.register(tool('slow', async () => {
+        await delay(200);
+        return 'late';
+      }));
+
+      const error = await runner.run(parsePipeline({
+        name: 'timing_out',
+        description: 'Timeout',
+        steps: [
+          { id: 'slow', tool: 'slow', timeoutMs: 20, retry: { attempts: 2 } },
+          { id: 'after', tool: 'echo' },
+        ],
+      })).catch(e => e);
+
+      expect(error).toBeInstanceOf(PipelineError);
+      expect(error.code).toBe('STEP_FAILED');
+      expect(error.step).toBe('slow');
+      expect(error.message).toContain('timeout after 20ms');
+      expect(error.result.steps.slow.attempts).toBe(2);
+      expect(error.result.steps.after).toBeUndefined();
+
+      const tolerant = await runner.run(parsePipeline({
+        name: 'tolerant',
+        description: 'Continue',
+        steps: [
+          { id: 'missing', tool: 'no_such_tool', continueOnError: true },
+          { id: 'after', tool: 'echo', args: { previous: '{{ steps.missing }}' } },
+        ],
+      }));
+      expect(tolerant.steps.missing.status).toBe('failed');
+      expect(tolerant.output).toEqual({ previous: null });
+    });
+
+    it('parallel 与 forEach 应该并行扇出，后续步骤汇合结果', async () => {
+      let active = 0;
+      let peak = 0;
+      registry.register(tool('work', async args => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(50);
+        active--;
+        return { done: args.name };
+      }));
+
+      const startTime = Date.now();
+      const result = await runner.run(parsePipeline({
+        name: 'fan_out',
+        description: 'Fan out and in',
+        steps: [
+          {
+            id: 'both',
+            parallel: [
+              { id: 'left', tool: 'work', args: { name: 'left' } },
+              { id: 'right', tool: 'work', args: { name: 'right' } },
+            ],
+          },
+          { id: 'each', tool: 'work', forEach: '{{ input.names }}', concurrency: 2, args: { name: '{{ item }}#{{ index }}' } },
+          { id: 'join', tool: 'echo', args: { left: '{{ steps.both.left.done }}', right: '{{ steps.right.done }}', all: '{{ steps.each }}' } },
+        ],
+      }), { names: ['a', 'b', 'c', 'd'] });
+
+      expect(result.output).toEqual({
+        left: 'left',
+        right: 'right',
+        all: [{ done: 'a#0' }, { done: 'b#1' }, { done: 'c#2' }, { done: 'd#3' }],
+      });
+      expect(peak).toBe(2);
+      expect(Date.now() - startTime).toBeLessThan(50 * 6);
+    });
+  });
+
+  // ============================================================================
+  // 定义校验
+  // ============================================================================
+  describe('Validation', () => {
+    const base = { name: 'p', description: 'd' };
+
+    it('应该拒绝无效的定义', () => {
+      expect(() => parsePipeline({ ...base, steps: [] })).toThrow('Invalid pipeline definition');
+      expect(() => parsePipeline({ ...base, steps: [{ id: 'a' }] })).toThrow('exactly one of "tool" or "parallel"');
+      expect(() => parsePipeline({ ...base, steps: [{ id: 'a', tool: 'echo', unknown: 1 }] })).toThrow(PipelineError);
+      expect(() => parsePipeline('name: [unclosed')).toThrow('Failed to parse pipeline');
+    });
+
+    it('应该检查步骤引用', () => {
+      expect(() => parsePipeline({ ...base, steps: [{ id: 'a', tool: 'echo', args: { x: '{{ steps.b.y }}' } }] }))
+        .toThrow('references unknown step "b"');
+      expect(() => parsePipeline({
+        ...base,
+        steps: [
+          { id: 'a', tool: 'echo', args: { x: '{{ steps.b.y }}' } },
+          { id: 'b', tool: 'echo' },
+        ],
+      })).toThrow('references step "b" before it has run');
+      expect(() => parsePipeline({
+        ...base,
+        steps: [{ id: 'g', parallel: [{ id: 'a', tool: 'echo' }, { id: 'b', tool: 'echo', when: '{{ steps.a }}' }] }],
+      })).toThrow('before it has run');
+      expect(() => parsePipeline({ ...base, steps: [{ id: 'a', tool: 'echo' }, { id: 'a', tool: 'echo' }] }))
+        .toThrow('Duplicate step id "a"');
+    });
+  });
+
+  // ============================================================================
+  // 注册为工具
+  // ============================================================================
+  describe('Registration', () => {
+    it('流水线应该可以作为工具按名称调用，并以调用者身份执行每一步', async () => {
+      const contexts: ToolContext[] = [];
+      registry.register(tool('whoami', async (_, context) => {
+        contexts.push(context);
+        return { user: context.userId };
+      }));
+
+      const registered = registry.registerPipeline(JSON.stringify({
+        name: 'identify',
+        description: 'Identify the caller',
+        parameters: { type: 'object', properties: { label: { type: 'string', description: 'Label' } }, required: ['label'] },
+        steps: [{ id: 'me', tool: 'whoami' }],
+        output: '{{ input.label }}: {{ steps.me.user }}',
+      }));
+
+      expect(registered.tags).toContain('pipeline');
+      expect((await registry.execute('identify', {})).error).toContain('/label: is required');
+
+      const result = await registry.execute('identify', { label: 'caller' }, {
+        context: { source: 'user', userId: 'alice', callId: 'outer' },
+      });
+
+      expect(result.data).toMatchObject({ output: 'caller: alice', steps: { me: { status: 'success' } } });
+      expect(contexts[0]).toMatchObject({ source: 'user', userId: 'alice', metadata: { pipeline: 'identify', pipelineStep: 'me' } });
+      expect(contexts[0].callId).not.toBe('outer');
+    });
+
+    it('失败与递归调用应该返回错误结果', async () => {
+      registry.registerPipeline({
+        name: 'loop',
+        description: 'Calls itself',
+        steps: [{ id: 'again', tool: 'loop' }],
+      });
+
+      const result = await registry.execute('loop', {});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Pipeline "loop" failed at step "again"');
+      expect(result.error).toContain('loop -> loop');
+    });
+
+    it('应该从目录加载 JSON 与 YAML 流水线', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-pipelines-'));
+      try {
+        await fs.writeFile(path.join(dir, 'a.json'), JSON.stringify({ name: 'a', description: 'A', steps: [{ id: 's', tool: 'echo' }] }));
+        await fs.writeFile(path.join(dir, 'b.yaml'), 'name: b\ndescription: B\nsteps:\n  - id: s\n    tool: echo\n');
+        await fs.writeFile(path.join(dir, 'notes.txt'), 'ignored');
+
+        expect((await loadPipelines(dir)).map(p => p.name)).toEqual(['a', 'b']);
+        expect(await loadPipelines(path.join(dir, 'missing'))).toEqual([]);
+
+        await fs.writeFile(path.join(dir, 'c.yml'), 'name: c\nsteps: []\n');
+        await expect(loadPipelines(dir)).rejects.toThrow(`${path.join(dir, 'c.yml')}: Invalid pipeline definition`);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
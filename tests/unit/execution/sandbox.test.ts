@@ -0,0 +1,236 @@
+/**
+ * Shell 沙箱 - 单元测试
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ShellSandbox,
+  SandboxError,
+  detectSandboxCapabilities,
+  extractCommands,
+} from '../../../src/execution/sandbox';
+import { createShellTools } from '../../../src/execution/tools/shell';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import { getDefaultConfig, validateConfig } from '../../../src/config/index';
+
+describe('ShellSandbox', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-sandbox-'));
+    await fs.mkdir(path.join(root, 'work'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  // ============================================================================
+  // 命令策略
+  // ============================================================================
+  describe('Command policy', () => {
+    it('应该拆分管道与命令替换中的命令', () => {
+      expect(extractCommands('FOO=1 ls -la | grep x && /usr/bin/wc -l; echo $(whoami)')).toEqual([
+        'ls', 'grep', 'wc', 'echo', 'whoami',
+      ]);
+      expect(extractCommands('if true; then cat a; fi')).toEqual(['true', 'cat']);
+    });
+
+    it('应该执行白名单、黑名单与危险模式检查', async () => {
+      const sandbox = new ShellSandbox({ allowCommands: ['echo', 'cat'], denyCommands: ['cat'] });
+
+      expect(() => sandbox.checkCommand('echo hi | cat')).toThrow('Command is denied: cat');
+      expect(() => sandbox.checkCommand('echo hi; curl x')).toThrow(SandboxError);
+      expect(() => new ShellSandbox().checkCommand('rm -rf /')).toThrow('Dangerous command detected');
+      await expect(sandbox.run({ command: 'echo hi && id' })).rejects.toMatchObject({ code: 'COMMAND_NOT_ALLOWED' });
+      expect((await sandbox.run({ command: 'echo hi' })).stdout).toBe('hi\n');
+    });
+  });
+
+  // ============================================================================
+  // 工作目录与环境变量
+  // ============================================================================
+  describe('Jail and environment', () => {
+    it('应该将工作目录限制在 root 之内', async () => {
+      const sandbox = new ShellSandbox({ root });
+
+      expect((await sandbox.run({ command: 'pwd' })).stdout.trim()).toBe(await fs.realpath(root));
+      expect((await sandbox.run({ command: 'pwd', cwd: 'work' })).cwd).toBe(await fs.realpath(path.join(root, 'work')));
+      await expect(sandbox.run({ command: 'pwd', cwd: '..' })).rejects.toMatchObject({ code: 'CWD_OUTSIDE_ROOT' });
+      await expect(sandbox.run({ command: 'pwd', cwd: '/etc' })).rejects.toMatchObject({ code: 'CWD_OUTSIDE_ROOT' });
+
+      await fs.symlink('/', path.join(root, 'escape'));
+      await expect(sandbox.run({ command: 'pwd', cwd: 'escape' })).rejects.toMatchObject({ code: 'CWD_OUTSIDE_ROOT' });
+    });
+
+    it('应该清洗环境变量', async () => {
+      process.env.OURO_SANDBOX_SECRET = 'leaked';
+      try {
+        const sandbox = new ShellSandbox({ env: { set: { MODE: 'sandbox' } } });
+        const result = await sandbox.run({
+          command: 'env',
+          env: {
+            EXTRA: 'yes',
+            PATH: '/tmp/evil-bin',
+            HOME: '/tmp/evil-home',
+            LD_PRELOAD: '/tmp/evil.so',
+            LD_BIND_NOW: '1',
+            DYLD_FRAMEWORK_PATH: '/tmp',
+            NODE_OPTIONS: '--require /tmp/evil.js',
+            PYTHONPATH: '/tmp',
+          },
+        });
+
+        expect(result.stdout).toContain('MODE=sandbox');
+        expect(result.stdout).toContain('EXTRA=yes');
+        expect(result.stdout).toContain(`PATH=${process.env.PATH}`);
+        expect(result.stdout).not.toContain('OURO_SANDBOX_SECRET');
+        expect(result.stdout).not.toContain('/tmp/evil');
+        for (const key of ['LD_PRELOAD', 'LD_BIND_NOW', 'DYLD_FRAMEWORK_PATH', 'NODE_OPTIONS', 'PYTHONPATH']) {
+          expect(result.stdout).not.toContain(`${key}=`);
+        }
+      } finally {
+        delete process.env.OURO_SANDBOX_SECRET;
+      }
+    });
+  });
+
+  // ============================================================================
+  // 资源限制
+  // ============================================================================
+  describe('Limits', () => {
+    it('超时应该终止整个进程组并报告', async () => {
+      const sandbox = new ShellSandbox({ limits: { timeoutMs: 200 } });
+
+      const result = await sandbox.run({ command: 'sleep 5 | cat', timeoutMs: 10_000 });
+
+      expect(result.limitsHit).toEqual(['timeout']);
+      expect(result.durationMs).toBeLessThan(3000);
+    });
+
+    it('输出超出上限时应该截断并终止', async () => {
+      const sandbox = new ShellSandbox({ limits: { maxOutputBytes: 1024 } });
+
+      const result = await sandbox.run({ command: 'yes' });
+
+      expect(result.limitsHit).toEqual(['output']);
+      expect(result.truncated.stdout).toBe(true);
+      expect(Buffer.byteLength(result.stdout)).toBe(1024);
+    });
+
+    it('CPU 时间超出时应该报告 cpu 限制', async () => {
+      const sandbox = new ShellSandbox({ limits: { cpuSeconds: 1, timeoutMs: 10_000 } });
+
+      const result = await sandbox.run({ command: 'while :; do :; done' });
+
+      expect(result.limitsHit).toContain('cpu');
+      expect(result.limitsHit).not.toContain('timeout');
+      expect(result.rlimits).not.toBe('none');
+    }, 15_000);
+
+    it('文件大小超出时应该报告 file_size 限制', async () => {
+      const sandbox = new ShellSandbox({ root, limits: { maxFileSizeBytes: 4096 } });
+
+      const result = await sandbox.run({ command: 'head -c 100000 /dev/zero > big.bin' });
+
+      expect(result.limitsHit).toEqual(['file_size']);
+      expect((await fs.stat(path.join(root, 'big.bin'))).size).toBeLessThanOrEqual(4096);
+    });
+
+    it('可用时应该隔离网络命名空间', async () => {
+      const caps = await detectSandboxCapabilities();
+      const sandbox = new ShellSandbox({ isolateNetwork: 'auto' });
+
+      const result = await sandbox.run({ command: 'cat /proc/net/dev' });
+
+      expect(result.networkIsolated).toBe(caps.unshareArgs !== null);
+      if (result.networkIsolated) {
+        // 新命名空间中只有回环接口
+        expect(result.stdout.trim().split('\n').slice(2).map(l => l.trim().split(':')[0])).toEqual(['lo']);
+      } else {
+        await expect(new ShellSandbox({ isolateNetwork: true }).run({ command: 'true' }))
+          .rejects.toMatchObject({ code: 'ISOLATION_UNAVAILABLE' });
+      }
+    });
+  });
+
+  // ============================================================================
+  // Shell 工具
+  // ============================================================================
+  describe('Shell tools', () => {
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+      registry = new ToolRegistry();
+      registry.registerMany(createShellTools(new ShellSandbox({
+        root,
+        allowCommands: ['echo', 'sleep', 'tr', 'false', 'pwd'],
+        limits: { timeoutMs: 300 },
+      })));
+    });
+
+    it('shell_exec 应该在沙箱中执行并报告触发的限制', async () => {
+      const ok = await registry.execute('shell_exec', { command: 'pwd' });
+      expect(ok.data).toMatchObject({ stdout: await fs.realpath(root), success: true, limitsHit: [] });
+
+      const slow = await registry.execute('shell_exec', { command: 'sleep 5' });
+      expect(slow.success).toBe(true);
+      expect(slow.data).toMatchObject({ success: false, limitsHit: ['timeout'] });
+
+      const denied = await registry.execute('shell_exec', { command: 'cat /etc/passwd' });
+      expect(denied.success).toBe(false);
+      expect(denied.error).toContain('not in the allow list: cat');
+
+      const failed = await registry.execute('shell_exec', { command: 'false' });
+      expect(failed.error).toContain('exit code 1');
+      expect((await registry.execute('shell_exec', { command: 'false', ignoreError: true })).data)
+        .toMatchObject({ exitCode: 1, ignored: true });
+    });
+
+    it('shell_spawn 与 shell_pipe 应该使用同一沙箱', async () => {
+      const spawned = await registry.execute('shell_spawn', { command: 'echo', args: ['a', 'b'] });
+      expect(spawned.data).toMatchObject({ command: 'echo a b', stdout: 'a b', exitCode: 0, killed: false });
+
+      const piped = await registry.execute('shell_pipe', { commands: ['echo hello', 'tr a-z A-Z'] });
+      expect(piped.data).toMatchObject({ pipeline: 'echo hello | tr a-z A-Z', stdout: 'HELLO' });
+
+      const escaped = await registry.execute('shell_pipe', { commands: ['echo x', 'sh'] });
+      expect(escaped.error).toContain('not in the allow list: sh');
+    });
+
+    it('shell_which 与 shell_ps 不应该把参数交给 shell 解释', async () => {
+      const marker = path.join(root, 'injected');
+
+      expect((await registry.execute('shell_which', { command: 'node' })).data).toMatchObject({ exists: true });
+      const which = await registry.execute('shell_which', { command: `node; touch ${marker}` });
+      expect(which.success).toBe(false);
+
+      const ps = await registry.execute('shell_ps', { filter: `x; touch ${marker}` });
+      expect(ps.success).toBe(true);
+      expect((ps.data as { output: string }).output.split('\n')).toHaveLength(1);
+      await expect(fs.access(marker)).rejects.toThrow();
+    });
+  });
+
+  // ============================================================================
+  // 配置
+  // ============================================================================
+  describe('GlobalConfigSchema', () => {
+    it('应该提供带资源上限的默认沙箱配置', () => {
+      const sandbox = getDefaultConfig().tools.sandbox;
+      expect(sandbox).toMatchObject({
+        root: '.',
+        isolateNetwork: false,
+        limits: { timeoutMs: 120000, cpuSeconds: 60, maxOutputBytes: 1024 * 1024 },
+      });
+      expect(sandbox.limits.memoryBytes).toBeGreaterThan(0);
+
+      expect(validateConfig({ tools: { sandbox: { isolateNetwork: 'sometimes' } } }).success).toBe(false);
+      const custom = validateConfig({ tools: { sandbox: { allowCommands: ['git'], isolateNetwork: 'auto' } } });
+      expect(custom.success && new ShellSandbox(custom.data.tools.sandbox).getConfig())
+        .toMatchObject({ allowCommands: ['git'], isolateNetwork: 'auto' });
+    });
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * 会话存储 - 单元测试
+ */
+
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { SessionStore, SessionStoreError } from '../../../src/execution/session-store';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import type { ScriptedProvider } from '../../../src/execution/providers/index';
+import { SQLiteConnectionPool } from '../../../src/db/connection';
+import { MigrationManager, BUILT_IN_MIGRATIONS } from '../../../src/db/migrations';
+import { MemoryPromptManager } from '../../../src/cognitive/soft-self-reference';
+import { AgentApi } from '../../../src/adapters/agent-api';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+function request(
+  method: string,
+  url: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method, headers: { 'Content-Type': 'application/json', ...headers } }, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+describe('SessionStore', () => {
+  let pool: SQLiteConnectionPool;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    pool = new SQLiteConnectionPool({ dbPath: ':memory:', maxConnections: 1 });
+    const migrations = new MigrationManager(pool);
+    migrations.registerMany(BUILT_IN_MIGRATIONS);
+    await migrations.migrate();
+    store = new SessionStore({ pool });
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  // ============================================================================
+  // 会话
+  // ============================================================================
+  describe('Sessions', () => {
+    it('应该按用户列出会话并支持分页', async () => {
+      await store.createSession({ id: 'a1', userId: 'alice' });
+      await store.createSession({ id: 'a2', userId: 'alice' });
+      await store.createSession({ id: 'b1', userId: 'bob' });
+
+      const page = await store.listSessions({ userId: 'alice', limit: 1 });
+      expect(page.total).toBe(2);
+      expect(page.sessions).toHaveLength(1);
+      expect((await store.listSessions({ userId: 'alice', limit: 1, offset: 1 })).sessions).toHaveLength(1);
+      expect((await store.listSessions({ userId: 'bob' })).sessions.map(s => s.id)).toEqual(['b1']);
+    });
+
+    it('归档的会话默认不出现在列表中，且不能追加消息', async () => {
+      await store.createSession({ id: 's1', userId: 'alice' });
+      await store.archiveSession('s1');
+
+      expect((await store.listSessions({ userId: 'alice' })).total).toBe(0);
+      expect((await store.listSessions({ userId: 'alice', status: 'archived' })).sessions[0]).toMatchObject({
+        id: 's1',
+        status: 'archived',
+        archivedAt: expect.any(String),
+      });
+      await expect(store.appendMessages('s1', [{ role: 'user', content: 'hi' }])).rejects.toMatchObject({
+        code: 'SESSION_ARCHIVED',
+      });
+
+      await store.restoreSession('s1');
+      expect((await store.getSession('s1'))?.status).toBe('active');
+    });
+
+    it('未设置标题时应该取首条用户消息', async () => {
+      await store.appendMessages('s1', [{ role: 'user', content: 'Plan the release\nwith details' }]);
+      expect((await store.getSession('s1'))?.title).toBe('Plan the release');
+
+      await store.updateSession('s1', { title: 'Release' });
+      await store.appendMessages('s1', [{ role: 'user', content: 'another' }]);
+      expect((await store.getSession('s1'))?.title).toBe('Release');
+    });
+
+    it('不存在的会话应该抛出 SESSION_NOT_FOUND', async () => {
+      await expect(store.archiveSession('missing')).rejects.toBeInstanceOf(SessionStoreError);
+      expect(await store.deleteSession('missing')).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // 消息
+  // ============================================================================
+  describe('Messages', () => {
+    it('应该按游标向更早的历史分页', async () => {
+      await store.appendMessages('s1', Array.from({ length: 5 }, (_, i) => ({
+        role: 'user' as const,
+        content: `m${i}`,
+      })));
+
+      const latest = await store.getMessages('s1', { limit: 2 });
+      expect(latest.messages.map(m => m.content)).toEqual(['m3', 'm4']);
+      expect(latest.hasMore).toBe(true);
+
+      const older = await store.getMessages('s1', { limit: 2, before: latest.nextCursor });
+      expect(older.messages.map(m => m.content)).toEqual(['m1', 'm2']);
+
+      const oldest = await store.getMessages('s1', { limit: 2, before: older.nextCursor });
+      expect(oldest.messages.map(m => m.content)).toEqual(['m0']);
+      expect(oldest.hasMore).toBe(false);
+      expect((await store.getSession('s1'))?.messageCount).toBe(5);
+    });
+
+    it('应该保留工具调用，且最近消息不以工具结果开头', async () => {
+      await store.appendMessages('s1', [
+        { role: 'user', content: 'q' },
+        { role: 'assistant', content: '', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'echo', arguments: '{}' } }] },
+        { role: 'tool', content: 'ok', tool_call_id: 'c1' },
+        { role: 'assistant', content: 'done' },
+      ]);
+
+      const all = await store.getRecentMessages('s1', 10);
+      expect(all[1].tool_calls?.[0].function.name).toBe('echo');
+      expect(all[2]).toEqual({ role: 'tool', content: 'ok', tool_call_id: 'c1' });
+      expect((await store.getRecentMessages('s1', 2)).map(m => m.role)).toEqual(['assistant']);
+    });
+  });
+
+  // ============================================================================
+  // 会话恢复
+  // ============================================================================
+  describe('Resume', () => {
+    it('UnifiedAgent 重启后应该从存储中恢复会话历史', async () => {
+      const first = new UnifiedAgent({
+        model: createScriptedEngine([{ content: 'Nice to meet you, Ada' }]),
+        sessionStore: store,
+        scheduler: { homeostasisEnable: false },
+      });
+      try {
+        await first.chat('s1', 'My name is Ada');
+      } finally {
+        await first.stop();
+      }
+
+      const engine = createScriptedEngine([{ content: 'Your name is Ada' }]);
+      const resumed = new UnifiedAgent({ model: engine, sessionStore: store, scheduler: { homeostasisEnable: false } });
+      try {
+        await resumed.chat('s1', 'What is my name?');
+
+        const [sent] = (engine.getProvider() as ScriptedProvider).getRequests();
+        expect(sent.messages.map(m => m.content)).toEqual(
+          expect.arrayContaining(['My name is Ada', 'Nice to meet you, Ada', 'What is my name?'])
+        );
+        expect((await store.getSession('s1'))?.messageCount).toBe(4);
+      } finally {
+        await resumed.stop();
+      }
+    });
+
+    it('对话摘要应该随会话持久化，恢复后只重放摘要之后的消息', async () => {
+      const respond = (request: { messages: Array<{ content: string }> }) => ({
+        content: request.messages[0].content.startsWith('Summarize the conversation')
+          ? 'SUMMARY: the user asked many long questions'
+          : `Answer: ${'reasoning '.repeat(60)}`,
+      });
+      const conversation = {
+        selfConfigPath: path.join(os.tmpdir(), `ouroboros-resume-summary-${Date.now()}.json`),
+        maxContextWindow: 2048,
+      };
+
+      const first = new UnifiedAgent({
+        model: createScriptedEngine(Array(20).fill(respond)),
+        sessionStore: store,
+        conversation,
+        scheduler: { homeostasisEnable: false },
+      });
+      try {
+        for (let i = 0; i < 10; i++) {
+          await first.chat('s1', `Question ${i}: ${'details '.repeat(40)}`);
+        }
+      } finally {
+        await first.stop();
+      }
+
+      const session = (await store.getSession('s1'))!;
+      const persisted = session.context.conversationSummary as { summary: string; summarizedMessages: number };
+      expect(persisted.summary).toBe('SUMMARY: the user asked many long questions');
+      expect(persisted.summarizedMessages).toBeGreaterThan(0);
+
+      const engine = createScriptedEngine(Array(5).fill(respond));
+      const resumed = new UnifiedAgent({ model: engine, sessionStore: store, conversation, scheduler: { homeostasisEnable: false } });
+      try {
+        await resumed.chat('s1', 'What next?');
+
+        const sent = (engine.getProvider() as ScriptedProvider).getRequests().at(-1)!;
+        const [system, ...history] = sent.messages;
+        expect(system.content).toContain('SUMMARY: the user asked many long questions');
+        // 最近轮次只作为历史消息出现一次
+        expect(system.content).not.toContain('Earlier in This Session');
+        expect(history.length).toBeLessThanOrEqual(session.messageCount - persisted.summarizedMessages + 1);
+        expect(history.map(m => m.content)).not.toContain(`Question 0: ${'details '.repeat(40)}`);
+      } finally {
+        await resumed.stop();
+      }
+    });
+
+    it('MemoryPromptManager.updateContext 应该在会话恢复时加载最近轮次', async () => {
+      await store.appendMessages('s1', [
+        { role: 'user', content: 'We chose PostgreSQL' },
+        { role: 'assistant', content: 'Noted, PostgreSQL it is' },
+      ]);
+      const manager = new MemoryPromptManager(2000);
+      manager.setHistorySource(store);
+
+      await manager.updateContext({ sessionId: 's1', topic: 'database' });
+      const segment = manager.assemble(
+        { recentMemories: [], retrievedMemories: [], userMessage: 'continue' },
+        text => Math.ceil(text.length / 4)
+      );
+
+      expect(segment.content).toContain('Topic: database');
+      expect(segment.content).toContain('user: We chose PostgreSQL');
+      expect(segment.content).toContain('assistant: Noted, PostgreSQL it is');
+    });
+  });
+
+  // ============================================================================
+  // REST 路由
+  // ============================================================================
+  describe('Routes', () => {
+    it('应该通过 /api/v1/sessions 管理会话与消息', async () => {
+      const api = new AgentApi({ sessionStore: store });
+      const server = http.createServer((req, res) => {
+        void api.handle(req, res, new URL(req.url ?? '/', 'http://127.0.0.1'));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/sessions`;
+
+      try {
+        const created = await request('POST', base, { id: 's1', userId: 'alice' });
+        expect(created.status).toBe(201);
+
+        for (const content of ['one', 'two', 'three']) {
+          expect((await request('POST', `${base}/s1/messages`, { content })).status).toBe(201);
+        }
+
+        const page = await request('GET', `${base}/s1/messages?limit=2`);
+        expect(page.body.messages.map((m: { content: string }) => m.content)).toEqual(['two', 'three']);
+        expect(page.body.hasMore).toBe(true);
+
+        const patched = await request('PATCH', `${base}/s1`, { title: 'Counting', archived: true });
+        expect(patched.body).toMatchObject({ title: 'Counting', status: 'archived' });
+        expect((await request('POST', `${base}/s1/messages`, { content: 'four' })).status).toBe(409);
+
+        const listed = await request('GET', `${base}?status=all`);
+        expect(listed.body.total).toBe(1);
+
+        expect((await request('DELETE', `${base}/s1`)).status).toBe(200);
+        expect((await request('GET', `${base}/s1`)).status).toBe(404);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('应该校验请求体与路径编码', async () => {
+      const api = new AgentApi({ sessionStore: store }, { maxBodyBytes: 1024 });
+      const server = http.createServer((req, res) => {
+        void api.handle(req, res, new URL(req.url ?? '/', 'http://127.0.0.1'));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/sessions`;
+
+      try {
+        await store.createSession({ id: 's1' });
+        for (const role of ['system', 'assistant', 'tool']) {
+          expect((await request('POST', `${base}/s1/messages`, { content: 'x', role })).status).toBe(400);
+        }
+        expect((await request('POST', `${base}/s1/messages`, { content: { text: 'x' } })).status).toBe(400);
+        expect((await request('POST', base, { title: 42 })).status).toBe(400);
+        expect((await request('POST', base, ['not', 'an', 'object'])).status).toBe(400);
+        expect((await request('PATCH', `${base}/s1`, { archived: 'yes' })).status).toBe(400);
+
+        const large = await request('POST', `${base}/s1/messages`, { content: 'x'.repeat(2048) });
+        expect(large).toMatchObject({ status: 413, body: { code: 'PAYLOAD_TOO_LARGE' } });
+        expect((await request('GET', `${base}/%E0%A4%A`)).status).toBe(400);
+
+        expect((await store.getMessages('s1')).messages).toHaveLength(0);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('会话应该归属认证后的调用者，而不是请求体中的 userId', async () => {
+      const api = new AgentApi({ sessionStore: store }, {
+        authenticate: req => (req.headers['x-test-user'] as string | undefined) ?? null,
+      });
+      const server = http.createServer((req, res) => {
+        void api.handle(req, res, new URL(req.url ?? '/', 'http://127.0.0.1'));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/sessions`;
+      const alice = { 'x-test-user': 'alice' };
+
+      try {
+        const spoofed = await request('POST', base, { id: 'anon', userId: 'admin' });
+        expect(spoofed.body.userId).toBeUndefined();
+        expect((await store.getSession('anon'))?.userId).toBeUndefined();
+
+        const owned = await request('POST', base, { id: 'mine', userId: 'admin' }, alice);
+        expect(owned.body.userId).toBe('alice');
+        expect((await request('POST', `${base}/other/messages`, { content: 'hi' }, alice)).status).toBe(201);
+        expect((await store.getSession('other'))?.userId).toBe('alice');
+
+        // 匿名调用者看不到也不能访问他人的会话
+        expect((await request('GET', `${base}/mine`)).status).toBe(404);
+        expect((await request('POST', `${base}/mine/messages`, { content: 'hi' })).status).toBe(404);
+        expect((await request('DELETE', `${base}/mine`)).status).toBe(404);
+        expect((await request('GET', `${base}/anon`, undefined, alice)).status).toBe(404);
+
+        expect((await request('GET', base)).body.sessions.map((s: { id: string }) => s.id)).toEqual(['anon']);
+        expect((await request('GET', base, undefined, alice)).body.total).toBe(2);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+});
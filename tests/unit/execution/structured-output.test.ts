@@ -0,0 +1,124 @@
+/**
+ * 结构化输出 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import { z } from 'zod';
+import {
+  createScriptedEngine,
+  createOpenAIEngine,
+} from '../../../src/execution/model-engine';
+import type { ScriptedProvider } from '../../../src/execution/providers/index';
+import { ModelRouter } from '../../../src/execution/model-router';
+import { describeSchema, extractJson } from '../../../src/execution/structured-output';
+import { ValidationError } from '../../../src/utils/errors';
+import { mockFetchResponse } from '../../setup';
+
+const fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const TaskSchema = z.object({
+  title: z.string(),
+  priority: z.enum(['low', 'high']),
+  tags: z.array(z.string()).optional(),
+});
+
+describe('Structured output', () => {
+  // ============================================================================
+  // 解析
+  // ============================================================================
+  describe('Parsing', () => {
+    it('应该容忍代码块与前后说明文字', () => {
+      expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+      expect(extractJson('Here you go: {"a": [1, 2]} hope it helps')).toEqual({ a: [1, 2] });
+      expect(() => extractJson('no json here')).toThrow();
+    });
+
+    it('应该把 zod 模式描述为 JSON Schema', () => {
+      expect(describeSchema(TaskSchema)).toEqual({
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          priority: { enum: ['low', 'high'] },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['title', 'priority'],
+      });
+    });
+  });
+
+  // ============================================================================
+  // 校验与重新提示
+  // ============================================================================
+  describe('completeStructured', () => {
+    it('首次有效时应该直接返回并请求 JSON 模式', async () => {
+      const engine = createScriptedEngine([{ content: '{"title":"ship","priority":"high"}' }]);
+
+      const result = await engine.completeStructured([{ role: 'user', content: 'plan' }], TaskSchema);
+
+      expect(result.data).toEqual({ title: 'ship', priority: 'high' });
+      expect(result.attempts).toBe(1);
+      const [request] = (engine.getProvider() as ScriptedProvider).getRequests();
+      expect(request.responseFormat).toBe('json');
+      expect(request.messages[request.messages.length - 1]).toMatchObject({ role: 'system' });
+    });
+
+    it('校验失败时应该携带错误重新提示', async () => {
+      const engine = createScriptedEngine([
+        { content: '{"title":"ship","priority":"urgent"}', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } },
+        { content: '{"title":"ship","priority":"low"}', usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 } },
+      ]);
+
+      const result = await engine.completeStructured([{ role: 'user', content: 'plan' }], TaskSchema);
+
+      expect(result.data.priority).toBe('low');
+      expect(result.attempts).toBe(2);
+      expect(result.usage.totalTokens).toBe(40);
+      const retry = (engine.getProvider() as ScriptedProvider).getRequests()[1];
+      const correction = retry.messages[retry.messages.length - 1];
+      expect(correction.role).toBe('user');
+      expect(correction.content).toContain('priority');
+    });
+
+    it('超过重试次数后应该抛出 ValidationError', async () => {
+      const engine = createScriptedEngine([
+        { content: 'not json' },
+        { content: '{"title": 1}' },
+      ]);
+
+      const error = await engine
+        .completeStructured([{ role: 'user', content: 'plan' }], TaskSchema, { maxRetries: 1 })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.code).toBe('VAL_INVALID_INPUT');
+      expect(error.validationErrors.map((issue: { field: string }) => issue.field)).toEqual(
+        expect.arrayContaining(['title', 'priority'])
+      );
+      expect(error.metadata).toMatchObject({ attempts: 2, lastResponse: '{"title": 1}' });
+    });
+
+    it('经 ModelRouter 时也应该可用', async () => {
+      const router = new ModelRouter({
+        routes: [{ name: 'main', tier: 'standard', engine: createScriptedEngine([{ content: '{"title":"x","priority":"low"}' }]) }],
+      });
+
+      const result = await router.completeStructured([], TaskSchema);
+
+      expect(result.data.title).toBe('x');
+      expect(result.completion.metadata?.routing?.route).toBe('main');
+    });
+
+    it('OpenAI 提供商应该发送 response_format', async () => {
+      mockFetchResponse({
+        choices: [{ message: { content: '{"title":"t","priority":"low"}' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+      });
+      const engine = createOpenAIEngine('sk-test', 'gpt-4o-mini');
+
+      await engine.completeStructured([{ role: 'user', content: 'plan' }], TaskSchema);
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(body.response_format).toEqual({ type: 'json_object' });
+    });
+  });
+});
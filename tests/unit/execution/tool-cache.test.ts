@@ -0,0 +1,288 @@
+/**
+ * 工具结果缓存 - 单元测试
+ */
+
+import { jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolResultCache, canonicalize } from '../../../src/execution/tool-cache';
+import { ToolRegistry } from '../../../src/execution/tool-registry';
+import type { ToolDefinition } from '../../../src/execution/tool-registry';
+import { createFileTools } from '../../../src/execution/tools/file';
+import { createShellTools } from '../../../src/execution/tools/shell';
+import { createHttpTools } from '../../../src/execution/tools/http';
+import { ShellSandbox } from '../../../src/execution/sandbox';
+import { PathPolicy, SELF_MODIFICATION_FLOW } from '../../../src/execution/path-policy';
+import { getDefaultConfig } from '../../../src/config/index';
+
+function counter(overrides: Partial<ToolDefinition> = {}): ToolDefinition & { calls: () => number } {
+  let calls = 0;
+  return {
+    name: 'lookup',
+    description: 'Lookup tool',
+    parameters: { type: 'object', properties: {} },
+    cacheable: true,
+    execute: async args => ({ call: ++calls, args }),
+    calls: () => calls,
+    ...overrides,
+  };
+}
+
+describe('ToolResultCache', () => {
+  // ============================================================================
+  // 缓存本身
+  // ============================================================================
+  describe('Cache', () => {
+    it('规范化参数应该与键顺序无关并忽略 undefined', () => {
+      expect(canonicalize({ b: 1, a: { d: [1, { f: 2, e: undefined }], c: 'x' } }))
+        .toBe(canonicalize({ a: { c: 'x', d: [1, { f: 2 }] }, b: 1 }));
+      expect(canonicalize({ a: 1 })).not.toBe(canonicalize({ a: '1' }));
+    });
+
+    it('应该按 TTL 过期并按 LRU 淘汰', () => {
+      jest.useFakeTimers();
+      try {
+        const cache = new ToolResultCache({ maxEntries: 2, defaultTtlMs: 1000 });
+        cache.set('t', { n: 1 }, 'one');
+        cache.set('t', { n: 2 }, 'two', 5000);
+        expect(cache.get('t', { n: 1 })?.data).toBe('one');
+
+        // n=2 最久未使用，被淘汰
+        cache.set('t', { n: 3 }, 'three');
+        expect(cache.get('t', { n: 2 })).toBeUndefined();
+
+        jest.advanceTimersByTime(1000);
+        expect(cache.get('t', { n: 1 })).toBeUndefined();
+        expect(cache.size()).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('应该按工具、参数或自定义条件失效', () => {
+      const cache = new ToolResultCache();
+      cache.set('read', { path: 'a', encoding: 'utf-8' }, { path: '/x/a' });
+      cache.set('read', { path: 'b' }, { path: '/x/b' });
+      cache.set('other', { path: 'a' }, {});
+
+      expect(cache.invalidate({ tool: 'read', args: { path: 'a' } })).toBe(1);
+      expect(cache.invalidate({ tool: 'read', match: (_, data) => (data as { path: string }).path === '/x/b' })).toBe(1);
+      expect(cache.invalidate({ tool: 'other' })).toBe(1);
+      expect(cache.size()).toBe(0);
+    });
+
+    it('省略工具名时应该失效全部条目', () => {
+      const cache = new ToolResultCache();
+      cache.set('read', { path: 'a' }, 1);
+      cache.set('other', {}, 2, undefined, 'user');
+
+      expect(cache.invalidate({})).toBe(2);
+      expect(cache.size()).toBe(0);
+    });
+  });
+
+  // ============================================================================
+  // 注册中心集成
+  // ============================================================================
+  describe('ToolRegistry', () => {
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+      registry = new ToolRegistry();
+    });
+
+    it('cacheable 工具的重复调用应该命中缓存并计入统计', async () => {
+      const tool = counter();
+      registry.register(tool);
+
+      const first = await registry.execute('lookup', { b: 2, a: 1 });
+      const second = await registry.execute('lookup', { a: 1, b: 2 });
+      const other = await registry.execute('lookup', { a: 2 });
+
+      expect(first.metadata?.cached).toBeUndefined();
+      expect(second).toMatchObject({ success: true, data: first.data, metadata: { cached: true } });
+      expect(other.data).toMatchObject({ call: 2 });
+      expect(tool.calls()).toBe(2);
+      expect(registry.getStats('lookup')).toMatchObject({ totalCalls: 3, successCalls: 3, cacheHits: 1 });
+
+      const fresh = await registry.execute('lookup', { a: 1, b: 2 }, { bypassCache: true });
+      expect(fresh.data).toMatchObject({ call: 3 });
+    });
+
+    it('失败结果、未标记的工具与禁用缓存时不应该缓存', async () => {
+      let calls = 0;
+      registry.register(counter({
+        execute: async () => {
+          if (++calls === 1) throw new Error('transient');
+          return calls;
+        },
+      }));
+      const plain = counter({ name: 'plain', cacheable: false });
+      registry.register(plain);
+
+      expect((await registry.execute('lookup', {})).success).toBe(false);
+      expect((await registry.execute('lookup', {})).data).toBe(2);
+      await registry.execute('plain', {});
+      await registry.execute('plain', {});
+      expect(plain.calls()).toBe(2);
+
+      registry.setCache(null);
+      await registry.execute('lookup', {});
+      expect(calls).toBe(3);
+    });
+
+    it('写工具应该按 invalidates 失效缓存，更新工具时清空其缓存', async () => {
+      const tool = counter();
+      registry.register(tool);
+      registry.register({
+        name: 'store',
+        description: 'Store tool',
+        parameters: { type: 'object', properties: { key: { type: 'string', description: 'Key' } } },
+        execute: async args => args,
+        invalidates: args => [{ tool: 'lookup', args: { key: args.key } }],
+      });
+
+      await registry.execute('lookup', { key: 'a' });
+      await registry.execute('lookup', { key: 'b' });
+      await registry.execute('store', { key: 'a' });
+      await registry.execute('lookup', { key: 'a' });
+      await registry.execute('lookup', { key: 'b' });
+      expect(tool.calls()).toBe(3);
+
+      registry.update('lookup', { ttlMs: 60000 });
+      await registry.execute('lookup', { key: 'b' });
+      expect(tool.calls()).toBe(4);
+    });
+
+    it('invalidates 抛出时工具结果仍为成功，错误单独上报并清空缓存', async () => {
+      const tool = counter();
+      registry.register(tool);
+      const store = jest.fn(async () => 'stored');
+      registry.register(counter({
+        name: 'store',
+        cacheable: false,
+        execute: store,
+        invalidates: () => {
+          throw new Error('bad invalidation');
+        },
+      }));
+      const failed = jest.fn();
+      registry.on('invalidationFailed', failed);
+
+      await registry.execute('lookup', {});
+      const result = await registry.execute('store', {});
+
+      expect(result).toMatchObject({ success: true, data: 'stored', metadata: { invalidationError: 'bad invalidation' } });
+      expect(store).toHaveBeenCalledTimes(1);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ name: 'store', error: 'bad invalidation' }));
+      expect(registry.getStats('store')).toMatchObject({ successCalls: 1, failedCalls: 0 });
+      expect((await registry.execute('lookup', {})).metadata?.cached).toBeUndefined();
+      expect(tool.calls()).toBe(2);
+    });
+
+    it('仅幂等工具按 retry 选项重试', async () => {
+      let calls = 0;
+      const flaky = async () => {
+        if (++calls < 3) throw new Error(`attempt ${calls}`);
+        return 'ok';
+      };
+      registry.register(counter({ name: 'once', cacheable: false, execute: flaky }));
+      expect((await registry.execute('once', {}, { retry: true })).error).toBe('attempt 1');
+
+      calls = 0;
+      registry.register(counter({ name: 'safe', cacheable: false, idempotent: true, execute: flaky }));
+      const retried = jest.fn();
+      registry.on('toolRetry', retried);
+      expect((await registry.execute('safe', {}, { retry: true })).data).toBe('ok');
+      expect(retried).toHaveBeenCalledTimes(2);
+    });
+
+    it('file_write 应该失效该路径的 file_read 缓存', async () => {
+      const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-cache-')));
+      try {
+        registry.registerMany(createFileTools(new PathPolicy({ allowedRoots: [dir] })).map(tool => ({
+          ...tool,
+          requireConfirmation: false,
+        })));
+        const file = path.join(dir, 'a.txt');
+        await fs.writeFile(file, 'v1');
+        await fs.writeFile(path.join(dir, 'b.txt'), 'b');
+
+        expect((await registry.execute('file_read', { path: file })).data).toMatchObject({ content: 'v1' });
+        await registry.execute('file_read', { path: path.join(dir, 'b.txt') });
+        await registry.execute('file_write', { path: file, content: 'v2' });
+
+        const reread = await registry.execute('file_read', { path: file });
+        expect(reread.data).toMatchObject({ content: 'v2' });
+        expect(reread.metadata?.cached).toBeUndefined();
+        expect((await registry.execute('file_read', { path: path.join(dir, 'b.txt') })).metadata?.cached).toBe(true);
+
+        // 删除目录时失效其下所有文件
+        await registry.execute('file_delete', { path: dir, recursive: true });
+        expect((await registry.execute('file_read', { path: file })).success).toBe(false);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('shell 命令失效全部缓存，HTTP 写请求失效同一主机的 http_get', async () => {
+      const lookup = counter();
+      registry.register(lookup);
+      registry.registerMany(createShellTools(new ShellSandbox({ root: os.tmpdir() })).map(tool => ({
+        ...tool,
+        requireConfirmation: false,
+      })));
+
+      await registry.execute('lookup', {});
+      await registry.execute('shell_exec', { command: 'true' });
+      expect((await registry.execute('lookup', {})).metadata?.cached).toBeUndefined();
+      expect(lookup.calls()).toBe(2);
+
+      const cache = new ToolResultCache();
+      cache.set('http_get', { url: 'http://a.test/items' }, 'a');
+      cache.set('http_get', { url: 'http://b.test/items' }, 'b');
+      const tools = createHttpTools();
+      const invalidations = (name: string, args: Record<string, unknown>) =>
+        tools.find(tool => tool.name === name)!.invalidates!(args, {});
+
+      expect(invalidations('http_request', { method: 'GET', url: 'http://a.test/items' })).toEqual([]);
+      for (const invalidation of invalidations('http_post', { url: 'http://a.test/items/1' })) {
+        cache.invalidate(invalidation);
+      }
+      expect(cache.get('http_get', { url: 'http://a.test/items' })).toBeUndefined();
+      expect(cache.get('http_get', { url: 'http://b.test/items' })?.data).toBe('b');
+    });
+
+    it('缓存应该按调用者范围隔离，自指流程读取的源码不返回给其他调用者', async () => {
+      const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ouroboros-cache-')));
+      try {
+        registry.registerMany(createFileTools(new PathPolicy({ baseDir: dir, allowedRoots: ['.'] })));
+        await fs.mkdir(path.join(dir, 'src'));
+        await fs.writeFile(path.join(dir, 'src', 'agent.ts'), 'export {}');
+
+        const elevated = await registry.execute('file_read', { path: 'src/agent.ts' }, {
+          context: { source: 'system', metadata: { flow: SELF_MODIFICATION_FLOW } },
+        });
+        expect(elevated.data).toMatchObject({ content: 'export {}' });
+
+        const agent = await registry.execute('file_read', { path: 'src/agent.ts' }, { context: { source: 'agent' } });
+        expect(agent).toMatchObject({ success: false, error: expect.stringContaining('source') });
+
+        const lookup = counter();
+        registry.register(lookup);
+        await registry.execute('lookup', { q: 1 }, { context: { source: 'user', userId: 'alice' } });
+        await registry.execute('lookup', { q: 1 }, { context: { source: 'user', userId: 'bob' } });
+        const again = await registry.execute('lookup', { q: 1 }, { context: { source: 'user', userId: 'alice' } });
+        expect(again.metadata?.cached).toBe(true);
+        expect(lookup.calls()).toBe(2);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  it('应该提供默认缓存配置', () => {
+    expect(getDefaultConfig().tools.cache).toEqual({ enabled: true, maxEntries: 500, defaultTtlMs: 30000 });
+  });
+});
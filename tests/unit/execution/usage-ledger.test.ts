@@ -0,0 +1,200 @@
+/**
+ * 用量账本 - 单元测试
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { jest } from '@jest/globals';
+import { UsageLedger } from '../../../src/execution/usage-ledger';
+import { createScriptedEngine } from '../../../src/execution/model-engine';
+import { SQLiteConnectionPool } from '../../../src/db/connection';
+import { MigrationManager, BUILT_IN_MIGRATIONS } from '../../../src/db/migrations';
+import { AgentApi } from '../../../src/adapters/agent-api';
+import { UnifiedAgent } from '../../../src/unified-agent';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+function getJSON(url: string): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+    }).on('error', reject);
+  });
+}
+
+describe('UsageLedger', () => {
+  // ============================================================================
+  // 记录与汇总
+  // ============================================================================
+  describe('Accounting', () => {
+    it('应该按最长前缀估算成本，本地提供商不计费', () => {
+      const ledger = new UsageLedger();
+
+      expect(ledger.estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage(1_000_000, 1_000_000))).toBeCloseTo(0.75);
+      expect(ledger.estimateCost('openai', 'gpt-4o', usage(1_000_000, 0))).toBeCloseTo(2.5);
+      expect(ledger.estimateCost('ollama', 'llama3.2', usage(1000, 1000))).toBe(0);
+      expect(ledger.estimateCost('openai', 'unknown-model', usage(1000, 1000))).toBe(0);
+    });
+
+    it('应该按模型与会话汇总用量', async () => {
+      const ledger = new UsageLedger();
+
+      await ledger.record({ provider: 'openai', model: 'gpt-4o' }, usage(100, 50), { sessionId: 's1', loopId: 'l1' });
+      await ledger.record({ provider: 'openai', model: 'gpt-4o' }, usage(10, 5), { sessionId: 's1', loopId: 'l1' });
+      await ledger.record({ provider: 'ollama', model: 'llama3.2' }, usage(20, 20), { sessionId: 's2' });
+
+      const summary = await ledger.getSummary();
+      expect(summary.total).toMatchObject({ requests: 3, totalTokens: 205 });
+      expect(summary.today.totalTokens).toBe(205);
+      expect(summary.byModel['gpt-4o'].requests).toBe(2);
+      expect(summary.bySession.s2.totalTokens).toBe(40);
+      expect((await ledger.getSummary({ sessionId: 's1' })).total.totalTokens).toBe(165);
+      expect(ledger.getSnapshot().today.requests).toBe(3);
+    });
+
+    it('应该持久化到 SQLite 并在重启后恢复当日合计', async () => {
+      const pool = new SQLiteConnectionPool({ dbPath: ':memory:', maxConnections: 1 });
+      try {
+        const migrations = new MigrationManager(pool);
+        migrations.registerMany(BUILT_IN_MIGRATIONS);
+        const results = await migrations.migrate();
+        expect(results.every(r => r.success)).toBe(true);
+
+        const ledger = new UsageLedger({ pool });
+        await ledger.record({ provider: 'openai', model: 'gpt-4o-mini' }, usage(1000, 500), { sessionId: 's1', loopId: 'l1' });
+
+        const row = await pool.get<{ session_id: string; loop_id: string; total_tokens: number }>(
+          'SELECT session_id, loop_id, total_tokens FROM usage_ledger'
+        );
+        expect(row).toEqual({ session_id: 's1', loop_id: 'l1', total_tokens: 1500 });
+
+        const restored = new UsageLedger({ pool, budget: { sessionTokens: 1000 } });
+        await restored.initialize();
+        expect(restored.getSnapshot().today.totalTokens).toBe(1500);
+        expect((await restored.checkBudget('s1')).exceeded).toBe(true);
+        expect((await restored.getSummary()).byModel['gpt-4o-mini'].requests).toBe(1);
+      } finally {
+        await pool.close();
+      }
+    });
+  });
+
+  // ============================================================================
+  // 预算
+  // ============================================================================
+  describe('Budgets', () => {
+    it('超出会话预算时 ModelEngine 应该拒绝请求', async () => {
+      const ledger = new UsageLedger({ budget: { sessionTokens: 10 } });
+      const engine = createScriptedEngine([{ content: 'one', usage: usage(8, 4) }, { content: 'two' }]);
+      engine.setUsageLedger(ledger);
+
+      await engine.complete([{ role: 'user', content: 'x' }], undefined, { sessionId: 's1' });
+
+      await expect(
+        engine.complete([{ role: 'user', content: 'x' }], undefined, { sessionId: 's1' })
+      ).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', details: { scope: 'session' } });
+      // 其他会话不受影响
+      await expect(
+        engine.complete([{ role: 'user', content: 'x' }], undefined, { sessionId: 's2' })
+      ).resolves.toMatchObject({ content: 'two' });
+    });
+
+    it('配置降级模型时应该降级并在元数据中说明', async () => {
+      const ledger = new UsageLedger({
+        budget: { dailyTokens: 5, onExceeded: 'downgrade', downgradeTo: { model: 'cheap-model' } },
+      });
+      const engine = createScriptedEngine([{ content: 'a', usage: usage(5, 5) }, { content: 'b' }]);
+      engine.setUsageLedger(ledger);
+      const onDowngrade = jest.fn();
+      engine.on('budgetDowngrade', onDowngrade);
+
+      const first = await engine.complete([{ role: 'user', content: 'x' }]);
+      const second = await engine.complete([{ role: 'user', content: 'x' }]);
+
+      expect(first.metadata?.budget).toBeUndefined();
+      expect(second.metadata).toMatchObject({
+        model: 'cheap-model',
+        budget: { exceeded: true, action: 'downgrade', scope: 'daily' },
+      });
+      expect(onDowngrade).toHaveBeenCalledTimes(1);
+      expect((await ledger.getSummary()).byModel['cheap-model'].requests).toBe(1);
+    });
+
+    it('流式请求结束后应该记录用量', async () => {
+      const ledger = new UsageLedger();
+      const engine = createScriptedEngine([{ content: 'hello world', usage: usage(3, 2) }]);
+      engine.setUsageLedger(ledger);
+
+      for await (const _chunk of engine.stream([{ role: 'user', content: 'x' }], undefined, { sessionId: 's1' })) {
+        // 消费全部分块
+      }
+
+      expect((await ledger.getSummary({ sessionId: 's1' })).total.totalTokens).toBe(5);
+    });
+  });
+
+  // ============================================================================
+  // 集成
+  // ============================================================================
+  describe('Integration', () => {
+    it('UnifiedAgent 对话应该按会话与工具循环记录用量，并在状态中展示', async () => {
+      const ledger = new UsageLedger();
+      const agent = new UnifiedAgent({
+        model: createScriptedEngine([
+          { toolCalls: [{ id: 'c1', type: 'function', function: { name: 'echo', arguments: '{}' } }] },
+          { content: 'done' },
+        ]),
+        usageLedger: ledger,
+        scheduler: { homeostasisEnable: false },
+      });
+      agent.registerTool({
+        name: 'echo',
+        description: 'Echo',
+        parameters: {},
+        execute: async () => 'ok',
+      });
+
+      try {
+        await agent.chat('s1', 'hi');
+
+        const entries = (ledger as any).entries as Array<{ sessionId: string; loopId: string }>;
+        expect(entries).toHaveLength(2);
+        expect(entries.every(e => e.sessionId === 's1')).toBe(true);
+        expect(entries[0].loopId).toBe(entries[1].loopId);
+        expect(agent.getStatus().usage?.today.requests).toBe(2);
+      } finally {
+        await agent.stop();
+      }
+    });
+
+    it('GET /api/v1/usage 应该返回汇总与预算', async () => {
+      const ledger = new UsageLedger({ budget: { dailyCostUsd: 5 } });
+      await ledger.record({ provider: 'openai', model: 'gpt-4o' }, usage(100, 100), { sessionId: 's1' });
+
+      const api = new AgentApi({ usageLedger: ledger });
+      const server = http.createServer((req, res) => {
+        void api.handle(req, res, new URL(req.url ?? '/', 'http://127.0.0.1'));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const { status, body } = await getJSON(`http://127.0.0.1:${port}/api/v1/usage?sessionId=s1`);
+        expect(status).toBe(200);
+        expect(body.total.totalTokens).toBe(200);
+        expect(body.budget.dailyCostUsd).toBe(5);
+
+        const bad = await getJSON(`http://127.0.0.1:${port}/api/v1/usage?since=not-a-date`);
+        expect(bad.status).toBe(400);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+});